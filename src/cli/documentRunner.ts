@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import { ConnectionSettings } from '../connectionSettings';
+import { OpenSearchClient } from '../opensearchClient';
+import { BaseParser, IDocumentParser, MarkdownParser, RstParser, StringTextSource } from '../parsers';
+import { BlockRunSummary, ExpectedBlock, QueryBlock, QueryResult, QueryType, TextRange, TextSource } from '../types';
+import { ErrorHandler } from '../utils/errorHandler';
+import { QueryExecutionEngine } from '../utils/queryExecutor';
+import { QueryResolver, ResolvedQuery } from '../utils/queryResolver';
+import { ResponseProcessor } from '../utils/responseProcessor';
+import { AssertionOutcome, SnapshotAssertion } from '../utils/snapshotAssertion';
+
+/**
+ * Outcome of one block. A block fails when its query fails or its expectation does not match.
+ */
+export interface BlockReport extends BlockRunSummary {
+    assertion?: AssertionOutcome;
+}
+
+export interface DocumentReport {
+    file: string;
+    blocks: BlockReport[];
+    // Set when the document could not be read or parsed
+    error?: string;
+}
+
+export interface DocumentRunOptions {
+    stopOnFailure: boolean;
+}
+
+/**
+ * Runs the query blocks of Markdown and RST documents outside VS Code,
+ * in document order, and checks their expected results
+ */
+export class DocumentRunner {
+    private settings: ConnectionSettings;
+    private client: OpenSearchClient;
+
+    constructor(settings: ConnectionSettings, client: OpenSearchClient) {
+        this.settings = settings;
+        this.client = client;
+    }
+
+    public async runFile(file: string, options: DocumentRunOptions): Promise<DocumentReport> {
+        let text: string;
+        try {
+            text = fs.readFileSync(file, 'utf8');
+        } catch (error: any) {
+            return { file, blocks: [], error: `Cannot read ${file}: ${error.message}` };
+        }
+        return this.runDocument(file, StringTextSource.forFile(file, text), options);
+    }
+
+    public async runDocument(file: string, document: TextSource, options: DocumentRunOptions): Promise<DocumentReport> {
+        const parser: IDocumentParser = document.languageId === 'restructuredtext' ? new RstParser() : new MarkdownParser();
+        let queryBlocks: QueryBlock<TextRange>[];
+        let expectedBlocks: ExpectedBlock<TextRange>[];
+        try {
+            queryBlocks = parser.parseDocument(document);
+            expectedBlocks = parser.parseExpectedBlocks(document);
+            const configBlocks = parser.parseConfigurationBlocks(document);
+            for (const queryBlock of queryBlocks) {
+                queryBlock.connectionOverrides = BaseParser.findPrecedingConfiguration(queryBlock.range.start, configBlocks) || undefined;
+            }
+        } catch (error: any) {
+            return { file, blocks: [], error: `Cannot parse ${file}: ${error.message}` };
+        }
+
+        // Responses of named blocks for `{{name.response...}}` references
+        const responses = new Map<string, QueryResult>();
+        const blocks: BlockReport[] = [];
+        let failed = false;
+
+        for (const [index, block] of queryBlocks.entries()) {
+            const report: BlockReport = {
+                index,
+                line: block.range.start.line,
+                type: block.type,
+                name: block.metadata?.name,
+                preview: BaseParser.getQueryPreview(block.metadata?.endpoint ? `${block.metadata.method} ${block.metadata.endpoint}` : block.content),
+                status: 'skipped'
+            };
+            blocks.push(report);
+            if (failed && options.stopOnFailure) {
+                continue;
+            }
+
+            const result = await this.executeBlock(block, queryBlocks, responses);
+            report.executionTime = result.executionTime;
+            report.rowCount = result.rowCount;
+            report.result = result;
+            if (!result.success) {
+                report.status = 'failed';
+                report.error = result.error;
+                failed = true;
+                continue;
+            }
+
+            const expectation = SnapshotAssertion.findExpectation(block, queryBlocks, expectedBlocks);
+            if (expectation) {
+                report.assertion = SnapshotAssertion.check(expectation, result);
+                if (!report.assertion.passed) {
+                    report.status = 'failed';
+                    report.error = report.assertion.message;
+                    failed = true;
+                    continue;
+                }
+            }
+            report.status = 'success';
+        }
+
+        return { file, blocks };
+    }
+
+    /**
+     * Executes a block like QueryRunner does in the extension. Blocks referenced by
+     * `{{name.response...}}` that did not run yet are run first.
+     */
+    private async executeBlock(
+        block: QueryBlock<TextRange>,
+        queryBlocks: QueryBlock<TextRange>[],
+        responses: Map<string, QueryResult>,
+        chain: string[] = []
+    ): Promise<QueryResult> {
+        const startTime = Date.now();
+        let resolved: ResolvedQuery;
+        try {
+            const chainedVariables = await QueryResolver.resolveChainedVariables(
+                block,
+                responses,
+                () => queryBlocks,
+                (dependency, dependencyChain) => this.executeBlock(dependency, queryBlocks, responses, dependencyChain),
+                chain
+            );
+            resolved = QueryResolver.resolve(this.settings, block.content, block.metadata, block.connectionOverrides, chainedVariables);
+        } catch (error: any) {
+            return ErrorHandler.createErrorResponse(error, startTime);
+        }
+        const overrides = resolved.connectionOverrides;
+
+        const context = QueryExecutionEngine.createContext(resolved.query, block.type, block.metadata?.timeout, resolved.metadata, overrides);
+        const validationError = QueryExecutionEngine.validateQuery(context);
+        if (validationError) {
+            return validationError;
+        }
+
+        const result = await QueryExecutionEngine.executeWithErrorHandling(
+            context,
+            (ctx) => ctx.queryType === QueryType.OPENSEARCH_API
+                ? this.client.executeApiOperationWithOverrides(ctx.metadata.method, ctx.metadata.endpoint, ctx.query, ctx.connectionOverrides)
+                : this.client.executeQueryWithOverrides(ctx.query, ctx.queryType, ctx.connectionOverrides, undefined, ctx.metadata?.fetchSize),
+            (response, executionTime, queryType) => ResponseProcessor.processQueryResponse(response, executionTime, queryType)
+        );
+
+        if (result.cursor) {
+            // Only the first page is checked; release the cursor right away
+            await this.client.closeCursor(result.cursor, overrides).catch(() => undefined);
+            result.cursor = undefined;
+        }
+        if (block.metadata?.name && result.success) {
+            responses.set(block.metadata.name, result);
+        }
+        return result;
+    }
+}
+
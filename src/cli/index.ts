@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConnectionSettings } from '../connectionSettings';
+import { OpenSearchClient } from '../opensearchClient';
+import { SecretResolver } from '../utils/secretResolver';
+import { OidcTokenProvider } from '../utils/oidcTokenProvider';
+import { DocumentRunner, DocumentReport } from './documentRunner';
+import { ReportFormatter, ReportFormat } from './reportFormatter';
+import { SettingsFile, EnvironmentSecretStore } from './settingsFile';
+
+export interface CliOptions {
+    paths: string[];
+    connection?: string;
+    environment?: string;
+    endpoint?: string;
+    settingsFile?: string;
+    format: ReportFormat;
+    output?: string;
+    stopOnFailure: boolean;
+    help: boolean;
+}
+
+/**
+ * Exit codes of the CLI
+ */
+export enum ExitCode {
+    Success = 0,
+    Failures = 1,
+    UsageError = 2,
+    RuntimeError = 3
+}
+
+/**
+ * Headless runner for query documents:
+ * `opensearch-query-runner run docs/*.md --connection ci --format junit`
+ */
+export class Cli {
+    private static readonly DEFAULT_SETTINGS_FILE = path.join('.vscode', 'settings.json');
+    private static readonly DOCUMENT_EXTENSION_REGEX = /\.(md|markdown|rst)$/i;
+
+    public static readonly USAGE = `Usage: opensearch-query-runner run <file or directory>... [options]
+
+Runs the query blocks of Markdown and reStructuredText documents and checks their
+expected results. Directories are searched for .md and .rst files.
+
+Options:
+  --connection <name>  Connection profile from "opensearch.connections" to use by default
+  --env <name>         Environment from "opensearch.environments" for {{variable}} values
+  --endpoint <url>     Endpoint to use instead of the one in the settings
+  --settings <file>    VS Code settings file to read (default: .vscode/settings.json)
+  --format <format>    Report format: markdown (default), json or junit
+  --output <file>      Write the report to a file instead of standard output
+  --stop-on-failure    Skip the rest of a document after a failed block
+  -h, --help           Show this help
+
+Secrets referenced as \${secret:name} are read from OPENSEARCH_SECRET_<NAME> variables.
+Exits with 1 when a block fails, 2 on invalid arguments or settings and 3 when
+the run itself fails, e.g. because the report cannot be written.`;
+
+    public static parseArguments(args: string[]): CliOptions {
+        const options: CliOptions = { paths: [], format: 'markdown', stopOnFailure: false, help: false };
+        const [command, ...rest] = args;
+        if (command === '-h' || command === '--help' || command === undefined) {
+            return { ...options, help: true };
+        }
+        if (command !== 'run') {
+            throw new Error(`Unknown command: ${command}`);
+        }
+
+        for (let i = 0; i < rest.length; i++) {
+            const arg = rest[i];
+            const value = () => {
+                const next = rest[++i];
+                if (next === undefined || next.startsWith('--')) {
+                    throw new Error(`Missing value for ${arg}`);
+                }
+                return next;
+            };
+
+            switch (arg) {
+                case '--connection':
+                    options.connection = value();
+                    break;
+                case '--env':
+                    options.environment = value();
+                    break;
+                case '--endpoint':
+                    options.endpoint = value();
+                    break;
+                case '--settings':
+                    options.settingsFile = value();
+                    break;
+                case '--format': {
+                    const format = value() as ReportFormat;
+                    if (!ReportFormatter.FORMATS.includes(format)) {
+                        throw new Error(`Unknown format: ${format}. Use ${ReportFormatter.FORMATS.join(', ')}.`);
+                    }
+                    options.format = format;
+                    break;
+                }
+                case '--output':
+                    options.output = value();
+                    break;
+                case '--stop-on-failure':
+                    options.stopOnFailure = true;
+                    break;
+                case '-h':
+                case '--help':
+                    options.help = true;
+                    break;
+                default:
+                    if (arg.startsWith('-')) {
+                        throw new Error(`Unknown option: ${arg}`);
+                    }
+                    options.paths.push(arg);
+            }
+        }
+
+        if (!options.help && options.paths.length === 0) {
+            throw new Error('No documents given');
+        }
+        return options;
+    }
+
+    /**
+     * Expands directories into the documents they contain, in a stable order
+     */
+    public static findDocuments(paths: string[]): string[] {
+        const documents: string[] = [];
+        const visit = (current: string, explicit: boolean) => {
+            const stat = fs.statSync(current);
+            if (!stat.isDirectory()) {
+                // Files named on the command line run whatever their extension
+                if (explicit || Cli.DOCUMENT_EXTENSION_REGEX.test(current)) {
+                    documents.push(current);
+                }
+                return;
+            }
+            for (const entry of fs.readdirSync(current).sort()) {
+                if (!entry.startsWith('.') && entry !== 'node_modules') {
+                    visit(path.join(current, entry), false);
+                }
+            }
+        };
+
+        for (const given of paths) {
+            if (!fs.existsSync(given)) {
+                throw new Error(`No such file or directory: ${given}`);
+            }
+            visit(given, true);
+        }
+        return [...new Set(documents)];
+    }
+
+    public static async main(args: string[]): Promise<ExitCode> {
+        let options: CliOptions;
+        let settings: ConnectionSettings;
+        let documents: string[];
+        try {
+            options = this.parseArguments(args);
+            if (options.help) {
+                console.log(this.USAGE);
+                return ExitCode.Success;
+            }
+            settings = this.loadSettings(options);
+            documents = this.findDocuments(options.paths);
+        } catch (error: any) {
+            console.error(`Error: ${error.message}`);
+            console.error('Run "opensearch-query-runner --help" for usage.');
+            return ExitCode.UsageError;
+        }
+
+        try {
+            const secretResolver = new SecretResolver(new EnvironmentSecretStore());
+            const tokenProvider = new OidcTokenProvider(secretResolver, {
+                onDeviceCode: prompt => console.error(`To sign in, open ${prompt.verificationUriComplete || prompt.verificationUri} and enter the code ${prompt.userCode}`)
+            });
+            const client = new OpenSearchClient(settings.config, secretResolver, tokenProvider);
+            const runner = new DocumentRunner(settings, client);
+            const reports: DocumentReport[] = [];
+            for (const document of documents) {
+                reports.push(await runner.runFile(document, { stopOnFailure: options.stopOnFailure }));
+            }
+
+            const report = ReportFormatter.format(reports, options.format);
+            if (options.output) {
+                fs.writeFileSync(options.output, report);
+            } else {
+                process.stdout.write(report.endsWith('\n') ? report : `${report}\n`);
+            }
+            console.error(ReportFormatter.describe(reports));
+
+            return ReportFormatter.hasFailures(reports) ? ExitCode.Failures : ExitCode.Success;
+        } catch (error: any) {
+            console.error(`Error: ${error.message}`);
+            return ExitCode.RuntimeError;
+        }
+    }
+
+    private static loadSettings(options: CliOptions): ConnectionSettings {
+        const overrides: Record<string, any> = {};
+        if (options.connection !== undefined) {
+            overrides.defaultConnection = options.connection;
+        }
+        if (options.environment !== undefined) {
+            overrides.activeEnvironment = options.environment;
+        }
+        if (options.endpoint !== undefined) {
+            overrides.endpoint = options.endpoint;
+        }
+
+        const settingsFile = options.settingsFile || (fs.existsSync(this.DEFAULT_SETTINGS_FILE) ? this.DEFAULT_SETTINGS_FILE : undefined);
+        const settings = new ConnectionSettings(settingsFile ? SettingsFile.load(settingsFile, overrides) : new SettingsFile({}, overrides));
+
+        if (options.connection && !settings.getConnectionProfile(options.connection)) {
+            throw new Error(`Unknown connection profile: ${options.connection}. Define it under "opensearch.connections" in ${settingsFile || 'a settings file'}.`);
+        }
+        if (options.environment && !settings.getEnvironment(options.environment)) {
+            throw new Error(`Unknown environment: ${options.environment}. Define it under "opensearch.environments" in ${settingsFile || 'a settings file'}.`);
+        }
+        return settings;
+    }
+}
+
+if (require.main === module) {
+    Cli.main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
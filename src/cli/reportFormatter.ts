@@ -0,0 +1,164 @@
+import { DocumentReport, BlockReport } from './documentRunner';
+import { RunSummaryFormatter } from '../utils/runSummaryFormatter';
+
+export type ReportFormat = 'json' | 'junit' | 'markdown';
+
+/**
+ * Formats the outcome of a CLI run for CI systems and people
+ */
+export class ReportFormatter {
+    public static readonly FORMATS: ReportFormat[] = ['json', 'junit', 'markdown'];
+
+    public static format(reports: DocumentReport[], format: ReportFormat): string {
+        switch (format) {
+            case 'json':
+                return this.toJson(reports);
+            case 'junit':
+                return this.toJUnit(reports);
+            case 'markdown':
+                return this.toMarkdown(reports);
+        }
+    }
+
+    /**
+     * Whether any document or block failed, i.e. whether the run should exit with an error
+     */
+    public static hasFailures(reports: DocumentReport[]): boolean {
+        return reports.some(report => report.error || report.blocks.some(block => block.status === 'failed'));
+    }
+
+    /**
+     * One-line summary, e.g. "2 files, 5 blocks: 4 succeeded, 1 failed"
+     */
+    public static describe(reports: DocumentReport[]): string {
+        const blocks = reports.flatMap(report => report.blocks);
+        const notRun = reports.filter(report => report.error).length;
+        const files = `${reports.length} file${reports.length === 1 ? '' : 's'}`;
+        return `${files}, ${blocks.length} block${blocks.length === 1 ? '' : 's'}: ${RunSummaryFormatter.describe(blocks)}`
+            + (notRun ? `, ${notRun} file${notRun === 1 ? '' : 's'} not run` : '');
+    }
+
+    private static toJson(reports: DocumentReport[]): string {
+        const blocks = reports.flatMap(report => report.blocks);
+        return JSON.stringify({
+            summary: {
+                files: reports.length,
+                blocks: blocks.length,
+                ...RunSummaryFormatter.countByStatus(blocks)
+            },
+            files: reports.map(report => ({
+                file: report.file,
+                error: report.error,
+                blocks: report.blocks.map(block => ({
+                    line: block.line + 1,
+                    type: block.type,
+                    name: block.name,
+                    preview: block.preview,
+                    status: block.status,
+                    executionTime: block.executionTime,
+                    rowCount: block.rowCount,
+                    error: block.error,
+                    expected: block.assertion && !block.assertion.passed ? block.assertion.expected : undefined,
+                    actual: block.assertion && !block.assertion.passed ? block.assertion.actual : undefined
+                }))
+            }))
+        }, null, 2);
+    }
+
+    private static toJUnit(reports: DocumentReport[]): string {
+        const seconds = (milliseconds?: number) => ((milliseconds || 0) / 1000).toFixed(3);
+        const suites = reports.map(report => {
+            const counts = RunSummaryFormatter.countByStatus(report.blocks);
+            const time = report.blocks.reduce((sum, block) => sum + (block.executionTime || 0), 0);
+            const attributes = `name="${this.escapeXml(report.file)}" tests="${report.error ? 1 : report.blocks.length}" `
+                + `failures="${counts.failed}" errors="${report.error ? 1 : 0}" skipped="${counts.skipped}" time="${seconds(time)}"`;
+
+            if (report.error) {
+                return `  <testsuite ${attributes}>\n`
+                    + `    <testcase classname="${this.escapeXml(report.file)}" name="(document)">\n`
+                    + `      <error message="${this.escapeXml(report.error)}"/>\n`
+                    + '    </testcase>\n'
+                    + '  </testsuite>';
+            }
+
+            const cases = report.blocks.map(block => {
+                const open = `    <testcase classname="${this.escapeXml(report.file)}" name="${this.escapeXml(this.getBlockTitle(block))}" time="${seconds(block.executionTime)}"`;
+                if (block.status === 'failed') {
+                    return `${open}>\n      <failure message="${this.escapeXml(block.error || 'Failed')}">${this.escapeXml(this.getFailureDetails(block))}</failure>\n    </testcase>`;
+                }
+                if (block.status === 'skipped') {
+                    return `${open}>\n      <skipped/>\n    </testcase>`;
+                }
+                return `${open}/>`;
+            });
+            return [`  <testsuite ${attributes}>`, ...cases, '  </testsuite>'].join('\n');
+        });
+
+        const blocks = reports.flatMap(report => report.blocks);
+        const counts = RunSummaryFormatter.countByStatus(blocks);
+        const errors = reports.filter(report => report.error).length;
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<testsuites name="OpenSearch Query Runner" tests="${blocks.length + errors}" failures="${counts.failed}" errors="${errors}" skipped="${counts.skipped}">`,
+            ...suites,
+            '</testsuites>',
+            ''
+        ].join('\n');
+    }
+
+    private static toMarkdown(reports: DocumentReport[]): string {
+        const lines = ['# OpenSearch Query Runner Results', '', this.describe(reports), ''];
+
+        for (const report of reports) {
+            lines.push(`## ${report.file}`, '');
+            if (report.error) {
+                lines.push(`❌ ${report.error}`, '');
+                continue;
+            }
+            if (report.blocks.length === 0) {
+                lines.push('No query blocks.', '');
+                continue;
+            }
+
+            lines.push('| Line | Type | Block | Status | Time | Rows |', '| --- | --- | --- | --- | --- | --- |');
+            for (const block of report.blocks) {
+                const label = block.name ? `**${this.escapeMarkdown(block.name)}** ${this.escapeMarkdown(block.preview)}` : this.escapeMarkdown(block.preview);
+                const time = block.executionTime !== undefined ? `${block.executionTime}ms` : '';
+                lines.push(`| ${block.line + 1} | ${block.type.toUpperCase()} | ${label} | ${block.status} | ${time} | ${block.rowCount ?? ''} |`);
+            }
+            lines.push('');
+
+            for (const block of report.blocks.filter(block => block.status === 'failed')) {
+                lines.push(`### ❌ ${this.escapeMarkdown(this.getBlockTitle(block))}`, '', '```', this.getFailureDetails(block), '```', '');
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    private static getBlockTitle(block: BlockReport): string {
+        return `line ${block.line + 1}: ${block.name || block.preview}`;
+    }
+
+    private static getFailureDetails(block: BlockReport): string {
+        if (block.assertion && !block.assertion.passed) {
+            return `${block.assertion.message}\n\nExpected:\n${block.assertion.expected}\n\nActual:\n${block.assertion.actual}`;
+        }
+        return block.error || '';
+    }
+
+    private static escapeXml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            // Control characters other than tab and newlines are not allowed in XML 1.0
+            // eslint-disable-next-line no-control-regex
+            .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+    }
+
+    private static escapeMarkdown(text: string): string {
+        return text.replace(/\|/g, '\\|');
+    }
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import { SettingsReader } from '../connectionSettings';
+import { SecretStore } from '../utils/secretResolver';
+import { JsonUtils } from '../utils/jsonUtils';
+
+/**
+ * Reads the `opensearch` settings from a VS Code settings file such as
+ * `.vscode/settings.json`, so the CLI uses the same connections as the extension
+ */
+export class SettingsFile implements SettingsReader {
+    private static readonly SECTION = 'opensearch';
+
+    private values: Record<string, any>;
+    private overrides: Record<string, any>;
+
+    /**
+     * @param overrides settings that replace the file values, e.g. `defaultConnection` from `--connection`
+     */
+    constructor(values: Record<string, any> = {}, overrides: Record<string, any> = {}) {
+        this.values = values;
+        this.overrides = overrides;
+    }
+
+    public static load(path: string, overrides: Record<string, any> = {}): SettingsFile {
+        let values: any;
+        try {
+            values = JsonUtils.parseJSONC(fs.readFileSync(path, 'utf8'));
+        } catch (error: any) {
+            throw new Error(`Cannot read settings file ${path}: ${error.message}`);
+        }
+        return new SettingsFile(values, overrides);
+    }
+
+    /**
+     * Looks the key up as a flat `opensearch.<key>` setting, then nested under `opensearch`
+     */
+    public get<T>(key: string, defaultValue: T): T {
+        if (this.overrides[key] !== undefined) {
+            return this.overrides[key];
+        }
+
+        const flatKey = `${SettingsFile.SECTION}.${key}`;
+        if (this.values[flatKey] !== undefined) {
+            return this.values[flatKey];
+        }
+
+        let current: any = this.values[SettingsFile.SECTION];
+        for (const segment of key.split('.')) {
+            current = current && typeof current === 'object' ? current[segment] : undefined;
+        }
+        return current !== undefined ? current : defaultValue;
+    }
+}
+
+/**
+ * Serves `${secret:name}` references from `OPENSEARCH_SECRET_<NAME>` environment variables,
+ * e.g. `${secret:prod.password}` from `OPENSEARCH_SECRET_PROD_PASSWORD`
+ */
+export class EnvironmentSecretStore implements SecretStore {
+    constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+    public static getVariableName(name: string): string {
+        return `OPENSEARCH_SECRET_${name.replace(/[^\w]/g, '_').toUpperCase()}`;
+    }
+
+    public async get(key: string): Promise<string | undefined> {
+        // SecretResolver prefixes the secret name with its storage namespace
+        const name = key.replace(/^opensearch\.secret\./, '');
+        const variable = EnvironmentSecretStore.getVariableName(name);
+        const value = this.env[variable];
+        if (value === undefined) {
+            throw new Error(`Secret not found: ${name}. Set the ${variable} environment variable.`);
+        }
+        return value;
+    }
+
+    public async store(): Promise<void> {
+        throw new Error('Secrets are read from environment variables in the CLI');
+    }
+
+    public async delete(): Promise<void> {
+        throw new Error('Secrets are read from environment variables in the CLI');
+    }
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { ClusterHealth } from './types';
+import { ClusterHealthFormatter } from './utils/clusterHealthFormatter';
+
+/**
+ * Polls `_cluster/health` of the active connection, shows the result in the
+ * status bar item and notifies when the health changes, or when the first check
+ * finds the cluster unreachable or red
+ */
+export class ClusterHealthMonitor implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private timer: NodeJS.Timeout | undefined;
+    private lastHealth: ClusterHealth | undefined;
+    private checking = false;
+    // Checks started for a previous connection are discarded
+    private generation = 0;
+
+    constructor(
+        private connectionManager: ConnectionManager,
+        private statusBarItem: vscode.StatusBarItem
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('opensearch') || event.affectsConfiguration('http')) {
+                    this.restart();
+                }
+            })
+        );
+        this.restart();
+    }
+
+    /**
+     * Starts over for the current connection: checks right away, then every
+     * `opensearch.healthCheck.intervalSeconds`
+     */
+    public restart(): void {
+        this.stop();
+        this.generation++;
+        this.lastHealth = undefined;
+        this.checking = false;
+
+        void this.check();
+        const seconds = vscode.workspace.getConfiguration('opensearch').get<number>('healthCheck.intervalSeconds', 30);
+        if (seconds > 0) {
+            this.timer = setInterval(() => void this.check(), seconds * 1000);
+        }
+    }
+
+    public async check(): Promise<void> {
+        // A slow cluster should not pile up checks
+        if (this.checking) {
+            return;
+        }
+
+        const generation = this.generation;
+        this.checking = true;
+        try {
+            const health = await this.connectionManager.getClusterHealth();
+            if (generation !== this.generation) {
+                return;
+            }
+
+            const previous = this.lastHealth;
+            this.lastHealth = health;
+            this.render(health);
+            this.notify(previous, health);
+        } finally {
+            if (generation === this.generation) {
+                this.checking = false;
+            }
+        }
+    }
+
+    public dispose(): void {
+        this.stop();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private getLabel(): string {
+        const connectionName = this.connectionManager.getConfig()?.connection;
+        const environment = this.connectionManager.getActiveEnvironment();
+        let label = connectionName ? `OpenSearch: ${connectionName}` : 'OpenSearch';
+        if (environment) {
+            label += ` (${environment})`;
+        }
+        return label;
+    }
+
+    private render(health: ClusterHealth): void {
+        this.statusBarItem.text = `$(database) ${this.getLabel()} ${ClusterHealthFormatter.getIcon(health.status)}`;
+        this.statusBarItem.tooltip = ClusterHealthFormatter.formatTooltip(health, new Date());
+
+        // Status bar items only support warning and error backgrounds
+        switch (health.status) {
+            case 'green':
+                this.statusBarItem.color = new vscode.ThemeColor('testing.iconPassed');
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+            case 'yellow':
+            case 'sign-in-required':
+                this.statusBarItem.color = undefined;
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                break;
+            default:
+                this.statusBarItem.color = undefined;
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+                break;
+        }
+    }
+
+    private notify(previous: ClusterHealth | undefined, current: ClusterHealth): void {
+        if (!vscode.workspace.getConfiguration('opensearch').get<boolean>('healthCheck.notifications', true)) {
+            return;
+        }
+
+        const change = ClusterHealthFormatter.getChangeMessage(this.getLabel(), previous, current);
+        if (!change) {
+            return;
+        }
+        switch (change.severity) {
+            case 'error':
+                vscode.window.showErrorMessage(change.message);
+                break;
+            case 'warning':
+                vscode.window.showWarningMessage(change.message);
+                break;
+            default:
+                vscode.window.showInformationMessage(change.message);
+                break;
+        }
+    }
+}
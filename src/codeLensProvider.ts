@@ -30,6 +30,7 @@ export class OpenSearchCodeLensProvider implements vscode.CodeLensProvider {
 
         const codeLenses: vscode.CodeLens[] = [];
         const queryBlocks = DocumentParser.parseDocumentWithOverrides(document);
+        const expectedBlocks = DocumentParser.parseExpectedBlocks(document);
 
         for (const queryBlock of queryBlocks) {
             const range = new vscode.Range(
@@ -52,6 +53,14 @@ export class OpenSearchCodeLensProvider implements vscode.CodeLensProvider {
             });
 
             codeLenses.push(runInTabLens, runInlineLens);
+
+            if (DocumentParser.findExpectation(document, queryBlock, queryBlocks, expectedBlocks)) {
+                codeLenses.push(new vscode.CodeLens(range, {
+                    title: '$(beaker) Update Snapshot',
+                    command: 'opensearch-query.updateSnapshot',
+                    arguments: [document.uri, queryBlock.range.start]
+                }));
+            }
         }
 
         return codeLenses;
@@ -190,15 +199,31 @@ export class OpenSearchHoverProvider implements vscode.HoverProvider {
             const overrideInfo = new vscode.MarkdownString();
             overrideInfo.appendMarkdown('**Connection Overrides:**\n\n');
             
+            if (queryBlock.connectionOverrides.connection) {
+                overrideInfo.appendMarkdown(`- Connection: \`${queryBlock.connectionOverrides.connection}\`\n`);
+            }
             if (queryBlock.connectionOverrides.endpoint) {
                 overrideInfo.appendMarkdown(`- Endpoint: \`${queryBlock.connectionOverrides.endpoint}\`\n`);
             }
             if (queryBlock.connectionOverrides.auth?.type) {
                 overrideInfo.appendMarkdown(`- Auth Type: \`${queryBlock.connectionOverrides.auth.type}\`\n`);
             }
+            if (queryBlock.connectionOverrides.tls?.caFile) {
+                overrideInfo.appendMarkdown(`- CA File: \`${queryBlock.connectionOverrides.tls.caFile}\`\n`);
+            }
+            if (queryBlock.connectionOverrides.tls?.certFile) {
+                overrideInfo.appendMarkdown(`- Client Certificate: \`${queryBlock.connectionOverrides.tls.certFile}\`\n`);
+            }
+            if (queryBlock.connectionOverrides.tls?.rejectUnauthorized === false) {
+                overrideInfo.appendMarkdown(`- Certificate Verification: \`disabled\`\n`);
+            }
             if (queryBlock.connectionOverrides.timeout) {
                 overrideInfo.appendMarkdown(`- Timeout: \`${queryBlock.connectionOverrides.timeout}ms\`\n`);
             }
+            if (queryBlock.connectionOverrides.variables) {
+                const names = Object.keys(queryBlock.connectionOverrides.variables).map(name => `\`${name}\``);
+                overrideInfo.appendMarkdown(`- Variables: ${names.join(', ')}\n`);
+            }
             
             contents.push(overrideInfo);
         }
@@ -214,6 +239,15 @@ export class OpenSearchHoverProvider implements vscode.HoverProvider {
             if (queryBlock.metadata.timeout) {
                 metadataInfo.appendMarkdown(`- Timeout: \`${queryBlock.metadata.timeout}ms\`\n`);
             }
+            if (queryBlock.metadata.name) {
+                metadataInfo.appendMarkdown(`- Name: \`${queryBlock.metadata.name}\`\n`);
+            }
+            if (queryBlock.metadata.fetchSize) {
+                metadataInfo.appendMarkdown(`- Fetch Size: \`${queryBlock.metadata.fetchSize}\`\n`);
+            }
+            if (queryBlock.metadata.retries !== undefined) {
+                metadataInfo.appendMarkdown(`- Retries: \`${queryBlock.metadata.retries}\`\n`);
+            }
             if (queryBlock.metadata.description) {
                 metadataInfo.appendMarkdown(`- Description: ${queryBlock.metadata.description}\n`);
             }
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { DocumentParser } from './documentParser';
+import { QueryBlock, QueryType } from './types';
+import { PplKeyword, PplLanguage } from './utils/pplLanguage';
+import { SchemaCompletion, SchemaCompletionContext } from './utils/schemaCompletion';
+import { VariableResolver } from './utils/variableResolver';
+
+/**
+ * Completes PPL commands after a pipe and PPL functions inside command arguments,
+ * and index and field names of the cluster in PPL, SQL and OpenSearch API blocks
+ */
+export class OpenSearchCompletionProvider implements vscode.CompletionItemProvider {
+    public static readonly TRIGGER_CHARACTERS = ['|', '=', '"', ','];
+
+    private static readonly EXPRESSION_KEYWORDS = ['by', 'as', 'and', 'or', 'not', 'in', 'with'];
+
+    constructor(private connectionManager: ConnectionManager) {}
+
+    public async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[]> {
+        const queryBlock = DocumentParser.findQueryBlockAtPosition(document, position);
+        if (!queryBlock || position.line <= queryBlock.range.start.line) {
+            return [];
+        }
+
+        // Text of the query up to the cursor, without the fence line and metadata comments
+        const textBeforeCursor = document.getText(new vscode.Range(queryBlock.range.start.line + 1, 0, position.line, position.character))
+            .split('\n')
+            .filter(line => !/^\s*--/.test(line))
+            .join('\n');
+
+        const schemaContext = SchemaCompletion.getContext(queryBlock.type, textBeforeCursor, queryBlock.content, queryBlock.metadata?.endpoint);
+        const schemaItems = schemaContext ? await this.getSchemaItems(queryBlock, schemaContext, position) : [];
+        if (queryBlock.type !== QueryType.PPL || schemaContext?.kind === 'index') {
+            return schemaItems;
+        }
+
+        if (PplLanguage.getCompletionContext(textBeforeCursor) === 'command') {
+            const items = PplLanguage.COMMANDS.map(command => this.createItem(command, vscode.CompletionItemKind.Keyword));
+            if (!textBeforeCursor.includes('|')) {
+                const source = new vscode.CompletionItem('source', vscode.CompletionItemKind.Keyword);
+                source.insertText = new vscode.SnippetString('source=${1:index}');
+                source.detail = 'source=<index>';
+                source.documentation = 'Index the query reads from';
+                items.unshift(source);
+            }
+            return items;
+        }
+
+        return [
+            ...schemaItems,
+            ...PplLanguage.FUNCTIONS.map(func => {
+                const item = this.createItem(func, vscode.CompletionItemKind.Function);
+                item.insertText = new vscode.SnippetString(`${func.name}($0)`);
+                return item;
+            }),
+            ...OpenSearchCompletionProvider.EXPRESSION_KEYWORDS.map(keyword => new vscode.CompletionItem(keyword, vscode.CompletionItemKind.Keyword))
+        ];
+    }
+
+    /**
+     * Names from the schema cache of the block's connection. Lookup failures only mean
+     * fewer suggestions, so they are not reported. Completion never starts an OIDC
+     * sign-in; names are suggested once a query has signed in.
+     */
+    private async getSchemaItems(
+        queryBlock: QueryBlock,
+        context: SchemaCompletionContext,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[]> {
+        if (!vscode.workspace.getConfiguration('opensearch').get<boolean>('schema.enabled', true)) {
+            return [];
+        }
+
+        try {
+            const overrides = this.connectionManager.resolveConnectionOverrides(queryBlock.metadata?.connection, queryBlock.connectionOverrides);
+            const variables = { ...this.connectionManager.getEnvironmentVariables(), ...overrides?.variables };
+            const resolvedOverrides = VariableResolver.substituteOverrides(overrides, variables);
+            // Names typed so far are replaced as a whole, even with dashes or dots
+            const range = new vscode.Range(position.line, position.character - context.prefix.length, position.line, position.character);
+
+            if (context.kind === 'field') {
+                const fields = await this.connectionManager.getFields(VariableResolver.substitute(context.index, variables), resolvedOverrides);
+                return fields.map(field => {
+                    const item = new vscode.CompletionItem(field.name, vscode.CompletionItemKind.Field);
+                    item.detail = field.type;
+                    item.range = range;
+                    return item;
+                });
+            }
+
+            const schema = await this.connectionManager.getSchema(resolvedOverrides);
+            const visible = (name: string) => context.prefix.startsWith('.') || !name.startsWith('.');
+            const createNameItem = (name: string, kind: vscode.CompletionItemKind, detail: string) => {
+                const item = new vscode.CompletionItem(name, kind);
+                item.detail = detail;
+                item.range = range;
+                return item;
+            };
+            return [
+                ...schema.indices.filter(visible).map(name => createNameItem(name, vscode.CompletionItemKind.Module, 'index')),
+                ...Object.entries(schema.aliases).filter(([name]) => visible(name))
+                    .map(([name, indices]) => createNameItem(name, vscode.CompletionItemKind.Reference, `alias of ${indices.join(', ')}`)),
+                ...Object.keys(schema.dataStreams).filter(visible).map(name => createNameItem(name, vscode.CompletionItemKind.Folder, 'data stream'))
+            ];
+        } catch {
+            return [];
+        }
+    }
+
+    private createItem(keyword: PplKeyword, kind: vscode.CompletionItemKind): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(keyword.name, kind);
+        item.detail = keyword.syntax;
+        item.documentation = keyword.description;
+        return item;
+    }
+}
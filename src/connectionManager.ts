@@ -1,503 +1,410 @@
 import * as vscode from 'vscode';
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { OpenSearchConfig, ConnectionTestResult, OpenSearchResponse, ConnectionOverrides } from './types';
-import { ErrorHandler } from './utils/errorHandler';
-import { RequestInfoBuilder } from './utils/requestInfoBuilder';
-import { ConnectionInfoManager } from './utils/connectionInfoManager';
-
+import { OpenSearchConfig, ConnectionTestResult, OpenSearchResponse, ConnectionOverrides, ConnectionProfile, ClusterHealth } from './types';
+import { ConnectionSettings } from './connectionSettings';
+import { OpenSearchClient } from './opensearchClient';
+import { SecretResolver } from './utils/secretResolver';
+import { ClusterSchema, SchemaCache, SchemaField } from './utils/schemaCache';
+import { DeviceCodePrompt, OidcTokenProvider } from './utils/oidcTokenProvider';
+
+/**
+ * Connection settings and requests for the extension: reads the `opensearch` settings,
+ * follows their changes and sends requests through an OpenSearchClient
+ */
 export class ConnectionManager {
-    private axiosInstance: AxiosInstance | null = null;
-    private config: OpenSearchConfig | null = null;
-
-    constructor() {
+    private settings!: ConnectionSettings;
+    private client!: OpenSearchClient;
+    private secretResolver: SecretResolver | undefined;
+    private tokenProvider: OidcTokenProvider;
+    private schemaCache = new SchemaCache(0);
+
+    constructor(secrets?: vscode.SecretStorage) {
+        this.secretResolver = secrets ? new SecretResolver(secrets) : undefined;
+        // Kept across configuration changes so that tokens are not requested again
+        this.tokenProvider = new OidcTokenProvider(this.secretResolver, {
+            tokenStore: secrets,
+            onDeviceCode: prompt => this.showDeviceCode(prompt)
+        });
         this.updateConfiguration();
         
         // Listen for configuration changes
         vscode.workspace.onDidChangeConfiguration((e) => {
-            if (e.affectsConfiguration('opensearch')) {
+            if (e.affectsConfiguration('opensearch') || e.affectsConfiguration('http')) {
                 this.updateConfiguration();
             }
         });
     }
 
     private updateConfiguration(): void {
-        const workspaceConfig = vscode.workspace.getConfiguration('opensearch');
-        
-        this.config = {
-            endpoint: workspaceConfig.get('endpoint', 'http://localhost:9200'),
-            auth: {
-                type: workspaceConfig.get('auth.type', 'none'),
-                username: workspaceConfig.get('auth.username', ''),
-                password: workspaceConfig.get('auth.password', ''),
-                apiKey: workspaceConfig.get('auth.apiKey', '')
-            },
-            timeout: workspaceConfig.get('timeout', 30000),
-            maxHistoryItems: workspaceConfig.get('maxHistoryItems', 100),
-            enableCodeLens: workspaceConfig.get('enableCodeLens', true)
-        };
+        this.settings = new ConnectionSettings(vscode.workspace.getConfiguration('opensearch'), vscode.workspace.getConfiguration('http'));
+        this.client = new OpenSearchClient(this.settings.config, this.secretResolver, this.tokenProvider);
 
-        this.createAxiosInstance();
+        // Connections may point elsewhere now
+        const config = vscode.workspace.getConfiguration('opensearch');
+        this.schemaCache.clear();
+        this.schemaCache.setTtl(config.get<number>('schema.cacheTtlMinutes', 10) * 60 * 1000);
     }
 
-    private createAxiosInstance(): void {
-        if (!this.config) {
-            return;
-        }
-
-        const axiosConfig: AxiosRequestConfig = {
-            baseURL: this.config.endpoint,
-            timeout: this.config.timeout,
-            headers: {
-                'Content-Type': 'application/json'
-            }
-        };
-
-        // Configure authentication
-        switch (this.config.auth.type) {
-            case 'basic':
-                if (this.config.auth.username && this.config.auth.password) {
-                    axiosConfig.auth = {
-                        username: this.config.auth.username,
-                        password: this.config.auth.password
-                    };
-                }
-                break;
-            case 'apikey':
-                if (this.config.auth.apiKey) {
-                    axiosConfig.headers = {
-                        ...axiosConfig.headers,
-                        'Authorization': `ApiKey ${this.config.auth.apiKey}`
-                    };
-                }
-                break;
-        }
-
-        this.axiosInstance = axios.create(axiosConfig);
+    public getConfig(): OpenSearchConfig | null {
+        return this.settings.config;
     }
 
-    public getConfig(): OpenSearchConfig | null {
-        return this.config;
+    /**
+     * Names of all profiles defined in `opensearch.connections`
+     */
+    public getConnectionNames(): string[] {
+        return this.settings.getConnectionNames();
     }
 
-    private getAuthHeaders(overrides?: ConnectionOverrides): Record<string, string> {
-        if (!this.config) {
-            return {};
-        }
+    public getConnectionProfile(name: string): ConnectionProfile | undefined {
+        return this.settings.getConnectionProfile(name);
+    }
 
-        return RequestInfoBuilder.buildAuthHeaders(this.config.auth, overrides);
+    /**
+     * Resolves a named connection profile into connection overrides
+     * (see ConnectionSettings.resolveConnectionOverrides)
+     */
+    public resolveConnectionOverrides(
+        connectionName?: string,
+        overrides?: ConnectionOverrides
+    ): ConnectionOverrides | undefined {
+        return this.settings.resolveConnectionOverrides(connectionName, overrides);
     }
 
     /**
-     * Helper method to add request and response info to a result
+     * Makes the named profile the default connection (empty name falls back to plain settings)
      */
-    private addRequestResponseInfo(
-        result: any,
-        method: string,
-        endpoint: string,
-        headers: Record<string, string>,
-        body: string,
-        axiosResponse: any
-    ): any {
-        result.requestInfo = {
-            method: method.toUpperCase(),
-            endpoint,
-            headers,
-            body
-        };
-        result.responseInfo = {
-            status: axiosResponse.status,
-            statusText: axiosResponse.statusText,
-            headers: axiosResponse.headers
-        };
-        return result;
+    public async setDefaultConnection(name: string): Promise<void> {
+        const config = vscode.workspace.getConfiguration('opensearch');
+        await config.update('defaultConnection', name, vscode.ConfigurationTarget.Workspace);
     }
 
     /**
-     * Helper method to create error response with all necessary info
+     * Lets the user pick the default connection profile
      */
-    private createErrorResponse(
-        error: any,
-        method: string,
-        endpoint: string,
-        headers: Record<string, string>,
-        body: string,
-        overrides?: ConnectionOverrides
-    ): any {
-        const errorResponse: any = {
-            error: {
-                type: error.response?.data?.error?.type || error.code || 'RequestError',
-                reason: error.response?.data?.error?.reason || error.message,
-                details: error.response?.data ? JSON.stringify(error.response.data, null, 2) : error.message
+    public async selectDefaultConnection(): Promise<void> {
+        const current = this.settings.config.connection || '';
+        const items: Array<vscode.QuickPickItem & { value: string }> = [
+            {
+                label: '$(settings) Settings',
+                description: vscode.workspace.getConfiguration('opensearch').get('endpoint', 'http://localhost:9200'),
+                detail: current === '' ? 'Current default' : undefined,
+                value: ''
+            },
+            ...this.getConnectionNames().map(name => ({
+                label: `$(database) ${name}`,
+                description: this.settings.getConnectionProfile(name)?.endpoint,
+                detail: current === name ? 'Current default' : undefined,
+                value: name
+            })),
+            {
+                label: '$(gear) Configure Connection...',
+                value: '__configure__'
             }
-        };
+        ];
 
-        // Add request info
-        errorResponse.requestInfo = {
-            method: method.toUpperCase(),
-            endpoint,
-            headers,
-            body
-        };
+        const choice = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the default OpenSearch connection'
+        });
 
-        // Add response info if available
-        if (error.response) {
-            errorResponse.responseInfo = {
-                status: error.response.status,
-                statusText: error.response.statusText,
-                headers: error.response.headers
-            };
-            if (error.response.data) {
-                errorResponse.rawResponse = error.response.data;
-            }
+        if (!choice) {
+            return;
         }
 
-        // Add connection info
-        return ConnectionInfoManager.addConnectionInfo(errorResponse, this.config, overrides);
-    }
-
-    public async testConnection(): Promise<ConnectionTestResult> {
-        if (!this.axiosInstance) {
-            return {
-                success: false,
-                error: 'No connection configured'
-            };
+        if (choice.value === '__configure__') {
+            await this.configureConnection();
+            return;
         }
 
-        try {
-            const response = await this.axiosInstance.get('/_cluster/health');
-            const healthData = response.data;
-
-            return {
-                success: true,
-                clusterName: healthData.cluster_name,
-                version: healthData.version?.number
-            };
-        } catch (error: any) {
-            return {
-                success: false,
-                error: this.formatError(error)
-            };
-        }
+        await this.setDefaultConnection(choice.value);
     }
 
-    public async executeQuery(query: string, queryType: 'sql' | 'ppl'): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
-        if (!this.axiosInstance) {
-            throw new Error('No connection configured');
-        }
+    /**
+     * Returns the environment names from `opensearch.environments`, excluding `$shared`
+     */
+    public getEnvironmentNames(): string[] {
+        return this.settings.getEnvironmentNames();
+    }
 
-        const endpoint = queryType === 'sql' ? '/_plugins/_sql' : '/_plugins/_ppl';
-        const payload = { query };
-        const headers = {
-            'Content-Type': 'application/json',
-            ...this.getAuthHeaders()
-        };
-        const body = JSON.stringify(payload, null, 2);
-
-        try {
-            const response = await this.axiosInstance.post(endpoint, payload);
-            const result = this.addRequestResponseInfo(response.data, 'POST', endpoint, headers, body, response);
-            return ConnectionInfoManager.addConnectionInfo(result, this.config);
-        } catch (error: any) {
-            return this.createErrorResponse(error, 'POST', endpoint, headers, body);
-        }
+    public getActiveEnvironment(): string | undefined {
+        return this.settings.getActiveEnvironment();
     }
 
-    public async executeApiOperation(method: string, endpoint: string, body?: string): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
-        if (!this.axiosInstance) {
-            throw new Error('No connection configured');
-        }
+    /**
+     * Returns the variables of the active environment layered over `$shared`
+     */
+    public getEnvironmentVariables(): Record<string, string> {
+        return this.settings.getEnvironmentVariables();
+    }
 
-        // Determine if this is a bulk operation and prepare request body
-        let requestBody: any = undefined;
-        let contentType = 'application/json';
-        
-        if (body && body.trim()) {
-            const isBulkOperation = endpoint.includes('/_bulk');
-            
-            if (isBulkOperation) {
-                let processedBody = body.trim();
-                
-                // Validate that each non-empty line is valid JSON
-                const lines = processedBody.split('\n');
-                for (const line of lines) {
-                    if (line.trim()) {
-                        try {
-                            JSON.parse(line.trim());
-                        } catch (error) {
-                            throw new Error(`Invalid JSON in bulk request line: ${line.trim()}`);
-                        }
-                    }
-                }
-                
-                // Ensure the body ends with a newline (required for bulk API)
-                if (!processedBody.endsWith('\n')) {
-                    processedBody += '\n';
-                }
-                
-                requestBody = processedBody;
-                contentType = 'application/x-ndjson';
-            } else {
-                try {
-                    requestBody = JSON.parse(body);
-                } catch (error) {
-                    throw new Error('Invalid JSON in request body');
-                }
-            }
+    /**
+     * Lets the user pick the active variable environment
+     */
+    public async selectEnvironment(): Promise<void> {
+        const current = this.getActiveEnvironment() || '';
+        const items: Array<vscode.QuickPickItem & { value: string }> = [
+            {
+                label: '$(circle-slash) No Environment',
+                detail: current === '' ? 'Current environment' : undefined,
+                value: ''
+            },
+            ...this.getEnvironmentNames().map(name => ({
+                label: `$(symbol-variable) ${name}`,
+                description: Object.keys(this.settings.getEnvironment(name) || {}).join(', '),
+                detail: current === name ? 'Current environment' : undefined,
+                value: name
+            }))
+        ];
+
+        const choice = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the environment that supplies {{variable}} values'
+        });
+
+        if (!choice) {
+            return;
         }
 
-        const requestHeaders = {
-            'Content-Type': contentType,
-            ...this.getAuthHeaders()
-        };
+        const config = vscode.workspace.getConfiguration('opensearch');
+        await config.update('activeEnvironment', choice.value, vscode.ConfigurationTarget.Workspace);
+    }
 
-        const requestConfig: any = {
-            method: method.toLowerCase(),
-            url: endpoint,
-            data: requestBody,
-            headers: requestHeaders
-        };
+    public async testConnection(): Promise<ConnectionTestResult> {
+        return this.client.testConnection();
+    }
 
-        // For bulk operations, prevent axios from transforming the request data
-        if (endpoint.includes('/_bulk')) {
-            requestConfig.transformRequest = [(data: any) => data];
-        }
+    public async getClusterHealth(): Promise<ClusterHealth> {
+        return this.client.getClusterHealth();
+    }
 
-        try {
-            const response = await this.axiosInstance.request(requestConfig);
-            const result = this.addRequestResponseInfo(response.data, method, endpoint, requestHeaders, body || '', response);
-            return ConnectionInfoManager.addConnectionInfo(result, this.config);
-        } catch (error: any) {
-            return this.createErrorResponse(error, method, endpoint, requestHeaders, body || '');
-        }
+    public async testConnectionWithOverrides(overrides: ConnectionOverrides): Promise<ConnectionTestResult> {
+        return this.client.testConnectionWithOverrides(overrides);
+    }
+
+    public async executeQuery(query: string, queryType: 'sql' | 'ppl'): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        return this.client.executeQuery(query, queryType);
+    }
+
+    public async executeApiOperation(method: string, endpoint: string, body?: string): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        return this.client.executeApiOperation(method, endpoint, body);
     }
 
     public async executeQueryWithOverrides(
         query: string, 
         queryType: 'sql' | 'ppl', 
-        overrides?: ConnectionOverrides
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal,
+        fetchSize?: number
     ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
-        const axiosInstance = overrides ? 
-            this.createAxiosInstanceWithOverrides(overrides) : 
-            this.axiosInstance;
-
-        if (!axiosInstance) {
-            throw new Error('No connection configured');
-        }
-
-        const endpoint = queryType === 'sql' ? '/_plugins/_sql' : '/_plugins/_ppl';
-        const payload = { query };
-        const headers = {
-            'Content-Type': 'application/json',
-            ...this.getAuthHeaders(overrides)
-        };
-        const body = JSON.stringify(payload, null, 2);
-
-        try {
-            const response = await axiosInstance.post(endpoint, payload);
-            const result = this.addRequestResponseInfo(response.data, 'POST', endpoint, headers, body, response);
-            return ConnectionInfoManager.addConnectionInfo(result, this.config, overrides);
-        } catch (error: any) {
-            return this.createErrorResponse(error, 'POST', endpoint, headers, body, overrides);
-        }
+        return this.client.executeQueryWithOverrides(query, queryType, overrides, signal, fetchSize);
     }
 
     public async executeExplainQueryWithOverrides(
         query: string, 
         queryType: 'sql' | 'ppl', 
-        overrides?: ConnectionOverrides
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal
     ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
-        const axiosInstance = overrides ? 
-            this.createAxiosInstanceWithOverrides(overrides) : 
-            this.axiosInstance;
+        return this.client.executeExplainQueryWithOverrides(query, queryType, overrides, signal);
+    }
 
-        if (!axiosInstance) {
-            throw new Error('No connection configured');
-        }
+    public async fetchCursorPage(
+        cursor: string,
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal
+    ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        return this.client.fetchCursorPage(cursor, overrides, signal);
+    }
 
-        const endpoint = queryType === 'sql' ? '/_plugins/_sql/_explain' : '/_plugins/_ppl/_explain';
-        const payload = { query };
-        const headers = {
-            'Content-Type': 'application/json',
-            ...this.getAuthHeaders(overrides)
-        };
-        const body = JSON.stringify(payload, null, 2);
-
-        try {
-            const response = await axiosInstance.post(endpoint, payload);
-            const result = this.addRequestResponseInfo(response.data, 'POST', endpoint, headers, body, response);
-            return ConnectionInfoManager.addConnectionInfo(result, this.config, overrides);
-        } catch (error: any) {
-            return this.createErrorResponse(error, 'POST', endpoint, headers, body, overrides);
-        }
+    public async closeCursor(
+        cursor: string,
+        overrides?: ConnectionOverrides
+    ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        return this.client.closeCursor(cursor, overrides);
     }
 
     public async executeApiOperationWithOverrides(
         method: string, 
         endpoint: string, 
         body?: string, 
-        overrides?: ConnectionOverrides
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal,
+        interactive: boolean = true
     ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
-        const axiosInstance = overrides ? 
-            this.createAxiosInstanceWithOverrides(overrides) : 
-            this.axiosInstance;
+        return this.client.executeApiOperationWithOverrides(method, endpoint, body, overrides, signal, interactive);
+    }
 
-        if (!axiosInstance) {
-            throw new Error('No connection configured');
-        }
+    /**
+     * Index, alias and data stream names of the cluster, from the schema cache
+     */
+    public async getSchema(overrides?: ConnectionOverrides): Promise<ClusterSchema> {
+        return this.schemaCache.getSchema(this.getSchemaCacheKey(overrides), this.createSchemaRequest(overrides));
+    }
 
-        // Determine if this is a bulk operation and prepare request body
-        let requestBody: any = undefined;
-        let contentType = 'application/json';
-        
-        if (body && body.trim()) {
-            const isBulkOperation = endpoint.includes('/_bulk');
-            
-            if (isBulkOperation) {
-                let processedBody = body.trim();
-                
-                // Validate that each non-empty line is valid JSON
-                const lines = processedBody.split('\n');
-                for (const line of lines) {
-                    if (line.trim()) {
-                        try {
-                            JSON.parse(line.trim());
-                        } catch (error) {
-                            throw new Error(`Invalid JSON in bulk request line: ${line.trim()}`);
-                        }
-                    }
-                }
-                
-                // Ensure the body ends with a newline (required for bulk API)
-                if (!processedBody.endsWith('\n')) {
-                    processedBody += '\n';
-                }
-                
-                requestBody = processedBody;
-                contentType = 'application/x-ndjson';
-            } else {
-                try {
-                    requestBody = JSON.parse(body);
-                } catch (error) {
-                    throw new Error('Invalid JSON in request body');
-                }
-            }
-        }
+    /**
+     * Fields of the indices matching the pattern, from the schema cache
+     */
+    public async getFields(indexPattern: string, overrides?: ConnectionOverrides): Promise<SchemaField[]> {
+        return this.schemaCache.getFields(this.getSchemaCacheKey(overrides), indexPattern, this.createSchemaRequest(overrides));
+    }
 
-        const requestHeaders = {
-            'Content-Type': contentType,
-            ...this.getAuthHeaders(overrides)
-        };
+    public clearSchemaCache(): void {
+        this.schemaCache.clear();
+    }
 
-        const requestConfig: any = {
-            method: method.toLowerCase(),
-            url: endpoint,
-            data: requestBody,
-            headers: requestHeaders
+    /**
+     * Schemas are cached per endpoint and identity: other credentials may see other indices
+     */
+    private getSchemaCacheKey(overrides?: ConnectionOverrides): string {
+        const auth = { ...this.settings.config?.auth, ...overrides?.auth };
+        const identity = auth.username || auth.clientId || auth.awsProfile || auth.accessKeyId || auth.apiKey || '';
+        return [overrides?.endpoint || this.settings.config?.endpoint || '', auth.type || 'none', identity].join('|');
+    }
+
+    /**
+     * Schema requests are sent while typing, so they never start an OIDC sign-in
+     */
+    private createSchemaRequest(overrides?: ConnectionOverrides) {
+        return async (path: string) => {
+            const response: any = await this.client.executeApiOperationWithOverrides('GET', path, undefined, overrides, undefined, false);
+            if (response?.error) {
+                throw Object.assign(
+                    new Error(typeof response.error === 'string' ? response.error : JSON.stringify(response.error)),
+                    { signInRequired: OidcTokenProvider.isSignInRequired(response) }
+                );
+            }
+            return response;
         };
+    }
 
-        // For bulk operations, prevent axios from transforming the request data
-        if (endpoint.includes('/_bulk')) {
-            requestConfig.transformRequest = [(data: any) => data];
+    private async configureOidc(config: vscode.WorkspaceConfiguration): Promise<void> {
+        const flow = await vscode.window.showQuickPick([
+            { label: 'Client Credentials', description: 'Service account with a client secret', value: 'client-credentials' },
+            { label: 'Device Code', description: 'Sign in with your browser', value: 'device-code' },
+            { label: 'Static Token', description: 'Paste a bearer token', value: 'static' }
+        ], {
+            placeHolder: 'Select how to get tokens'
+        });
+        if (!flow) {
+            return;
         }
+        await config.update('auth.oidcFlow', flow.value, vscode.ConfigurationTarget.Workspace);
 
-        try {
-            const response = await axiosInstance.request(requestConfig);
-            const result = this.addRequestResponseInfo(response.data, method, endpoint, requestHeaders, body || '', response);
-            return ConnectionInfoManager.addConnectionInfo(result, this.config, overrides);
-        } catch (error: any) {
-            return this.createErrorResponse(error, method, endpoint, requestHeaders, body || '', overrides);
+        if (flow.value === 'static') {
+            const token = await vscode.window.showInputBox({
+                prompt: 'Enter bearer token',
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (token) {
+                await config.update('auth.token', await this.storeCredential('default.token', token), vscode.ConfigurationTarget.Workspace);
+            }
+            return;
         }
-    }
 
-    private formatError(error: any): string {
-        if (error.response) {
-            const status = error.response.status;
-            const statusText = error.response.statusText;
-            const data = error.response.data;
-            
-            if (data && data.error) {
-                return `${status} ${statusText}: ${data.error.reason || data.error.type || 'Unknown error'}`;
+        const tokenEndpoint = await vscode.window.showInputBox({
+            prompt: 'Enter token endpoint URL of the identity provider',
+            value: this.settings.config.auth.tokenEndpoint || '',
+            ignoreFocusOut: true
+        });
+        const clientId = await vscode.window.showInputBox({
+            prompt: 'Enter client ID',
+            value: this.settings.config.auth.clientId || '',
+            ignoreFocusOut: true
+        });
+        const scope = await vscode.window.showInputBox({
+            prompt: 'Enter scopes (leave empty for the default scopes of the client)',
+            value: this.settings.config.auth.scope || '',
+            ignoreFocusOut: true
+        });
+        await config.update('auth.tokenEndpoint', tokenEndpoint || '', vscode.ConfigurationTarget.Workspace);
+        await config.update('auth.clientId', clientId || '', vscode.ConfigurationTarget.Workspace);
+        await config.update('auth.scope', scope || '', vscode.ConfigurationTarget.Workspace);
+
+        if (flow.value === 'client-credentials') {
+            const clientSecret = await vscode.window.showInputBox({
+                prompt: 'Enter client secret',
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (clientSecret) {
+                await config.update('auth.clientSecret', await this.storeCredential('default.clientSecret', clientSecret), vscode.ConfigurationTarget.Workspace);
             }
-            
-            return `${status} ${statusText}`;
-        } else if (error.request) {
-            return 'Network error: Unable to connect to OpenSearch cluster';
         } else {
-            return error.message || 'Unknown error occurred';
+            const deviceAuthorizationEndpoint = await vscode.window.showInputBox({
+                prompt: 'Enter device authorization endpoint URL of the identity provider',
+                value: this.settings.config.auth.deviceAuthorizationEndpoint || '',
+                ignoreFocusOut: true
+            });
+            await config.update('auth.deviceAuthorizationEndpoint', deviceAuthorizationEndpoint || '', vscode.ConfigurationTarget.Workspace);
         }
     }
 
-    private createAxiosInstanceWithOverrides(overrides: ConnectionOverrides): AxiosInstance {
-        if (!this.config) {
-            throw new Error('No base configuration available');
+    /**
+     * Shows the code for an OIDC device code sign-in. The request waits until the
+     * sign-in is completed in the browser, so the notification is not awaited.
+     */
+    private showDeviceCode(prompt: DeviceCodePrompt): void {
+        void vscode.env.clipboard.writeText(prompt.userCode);
+        void vscode.window.showInformationMessage(
+            `Sign in to OpenSearch with code ${prompt.userCode} (copied to the clipboard) at ${prompt.verificationUri}`,
+            'Open Browser'
+        ).then(choice => {
+            if (choice === 'Open Browser') {
+                void vscode.env.openExternal(vscode.Uri.parse(prompt.verificationUriComplete || prompt.verificationUri));
+            }
+        });
+    }
+
+    /**
+     * Saves a credential in SecretStorage and returns the reference to put in settings.
+     * Without SecretStorage the plain value is returned.
+     */
+    private async storeCredential(key: string, value: string): Promise<string> {
+        if (!this.secretResolver) {
+            return value;
         }
+        await this.secretResolver.store(key, value);
+        return SecretResolver.toReference(key);
+    }
 
-        // Merge base config with overrides
-        const mergedConfig = {
-            endpoint: overrides.endpoint || this.config.endpoint,
-            auth: {
-                type: overrides.auth?.type || this.config.auth.type,
-                username: overrides.auth?.username || this.config.auth.username,
-                password: overrides.auth?.password || this.config.auth.password,
-                apiKey: overrides.auth?.apiKey || this.config.auth.apiKey
-            },
-            timeout: overrides.timeout || this.config.timeout
-        };
+    /**
+     * Prompts for a secret and saves it so documents and profiles can use `${secret:key}`
+     */
+    public async storeSecret(): Promise<void> {
+        if (!this.secretResolver) {
+            vscode.window.showErrorMessage('SecretStorage is not available');
+            return;
+        }
 
-        const axiosConfig: AxiosRequestConfig = {
-            baseURL: mergedConfig.endpoint,
-            timeout: mergedConfig.timeout,
-            headers: {
-                'Content-Type': 'application/json'
-            }
-        };
+        const key = await vscode.window.showInputBox({
+            prompt: 'Enter secret name (referenced as ${secret:name})',
+            ignoreFocusOut: true,
+            validateInput: (value) => SecretResolver.isValidKey(value)
+                ? null
+                : 'Use letters, digits, ".", "-" or "_"'
+        });
 
-        // Configure authentication with merged config
-        switch (mergedConfig.auth.type) {
-            case 'basic':
-                if (mergedConfig.auth.username && mergedConfig.auth.password) {
-                    axiosConfig.auth = {
-                        username: mergedConfig.auth.username,
-                        password: mergedConfig.auth.password
-                    };
-                }
-                break;
-            case 'apikey':
-                if (mergedConfig.auth.apiKey) {
-                    axiosConfig.headers = {
-                        ...axiosConfig.headers,
-                        'Authorization': `ApiKey ${mergedConfig.auth.apiKey}`
-                    };
-                }
-                break;
+        if (!key) {
+            return;
         }
 
-        return axios.create(axiosConfig);
-    }
+        const value = await vscode.window.showInputBox({
+            prompt: `Enter value for secret "${key}"`,
+            password: true,
+            ignoreFocusOut: true
+        });
 
-    public async testConnectionWithOverrides(overrides: ConnectionOverrides): Promise<ConnectionTestResult> {
-        try {
-            const axiosInstance = this.createAxiosInstanceWithOverrides(overrides);
-            const response = await axiosInstance.get('/_cluster/health');
-            const healthData = response.data;
-
-            return {
-                success: true,
-                clusterName: healthData.cluster_name,
-                version: healthData.version?.number
-            };
-        } catch (error: any) {
-            return {
-                success: false,
-                error: this.formatError(error)
-            };
+        if (value === undefined) {
+            return;
         }
+
+        await this.secretResolver.store(key, value);
+        vscode.window.showInformationMessage(`Secret saved. Reference it as ${SecretResolver.toReference(key)}`);
     }
 
     public async configureConnection(): Promise<void> {
         const endpoint = await vscode.window.showInputBox({
             prompt: 'Enter OpenSearch endpoint URL',
-            value: this.config?.endpoint || 'http://localhost:9200',
+            value: this.settings.config.endpoint || 'http://localhost:9200',
             validateInput: (value) => {
                 try {
                     new URL(value);
@@ -515,7 +422,9 @@ export class ConnectionManager {
         const authType = await vscode.window.showQuickPick([
             { label: 'None', value: 'none' },
             { label: 'Basic Authentication', value: 'basic' },
-            { label: 'API Key', value: 'apikey' }
+            { label: 'API Key', value: 'apikey' },
+            { label: 'AWS SigV4 (Amazon OpenSearch Service / Serverless)', value: 'aws-sigv4' },
+            { label: 'OpenID Connect / Bearer Token', value: 'oidc' }
         ], {
             placeHolder: 'Select authentication type'
         });
@@ -542,7 +451,7 @@ export class ConnectionManager {
 
             if (username && password) {
                 await config.update('auth.username', username, vscode.ConfigurationTarget.Workspace);
-                await config.update('auth.password', password, vscode.ConfigurationTarget.Workspace);
+                await config.update('auth.password', await this.storeCredential('default.password', password), vscode.ConfigurationTarget.Workspace);
             }
         } else if (authType.value === 'apikey') {
             const apiKey = await vscode.window.showInputBox({
@@ -552,8 +461,38 @@ export class ConnectionManager {
             });
 
             if (apiKey) {
-                await config.update('auth.apiKey', apiKey, vscode.ConfigurationTarget.Workspace);
+                await config.update('auth.apiKey', await this.storeCredential('default.apiKey', apiKey), vscode.ConfigurationTarget.Workspace);
             }
+        } else if (authType.value === 'aws-sigv4') {
+            const region = await vscode.window.showInputBox({
+                prompt: 'Enter AWS region (leave empty to use AWS_REGION)',
+                value: this.settings.config.auth.region || '',
+                ignoreFocusOut: true
+            });
+
+            const service = await vscode.window.showQuickPick([
+                { label: 'Amazon OpenSearch Service', description: 'es', value: 'es' },
+                { label: 'Amazon OpenSearch Serverless', description: 'aoss', value: 'aoss' }
+            ], {
+                placeHolder: 'Select AWS service'
+            });
+
+            const awsProfile = await vscode.window.showInputBox({
+                prompt: 'Enter AWS profile name (leave empty to use environment variables or the default profile)',
+                value: this.settings.config.auth.awsProfile || '',
+                ignoreFocusOut: true
+            });
+
+            await config.update('auth.region', region || '', vscode.ConfigurationTarget.Workspace);
+            await config.update('auth.service', service?.value || 'es', vscode.ConfigurationTarget.Workspace);
+            await config.update('auth.awsProfile', awsProfile || '', vscode.ConfigurationTarget.Workspace);
+        } else if (authType.value === 'oidc') {
+            await this.configureOidc(config);
+        }
+
+        // The configured settings only apply when no default profile replaces them
+        if (this.settings.config.connection) {
+            await this.setDefaultConnection('');
         }
 
         vscode.window.showInformationMessage('OpenSearch connection configured successfully!');
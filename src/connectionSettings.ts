@@ -0,0 +1,211 @@
+import { OpenSearchConfig, ConnectionOverrides, ConnectionProfile, ProxyOptions, OidcFlow } from './types';
+
+/**
+ * Reads a setting of the `opensearch` section. `vscode.WorkspaceConfiguration`
+ * satisfies it; the CLI reads a settings file instead.
+ */
+export interface SettingsReader {
+    get<T>(key: string, defaultValue: T): T;
+}
+
+/**
+ * Connection settings, named profiles and variable environments of the `opensearch` section
+ */
+export class ConnectionSettings {
+    private static readonly SHARED_ENVIRONMENT = '$shared';
+
+    public readonly config: OpenSearchConfig;
+    private profiles: Record<string, ConnectionProfile>;
+    private environments: Record<string, Record<string, string>>;
+    private activeEnvironment: string;
+
+    /**
+     * @param httpSettings VS Code's `http` section, whose proxy settings apply when
+     * `opensearch.proxy.url` is not set
+     */
+    constructor(settings: SettingsReader, httpSettings?: SettingsReader) {
+        this.config = {
+            endpoint: settings.get('endpoint', 'http://localhost:9200'),
+            auth: {
+                type: settings.get('auth.type', 'none'),
+                username: settings.get('auth.username', ''),
+                password: settings.get('auth.password', ''),
+                apiKey: settings.get('auth.apiKey', ''),
+                region: settings.get('auth.region', ''),
+                service: settings.get('auth.service', 'es'),
+                awsProfile: settings.get('auth.awsProfile', ''),
+                accessKeyId: settings.get('auth.accessKeyId', ''),
+                secretAccessKey: settings.get('auth.secretAccessKey', ''),
+                sessionToken: settings.get('auth.sessionToken', ''),
+                oidcFlow: settings.get<OidcFlow | ''>('auth.oidcFlow', '') || undefined,
+                token: settings.get('auth.token', ''),
+                tokenEndpoint: settings.get('auth.tokenEndpoint', ''),
+                deviceAuthorizationEndpoint: settings.get('auth.deviceAuthorizationEndpoint', ''),
+                clientId: settings.get('auth.clientId', ''),
+                clientSecret: settings.get('auth.clientSecret', ''),
+                scope: settings.get('auth.scope', '')
+            },
+            timeout: settings.get('timeout', 30000),
+            tls: {
+                caFile: settings.get('tls.caFile', ''),
+                certFile: settings.get('tls.certFile', ''),
+                keyFile: settings.get('tls.keyFile', ''),
+                rejectUnauthorized: settings.get('tls.rejectUnauthorized', true)
+            },
+            proxy: ConnectionSettings.readProxy(settings, httpSettings),
+            retry: {
+                maxRetries: settings.get('retry.maxRetries', 2),
+                initialDelay: settings.get('retry.initialDelay', 500),
+                maxDelay: settings.get('retry.maxDelay', 10000),
+                retryNonIdempotent: settings.get('retry.retryNonIdempotent', false)
+            },
+            nodes: {
+                urls: settings.get<string[]>('nodes.urls', []) || [],
+                selection: settings.get('nodes.selection', 'failover'),
+                sniff: settings.get('nodes.sniff', false),
+                sniffIntervalMinutes: settings.get('nodes.sniffIntervalMinutes', 5)
+            },
+            maxHistoryItems: settings.get('maxHistoryItems', 100),
+            enableCodeLens: settings.get('enableCodeLens', true)
+        };
+
+        this.profiles = settings.get<Record<string, ConnectionProfile>>('connections', {}) || {};
+        this.environments = settings.get<Record<string, Record<string, string>>>('environments', {}) || {};
+        this.activeEnvironment = settings.get<string>('activeEnvironment', '') || '';
+
+        // A default profile replaces the endpoint/auth settings
+        const defaultConnection = settings.get<string>('defaultConnection', '');
+        const defaultProfile = defaultConnection ? this.profiles[defaultConnection] : undefined;
+        if (defaultProfile) {
+            this.config = {
+                ...this.config,
+                endpoint: defaultProfile.endpoint,
+                auth: {
+                    ...defaultProfile.auth,
+                    type: defaultProfile.auth?.type || 'none'
+                },
+                timeout: defaultProfile.timeout || this.config.timeout,
+                tls: defaultProfile.tls,
+                proxy: { ...this.config.proxy, ...defaultProfile.proxy },
+                retry: { ...this.config.retry, ...defaultProfile.retry },
+                // The nodes of the endpoint setting belong to a different cluster
+                nodes: defaultProfile.nodes,
+                connection: defaultConnection
+            };
+        }
+    }
+
+    /**
+     * Names of all profiles defined in `opensearch.connections`
+     */
+    public getConnectionNames(): string[] {
+        return Object.keys(this.profiles);
+    }
+
+    public getConnectionProfile(name: string): ConnectionProfile | undefined {
+        return this.profiles[name];
+    }
+
+    /**
+     * Resolves a named connection profile into connection overrides.
+     *
+     * A `-- Connection:` metadata name takes precedence over any configuration block.
+     * An `@connection` variable inside a configuration block is used as the base for
+     * the other variables of that block.
+     */
+    public resolveConnectionOverrides(
+        connectionName?: string,
+        overrides?: ConnectionOverrides
+    ): ConnectionOverrides | undefined {
+        if (connectionName) {
+            return {
+                ...overrides,
+                ...this.profileToOverrides(connectionName)
+            };
+        }
+
+        if (overrides?.connection) {
+            const profileOverrides = this.profileToOverrides(overrides.connection);
+            return {
+                ...profileOverrides,
+                ...overrides,
+                auth: { ...profileOverrides.auth, ...overrides.auth }
+            };
+        }
+
+        return overrides;
+    }
+
+    private profileToOverrides(name: string): ConnectionOverrides {
+        const profile = this.profiles[name];
+        if (!profile) {
+            throw new Error(`Unknown connection profile: ${name}. Define it under "opensearch.connections" in settings.`);
+        }
+
+        const overrides: ConnectionOverrides = {
+            connection: name,
+            endpoint: profile.endpoint,
+            auth: {
+                ...profile.auth,
+                type: profile.auth?.type || 'none'
+            }
+        };
+        if (profile.timeout) {
+            overrides.timeout = profile.timeout;
+        }
+        if (profile.tls) {
+            overrides.tls = profile.tls;
+        }
+        if (profile.proxy) {
+            overrides.proxy = profile.proxy;
+        }
+        if (profile.retry) {
+            overrides.retry = profile.retry;
+        }
+        if (profile.nodes) {
+            overrides.nodes = profile.nodes;
+        }
+        return overrides;
+    }
+
+    /**
+     * Proxy settings; unset values fall back to the `HTTPS_PROXY`, `HTTP_PROXY` and
+     * `NO_PROXY` environment variables when requests are sent
+     */
+    private static readProxy(settings: SettingsReader, httpSettings?: SettingsReader): ProxyOptions {
+        const noProxy = settings.get<string>('proxy.noProxy', '') || (httpSettings?.get<string[]>('noProxy', []) || []).join(',');
+        return {
+            url: settings.get<string>('proxy.url', '') || httpSettings?.get<string>('proxy', '') || undefined,
+            username: settings.get<string>('proxy.username', '') || undefined,
+            password: settings.get<string>('proxy.password', '') || undefined,
+            noProxy: noProxy || undefined,
+            strictSSL: httpSettings?.get<boolean>('proxyStrictSSL', true) ?? true
+        };
+    }
+
+    /**
+     * Returns the environment names from `opensearch.environments`, excluding `$shared`
+     */
+    public getEnvironmentNames(): string[] {
+        return Object.keys(this.environments).filter(name => name !== ConnectionSettings.SHARED_ENVIRONMENT);
+    }
+
+    public getEnvironment(name: string): Record<string, string> | undefined {
+        return this.environments[name];
+    }
+
+    public getActiveEnvironment(): string | undefined {
+        return this.environments[this.activeEnvironment] ? this.activeEnvironment : undefined;
+    }
+
+    /**
+     * Returns the variables of the active environment layered over `$shared`
+     */
+    public getEnvironmentVariables(): Record<string, string> {
+        const active = this.getActiveEnvironment();
+        return {
+            ...this.environments[ConnectionSettings.SHARED_ENVIRONMENT],
+            ...(active ? this.environments[active] : {})
+        };
+    }
+}
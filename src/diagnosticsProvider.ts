@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { DocumentParser } from './documentParser';
+import { ValidationPipeline } from './utils/validationPipeline';
+
+/**
+ * Publishes the ValidationPipeline results of every query block as diagnostics,
+ * updated while the document is edited
+ */
+export class QueryDiagnostics implements vscode.Disposable {
+    private static readonly UPDATE_DELAY = 300;
+
+    private collection = vscode.languages.createDiagnosticCollection('opensearch');
+    private disposables: vscode.Disposable[] = [];
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.update(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('opensearch.diagnostics.enabled')) {
+                    vscode.workspace.textDocuments.forEach(document => this.update(document));
+                }
+            })
+        );
+        vscode.workspace.textDocuments.forEach(document => this.update(document));
+    }
+
+    public update(document: vscode.TextDocument): void {
+        if (document.languageId !== 'markdown' && document.languageId !== 'restructuredtext') {
+            return;
+        }
+        if (!vscode.workspace.getConfiguration('opensearch').get<boolean>('diagnostics.enabled', true)) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        for (const block of DocumentParser.parseDocumentWithOverrides(document)) {
+            const issues = ValidationPipeline.collectIssues(block.content, block.type, block.metadata, block.connectionOverrides);
+            if (issues.length === 0) {
+                continue;
+            }
+
+            // Metadata comments are not part of the content, so locate it within the block
+            const blockOffset = document.offsetAt(block.range.start);
+            const contentOffset = block.content ? document.getText(block.range).indexOf(block.content) : -1;
+            for (const issue of issues) {
+                const range = issue.offset !== undefined && contentOffset >= 0
+                    ? new vscode.Range(
+                        document.positionAt(blockOffset + contentOffset + issue.offset),
+                        document.positionAt(blockOffset + contentOffset + issue.offset + (issue.length || 0))
+                    )
+                    : block.range;
+                const diagnostic = new vscode.Diagnostic(
+                    range,
+                    issue.message,
+                    issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = 'OpenSearch';
+                diagnostics.push(diagnostic);
+            }
+        }
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.pendingUpdates.get(key));
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.update(document);
+        }, QueryDiagnostics.UPDATE_DELAY));
+    }
+
+    private clear(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.pendingUpdates.get(key));
+        this.pendingUpdates.delete(key);
+        this.collection.delete(document.uri);
+    }
+
+    public dispose(): void {
+        this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+        this.pendingUpdates.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.collection.dispose();
+    }
+}
@@ -1,14 +1,43 @@
 import * as vscode from 'vscode';
-import { QueryBlock, QueryMetadata, ConnectionOverrides, ConfigurationBlock, QueryType, HttpMethod } from './types';
-import { IDocumentParser, MarkdownParser, RstParser } from './parsers';
-import { JsonUtils } from './utils/jsonUtils';
+import { QueryBlock, QueryMetadata, ConnectionOverrides, ConfigurationBlock, ExpectedBlock, Expectation, QueryType, TextRange } from './types';
+import { BaseParser, IDocumentParser, MarkdownParser, RstParser } from './parsers';
+import { SnapshotAssertion } from './utils/snapshotAssertion';
 
 export class DocumentParser {
     public static parseDocument(document: vscode.TextDocument): QueryBlock[] {
+        return this.getParser(document).parseDocument(document).map(block => this.withVscodeRange(block));
+    }
+
+    private static getParser(document: vscode.TextDocument): IDocumentParser {
         const isRst = document.languageId === 'restructuredtext';
         
-        const parser: IDocumentParser = isRst ? new RstParser() : new MarkdownParser();
-        return parser.parseDocument(document);
+        return isRst ? new RstParser() : new MarkdownParser();
+    }
+
+    /**
+     * Replaces the plain range of a parsed block with a vscode.Range
+     */
+    private static withVscodeRange<T extends { range: TextRange }>(block: T): Omit<T, 'range'> & { range: vscode.Range } {
+        return { ...block, range: this.toRange(block.range) };
+    }
+
+    private static toRange(range: TextRange): vscode.Range {
+        try {
+            return new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
+        } catch {
+            // Fallback for test environment
+            return {
+                start: range.start,
+                end: range.end,
+                contains: () => false,
+                intersection: () => undefined,
+                isEmpty: false,
+                isSingleLine: range.start.line === range.end.line,
+                isEqual: () => false,
+                union: () => ({} as vscode.Range),
+                with: () => ({} as vscode.Range)
+            } as unknown as vscode.Range;
+        }
     }
 
     public static findQueryBlockAtPosition(document: vscode.TextDocument, position: vscode.Position): QueryBlock | null {
@@ -32,103 +61,43 @@ export class DocumentParser {
     }
 
     public static validateQuery(content: string, type: QueryType, metadata?: QueryMetadata): { valid: boolean; error?: string } {
-        const trimmedContent = content.trim();
-        
-        // For opensearch-api, content can be empty for GET/DELETE operations
-        if (!trimmedContent && type !== QueryType.OPENSEARCH_API) {
-            return { valid: false, error: 'Query cannot be empty' };
-        }
-        
-        if (type === QueryType.OPENSEARCH_API) {
-            // API validation
-            if (!metadata?.method) {
-                return { 
-                    valid: false, 
-                    error: 'OpenSearch API operation requires HTTP method. Use either "METHOD /endpoint" format or "-- Method: GET/POST/PUT/DELETE" metadata comment.' 
-                };
-            }
-            
-            if (!metadata?.endpoint) {
-                return { 
-                    valid: false, 
-                    error: 'OpenSearch API operation requires endpoint. Use either "METHOD /endpoint" format or "-- Endpoint: /index/_doc" metadata comment.' 
-                };
-            }
-            
-            const validMethods = Object.values(HttpMethod);
-            if (!validMethods.includes(metadata.method.toUpperCase() as HttpMethod)) {
-                return { 
-                    valid: false, 
-                    error: `Invalid HTTP method: ${metadata.method}. Must be one of: ${validMethods.join(', ')}` 
-                };
-            }
-            
-            // For methods that typically have request bodies, validate JSON if content exists
-            if ([HttpMethod.POST, HttpMethod.PUT].includes(metadata.method.toUpperCase() as HttpMethod) && trimmedContent) {
-                // Check if this is a bulk operation
-                const isBulkOperation = metadata.endpoint?.includes('/_bulk');
-                
-                if (isBulkOperation) {
-                    // For bulk operations, validate using centralized utility
-                    const validation = JsonUtils.validateBulkJSON(trimmedContent);
-                    if (!validation.valid) {
-                        return validation;
-                    }
-                } else {
-                    // For regular operations, validate as single JSON object
-                    const validation = JsonUtils.validateAndParse(trimmedContent);
-                    if (!validation.valid) {
-                        return { 
-                            valid: false, 
-                            error: 'Invalid JSON in request body' 
-                        };
-                    }
-                }
-            }
-        }
-        
-        return { valid: true };
+        return BaseParser.validateQuery(content, type, metadata);
     }
 
     public static formatQuery(content: string, type: QueryType): string {
-        // Basic query formatting
-        const lines = content.split('\n');
-        const formattedLines = lines.map(line => line.trim()).filter(line => line.length > 0);
-        
-        if (type === QueryType.SQL) {
-            // Basic SQL formatting
-            return formattedLines.join('\n');
-        } else if (type === QueryType.PPL) {
-            // PPL formatting
-            return formattedLines.join('\n');
-        } else if (type === QueryType.OPENSEARCH_API) {
-            // JSON formatting for API requests using centralized utility
-            return JsonUtils.formatJSON(content);
-        }
-        
-        return content;
+        return BaseParser.formatQuery(content, type);
     }
 
     public static getQueryPreview(content: string, maxLength: number = 50): string {
-        const cleanContent = content.replace(/\s+/g, ' ').trim();
-        
-        if (cleanContent.length <= maxLength) {
-            return cleanContent;
-        }
-        
-        return cleanContent.substring(0, maxLength - 3) + '...';
+        return BaseParser.getQueryPreview(content, maxLength);
     }
 
     /**
      * Parse configuration blocks from the document
      */
     public static parseConfigurationBlocks(document: vscode.TextDocument): ConfigurationBlock[] {
-        const isRst = document.languageId === 'restructuredtext';
-        
-        const parser: IDocumentParser = isRst ? new RstParser() : new MarkdownParser();
-        return parser.parseConfigurationBlocks(document);
+        return this.getParser(document).parseConfigurationBlocks(document).map(block => this.withVscodeRange(block));
+    }
+
+
+    /**
+     * Parse `expected` blocks from the document
+     */
+    public static parseExpectedBlocks(document: vscode.TextDocument): ExpectedBlock[] {
+        return this.getParser(document).parseExpectedBlocks(document).map(block => this.withVscodeRange(block));
     }
 
+    /**
+     * Finds the expected result of a query block (see SnapshotAssertion.findExpectation)
+     */
+    public static findExpectation(
+        document: vscode.TextDocument,
+        queryBlock: QueryBlock,
+        queryBlocks: QueryBlock[] = this.parseDocument(document),
+        expectedBlocks: ExpectedBlock[] = this.parseExpectedBlocks(document)
+    ): Expectation | undefined {
+        return SnapshotAssertion.findExpectation(queryBlock, queryBlocks, expectedBlocks);
+    }
 
     /**
      * Enhanced parseDocument that includes connection overrides
@@ -139,7 +108,7 @@ export class DocumentParser {
         
         // Apply connection overrides to each query block
         for (const queryBlock of queryBlocks) {
-            const overrides = this.resolveConfigurationForQuery(document, queryBlock.range.start, configBlocks);
+            const overrides = BaseParser.findPrecedingConfiguration(queryBlock.range.start, configBlocks);
             if (overrides) {
                 queryBlock.connectionOverrides = overrides;
             }
@@ -148,33 +117,6 @@ export class DocumentParser {
         return queryBlocks;
     }
 
-    /**
-     * Find the closest preceding configuration block for a query
-     */
-    private static resolveConfigurationForQuery(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        configBlocks: ConfigurationBlock[]
-    ): ConnectionOverrides | null {
-        // Calculate the actual position of the query in the document
-        const queryStartPosition = position.line * 10000 + position.character;
-        
-        // Find config blocks that appear before this query
-        const precedingConfigs = configBlocks
-            .filter(config => {
-                // Calculate config block position in the same way
-                const configPosition = config.range.start.line * 10000 + config.range.start.character;
-                return configPosition < queryStartPosition;
-            })
-            .sort((a, b) => {
-                const aPos = a.range.start.line * 10000 + a.range.start.character;
-                const bPos = b.range.start.line * 10000 + b.range.start.character;
-                return bPos - aPos; // Closest first
-            });
-        
-        return precedingConfigs[0]?.config || null;
-    }
-
     /**
      * Resolve configuration for a query at a specific position (public method for external use)
      */
@@ -194,8 +136,8 @@ export class DocumentParser {
             languageId: 'markdown' // Default to markdown for backward compatibility
         } as vscode.TextDocument;
 
-        const configBlocks = this.parseConfigurationBlocks(mockDocument);
-        return this.resolveConfigurationForQuery(mockDocument, position, configBlocks);
+        const configBlocks = this.getParser(mockDocument).parseConfigurationBlocks(mockDocument);
+        return BaseParser.findPrecedingConfiguration(position, configBlocks);
     }
 
     /**
@@ -220,30 +162,6 @@ export class DocumentParser {
      * Validate connection overrides
      */
     public static validateConnectionOverrides(overrides: ConnectionOverrides): { valid: boolean; error?: string } {
-        if (overrides.endpoint) {
-            try {
-                new URL(overrides.endpoint);
-            } catch {
-                return { valid: false, error: `Invalid endpoint URL: ${overrides.endpoint}` };
-            }
-        }
-        
-        if (overrides.auth?.type === 'basic') {
-            if (!overrides.auth.username || !overrides.auth.password) {
-                return { valid: false, error: 'Basic auth requires both username and password' };
-            }
-        }
-        
-        if (overrides.auth?.type === 'apikey') {
-            if (!overrides.auth.apiKey) {
-                return { valid: false, error: 'API key auth requires api_key' };
-            }
-        }
-        
-        if (overrides.timeout && (overrides.timeout < 1000 || overrides.timeout > 300000)) {
-            return { valid: false, error: 'Timeout must be between 1000ms and 300000ms (5 minutes)' };
-        }
-        
-        return { valid: true };
+        return BaseParser.validateConnectionOverrides(overrides);
     }
 }
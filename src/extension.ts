@@ -3,24 +3,34 @@ import { ConnectionManager } from './connectionManager';
 import { QueryRunner } from './queryRunner';
 import { ResultsProvider } from './resultsProvider';
 import { HistoryManager } from './historyManager';
+import { PersistentResultsManager } from './persistentResultsManager';
 import { DocumentParser } from './documentParser';
 import { OpenSearchCodeLensProvider, OpenSearchCodeActionProvider, OpenSearchHoverProvider } from './codeLensProvider';
-import { DisplayMode } from './types';
+import { DisplayMode, QueryResult } from './types';
+import { RunSummaryFormatter } from './utils/runSummaryFormatter';
+import { ResultStore } from './utils/resultStore';
+import { SnapshotTestController } from './snapshotTestController';
+import { OpenSearchCompletionProvider } from './completionProvider';
+import { QueryDiagnostics } from './diagnosticsProvider';
+import { ClusterHealthMonitor } from './clusterHealthMonitor';
 
 let connectionManager: ConnectionManager;
 let queryRunner: QueryRunner;
 let resultsProvider: ResultsProvider;
 let historyManager: HistoryManager;
 let codeLensProvider: OpenSearchCodeLensProvider;
+// Documents whose stored results were already shown since they were opened
+const restoredDocuments = new Set<string>();
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('OpenSearch Query Runner extension is now active!');
 
-    connectionManager = new ConnectionManager();
+    connectionManager = new ConnectionManager(context.secrets);
     queryRunner = new QueryRunner(connectionManager);
     historyManager = new HistoryManager(context);
-    resultsProvider = new ResultsProvider(historyManager);
+    resultsProvider = new ResultsProvider(historyManager, queryRunner);
     codeLensProvider = new OpenSearchCodeLensProvider();
+    const snapshotTestController = new SnapshotTestController(queryRunner);
 
     // Register CodeLens provider for both markdown and RST
     const codeLensDisposableMarkdown = vscode.languages.registerCodeLensProvider(
@@ -52,6 +62,14 @@ export function activate(context: vscode.ExtensionContext) {
         new OpenSearchHoverProvider()
     );
 
+    // Register PPL and schema completion and live validation diagnostics for both markdown and RST
+    const completionDisposable = vscode.languages.registerCompletionItemProvider(
+        [{ language: 'markdown' }, { language: 'restructuredtext' }],
+        new OpenSearchCompletionProvider(connectionManager),
+        ...OpenSearchCompletionProvider.TRIGGER_CHARACTERS
+    );
+    const queryDiagnostics = new QueryDiagnostics();
+
     // Register commands
     const runQueryCommand = vscode.commands.registerCommand(
         'opensearch-query.runQuery',
@@ -74,6 +92,34 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    const runAllBlocksCommand = vscode.commands.registerCommand(
+        'opensearch-query.runAllBlocks',
+        async () => {
+            await runBlocks(false);
+        }
+    );
+
+    const runBlocksInSelectionCommand = vscode.commands.registerCommand(
+        'opensearch-query.runBlocksInSelection',
+        async () => {
+            await runBlocks(true);
+        }
+    );
+
+    const refreshStaleResultsCommand = vscode.commands.registerCommand(
+        'opensearch-query.refreshStaleResults',
+        async () => {
+            await refreshStaleResults();
+        }
+    );
+
+    const refreshSchemaCommand = vscode.commands.registerCommand(
+        'opensearch-query.refreshSchema',
+        () => {
+            connectionManager.clearSchemaCache();
+            vscode.window.showInformationMessage('Schema cache cleared. Index and field names are fetched again on the next completion.');
+        }
+    );
 
     const configureConnectionCommand = vscode.commands.registerCommand(
         'opensearch-query.configureConnection',
@@ -82,6 +128,48 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    const selectConnectionCommand = vscode.commands.registerCommand(
+        'opensearch-query.selectConnection',
+        async () => {
+            await connectionManager.selectDefaultConnection();
+        }
+    );
+
+    const selectEnvironmentCommand = vscode.commands.registerCommand(
+        'opensearch-query.selectEnvironment',
+        async () => {
+            await connectionManager.selectEnvironment();
+        }
+    );
+
+    const storeSecretCommand = vscode.commands.registerCommand(
+        'opensearch-query.storeSecret',
+        async () => {
+            await connectionManager.storeSecret();
+        }
+    );
+
+    const exportResultsCommand = vscode.commands.registerCommand(
+        'opensearch-query.exportResults',
+        async () => {
+            await PersistentResultsManager.getInstance(historyManager, queryRunner).exportResults();
+        }
+    );
+
+    const runAgainstTwoConnectionsCommand = vscode.commands.registerCommand(
+        'opensearch-query.runAgainstTwoConnections',
+        async (uri?: vscode.Uri, position?: vscode.Position) => {
+            await runAgainstTwoConnections(uri, position);
+        }
+    );
+
+    const updateSnapshotCommand = vscode.commands.registerCommand(
+        'opensearch-query.updateSnapshot',
+        async (target?: vscode.Uri | vscode.TestItem, position?: vscode.Position) => {
+            await snapshotTestController.updateSnapshot(target, position);
+        }
+    );
+
     const formatQueryCommand = vscode.commands.registerCommand(
         'opensearch-query.formatQuery',
         async (uri?: vscode.Uri, position?: vscode.Position) => {
@@ -94,21 +182,31 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.StatusBarAlignment.Right,
         100
     );
-    statusBarItem.command = 'opensearch-query.configureConnection';
+    statusBarItem.command = 'opensearch-query.selectConnection';
     statusBarItem.text = '$(database) OpenSearch';
-    statusBarItem.tooltip = 'Configure OpenSearch connection';
+    statusBarItem.tooltip = 'Select OpenSearch connection';
     statusBarItem.show();
 
-    updateStatusBar(statusBarItem);
+    // Keeps the status bar item up to date with the health of the active connection
+    const clusterHealthMonitor = new ClusterHealthMonitor(connectionManager, statusBarItem);
 
-    // Listen for configuration changes to update status bar
     const configChangeDisposable = vscode.workspace.onDidChangeConfiguration((e) => {
         if (e.affectsConfiguration('opensearch')) {
-            updateStatusBar(statusBarItem);
             codeLensProvider.refresh();
         }
     });
 
+    // Cached responses of named blocks only live as long as the document is open
+    const closeDocumentDisposable = vscode.workspace.onDidCloseTextDocument((document) => {
+        queryRunner.clearResponseCache(document.uri);
+        restoredDocuments.delete(document.uri.toString());
+    });
+
+    const activeEditorDisposable = vscode.window.onDidChangeActiveTextEditor((editor) => {
+        void restoreStoredResults(editor);
+    });
+    void restoreStoredResults(vscode.window.activeTextEditor);
+
     // Add all disposables to context
     context.subscriptions.push(
         codeLensDisposableMarkdown,
@@ -117,13 +215,29 @@ export function activate(context: vscode.ExtensionContext) {
         codeActionDisposableRst,
         hoverDisposableMarkdown,
         hoverDisposableRst,
+        completionDisposable,
+        queryDiagnostics,
         runQueryCommand,
         runQueryInlineCommand,
         runQueryInTabCommand,
+        runAllBlocksCommand,
+        runBlocksInSelectionCommand,
+        refreshStaleResultsCommand,
+        refreshSchemaCommand,
         configureConnectionCommand,
+        selectConnectionCommand,
+        selectEnvironmentCommand,
+        storeSecretCommand,
+        exportResultsCommand,
+        runAgainstTwoConnectionsCommand,
+        updateSnapshotCommand,
         formatQueryCommand,
         statusBarItem,
-        configChangeDisposable
+        clusterHealthMonitor,
+        snapshotTestController,
+        configChangeDisposable,
+        closeDocumentDisposable,
+        activeEditorDisposable
     );
 
     // Show welcome message on first activation
@@ -188,22 +302,26 @@ async function runQuery(
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: 'Executing OpenSearch query...',
-            cancellable: false
-        }, async (progress) => {
+            cancellable: true
+        }, async (progress, token) => {
             // Execute query
-            const result = await queryRunner.executeQueryFromBlock(queryBlock);
+            let result = await queryRunner.executeQueryFromBlock(queryBlock, document, token);
+            if (mode === DisplayMode.Inline && result.cursor) {
+                progress.report({ message: 'Fetching remaining pages...' });
+                result = await resolveInlinePages(result, token);
+            }
 
             // For SQL and PPL queries, also execute explain query if in separate tab mode
-            if (mode === DisplayMode.SeparateTab && (queryBlock.type === 'sql' || queryBlock.type === 'ppl')) {
+            if (mode === DisplayMode.SeparateTab && !result.cancelled && (queryBlock.type === 'sql' || queryBlock.type === 'ppl')) {
                 progress.report({ message: 'Executing explain query...' });
-                const explainResult = await queryRunner.executeExplainQueryFromBlock(queryBlock);
+                const explainResult = await queryRunner.executeExplainQueryFromBlock(queryBlock, document, token);
                 
                 // Add to history if separate tab mode (including explain result)
                 await historyManager.addToHistory(
                     queryBlock.content,
                     queryBlock.type,
                     result,
-                    config!.endpoint,
+                    result.connectionInfo?.endpoint || config!.endpoint,
                     explainResult
                 );
 
@@ -224,7 +342,7 @@ async function runQuery(
                         queryBlock.content,
                         queryBlock.type,
                         result,
-                        config!.endpoint
+                        result.connectionInfo?.endpoint || config!.endpoint
                     );
                 }
 
@@ -246,6 +364,268 @@ async function runQuery(
     }
 }
 
+/**
+ * Inline results cannot load more rows later, so either follow the cursor up to
+ * the configured cap or close it right away
+ */
+async function resolveInlinePages(result: QueryResult, token: vscode.CancellationToken): Promise<QueryResult> {
+    if (!result.cursor) {
+        return result;
+    }
+
+    const config = vscode.workspace.getConfiguration('opensearch');
+    if (config.get<boolean>('pagination.inlineFetchAll', false)) {
+        return queryRunner.fetchRemainingPages(result, config.get<number>('pagination.inlineMaxRows', 1000), token);
+    }
+
+    await queryRunner.closeCursor(result.cursor);
+    return result;
+}
+
+async function runBlocks(selectionOnly: boolean): Promise<void> {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+
+        const document = editor.document;
+        if (document.languageId !== 'markdown' && document.languageId !== 'restructuredtext') {
+            vscode.window.showErrorMessage('OpenSearch queries can only be run from markdown and RST files');
+            return;
+        }
+
+        const blocks = DocumentParser.parseDocumentWithOverrides(document);
+        const blockIndexes = blocks
+            .map((block, index) => ({ block, index }))
+            .filter(({ block }) => !selectionOnly || editor.selections.some(selection => selection.intersection(block.range) !== undefined))
+            .map(({ index }) => index);
+
+        if (blockIndexes.length === 0) {
+            vscode.window.showWarningMessage(selectionOnly ? 'No query blocks found in selection' : 'No query blocks found in document');
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('opensearch');
+        const stopOnFailure = config.get<boolean>('runAll.stopOnFailure', true);
+        let mode = config.get<string>('runAll.resultsMode', 'ask');
+        if (mode === 'ask') {
+            const choice = await vscode.window.showQuickPick([
+                {
+                    label: '$(output) Inline Results',
+                    description: 'Insert results below each block',
+                    value: 'inline'
+                },
+                {
+                    label: '$(list-flat) Summary Tab',
+                    description: 'Show status, time and row count of each block in one tab',
+                    value: 'summary'
+                }
+            ], {
+                placeHolder: `Run ${blockIndexes.length} block(s): choose how to display results`
+            });
+            if (!choice) {
+                return;
+            }
+            mode = choice.value;
+        }
+
+        await runBlocksWithProgress(document, blockIndexes, mode, stopOnFailure);
+
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to run query blocks: ${error.message}`);
+        console.error('Run blocks error:', error);
+    }
+}
+
+/**
+ * Runs blocks of a document in order and reports the outcome, with results
+ * inserted inline or collected in a summary tab
+ */
+async function runBlocksWithProgress(
+    document: vscode.TextDocument,
+    blockIndexes: number[],
+    mode: string,
+    stopOnFailure: boolean
+): Promise<void> {
+    const summaries = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Running ${blockIndexes.length} OpenSearch block(s)`,
+        cancellable: true
+    }, (progress, token) => queryRunner.executeBlocks(
+        document,
+        blockIndexes,
+        { stopOnFailure },
+        async (block, result) => {
+            if (mode === 'inline') {
+                const inlineResult = await resolveInlinePages(result, token);
+                await resultsProvider.insertInlineResults(inlineResult, document, block.range.start, block.content, block.type);
+            } else {
+                await historyManager.addToHistory(
+                    block.content,
+                    block.type,
+                    result,
+                    result.connectionInfo?.endpoint || connectionManager.getConfig()?.endpoint || ''
+                );
+            }
+        },
+        token,
+        progress
+    ));
+
+    if (mode === 'summary') {
+        resultsProvider.displayRunSummary(summaries, document);
+    }
+
+    const message = `OpenSearch run finished: ${RunSummaryFormatter.describe(summaries)}`;
+    if (summaries.some(summary => summary.status === 'failed')) {
+        vscode.window.showWarningMessage(message);
+    } else {
+        vscode.window.showInformationMessage(message);
+    }
+}
+
+/**
+ * Re-runs the blocks whose stored results are older than `opensearch.inlineResults.staleAfterHours`
+ */
+async function refreshStaleResults(): Promise<void> {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+
+        const document = editor.document;
+        if (document.languageId !== 'markdown' && document.languageId !== 'restructuredtext') {
+            vscode.window.showErrorMessage('OpenSearch queries can only be run from markdown and RST files');
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('opensearch');
+        const maxAgeHours = config.get<number>('inlineResults.staleAfterHours', 24);
+        const storedResults = await resultsProvider.loadStoredResults(document);
+        const blockIndexes = DocumentParser.parseDocumentWithOverrides(document)
+            .map((block, index) => ({ stored: ResultStore.findResult(storedResults, block.content, block.type), index }))
+            .filter(({ stored }) => stored && ResultStore.isStale(stored, maxAgeHours))
+            .map(({ index }) => index);
+
+        if (blockIndexes.length === 0) {
+            vscode.window.showInformationMessage(storedResults.length > 0
+                ? `No stored results are older than ${maxAgeHours} hours`
+                : 'No stored results found. Enable opensearch.inlineResults.persist to save results with the document.');
+            return;
+        }
+
+        await runBlocksWithProgress(document, blockIndexes, 'inline', false);
+
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to refresh results: ${error.message}`);
+        console.error('Refresh results error:', error);
+    }
+}
+
+/**
+ * Shows the results saved with a document in the results tab the first time it becomes active
+ */
+async function restoreStoredResults(editor: vscode.TextEditor | undefined): Promise<void> {
+    const document = editor?.document;
+    if (!document || (document.languageId !== 'markdown' && document.languageId !== 'restructuredtext')) {
+        return;
+    }
+    const key = document.uri.toString();
+    if (restoredDocuments.has(key) || !vscode.workspace.getConfiguration('opensearch').get<boolean>('inlineResults.restoreOnOpen', true)) {
+        return;
+    }
+    restoredDocuments.add(key);
+
+    try {
+        const storedResults = await resultsProvider.loadStoredResults(document);
+        if (storedResults.length === 0) {
+            return;
+        }
+        const latest = storedResults.reduce((a, b) => b.result.executedAt > a.result.executedAt ? b : a);
+        const block = DocumentParser.parseDocument(document).find(candidate => candidate.content === latest.query);
+        await PersistentResultsManager.getInstance(historyManager, queryRunner)
+            .restoreResults(storedResults, block && { uri: document.uri, position: block.range.start });
+    } catch (error) {
+        console.error('Failed to restore stored results:', error);
+    }
+}
+
+/**
+ * Runs the block at the cursor on two connection profiles and shows the differences
+ */
+async function runAgainstTwoConnections(uri?: vscode.Uri, position?: vscode.Position): Promise<void> {
+    try {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+
+        const document = editor.document;
+        if (document.languageId !== 'markdown' && document.languageId !== 'restructuredtext') {
+            vscode.window.showErrorMessage('OpenSearch queries can only be run from markdown and RST files');
+            return;
+        }
+
+        const queryBlock = DocumentParser.findQueryBlockAtPositionWithOverrides(document, position || editor.selection.active);
+        if (!queryBlock) {
+            vscode.window.showWarningMessage('No query block found at cursor position');
+            return;
+        }
+
+        const names = connectionManager.getConnectionNames();
+        if (names.length < 2) {
+            vscode.window.showWarningMessage('Define at least two connection profiles under "opensearch.connections" to compare them');
+            return;
+        }
+
+        const picks = await vscode.window.showQuickPick(
+            names.map(name => ({ label: name, description: connectionManager.getConnectionProfile(name)?.endpoint })),
+            { placeHolder: 'Select two connections to run the block on', canPickMany: true }
+        );
+        if (!picks) {
+            return;
+        }
+        if (picks.length !== 2) {
+            vscode.window.showWarningMessage('Select exactly two connections');
+            return;
+        }
+
+        const results = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Running on ${picks[0].label} and ${picks[1].label}...`,
+            cancellable: true
+        }, (_progress, token) => Promise.all(picks.map(async pick => {
+            // A connection name in the metadata takes precedence over configuration blocks
+            const block = { ...queryBlock, metadata: { ...queryBlock.metadata, connection: pick.label } };
+            const result = await queryRunner.executeQueryFromBlock(block, document, token);
+            if (result.cursor) {
+                // Only the first page is compared
+                await queryRunner.closeCursor(result.cursor);
+            }
+            await historyManager.addToHistory(block.content, block.type, result, result.connectionInfo?.endpoint || pick.description || '');
+            return result;
+        })));
+
+        if (results.some(result => result.cancelled)) {
+            vscode.window.showInformationMessage('Comparison cancelled');
+            return;
+        }
+
+        await PersistentResultsManager.getInstance(historyManager, queryRunner).compareResults(
+            { label: `${picks[0].label} (${picks[0].description})`, result: results[0] },
+            { label: `${picks[1].label} (${picks[1].description})`, result: results[1] }
+        );
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to compare connections: ${error.message}`);
+        console.error('Compare connections error:', error);
+    }
+}
+
 async function formatQuery(uri?: vscode.Uri, position?: vscode.Position): Promise<void> {
     try {
         const editor = vscode.window.activeTextEditor;
@@ -281,26 +661,6 @@ async function formatQuery(uri?: vscode.Uri, position?: vscode.Position): Promis
     }
 }
 
-async function updateStatusBar(statusBarItem: vscode.StatusBarItem): Promise<void> {
-    try {
-        const testResult = await connectionManager.testConnection();
-        
-        if (testResult.success) {
-            statusBarItem.text = '$(database) OpenSearch ✓';
-            statusBarItem.tooltip = `Connected to OpenSearch cluster: ${testResult.clusterName}`;
-            statusBarItem.backgroundColor = undefined;
-        } else {
-            statusBarItem.text = '$(database) OpenSearch ✗';
-            statusBarItem.tooltip = `OpenSearch connection failed: ${testResult.error}`;
-            statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
-        }
-    } catch (error) {
-        statusBarItem.text = '$(database) OpenSearch ?';
-        statusBarItem.tooltip = 'OpenSearch connection status unknown';
-        statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
-    }
-}
-
 async function showWelcomeMessage(context: vscode.ExtensionContext): Promise<void> {
     const choice = await vscode.window.showInformationMessage(
         'Welcome to OpenSearch Query Runner! Would you like to configure your OpenSearch connection now?',
@@ -392,7 +752,7 @@ POST /logs-2024/_doc
 
 You can add metadata to your queries using comments:
 
-- \`-- Connection: cluster-name\` - Specify connection (future feature)
+- \`-- Connection: cluster-name\` - Run against a profile from \`opensearch.connections\`
 - \`-- Timeout: 30s\` - Set query timeout
 - \`-- Description: What this query does\` - Add description
 - \`-- Method: POST\` - HTTP method for API operations
@@ -86,6 +86,17 @@ export class HistoryManager {
         await this.saveHistory();
     }
 
+    /**
+     * Replaces the result of a history item, e.g. after more cursor pages were loaded
+     */
+    public async updateHistoryResult(id: string, result: QueryResult): Promise<void> {
+        const item = this.history.find(historyItem => historyItem.id === id);
+        if (item) {
+            item.result = result;
+            await this.saveHistory();
+        }
+    }
+
     public async removeHistoryItem(id: string): Promise<void> {
         this.history = this.history.filter(item => item.id !== id);
         await this.saveHistory();
@@ -0,0 +1,862 @@
+import * as crypto from 'crypto';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { OpenSearchConfig, ConnectionTestResult, OpenSearchResponse, ConnectionOverrides, AuthSettings, NodeOptions, ClusterHealth } from './types';
+import { ErrorHandler } from './utils/errorHandler';
+import { RequestInfoBuilder } from './utils/requestInfoBuilder';
+import { ConnectionInfoManager } from './utils/connectionInfoManager';
+import { TlsAgentFactory } from './utils/tlsAgentFactory';
+import { ProxyAgentFactory } from './utils/proxyAgentFactory';
+import { SecretResolver } from './utils/secretResolver';
+import { AwsSigV4Signer } from './utils/awsSigV4';
+import { AwsCredentialProvider } from './utils/awsCredentialProvider';
+import { RetryPolicy } from './utils/retryPolicy';
+import { NodePool } from './utils/nodePool';
+import { OidcTokenProvider, TokenRequestOptions } from './utils/oidcTokenProvider';
+
+/**
+ * Sends requests to an OpenSearch cluster for a connection configuration.
+ * It does not depend on VS Code, so the CLI uses it as well as ConnectionManager.
+ */
+export class OpenSearchClient {
+    private static readonly DEFAULT_SNIFF_INTERVAL_MINUTES = 5;
+
+    private axiosInstance: AxiosInstance | null = null;
+    private connectionError: string | null = null;
+    private config: OpenSearchConfig;
+    private secretResolver: SecretResolver | undefined;
+    private tokenProvider: OidcTokenProvider;
+    private nodePools = new Map<string, NodePool>();
+
+    constructor(config: OpenSearchConfig, secretResolver?: SecretResolver, tokenProvider?: OidcTokenProvider) {
+        this.config = config;
+        this.secretResolver = secretResolver;
+        this.tokenProvider = tokenProvider || new OidcTokenProvider(secretResolver);
+        this.createAxiosInstance();
+    }
+
+    private createAxiosInstance(): void {
+        // Invalid TLS files should not break activation; report them on first use
+        try {
+            this.axiosInstance = this.createClient(this.config);
+            this.connectionError = null;
+        } catch (error: any) {
+            this.axiosInstance = null;
+            this.connectionError = error.message;
+        }
+    }
+
+    /**
+     * Creates the axios client for an effective connection
+     */
+    private createClient(connection: Pick<OpenSearchConfig, 'endpoint' | 'auth' | 'timeout' | 'tls' | 'proxy'>): AxiosInstance {
+        const instance = axios.create(this.buildAxiosConfig(connection));
+
+        if (connection.auth.type === 'aws-sigv4') {
+            this.attachSigV4Signer(instance, connection.auth);
+        }
+        if (SecretResolver.containsReference(connection.proxy?.password)) {
+            this.attachProxySecretResolver(instance, connection);
+        }
+
+        return instance;
+    }
+
+    /**
+     * Resolves a `${secret:name}` proxy password before every request, like auth secrets.
+     * The proxy agent is only rebuilt when the stored password changes.
+     */
+    private attachProxySecretResolver(instance: AxiosInstance, connection: Pick<OpenSearchConfig, 'endpoint' | 'timeout' | 'tls' | 'proxy'>): void {
+        let resolved: { password?: string; config: AxiosRequestConfig } | undefined;
+
+        instance.interceptors.request.use(async (config) => {
+            const password = await RequestInfoBuilder.resolveSecret(connection.proxy?.password, this.secretResolver);
+            if (!resolved || resolved.password !== password) {
+                const proxyConfig: AxiosRequestConfig = {};
+                ProxyAgentFactory.configure(proxyConfig, connection.endpoint, { ...connection.proxy, password }, connection.tls, connection.timeout);
+                resolved = { password, config: proxyConfig };
+            }
+
+            config.proxy = resolved.config.proxy;
+            if (resolved.config.httpsAgent) {
+                config.httpsAgent = resolved.config.httpsAgent;
+            }
+            return config;
+        });
+    }
+
+    /**
+     * Signs every request sent through the client with AWS SigV4.
+     * The body is serialized here so that the signed payload is exactly what is sent.
+     */
+    private attachSigV4Signer(instance: AxiosInstance, auth: AuthSettings): void {
+        instance.interceptors.request.use(async (config) => {
+            const credentials = await AwsCredentialProvider.resolveCredentials(auth, this.secretResolver);
+            const region = AwsCredentialProvider.resolveRegion(auth);
+
+            let body = '';
+            if (config.data !== undefined && config.data !== null) {
+                body = typeof config.data === 'string' ? config.data : JSON.stringify(config.data);
+                config.data = body;
+                config.transformRequest = [(data: any) => data];
+            }
+
+            const payloadHash = AwsSigV4Signer.sha256Hex(body);
+            const signingHeaders = AwsSigV4Signer.sign(
+                {
+                    method: config.method || 'get',
+                    url: axios.getUri(config),
+                    headers: { 'X-Amz-Content-Sha256': payloadHash },
+                    body
+                },
+                credentials,
+                region,
+                auth.service || 'es'
+            );
+
+            config.headers.set('X-Amz-Content-Sha256', payloadHash);
+            for (const [name, value] of Object.entries(signingHeaders)) {
+                config.headers.set(name, value);
+            }
+
+            return config;
+        });
+    }
+
+    /**
+     * Builds the axios configuration (base URL, timeout, TLS, proxy) for an effective connection
+     */
+    private buildAxiosConfig(connection: Pick<OpenSearchConfig, 'endpoint' | 'auth' | 'timeout' | 'tls' | 'proxy'>): AxiosRequestConfig {
+        const axiosConfig: AxiosRequestConfig = {
+            baseURL: connection.endpoint,
+            timeout: connection.timeout,
+            headers: {
+                'Content-Type': 'application/json'
+            }
+        };
+
+        // Authentication is sent per request (see getAuthHeaders) so secret
+        // references are resolved at request time rather than here
+
+        const httpsAgent = TlsAgentFactory.createAgent(connection.tls);
+        if (httpsAgent) {
+            axiosConfig.httpsAgent = httpsAgent;
+        }
+
+        // Replaces the TLS agent with a tunneling agent when HTTPS goes through a proxy
+        ProxyAgentFactory.configure(axiosConfig, connection.endpoint, connection.proxy, connection.tls, connection.timeout);
+
+        return axiosConfig;
+    }
+
+    private async getAuthHeaders(overrides?: ConnectionOverrides, interactive: boolean = true, signal?: AbortSignal): Promise<Record<string, string>> {
+        return RequestInfoBuilder.buildAuthHeaders(this.config.auth, overrides, this.secretResolver, this.tokenProvider, this.getTokenOptions(overrides, interactive, signal));
+    }
+
+    /**
+     * OIDC tokens are requested through the proxy, with the TLS settings and the timeout
+     * of the connection, and are given up when the request is cancelled
+     */
+    private getTokenOptions(overrides?: ConnectionOverrides, interactive: boolean = true, signal?: AbortSignal): TokenRequestOptions {
+        return {
+            interactive,
+            proxy: { ...this.config.proxy, ...overrides?.proxy },
+            tls: { ...this.config.tls, ...overrides?.tls },
+            timeout: overrides?.timeout || this.config.timeout,
+            signal
+        };
+    }
+
+    private getEffectiveAuth(overrides?: ConnectionOverrides): AuthSettings {
+        return {
+            ...this.config.auth,
+            ...overrides?.auth,
+            type: overrides?.auth?.type || this.config.auth.type
+        };
+    }
+
+    /**
+     * Headers recorded in request info; credentials resolved from secrets and
+     * OIDC tokens are masked
+     */
+    private getDisplayHeaders(headers: Record<string, string>, overrides?: ConnectionOverrides): Record<string, string> {
+        if (RequestInfoBuilder.usesSecrets(this.config.auth, overrides) || this.getEffectiveAuth(overrides).type === 'oidc') {
+            return RequestInfoBuilder.redactAuthHeaders(headers);
+        }
+        return headers;
+    }
+
+    /**
+     * Helper method to add request and response info to a result
+     */
+    private addRequestResponseInfo(
+        result: any,
+        method: string,
+        endpoint: string,
+        headers: Record<string, string>,
+        body: string,
+        axiosResponse: any
+    ): any {
+        result.requestInfo = {
+            method: method.toUpperCase(),
+            endpoint,
+            headers,
+            body
+        };
+        result.responseInfo = {
+            status: axiosResponse.status,
+            statusText: axiosResponse.statusText,
+            headers: axiosResponse.headers
+        };
+        return result;
+    }
+
+    /**
+     * Sends a request with the retry policy of the connection. Attempts of retried
+     * requests are added to the result (or to the error) for the Raw Response tab.
+     * Connections with several nodes send every attempt through the node pool;
+     * `send` then receives the base URL of the node to use. A rejected OIDC token
+     * is replaced in `headers` once and the request is sent again; without
+     * `interactive`, only when that needs no sign-in.
+     */
+    private async sendWithRetry(
+        send: (node?: string) => Promise<AxiosResponse>,
+        axiosInstance: AxiosInstance,
+        headers: Record<string, string>,
+        method: string,
+        endpoint: string,
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal,
+        interactive: boolean = true
+    ): Promise<{ response: AxiosResponse; node?: string; sniffError?: string }> {
+        const { endpoint: clusterEndpoint, options: nodeOptions } = this.getNodeOptions(overrides);
+        const pool = this.getNodePool(clusterEndpoint, nodeOptions);
+        let node: string | undefined;
+        let sniffError: string | undefined;
+
+        const attempt = pool
+            ? async () => {
+                await this.sniffNodes(pool, axiosInstance, clusterEndpoint, nodeOptions, overrides, interactive);
+                const sent = await pool.send(method, endpoint, send, signal);
+                node = sent.node;
+                sniffError = sent.sniffError;
+                return sent.response;
+            }
+            : () => send();
+
+        const execute = () => RetryPolicy.execute(attempt, {
+            method,
+            endpoint,
+            options: { ...this.config.retry, ...overrides?.retry },
+            signal
+        });
+
+        let result: Awaited<ReturnType<typeof execute>>;
+        try {
+            result = await execute();
+        } catch (error: any) {
+            const auth = this.getEffectiveAuth(overrides);
+            if (error.response?.status !== 401 || !OidcTokenProvider.canRefresh(auth)) {
+                throw error;
+            }
+            headers['Authorization'] = `Bearer ${await this.tokenProvider.getToken(auth, { ...this.getTokenOptions(overrides, interactive, signal), forceRefresh: true })}`;
+            result = await execute();
+        }
+
+        const { response, attempts } = result;
+        if (attempts.length > 1 && response.data && typeof response.data === 'object') {
+            response.data.attempts = attempts;
+        }
+        return { response, node, sniffError };
+    }
+
+    /**
+     * Node settings for the cluster a request goes to. Nodes configured for the
+     * default endpoint do not apply when a block or profile names another endpoint.
+     */
+    private getNodeOptions(overrides?: ConnectionOverrides): { endpoint: string; options: NodeOptions } {
+        const endpoint = overrides?.endpoint || this.config.endpoint;
+        const options = endpoint === this.config.endpoint
+            ? { ...this.config.nodes, ...overrides?.nodes }
+            : { ...overrides?.nodes };
+        return { endpoint, options };
+    }
+
+    /**
+     * The pool for a connection with several nodes or sniffing, or undefined when
+     * requests simply go to the endpoint. Pools are kept so that dead nodes are remembered.
+     */
+    private getNodePool(endpoint: string, options: NodeOptions): NodePool | undefined {
+        const urls = NodePool.getNodeUrls(endpoint, options.urls);
+        if (urls.length < 2 && !options.sniff) {
+            return undefined;
+        }
+
+        const selection = options.selection || 'failover';
+        const key = `${selection}|${options.sniff ? 'sniff' : ''}|${urls.join(',')}`;
+        let pool = this.nodePools.get(key);
+        if (!pool) {
+            pool = new NodePool(urls, selection);
+            this.nodePools.set(key, pool);
+        }
+        return pool;
+    }
+
+    /**
+     * Replaces the nodes of the pool with the HTTP addresses of the cluster's nodes
+     * when sniffing is enabled and the interval has passed. A failed sniff keeps the current
+     * nodes and is reported in the connection info of the results.
+     */
+    private async sniffNodes(
+        pool: NodePool,
+        axiosInstance: AxiosInstance,
+        endpoint: string,
+        options: NodeOptions,
+        overrides?: ConnectionOverrides,
+        interactive: boolean = true
+    ): Promise<void> {
+        const interval = (options.sniffIntervalMinutes ?? OpenSearchClient.DEFAULT_SNIFF_INTERVAL_MINUTES) * 60 * 1000;
+        if (!options.sniff || !pool.needsSniff(interval)) {
+            return;
+        }
+
+        try {
+            const headers = await this.getAuthHeaders(overrides, interactive);
+            const { response } = await pool.send('GET', '/_nodes/http', node =>
+                axiosInstance.get('/_nodes/http', { baseURL: node, headers })
+            );
+            pool.setSniffedNodes(NodePool.parseNodesHttp(response.data, new URL(endpoint).protocol));
+        } catch (error: any) {
+            pool.markSniffFailed(this.formatError(error));
+        }
+    }
+
+    /**
+     * Request config sent to a specific node of a multi-node connection
+     */
+    private forNode<T extends AxiosRequestConfig>(config: T, node?: string): T {
+        return node ? { ...config, baseURL: node } : config;
+    }
+
+    /**
+     * Helper method to create error response with all necessary info
+     */
+    private createErrorResponse(
+        error: any,
+        method: string,
+        endpoint: string,
+        headers: Record<string, string>,
+        body: string,
+        overrides?: ConnectionOverrides
+    ): any {
+        const errorResponse: any = {
+            error: {
+                type: error.response?.data?.error?.type || error.code || 'RequestError',
+                reason: error.response?.data?.error?.reason || this.appendTlsHint(error.message, error),
+                details: error.response?.data ? JSON.stringify(error.response.data, null, 2) : error.message
+            }
+        };
+
+        // Add request info
+        errorResponse.requestInfo = {
+            method: method.toUpperCase(),
+            endpoint,
+            headers,
+            body
+        };
+
+        // Add response info if available
+        if (error.response) {
+            errorResponse.responseInfo = {
+                status: error.response.status,
+                statusText: error.response.statusText,
+                headers: error.response.headers
+            };
+            if (error.response.data) {
+                errorResponse.rawResponse = error.response.data;
+            }
+        }
+
+        if (error.attempts?.length > 1) {
+            errorResponse.attempts = error.attempts;
+        }
+
+        // A rejected token that could only be replaced by signing in
+        if (OidcTokenProvider.isSignInRequired(error)) {
+            errorResponse.signInRequired = true;
+        }
+
+        // Add connection info
+        return ConnectionInfoManager.addConnectionInfo(errorResponse, this.config, overrides, error.node, error.sniffError);
+    }
+
+    public async testConnection(): Promise<ConnectionTestResult> {
+        if (!this.axiosInstance) {
+            return {
+                success: false,
+                error: this.connectionError || 'No connection configured'
+            };
+        }
+
+        try {
+            const response = await this.axiosInstance.get('/_cluster/health', {
+                headers: await this.getAuthHeaders()
+            });
+            const healthData = response.data;
+
+            return {
+                success: true,
+                clusterName: healthData.cluster_name,
+                version: healthData.version?.number
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: this.formatError(error)
+            };
+        }
+    }
+
+    /**
+     * Health of the cluster for the status bar. The version comes from the root
+     * endpoint, which users without cluster monitor permissions may not be allowed to read.
+     * Health checks run in the background, so they never start an OIDC sign-in.
+     */
+    public async getClusterHealth(): Promise<ClusterHealth> {
+        if (!this.axiosInstance) {
+            return { status: 'unreachable', error: this.connectionError || 'No connection configured' };
+        }
+
+        const axiosInstance = this.axiosInstance;
+        try {
+            const headers = await this.getAuthHeaders(undefined, false);
+            const { response, node } = await this.sendWithRetry(
+                node => axiosInstance.get('/_cluster/health', this.forNode({ headers }, node)),
+                axiosInstance, headers, 'GET', '/_cluster/health', undefined, undefined, false
+            );
+            const info = await axiosInstance.get('/', this.forNode({ headers }, node)).catch(() => undefined);
+
+            const health = response.data;
+            return {
+                status: ['green', 'yellow', 'red'].includes(health?.status) ? health.status : 'red',
+                clusterName: health?.cluster_name,
+                version: info?.data?.version?.number,
+                numberOfNodes: health?.number_of_nodes,
+                unassignedShards: health?.unassigned_shards
+            };
+        } catch (error: any) {
+            if (OidcTokenProvider.isSignInRequired(error)) {
+                return { status: 'sign-in-required', error: error.message };
+            }
+            return { status: 'unreachable', error: this.formatError(error) };
+        }
+    }
+
+    public async executeQuery(query: string, queryType: 'sql' | 'ppl'): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        if (!this.axiosInstance) {
+            throw new Error(this.connectionError || 'No connection configured');
+        }
+
+        const endpoint = queryType === 'sql' ? '/_plugins/_sql' : '/_plugins/_ppl';
+        const payload = { query };
+        const headers = {
+            'Content-Type': 'application/json',
+            ...(await this.getAuthHeaders())
+        };
+        const displayHeaders = this.getDisplayHeaders(headers);
+        const body = JSON.stringify(payload, null, 2);
+
+        try {
+            const axiosInstance = this.axiosInstance;
+            const { response, node, sniffError } = await this.sendWithRetry(
+                node => axiosInstance.post(endpoint, payload, this.forNode({ headers }, node)),
+                axiosInstance, headers, 'POST', endpoint
+            );
+            const result = this.addRequestResponseInfo(response.data, 'POST', endpoint, displayHeaders, body, response);
+            return ConnectionInfoManager.addConnectionInfo(result, this.config, undefined, node, sniffError);
+        } catch (error: any) {
+            return this.createErrorResponse(error, 'POST', endpoint, displayHeaders, body);
+        }
+    }
+
+    public async executeApiOperation(method: string, endpoint: string, body?: string): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        if (!this.axiosInstance) {
+            throw new Error(this.connectionError || 'No connection configured');
+        }
+
+        // Determine if this is a bulk operation and prepare request body
+        let requestBody: any = undefined;
+        let contentType = 'application/json';
+        
+        if (body && body.trim()) {
+            const isBulkOperation = endpoint.includes('/_bulk');
+            
+            if (isBulkOperation) {
+                let processedBody = body.trim();
+                
+                // Validate that each non-empty line is valid JSON
+                const lines = processedBody.split('\n');
+                for (const line of lines) {
+                    if (line.trim()) {
+                        try {
+                            JSON.parse(line.trim());
+                        } catch (error) {
+                            throw new Error(`Invalid JSON in bulk request line: ${line.trim()}`);
+                        }
+                    }
+                }
+                
+                // Ensure the body ends with a newline (required for bulk API)
+                if (!processedBody.endsWith('\n')) {
+                    processedBody += '\n';
+                }
+                
+                requestBody = processedBody;
+                contentType = 'application/x-ndjson';
+            } else {
+                try {
+                    requestBody = JSON.parse(body);
+                } catch (error) {
+                    throw new Error('Invalid JSON in request body');
+                }
+            }
+        }
+
+        const requestHeaders = {
+            'Content-Type': contentType,
+            ...(await this.getAuthHeaders())
+        };
+        const displayHeaders = this.getDisplayHeaders(requestHeaders);
+
+        const requestConfig: any = {
+            method: method.toLowerCase(),
+            url: endpoint,
+            data: requestBody,
+            headers: requestHeaders
+        };
+
+        // For bulk operations, prevent axios from transforming the request data
+        if (endpoint.includes('/_bulk')) {
+            requestConfig.transformRequest = [(data: any) => data];
+        }
+
+        try {
+            const axiosInstance = this.axiosInstance;
+            const { response, node, sniffError } = await this.sendWithRetry(
+                node => axiosInstance.request(this.forNode(requestConfig, node)),
+                axiosInstance, requestHeaders, method, endpoint
+            );
+            const result = this.addRequestResponseInfo(response.data, method, endpoint, displayHeaders, body || '', response);
+            return ConnectionInfoManager.addConnectionInfo(result, this.config, undefined, node, sniffError);
+        } catch (error: any) {
+            return this.createErrorResponse(error, method, endpoint, displayHeaders, body || '');
+        }
+    }
+
+    public async executeQueryWithOverrides(
+        query: string, 
+        queryType: 'sql' | 'ppl', 
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal,
+        fetchSize?: number
+    ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        const endpoint = queryType === 'sql' ? '/_plugins/_sql' : '/_plugins/_ppl';
+        const payload: Record<string, any> = { query };
+        if (fetchSize) {
+            // Makes the cluster return a cursor when more rows are available
+            payload.fetch_size = fetchSize;
+        }
+        return this.executePluginRequest(endpoint, payload, overrides, signal);
+    }
+
+    public async executeExplainQueryWithOverrides(
+        query: string, 
+        queryType: 'sql' | 'ppl', 
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal
+    ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        const endpoint = queryType === 'sql' ? '/_plugins/_sql/_explain' : '/_plugins/_ppl/_explain';
+        return this.executePluginRequest(endpoint, { query }, overrides, signal);
+    }
+
+    /**
+     * Fetches the next page of a SQL or PPL result. Cursors of both languages
+     * are served by the SQL endpoint.
+     */
+    public async fetchCursorPage(
+        cursor: string,
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal
+    ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        return this.executePluginRequest('/_plugins/_sql', { cursor }, overrides, signal);
+    }
+
+    /**
+     * Closes a cursor so the cluster can release its search context before the keep-alive expires
+     */
+    public async closeCursor(
+        cursor: string,
+        overrides?: ConnectionOverrides
+    ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        return this.executePluginRequest('/_plugins/_sql/close', { cursor }, overrides);
+    }
+
+    /**
+     * Posts a JSON payload to a SQL/PPL plugin endpoint
+     */
+    private async executePluginRequest(
+        endpoint: string,
+        payload: Record<string, any>,
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal
+    ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        const axiosInstance = overrides ? 
+            this.createAxiosInstanceWithOverrides(overrides) : 
+            this.axiosInstance;
+
+        if (!axiosInstance) {
+            throw new Error(this.connectionError || 'No connection configured');
+        }
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            ...(await this.getAuthHeaders(overrides, true, signal))
+        };
+        const cancellation = this.prepareCancellation(axiosInstance, headers, signal, overrides);
+        const displayHeaders = this.getDisplayHeaders(headers, overrides);
+        const body = JSON.stringify(payload, null, 2);
+
+        try {
+            const { response, node, sniffError } = await this.sendWithRetry(
+                node => axiosInstance.post(endpoint, payload, this.forNode({ headers, signal }, node)),
+                axiosInstance, headers, 'POST', endpoint, overrides, signal
+            );
+            const result = this.addRequestResponseInfo(response.data, 'POST', endpoint, displayHeaders, body, response);
+            return ConnectionInfoManager.addConnectionInfo(result, this.config, overrides, node, sniffError);
+        } catch (error: any) {
+            return this.addCancelError(this.createErrorResponse(error, 'POST', endpoint, displayHeaders, body, overrides), await cancellation());
+        }
+    }
+
+    /**
+     * Sends a REST API request. Without `interactive`, an OIDC connection that needs a
+     * sign-in fails with an error for which `OidcTokenProvider.isSignInRequired` holds.
+     */
+    public async executeApiOperationWithOverrides(
+        method: string, 
+        endpoint: string, 
+        body?: string, 
+        overrides?: ConnectionOverrides,
+        signal?: AbortSignal,
+        interactive: boolean = true
+    ): Promise<OpenSearchResponse & { requestInfo?: any, responseInfo?: any }> {
+        const axiosInstance = overrides ? 
+            this.createAxiosInstanceWithOverrides(overrides) : 
+            this.axiosInstance;
+
+        if (!axiosInstance) {
+            throw new Error(this.connectionError || 'No connection configured');
+        }
+
+        // Determine if this is a bulk operation and prepare request body
+        let requestBody: any = undefined;
+        let contentType = 'application/json';
+        
+        if (body && body.trim()) {
+            const isBulkOperation = endpoint.includes('/_bulk');
+            
+            if (isBulkOperation) {
+                let processedBody = body.trim();
+                
+                // Validate that each non-empty line is valid JSON
+                const lines = processedBody.split('\n');
+                for (const line of lines) {
+                    if (line.trim()) {
+                        try {
+                            JSON.parse(line.trim());
+                        } catch (error) {
+                            throw new Error(`Invalid JSON in bulk request line: ${line.trim()}`);
+                        }
+                    }
+                }
+                
+                // Ensure the body ends with a newline (required for bulk API)
+                if (!processedBody.endsWith('\n')) {
+                    processedBody += '\n';
+                }
+                
+                requestBody = processedBody;
+                contentType = 'application/x-ndjson';
+            } else {
+                try {
+                    requestBody = JSON.parse(body);
+                } catch (error) {
+                    throw new Error('Invalid JSON in request body');
+                }
+            }
+        }
+
+        const requestHeaders: Record<string, string> = {
+            'Content-Type': contentType,
+            ...(await this.getAuthHeaders(overrides, interactive, signal))
+        };
+        const cancellation = this.prepareCancellation(axiosInstance, requestHeaders, signal, overrides);
+        const displayHeaders = this.getDisplayHeaders(requestHeaders, overrides);
+
+        const requestConfig: any = {
+            method: method.toLowerCase(),
+            url: endpoint,
+            data: requestBody,
+            headers: requestHeaders,
+            signal
+        };
+
+        // For bulk operations, prevent axios from transforming the request data
+        if (endpoint.includes('/_bulk')) {
+            requestConfig.transformRequest = [(data: any) => data];
+        }
+
+        try {
+            const { response, node, sniffError } = await this.sendWithRetry(
+                node => axiosInstance.request(this.forNode(requestConfig, node)),
+                axiosInstance, requestHeaders, method, endpoint, overrides, signal, interactive
+            );
+            const result = this.addRequestResponseInfo(response.data, method, endpoint, displayHeaders, body || '', response);
+            return ConnectionInfoManager.addConnectionInfo(result, this.config, overrides, node, sniffError);
+        } catch (error: any) {
+            return this.addCancelError(this.createErrorResponse(error, method, endpoint, displayHeaders, body || '', overrides), await cancellation());
+        }
+    }
+
+    private formatError(error: any): string {
+        if (error.response) {
+            const status = error.response.status;
+            const statusText = error.response.statusText;
+            const data = error.response.data;
+            
+            if (data && data.error) {
+                return `${status} ${statusText}: ${data.error.reason || data.error.type || 'Unknown error'}`;
+            }
+            
+            return `${status} ${statusText}`;
+        } else if (error.request) {
+            return this.appendTlsHint('Network error: Unable to connect to OpenSearch cluster', error);
+        } else {
+            return error.message || 'Unknown error occurred';
+        }
+    }
+
+    private appendTlsHint(message: string, error: any): string {
+        const hint = ErrorHandler.getTlsHint(error);
+        return hint ? `${message}. ${hint}` : message;
+    }
+
+    /**
+     * Tags a cancellable request with a unique X-Opaque-Id so that its server-side
+     * tasks can be found and cancelled when the signal aborts
+     */
+    private prepareCancellation(
+        axiosInstance: AxiosInstance,
+        headers: Record<string, string>,
+        signal?: AbortSignal,
+        overrides?: ConnectionOverrides
+    ): () => Promise<string | undefined> {
+        if (!signal) {
+            return async () => undefined;
+        }
+
+        const opaqueId = `opensearch-query-runner-${crypto.randomUUID()}`;
+        headers['X-Opaque-Id'] = opaqueId;
+        let cancellation: Promise<string | undefined> | undefined;
+        signal.addEventListener('abort', () => {
+            cancellation = this.cancelServerTasks(axiosInstance, opaqueId, overrides);
+        }, { once: true });
+        return async () => cancellation;
+    }
+
+    /**
+     * Tells the user of a cancelled request that its tasks may still be running on the cluster
+     */
+    private addCancelError(errorResponse: any, cancelError?: string): any {
+        if (cancelError) {
+            errorResponse.cancelError = cancelError;
+        }
+        return errorResponse;
+    }
+
+    /**
+     * Best-effort cancellation of the tasks started by a request. Returns why the tasks
+     * could not be cancelled, for example on clusters without the tasks API (or without
+     * permission to use it). Connections with several nodes go through the node pool, so
+     * tasks are still cancelled when the endpoint node is down; the tasks API covers the
+     * whole cluster from any node.
+     */
+    private async cancelServerTasks(axiosInstance: AxiosInstance, opaqueId: string, overrides?: ConnectionOverrides): Promise<string | undefined> {
+        const { endpoint, options } = this.getNodeOptions(overrides);
+        const pool = this.getNodePool(endpoint, options);
+        const send = async (method: string, path: string, request: (node?: string) => Promise<AxiosResponse>) =>
+            pool ? (await pool.send(method, path, request)).response : request();
+
+        try {
+            const headers = await this.getAuthHeaders(overrides);
+            const response = await send('GET', '/_tasks', node => axiosInstance.get('/_tasks', this.forNode({
+                params: { detailed: true },
+                headers
+            }, node)));
+
+            const taskIds: string[] = [];
+            for (const node of Object.values<any>(response.data?.nodes || {})) {
+                for (const [taskId, task] of Object.entries<any>(node.tasks || {})) {
+                    if (task.cancellable && task.headers?.['X-Opaque-Id'] === opaqueId) {
+                        taskIds.push(taskId);
+                    }
+                }
+            }
+
+            await Promise.all(taskIds.map(taskId => {
+                const path = `/_tasks/${encodeURIComponent(taskId)}/_cancel`;
+                return send('POST', path, node => axiosInstance.post(path, undefined, this.forNode({ headers }, node)));
+            }));
+            return undefined;
+        } catch (error: any) {
+            return `The query could not be cancelled on the cluster and may still be running: ${this.formatError(error)}`;
+        }
+    }
+
+    private createAxiosInstanceWithOverrides(overrides: ConnectionOverrides): AxiosInstance {
+        // Merge base config with overrides
+        const mergedConfig = {
+            endpoint: overrides.endpoint || this.config.endpoint,
+            auth: {
+                ...this.config.auth,
+                ...overrides.auth,
+                type: overrides.auth?.type || this.config.auth.type
+            },
+            timeout: overrides.timeout || this.config.timeout,
+            tls: { ...this.config.tls, ...overrides.tls },
+            proxy: { ...this.config.proxy, ...overrides.proxy }
+        };
+
+        return this.createClient(mergedConfig);
+    }
+
+    public async testConnectionWithOverrides(overrides: ConnectionOverrides): Promise<ConnectionTestResult> {
+        try {
+            const axiosInstance = this.createAxiosInstanceWithOverrides(overrides);
+            const response = await axiosInstance.get('/_cluster/health', {
+                headers: await this.getAuthHeaders(overrides)
+            });
+            const healthData = response.data;
+
+            return {
+                success: true,
+                clusterName: healthData.cluster_name,
+                version: healthData.version?.number
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: this.formatError(error)
+            };
+        }
+    }
+}
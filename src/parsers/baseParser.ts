@@ -1,24 +1,34 @@
-import * as vscode from 'vscode';
-import { QueryBlock, QueryMetadata, ConfigurationBlock, QueryType } from '../types';
+import {
+    QueryBlock, QueryMetadata, ConfigurationBlock, ConnectionOverrides, ExpectedBlock, QueryType, HttpMethod, AuthType, AwsService, NodeSelection, OidcFlow,
+    TextPosition, TextRange, TextSource
+} from '../types';
+import { JsonUtils } from '../utils/jsonUtils';
+import { OidcTokenProvider } from '../utils/oidcTokenProvider';
 
 /**
- * Base interface for document parsers
+ * Base interface for document parsers. Parsers do not depend on VS Code, so they
+ * return plain ranges; `DocumentParser` converts them for the extension.
  */
 export interface IDocumentParser {
     /**
      * Parse a document and extract query blocks
      */
-    parseDocument(document: vscode.TextDocument): QueryBlock[];
+    parseDocument(document: TextSource): QueryBlock<TextRange>[];
     
     /**
      * Find a query block at a specific position
      */
-    findQueryBlockAtPosition(document: vscode.TextDocument, position: vscode.Position): QueryBlock | null;
+    findQueryBlockAtPosition(document: TextSource, position: TextPosition): QueryBlock<TextRange> | null;
     
     /**
      * Parse configuration blocks from the document
      */
-    parseConfigurationBlocks(document: vscode.TextDocument): ConfigurationBlock[];
+    parseConfigurationBlocks(document: TextSource): ConfigurationBlock<TextRange>[];
+
+    /**
+     * Parse `expected` blocks holding snapshot assertions
+     */
+    parseExpectedBlocks(document: TextSource): ExpectedBlock<TextRange>[];
 }
 
 /**
@@ -133,6 +143,24 @@ export class BaseParser {
                         case 'description':
                             metadata.description = value.trim();
                             break;
+                        case 'name':
+                            metadata.name = value.trim();
+                            break;
+                        case 'fetchsize':
+                            const fetchSize = parseInt(value.trim(), 10);
+                            if (fetchSize > 0) {
+                                metadata.fetchSize = fetchSize;
+                            }
+                            break;
+                        case 'retries':
+                            const retries = parseInt(value.trim(), 10);
+                            if (retries >= 0) {
+                                metadata.retries = retries;
+                            }
+                            break;
+                        case 'expect':
+                            metadata.expect = value.trim();
+                            break;
                         case 'method':
                             // Metadata comments override HTTP request line
                             metadata.method = value.trim().toUpperCase();
@@ -156,7 +184,7 @@ export class BaseParser {
         const lineToCheck = line.trim();
         
         // Only consider it a metadata comment if it matches specific metadata keys
-        const metadataKeys = ['description', 'timeout', 'connection', 'method', 'endpoint'];
+        const metadataKeys = ['description', 'timeout', 'connection', 'method', 'endpoint', 'name', 'fetchsize', 'retries', 'expect'];
         const pattern = new RegExp(`^--\\s*(${metadataKeys.join('|')}):\\s*.+$`, 'i');
         return pattern.test(lineToCheck);
     }
@@ -195,37 +223,69 @@ export class BaseParser {
         }
     }
     
+    protected static createRange(startPos: TextPosition, endPos: TextPosition): TextRange {
+        return {
+            start: { line: startPos.line, character: startPos.character },
+            end: { line: endPos.line, character: endPos.character }
+        };
+    }
+
     /**
-     * Create a VSCode range with fallback for test environments
+     * Check whether a position lies within a range, both ends included
      */
-    protected static createRange(startPos: vscode.Position, endPos: vscode.Position): vscode.Range {
-        try {
-            return new vscode.Range(startPos, endPos);
-        } catch {
-            // Fallback for test environment
-            return {
-                start: startPos,
-                end: endPos,
-                contains: () => false,
-                intersection: () => undefined,
-                isEmpty: false,
-                isSingleLine: startPos.line === endPos.line,
-                isEqual: () => false,
-                union: () => ({} as vscode.Range),
-                with: () => ({} as vscode.Range)
-            } as vscode.Range;
-        }
+    public static containsPosition(range: TextRange, position: TextPosition): boolean {
+        const compare = (a: TextPosition, b: TextPosition) => a.line - b.line || a.character - b.character;
+        return compare(range.start, position) <= 0 && compare(position, range.end) <= 0;
+    }
+
+    /**
+     * Find the overrides of the closest configuration block before a position
+     */
+    public static findPrecedingConfiguration<R extends TextRange>(
+        position: TextPosition,
+        configBlocks: ConfigurationBlock<R>[]
+    ): ConnectionOverrides | null {
+        // Calculate the actual position of the query in the document
+        const queryStartPosition = position.line * 10000 + position.character;
+        
+        // Find config blocks that appear before this query
+        const precedingConfigs = configBlocks
+            .filter(config => {
+                // Calculate config block position in the same way
+                const configPosition = config.range.start.line * 10000 + config.range.start.character;
+                return configPosition < queryStartPosition;
+            })
+            .sort((a, b) => {
+                const aPos = a.range.start.line * 10000 + a.range.start.character;
+                const bPos = b.range.start.line * 10000 + b.range.start.character;
+                return bPos - aPos; // Closest first
+            });
+        
+        return precedingConfigs[0]?.config || null;
     }
     
     /**
      * Parse connection override variables from configuration block content
      * 
      * Configuration blocks allow users to override connection settings like:
+     * @connection = 'prod-logs'
      * @endpoint = 'http://localhost:9200'
      * @auth_type = 'basic'
      * @username = 'user'
      * @password = 'pass'
      * @timeout = '30s'
+     * @region = 'us-east-1'      (aws-sigv4)
+     * @service = 'aoss'          (aws-sigv4)
+     * @token_endpoint = 'https://idp/token'  (oidc)
+     * @client_id = 'opensearch'  (oidc)
+     * @ca_file = '/path/to/ca.pem'
+     * @reject_unauthorized = 'false'
+     * @proxy = 'http://proxy.corp:3128'
+     * @no_proxy = 'localhost,.internal'
+     * @nodes = 'http://node2:9200,http://node3:9200'
+     * @node_selection = 'round-robin'
+     * @sniff = 'true'
+     * @index = 'logs-*'          (any other name defines a {{index}} variable)
      */
     public static parseConnectionOverrides(content: string): import('../types').ConnectionOverrides {
         const CONFIG_VAR_REGEX = /^@(\w+)\s*=\s*['"]([^'"]*)['"]\s*$/;
@@ -244,6 +304,9 @@ export class BaseParser {
                 const [, key, value] = match;
                 
                 switch (key.toLowerCase()) {
+                    case 'connection':
+                        overrides.connection = value;
+                        break;
                     case 'endpoint':
                         overrides.endpoint = value;
                         break;
@@ -253,8 +316,8 @@ export class BaseParser {
                             overrides.auth = {};
                         }
                         const authType = value.toLowerCase();
-                        if (['none', 'basic', 'apikey'].includes(authType)) {
-                            overrides.auth.type = authType as 'none' | 'basic' | 'apikey';
+                        if (['none', 'basic', 'apikey', 'aws-sigv4', 'oidc'].includes(authType)) {
+                            overrides.auth.type = authType as AuthType;
                         }
                         break;
                     case 'username':
@@ -276,16 +339,259 @@ export class BaseParser {
                         }
                         overrides.auth.apiKey = value;
                         break;
+                    case 'region':
+                        overrides.auth = { ...overrides.auth, region: value };
+                        break;
+                    case 'service':
+                        overrides.auth = { ...overrides.auth, service: value.toLowerCase() as AwsService };
+                        break;
+                    case 'aws_profile':
+                        overrides.auth = { ...overrides.auth, awsProfile: value };
+                        break;
+                    case 'access_key_id':
+                        overrides.auth = { ...overrides.auth, accessKeyId: value };
+                        break;
+                    case 'secret_access_key':
+                        overrides.auth = { ...overrides.auth, secretAccessKey: value };
+                        break;
+                    case 'session_token':
+                        overrides.auth = { ...overrides.auth, sessionToken: value };
+                        break;
+                    case 'oidc_flow':
+                        if (['static', 'client-credentials', 'device-code'].includes(value.toLowerCase())) {
+                            overrides.auth = { ...overrides.auth, oidcFlow: value.toLowerCase() as OidcFlow };
+                        }
+                        break;
+                    case 'bearer_token':
+                        overrides.auth = { ...overrides.auth, token: value };
+                        break;
+                    case 'token_endpoint':
+                        overrides.auth = { ...overrides.auth, tokenEndpoint: value };
+                        break;
+                    case 'device_authorization_endpoint':
+                        overrides.auth = { ...overrides.auth, deviceAuthorizationEndpoint: value };
+                        break;
+                    case 'client_id':
+                        overrides.auth = { ...overrides.auth, clientId: value };
+                        break;
+                    case 'client_secret':
+                        overrides.auth = { ...overrides.auth, clientSecret: value };
+                        break;
+                    case 'oidc_scope':
+                        overrides.auth = { ...overrides.auth, scope: value };
+                        break;
+                    case 'ca_file':
+                        overrides.tls = { ...overrides.tls, caFile: value };
+                        break;
+                    case 'client_cert':
+                        overrides.tls = { ...overrides.tls, certFile: value };
+                        break;
+                    case 'client_key':
+                        overrides.tls = { ...overrides.tls, keyFile: value };
+                        break;
+                    case 'reject_unauthorized':
+                        if (['true', 'false'].includes(value.toLowerCase())) {
+                            overrides.tls = { ...overrides.tls, rejectUnauthorized: value.toLowerCase() === 'true' };
+                        }
+                        break;
+                    case 'proxy':
+                        overrides.proxy = { ...overrides.proxy, url: value };
+                        break;
+                    case 'proxy_username':
+                        overrides.proxy = { ...overrides.proxy, username: value };
+                        break;
+                    case 'proxy_password':
+                        overrides.proxy = { ...overrides.proxy, password: value };
+                        break;
+                    case 'no_proxy':
+                        overrides.proxy = { ...overrides.proxy, noProxy: value };
+                        break;
+                    case 'nodes':
+                        overrides.nodes = { ...overrides.nodes, urls: value.split(',').map(url => url.trim()).filter(Boolean) };
+                        break;
+                    case 'node_selection':
+                        if (['failover', 'round-robin'].includes(value.toLowerCase())) {
+                            overrides.nodes = { ...overrides.nodes, selection: value.toLowerCase() as NodeSelection };
+                        }
+                        break;
+                    case 'sniff':
+                        if (['true', 'false'].includes(value.toLowerCase())) {
+                            overrides.nodes = { ...overrides.nodes, sniff: value.toLowerCase() === 'true' };
+                        }
+                        break;
                     case 'timeout':
                         const timeoutValue = this.parseTimeout(value);
                         if (timeoutValue) {
                             overrides.timeout = timeoutValue;
                         }
                         break;
+                    default:
+                        // Any other name is a document variable referenced as {{name}}
+                        overrides.variables = { ...overrides.variables, [key]: value };
+                        break;
                 }
             }
         }
         
         return overrides;
     }
+
+    public static validateQuery(content: string, type: QueryType, metadata?: QueryMetadata): { valid: boolean; error?: string } {
+        const trimmedContent = content.trim();
+        
+        // For opensearch-api, content can be empty for GET/DELETE operations
+        if (!trimmedContent && type !== QueryType.OPENSEARCH_API) {
+            return { valid: false, error: 'Query cannot be empty' };
+        }
+        
+        if (type === QueryType.OPENSEARCH_API) {
+            // API validation
+            if (!metadata?.method) {
+                return { 
+                    valid: false, 
+                    error: 'OpenSearch API operation requires HTTP method. Use either "METHOD /endpoint" format or "-- Method: GET/POST/PUT/DELETE" metadata comment.' 
+                };
+            }
+            
+            if (!metadata?.endpoint) {
+                return { 
+                    valid: false, 
+                    error: 'OpenSearch API operation requires endpoint. Use either "METHOD /endpoint" format or "-- Endpoint: /index/_doc" metadata comment.' 
+                };
+            }
+            
+            const validMethods = Object.values(HttpMethod);
+            if (!validMethods.includes(metadata.method.toUpperCase() as HttpMethod)) {
+                return { 
+                    valid: false, 
+                    error: `Invalid HTTP method: ${metadata.method}. Must be one of: ${validMethods.join(', ')}` 
+                };
+            }
+            
+            // For methods that typically have request bodies, validate JSON if content exists
+            if ([HttpMethod.POST, HttpMethod.PUT].includes(metadata.method.toUpperCase() as HttpMethod) && trimmedContent) {
+                // Check if this is a bulk operation
+                const isBulkOperation = metadata.endpoint?.includes('/_bulk');
+                
+                if (isBulkOperation) {
+                    // For bulk operations, validate using centralized utility
+                    const validation = JsonUtils.validateBulkJSON(trimmedContent);
+                    if (!validation.valid) {
+                        return validation;
+                    }
+                } else {
+                    // For regular operations, validate as single JSON object
+                    const validation = JsonUtils.validateAndParse(trimmedContent);
+                    if (!validation.valid) {
+                        return { 
+                            valid: false, 
+                            error: 'Invalid JSON in request body' 
+                        };
+                    }
+                }
+            }
+        }
+        
+        return { valid: true };
+    }
+
+    public static formatQuery(content: string, type: QueryType): string {
+        // Basic query formatting
+        const lines = content.split('\n');
+        const formattedLines = lines.map(line => line.trim()).filter(line => line.length > 0);
+        
+        if (type === QueryType.SQL) {
+            // Basic SQL formatting
+            return formattedLines.join('\n');
+        } else if (type === QueryType.PPL) {
+            // PPL formatting
+            return formattedLines.join('\n');
+        } else if (type === QueryType.OPENSEARCH_API) {
+            // JSON formatting for API requests using centralized utility
+            return JsonUtils.formatJSON(content);
+        }
+        
+        return content;
+    }
+
+    public static getQueryPreview(content: string, maxLength: number = 50): string {
+        const cleanContent = content.replace(/\s+/g, ' ').trim();
+        
+        if (cleanContent.length <= maxLength) {
+            return cleanContent;
+        }
+        
+        return cleanContent.substring(0, maxLength - 3) + '...';
+    }
+
+    /**
+     * Validate connection overrides
+     */
+    public static validateConnectionOverrides(overrides: ConnectionOverrides): { valid: boolean; error?: string } {
+        if (overrides.endpoint) {
+            try {
+                new URL(overrides.endpoint);
+            } catch {
+                return { valid: false, error: `Invalid endpoint URL: ${overrides.endpoint}` };
+            }
+        }
+        
+        if (overrides.auth?.type === 'basic') {
+            if (!overrides.auth.username || !overrides.auth.password) {
+                return { valid: false, error: 'Basic auth requires both username and password' };
+            }
+        }
+        
+        if (overrides.auth?.type === 'apikey') {
+            if (!overrides.auth.apiKey) {
+                return { valid: false, error: 'API key auth requires api_key' };
+            }
+        }
+        
+        if (overrides.auth?.type === 'oidc') {
+            const flow = OidcTokenProvider.getFlow(overrides.auth);
+            if (flow === 'static' && !overrides.auth.token) {
+                return { valid: false, error: 'OIDC auth with a static token requires bearer_token' };
+            }
+            if (flow !== 'static' && (!overrides.auth.tokenEndpoint || !overrides.auth.clientId)) {
+                return { valid: false, error: 'OIDC auth requires token_endpoint and client_id' };
+            }
+            if (flow === 'device-code' && !overrides.auth.deviceAuthorizationEndpoint) {
+                return { valid: false, error: 'OIDC device code flow requires device_authorization_endpoint' };
+            }
+        }
+
+        if (overrides.auth?.type === 'aws-sigv4' && overrides.auth.service && !['es', 'aoss'].includes(overrides.auth.service)) {
+            return { valid: false, error: `AWS service must be "es" or "aoss", got: ${overrides.auth.service}` };
+        }
+        
+        if (overrides.proxy?.url && !overrides.proxy.url.includes('{{')) {
+            try {
+                new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(overrides.proxy.url) ? overrides.proxy.url : `http://${overrides.proxy.url}`);
+            } catch {
+                return { valid: false, error: `Invalid proxy URL: ${overrides.proxy.url}` };
+            }
+        }
+
+        for (const url of overrides.nodes?.urls || []) {
+            if (url.includes('{{')) {
+                continue;
+            }
+            try {
+                new URL(url);
+            } catch {
+                return { valid: false, error: `Invalid node URL: ${url}` };
+            }
+        }
+
+        if (!!overrides.tls?.certFile !== !!overrides.tls?.keyFile) {
+            return { valid: false, error: 'Client certificate auth requires both client_cert and client_key' };
+        }
+        
+        if (overrides.timeout && (overrides.timeout < 1000 || overrides.timeout > 300000)) {
+            return { valid: false, error: 'Timeout must be between 1000ms and 300000ms (5 minutes)' };
+        }
+        
+        return { valid: true };
+    }
 }
@@ -5,3 +5,4 @@
 export { BaseParser, IDocumentParser } from './baseParser';
 export { MarkdownParser } from './markdownParser';
 export { RstParser } from './rstParser';
+export { StringTextSource } from './stringTextSource';
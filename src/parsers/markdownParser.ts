@@ -1,5 +1,4 @@
-import * as vscode from 'vscode';
-import { QueryBlock, ConfigurationBlock, QueryType } from '../types';
+import { QueryBlock, ConfigurationBlock, ExpectedBlock, QueryType, TextPosition, TextRange, TextSource } from '../types';
 import { BaseParser, IDocumentParser } from './baseParser';
 
 /**
@@ -8,10 +7,11 @@ import { BaseParser, IDocumentParser } from './baseParser';
 export class MarkdownParser extends BaseParser implements IDocumentParser {
     private static readonly CODE_BLOCK_REGEX = /^```(sql|ppl|opensearch-api)\s*\n([\s\S]*?)^```/gm;
     private static readonly CONFIG_BLOCK_REGEX = /^```(config|opensearch-config|connection)\s*\n([\s\S]*?)^```/gm;
+    private static readonly EXPECTED_BLOCK_REGEX = /^```expected\s*\n([\s\S]*?)^```/gm;
     
-    public parseDocument(document: vscode.TextDocument): QueryBlock[] {
+    public parseDocument(document: TextSource): QueryBlock<TextRange>[] {
         const text = document.getText();
-        const queryBlocks: QueryBlock[] = [];
+        const queryBlocks: QueryBlock<TextRange>[] = [];
         
         let match;
         const regex = new RegExp(MarkdownParser.CODE_BLOCK_REGEX);
@@ -42,11 +42,11 @@ export class MarkdownParser extends BaseParser implements IDocumentParser {
         return queryBlocks;
     }
     
-    public findQueryBlockAtPosition(document: vscode.TextDocument, position: vscode.Position): QueryBlock | null {
+    public findQueryBlockAtPosition(document: TextSource, position: TextPosition): QueryBlock<TextRange> | null {
         const queryBlocks = this.parseDocument(document);
         
         for (const block of queryBlocks) {
-            if (block.range.contains(position)) {
+            if (BaseParser.containsPosition(block.range, position)) {
                 return block;
             }
         }
@@ -54,9 +54,9 @@ export class MarkdownParser extends BaseParser implements IDocumentParser {
         return null;
     }
     
-    public parseConfigurationBlocks(document: vscode.TextDocument): ConfigurationBlock[] {
+    public parseConfigurationBlocks(document: TextSource): ConfigurationBlock<TextRange>[] {
         const text = document.getText();
-        const configBlocks: ConfigurationBlock[] = [];
+        const configBlocks: ConfigurationBlock<TextRange>[] = [];
         
         let match;
         const regex = new RegExp(MarkdownParser.CONFIG_BLOCK_REGEX);
@@ -82,6 +82,24 @@ export class MarkdownParser extends BaseParser implements IDocumentParser {
         return configBlocks;
     }
     
+    public parseExpectedBlocks(document: TextSource): ExpectedBlock<TextRange>[] {
+        const text = document.getText();
+        const expectedBlocks: ExpectedBlock<TextRange>[] = [];
+
+        let match;
+        const regex = new RegExp(MarkdownParser.EXPECTED_BLOCK_REGEX);
+
+        while ((match = regex.exec(text)) !== null) {
+            const [fullMatch, content] = match;
+            expectedBlocks.push({
+                content: content.replace(/\n$/, ''),
+                range: BaseParser.createRange(document.positionAt(match.index), document.positionAt(match.index + fullMatch.length))
+            });
+        }
+
+        return expectedBlocks;
+    }
+    
     private parseConnectionOverrides(content: string) {
         return BaseParser.parseConnectionOverrides(content);
     }
@@ -1,5 +1,4 @@
-import * as vscode from 'vscode';
-import { QueryBlock, ConfigurationBlock, QueryType } from '../types';
+import { QueryBlock, ConfigurationBlock, ExpectedBlock, QueryType, TextPosition, TextRange, TextSource } from '../types';
 import { BaseParser, IDocumentParser } from './baseParser';
 
 // TypeScript interfaces for RST parsing
@@ -20,7 +19,9 @@ const restructured = require('restructured') as { default: RstParserLib };
  * Parser for reStructuredText documents with code-block directives
  */
 export class RstParser extends BaseParser implements IDocumentParser {
-    public parseDocument(document: vscode.TextDocument): QueryBlock[] {
+    private static readonly EXPECTED_BLOCK_REGEX = /^\.\.\s+code-block::\s+expected[ \t]*\n((?:[ \t]*\n|[ \t]+[^\n]*(?:\n|$))*)/gm;
+
+    public parseDocument(document: TextSource): QueryBlock<TextRange>[] {
         const text = document.getText();
         
         // Parse RST document using the restructured library
@@ -29,7 +30,7 @@ export class RstParser extends BaseParser implements IDocumentParser {
         // Find all code-block directives
         const codeBlocks = this.findRstCodeBlocks(parsed);
         
-        const queryBlocks: QueryBlock[] = [];
+        const queryBlocks: QueryBlock<TextRange>[] = [];
         
         for (const block of codeBlocks) {
             const language = block.language;
@@ -67,11 +68,11 @@ export class RstParser extends BaseParser implements IDocumentParser {
         return queryBlocks;
     }
     
-    public findQueryBlockAtPosition(document: vscode.TextDocument, position: vscode.Position): QueryBlock | null {
+    public findQueryBlockAtPosition(document: TextSource, position: TextPosition): QueryBlock<TextRange> | null {
         const queryBlocks = this.parseDocument(document);
         
         for (const block of queryBlocks) {
-            if (block.range.contains(position)) {
+            if (BaseParser.containsPosition(block.range, position)) {
                 return block;
             }
         }
@@ -155,7 +156,7 @@ export class RstParser extends BaseParser implements IDocumentParser {
         return 0;
     }
     
-    public parseConfigurationBlocks(document: vscode.TextDocument): ConfigurationBlock[] {
+    public parseConfigurationBlocks(document: TextSource): ConfigurationBlock<TextRange>[] {
         const text = document.getText();
         
         // Parse RST document using the restructured library
@@ -164,7 +165,7 @@ export class RstParser extends BaseParser implements IDocumentParser {
         // Find all code-block directives for configuration
         const codeBlocks = this.findRstCodeBlocks(parsed);
         
-        const configBlocks: ConfigurationBlock[] = [];
+        const configBlocks: ConfigurationBlock<TextRange>[] = [];
         
         for (const block of codeBlocks) {
             const language = block.language;
@@ -194,6 +195,34 @@ export class RstParser extends BaseParser implements IDocumentParser {
         return configBlocks;
     }
     
+    /**
+     * Find `.. code-block:: expected` directives. The indented content is matched
+     * directly, as the AST does not keep the positions needed to replace the block.
+     */
+    public parseExpectedBlocks(document: TextSource): ExpectedBlock<TextRange>[] {
+        const text = document.getText();
+        const expectedBlocks: ExpectedBlock<TextRange>[] = [];
+
+        let match;
+        const regex = new RegExp(RstParser.EXPECTED_BLOCK_REGEX);
+
+        while ((match = regex.exec(text)) !== null) {
+            // Trailing blank lines separate the block from what follows and are not part of it
+            const body = match[1].replace(/\s+$/, '');
+            const lines = body.split('\n');
+            const indents = lines.filter(line => line.trim()).map(line => line.match(/^[ \t]*/)![0].length);
+            const indent = indents.length > 0 ? Math.min(...indents) : 0;
+            const end = match.index + match[0].length - match[1].length + body.length;
+
+            expectedBlocks.push({
+                content: lines.map(line => line.substring(indent)).join('\n').replace(/^\n+/, ''),
+                range: BaseParser.createRange(document.positionAt(match.index), document.positionAt(end))
+            });
+        }
+
+        return expectedBlocks;
+    }
+    
     private parseConnectionOverrides(content: string) {
         return BaseParser.parseConnectionOverrides(content);
     }
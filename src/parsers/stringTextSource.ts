@@ -0,0 +1,41 @@
+import { TextPosition, TextSource } from '../types';
+
+/**
+ * TextSource over a string, for parsing documents outside VS Code
+ */
+export class StringTextSource implements TextSource {
+    private lineOffsets: number[] = [0];
+
+    constructor(private text: string, public readonly languageId: string = 'markdown') {
+        for (let offset = text.indexOf('\n'); offset !== -1; offset = text.indexOf('\n', offset + 1)) {
+            this.lineOffsets.push(offset + 1);
+        }
+    }
+
+    /**
+     * Picks the language from the file extension, as VS Code does for `.rst` files
+     */
+    public static forFile(fileName: string, text: string): StringTextSource {
+        return new StringTextSource(text, /\.rst$/i.test(fileName) ? 'restructuredtext' : 'markdown');
+    }
+
+    public getText(): string {
+        return this.text;
+    }
+
+    public positionAt(offset: number): TextPosition {
+        const clamped = Math.max(0, Math.min(offset, this.text.length));
+        // Last line starting at or before the offset
+        let low = 0;
+        let high = this.lineOffsets.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this.lineOffsets[middle] <= clamped) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return { line: low, character: clamped - this.lineOffsets[low] };
+    }
+}
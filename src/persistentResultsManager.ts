@@ -1,24 +1,45 @@
 import * as vscode from 'vscode';
-import { QueryResult, QueryType } from './types';
+import * as os from 'os';
+import * as path from 'path';
+import { QueryResult, QueryType, StoredResult } from './types';
 import { HistoryManager } from './historyManager';
+import { QueryRunner } from './queryRunner';
 import { TabContentGenerator } from './utils/tabContentGenerator';
 import { HttpFormatter } from './utils/httpFormatter';
 import { SvgIcons } from './utils/svgIcons';
 import { WebviewStyles } from './utils/webviewStyles';
+import { ResultExporter, ExportFormat } from './utils/resultExporter';
+import { ResultsProvider } from './resultsProvider';
+import { ResultDiff, DiffSide } from './utils/resultDiff';
+
+/**
+ * The document and block a displayed result was run from
+ */
+export interface ResultSource {
+    uri: vscode.Uri;
+    position: vscode.Position;
+}
 
 export class PersistentResultsManager {
     private static instance: PersistentResultsManager | undefined;
     private panel: vscode.WebviewPanel | undefined;
     private historyManager: HistoryManager;
+    private queryRunner: QueryRunner;
     private currentHistoryId: string | undefined;
+    private current: { result: QueryResult; query: string; queryType: QueryType; explainResult?: QueryResult } | undefined;
+    // Cursors of results shown in this panel, closed together with the panel
+    private shownCursors = new Set<string>();
+    // Where the last executed query came from; charts are inserted below it
+    private source: ResultSource | undefined;
 
-    private constructor(historyManager: HistoryManager) {
+    private constructor(historyManager: HistoryManager, queryRunner: QueryRunner) {
         this.historyManager = historyManager;
+        this.queryRunner = queryRunner;
     }
 
-    public static getInstance(historyManager: HistoryManager): PersistentResultsManager {
+    public static getInstance(historyManager: HistoryManager, queryRunner: QueryRunner): PersistentResultsManager {
         if (!PersistentResultsManager.instance) {
-            PersistentResultsManager.instance = new PersistentResultsManager(historyManager);
+            PersistentResultsManager.instance = new PersistentResultsManager(historyManager, queryRunner);
         }
         return PersistentResultsManager.instance;
     }
@@ -27,8 +48,10 @@ export class PersistentResultsManager {
         result: QueryResult,
         query: string,
         queryType: QueryType,
-        explainResult?: QueryResult
+        explainResult?: QueryResult,
+        source?: ResultSource
     ): Promise<void> {
+        this.source = source;
         const recentHistory = this.historyManager.getRecentHistory(1);
         if (recentHistory.length > 0) {
             this.currentHistoryId = recentHistory[0].id;
@@ -39,7 +62,7 @@ export class PersistentResultsManager {
         }
 
         if (this.panel) {
-            this.panel.webview.html = this.generateResultsHtml(result, query, queryType, explainResult);
+            this.render(result, query, queryType, explainResult);
             this.panel.reveal(vscode.ViewColumn.Beside);
         }
 
@@ -48,11 +71,45 @@ export class PersistentResultsManager {
             vscode.window.showInformationMessage(
                 `Query executed successfully in ${result.executionTime}ms`
             );
+        } else if (result.cancelled && result.cancelError) {
+            vscode.window.showWarningMessage(`Query cancelled after ${result.executionTime}ms. ${result.cancelError}`);
+        } else if (result.cancelled) {
+            vscode.window.showInformationMessage(`Query cancelled after ${result.executionTime}ms`);
         } else {
             vscode.window.showErrorMessage(`Query failed: ${result.error}`);
         }
     }
 
+    /**
+     * Shows results saved with a document. Results not in the history yet are added
+     * to it, so each of them can be picked from the history squares.
+     */
+    public async restoreResults(results: StoredResult[], source?: ResultSource): Promise<void> {
+        const sorted = [...results].sort((a, b) => a.result.executedAt.getTime() - b.result.executedAt.getTime());
+        const findHistoryItem = (stored: StoredResult) => this.historyManager.getHistory().find(item =>
+            item.query === stored.query && item.timestamp.getTime() === stored.result.executedAt.getTime());
+
+        for (const stored of sorted) {
+            if (!findHistoryItem(stored)) {
+                await this.historyManager.addToHistory(stored.query, stored.queryType, stored.result, stored.result.connectionInfo?.endpoint || '');
+            }
+        }
+
+        const latest = sorted[sorted.length - 1];
+        if (!latest) {
+            return;
+        }
+        this.source = source;
+        this.currentHistoryId = findHistoryItem(latest)?.id;
+        if (!this.panel) {
+            this.createPanel();
+        }
+        if (this.panel) {
+            this.render(latest.result, latest.query, latest.queryType);
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+        }
+    }
+
     private createPanel(): void {
         this.panel = vscode.window.createWebviewPanel(
             'opensearchPersistentResults',
@@ -67,6 +124,7 @@ export class PersistentResultsManager {
         this.panel.onDidDispose(() => {
             this.panel = undefined;
             PersistentResultsManager.instance = undefined;
+            this.closeShownCursors();
         });
 
         this.panel.webview.onDidReceiveMessage(
@@ -79,6 +137,21 @@ export class PersistentResultsManager {
                         case 'deleteHistory':
                             await this.handleHistoryDelete(message.historyId);
                             break;
+                        case 'loadMore':
+                            await this.handleLoadMore();
+                            break;
+                        case 'exportResults':
+                            await this.exportResults();
+                            break;
+                        case 'exportChart':
+                            await this.exportChart(message.format, message.data);
+                            break;
+                        case 'insertChart':
+                            await this.insertChart(message.data);
+                            break;
+                        case 'compareHistory':
+                            await this.compareHistory();
+                            break;
                     }
                 } catch (error) {
                     console.error('Error handling webview message:', error);
@@ -96,10 +169,12 @@ export class PersistentResultsManager {
         }
 
         this.currentHistoryId = historyId;
+        // The history item may come from another document
+        this.source = undefined;
         
         if (this.panel) {
             // Use the stored explainResult if available
-            this.panel.webview.html = this.generateResultsHtml(
+            this.render(
                 historyItem.result,
                 historyItem.query,
                 historyItem.queryType,
@@ -108,6 +183,287 @@ export class PersistentResultsManager {
         }
     }
 
+    /**
+     * Follows the cursor of the displayed result and shows it with the next page appended
+     */
+    private async handleLoadMore(): Promise<void> {
+        if (!this.current?.result.cursor) {
+            return;
+        }
+
+        const { result, query, queryType, explainResult } = this.current;
+        const nextResult = await this.queryRunner.fetchNextPage(result);
+        if (!nextResult.success) {
+            vscode.window.showErrorMessage(`Failed to load more rows: ${nextResult.error}`);
+            // Re-enable the button
+            this.render(result, query, queryType, explainResult);
+            return;
+        }
+
+        if (this.currentHistoryId && this.historyManager.getHistoryItem(this.currentHistoryId)?.result.cursor === result.cursor) {
+            await this.historyManager.updateHistoryResult(this.currentHistoryId, nextResult);
+        }
+        this.shownCursors.delete(result.cursor!);
+        this.render(nextResult, query, queryType, explainResult);
+    }
+
+    /**
+     * Exports the displayed result, or the most recent one when the panel is closed,
+     * to a file chosen in a save dialog
+     */
+    public async exportResults(): Promise<void> {
+        const current = this.current || this.getLatestFromHistory();
+        if (!current || !ResultExporter.canExport(current.result)) {
+            vscode.window.showWarningMessage('No tabular results to export');
+            return;
+        }
+        const { result } = current;
+
+        const formatChoice = await vscode.window.showQuickPick(
+            (Object.keys(ResultExporter.FORMATS) as ExportFormat[]).map(format => ({
+                label: ResultExporter.FORMATS[format].label,
+                description: `.${ResultExporter.FORMATS[format].extension}`,
+                format
+            })),
+            { placeHolder: 'Export format' }
+        );
+        if (!formatChoice) {
+            return;
+        }
+        const formatInfo = ResultExporter.FORMATS[formatChoice.format];
+
+        let includeAllPages = false;
+        if (this.queryRunner.isCursorOpen(result.cursor)) {
+            const pagesChoice = await vscode.window.showQuickPick([
+                { label: 'All pages', description: 'Follow the cursor and write every remaining page', value: true },
+                { label: 'Loaded rows only', description: `${result.data.length} rows`, value: false }
+            ], { placeHolder: 'The result has more pages' });
+            if (!pagesChoice) {
+                return;
+            }
+            includeAllPages = pagesChoice.value;
+        }
+
+        const fileName = `opensearch-results.${formatInfo.extension}`;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : vscode.Uri.file(path.join(os.homedir(), fileName)),
+            filters: { [formatInfo.label]: [formatInfo.extension] },
+            saveLabel: 'Export'
+        });
+        if (!uri) {
+            return;
+        }
+
+        let openCursor: string | undefined;
+        try {
+            const rowCount = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Exporting OpenSearch results...',
+                cancellable: includeAllPages
+            }, (_progress, token) => ResultExporter.exportToFile(
+                result,
+                formatChoice.format,
+                uri.fsPath,
+                includeAllPages ? async (page) => {
+                    const nextPage = await this.queryRunner.fetchNextPage(page, token);
+                    openCursor = nextPage.success ? nextPage.cursor : page.cursor;
+                    return nextPage;
+                } : undefined,
+                () => token.isCancellationRequested
+            ));
+
+            const action = await vscode.window.showInformationMessage(
+                `Exported ${rowCount} rows to ${path.basename(uri.fsPath)}`,
+                'Open File'
+            );
+            if (action === 'Open File') {
+                await vscode.window.showTextDocument(uri);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Export failed: ${error.message}`);
+        } finally {
+            if (includeAllPages) {
+                // The export consumed the cursor, so the displayed result cannot load more
+                if (openCursor) {
+                    await this.queryRunner.closeCursor(openCursor);
+                }
+                if (this.current?.result === result) {
+                    this.render(result, current.query, current.queryType, current.explainResult);
+                }
+            }
+        }
+    }
+
+    /**
+     * Saves a chart rendered by the webview. SVG arrives as markup, PNG as a data URL.
+     */
+    private async exportChart(format: 'svg' | 'png', data: string): Promise<void> {
+        const fileName = `opensearch-chart.${format}`;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : vscode.Uri.file(path.join(os.homedir(), fileName)),
+            filters: { [format.toUpperCase()]: [format] },
+            saveLabel: 'Export'
+        });
+        if (!uri) {
+            return;
+        }
+
+        const content = format === 'png'
+            ? Buffer.from(data.replace(/^data:image\/png;base64,/, ''), 'base64')
+            : Buffer.from(data, 'utf8');
+        await vscode.workspace.fs.writeFile(uri, content);
+        vscode.window.showInformationMessage(`Chart exported to ${path.basename(uri.fsPath)}`);
+    }
+
+    /**
+     * Saves the chart as an SVG file next to the document the query came from and
+     * inserts an image reference below the query block. Without a known source, the
+     * reference goes to the cursor of a visible Markdown or RST editor.
+     */
+    private async insertChart(svg: string): Promise<void> {
+        let document: vscode.TextDocument | undefined;
+        let line: number;
+        if (this.source) {
+            document = await vscode.workspace.openTextDocument(this.source.uri);
+            line = ResultsProvider.findBlockEndLine(
+                document.getText().split('\n'),
+                this.source.position.line,
+                document.languageId === 'restructuredtext'
+            );
+        } else {
+            const editor = vscode.window.visibleTextEditors.find(visible =>
+                visible.document.languageId === 'markdown' || visible.document.languageId === 'restructuredtext');
+            document = editor?.document;
+            line = editor ? editor.selection.active.line + 1 : 0;
+        }
+
+        if (!document) {
+            vscode.window.showWarningMessage('Open the Markdown or RST document to insert the chart into');
+            return;
+        }
+        if (document.isUntitled || document.uri.scheme !== 'file') {
+            vscode.window.showWarningMessage('Save the document first so the chart can be stored next to it');
+            return;
+        }
+
+        const directory = vscode.Uri.joinPath(document.uri, '..');
+        const baseName = path.basename(document.uri.fsPath, path.extname(document.uri.fsPath));
+        const chartUri = await this.findUnusedChartUri(directory, baseName);
+        await vscode.workspace.fs.writeFile(chartUri, Buffer.from(svg, 'utf8'));
+
+        const chartName = path.basename(chartUri.fsPath);
+        const reference = document.languageId === 'restructuredtext'
+            ? `\n.. image:: ${chartName}\n\n`
+            : `\n![Chart](${chartName})\n\n`;
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, new vscode.Position(Math.min(line, document.lineCount), 0), reference);
+        await vscode.workspace.applyEdit(edit);
+
+        vscode.window.showInformationMessage(`Chart saved as ${chartName} and inserted into ${path.basename(document.uri.fsPath)}`);
+    }
+
+    private async findUnusedChartUri(directory: vscode.Uri, baseName: string): Promise<vscode.Uri> {
+        for (let index = 1; ; index++) {
+            const candidate = vscode.Uri.joinPath(directory, `${baseName}-chart-${index}.svg`);
+            try {
+                await vscode.workspace.fs.stat(candidate);
+            } catch {
+                return candidate;
+            }
+        }
+    }
+
+    /**
+     * Lets the user pick two history items and compares their results, older on the left
+     */
+    private async compareHistory(): Promise<void> {
+        const items = this.historyManager.getHistory().map(item => ({
+            label: `${item.queryType.toUpperCase()} @ ${item.timestamp.toLocaleString()}`,
+            description: item.endpoint,
+            detail: item.query.split('\n')[0],
+            picked: item.id === this.currentHistoryId,
+            item
+        }));
+
+        const picks = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select two history items to compare',
+            canPickMany: true
+        });
+        if (!picks) {
+            return;
+        }
+        if (picks.length !== 2) {
+            vscode.window.showWarningMessage('Select exactly two history items to compare');
+            return;
+        }
+
+        const [older, newer] = picks.map(pick => pick.item).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        await this.compareResults(
+            { label: `${older.timestamp.toLocaleString()} (${older.endpoint})`, result: older.result },
+            { label: `${newer.timestamp.toLocaleString()} (${newer.endpoint})`, result: newer.result }
+        );
+    }
+
+    /**
+     * Shows a row and JSON diff of two results in a new tab. Rows are matched by a
+     * column the user picks, `_id` being offered first.
+     */
+    public async compareResults(left: DiffSide, right: DiffSide): Promise<void> {
+        let keyColumn: string | undefined;
+        const candidates = ResultDiff.getKeyCandidates(left.result, right.result);
+        if (candidates.length > 0) {
+            const choice = await vscode.window.showQuickPick([
+                ...candidates.map(column => ({ label: column, value: column as string | undefined })),
+                { label: 'Row position', description: 'Compare the first rows, then the second rows, ...', value: undefined }
+            ], { placeHolder: 'Match rows by' });
+            if (!choice) {
+                return;
+            }
+            keyColumn = choice.value;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'opensearchResultDiff',
+            'OpenSearch Comparison',
+            vscode.ViewColumn.Beside,
+            { enableScripts: true }
+        );
+        panel.webview.html = ResultDiff.generateHtml(left, right, keyColumn);
+    }
+
+    private getLatestFromHistory(): PersistentResultsManager['current'] {
+        const [latest] = this.historyManager.getRecentHistory(1);
+        return latest && {
+            result: latest.result,
+            query: latest.query,
+            queryType: latest.queryType,
+            explainResult: latest.explainResult
+        };
+    }
+
+    private render(result: QueryResult, query: string, queryType: QueryType, explainResult?: QueryResult): void {
+        if (!this.panel) {
+            return;
+        }
+
+        this.current = { result, query, queryType, explainResult };
+        if (result.cursor) {
+            this.shownCursors.add(result.cursor);
+        }
+        this.panel.webview.html = this.generateResultsHtml(result, query, queryType, explainResult);
+    }
+
+    private closeShownCursors(): void {
+        for (const cursor of this.shownCursors) {
+            if (this.queryRunner.isCursorOpen(cursor)) {
+                void this.queryRunner.closeCursor(cursor);
+            }
+        }
+        this.shownCursors.clear();
+    }
+
     private async handleHistoryDelete(historyId: string): Promise<void> {
         try {
             // Try to show confirmation dialog (non-modal for test compatibility)
@@ -154,7 +510,10 @@ export class PersistentResultsManager {
         explainResult?: QueryResult
     ): string {
         const timestamp = result.executedAt.toLocaleString();
-        const tabs = TabContentGenerator.generateResultTabs(result, explainResult);
+        const tabs = TabContentGenerator.generateResultTabs(result, explainResult, {
+            canLoadMore: this.queryRunner.isCursorOpen(result.cursor),
+            canExport: ResultExporter.canExport(result)
+        });
         const tabsHtml = TabContentGenerator.generateTabsHtml(tabs);
         const metadata = HttpFormatter.generateMetadata(result, explainResult);
         const historySquares = this.generateHistorySquares();
@@ -233,6 +592,7 @@ export class PersistentResultsManager {
                 <div class="history-squares">
                     ${squares}
                 </div>
+                ${history.length >= 2 ? '<button class="copy-btn history-compare-btn" onclick="compareHistory()" title="Compare the results of two history items">Compare</button>' : ''}
             </div>
         `;
     }
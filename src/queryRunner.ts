@@ -1,12 +1,18 @@
 import * as vscode from 'vscode';
 import { ConnectionManager } from './connectionManager';
 import { DocumentParser } from './documentParser';
-import { QueryResult, QueryBlock, DisplayMode, ConnectionOverrides, QueryType } from './types';
+import { QueryResult, QueryBlock, DisplayMode, ConnectionOverrides, QueryType, BlockRunSummary, BlockRunOptions } from './types';
 import { QueryExecutionEngine } from './utils/queryExecutor';
 import { ResponseProcessor } from './utils/responseProcessor';
+import { ErrorHandler } from './utils/errorHandler';
+import { QueryResolver, ResolvedQuery } from './utils/queryResolver';
 
 export class QueryRunner {
     private connectionManager: ConnectionManager;
+    // Responses of named blocks, per document URI and block name
+    private responseCache = new Map<string, Map<string, QueryResult>>();
+    // Connection overrides of the query that opened each SQL/PPL cursor
+    private cursorConnections = new Map<string, ConnectionOverrides | undefined>();
 
     constructor(connectionManager: ConnectionManager) {
         this.connectionManager = connectionManager;
@@ -17,78 +23,283 @@ export class QueryRunner {
         queryType: QueryType, 
         timeout?: number,
         metadata?: any,
-        connectionOverrides?: ConnectionOverrides
+        connectionOverrides?: ConnectionOverrides,
+        chainedVariables?: Record<string, string>,
+        token?: vscode.CancellationToken
     ): Promise<QueryResult> {
-        const context = QueryExecutionEngine.createContext(query, queryType, timeout, metadata, connectionOverrides);
-        
-        // Pre-validation
-        const validationError = QueryExecutionEngine.validateQuery(context);
-        if (validationError) {
-            return validationError;
-        }
-
-        return QueryExecutionEngine.executeWithErrorHandling(
-            context,
-            async (ctx) => {
-                // Execute based on query type
-                if (ctx.queryType === QueryType.OPENSEARCH_API) {
-                    return await this.connectionManager.executeApiOperationWithOverrides(
-                        ctx.metadata.method, 
-                        ctx.metadata.endpoint, 
-                        ctx.query,
-                        ctx.connectionOverrides
-                    );
-                } else {
-                    return await this.connectionManager.executeQueryWithOverrides(
-                        ctx.query, 
-                        ctx.queryType, 
-                        ctx.connectionOverrides
-                    );
-                }
-            },
-            (response, executionTime, queryType) => ResponseProcessor.processQueryResponse(response, executionTime, queryType)
-        );
+        let resolved: ResolvedQuery;
+        try {
+            resolved = QueryResolver.resolve(this.connectionManager, query, metadata, connectionOverrides, chainedVariables);
+        } catch (error: any) {
+            return ErrorHandler.createErrorResponse(error, Date.now());
+        }
+        const resolvedOverrides = resolved.connectionOverrides;
+
+        return this.withAbortSignal(token, async (signal) => {
+            const context = QueryExecutionEngine.createContext(resolved.query, queryType, timeout, resolved.metadata, resolvedOverrides, signal);
+            
+            // Pre-validation
+            const validationError = QueryExecutionEngine.validateQuery(context);
+            if (validationError) {
+                return validationError;
+            }
+
+            const result = await QueryExecutionEngine.executeWithErrorHandling(
+                context,
+                async (ctx) => {
+                    // Execute based on query type
+                    if (ctx.queryType === QueryType.OPENSEARCH_API) {
+                        return await this.connectionManager.executeApiOperationWithOverrides(
+                            ctx.metadata.method, 
+                            ctx.metadata.endpoint, 
+                            ctx.query,
+                            ctx.connectionOverrides,
+                            ctx.signal
+                        );
+                    } else {
+                        return await this.connectionManager.executeQueryWithOverrides(
+                            ctx.query, 
+                            ctx.queryType, 
+                            ctx.connectionOverrides,
+                            ctx.signal,
+                            ctx.metadata?.fetchSize
+                        );
+                    }
+                },
+                (response, executionTime, queryType) => ResponseProcessor.processQueryResponse(response, executionTime, queryType)
+            );
+
+            if (result.cursor) {
+                this.cursorConnections.set(result.cursor, resolvedOverrides);
+            }
+            return result;
+        });
     }
 
-    public async executeQueryFromBlock(queryBlock: QueryBlock): Promise<QueryResult> {
+    /**
+     * Follows the cursor of a SQL/PPL result and returns the result with the next page appended
+     */
+    public async fetchNextPage(result: QueryResult, token?: vscode.CancellationToken): Promise<QueryResult> {
+        const cursor = result.cursor;
+        if (!cursor) {
+            return result;
+        }
+
+        const overrides = this.cursorConnections.get(cursor);
+        return this.withAbortSignal(token, async (signal) => {
+            const context = QueryExecutionEngine.createContext(cursor, QueryType.SQL, undefined, undefined, overrides, signal);
+            const page = await QueryExecutionEngine.executeWithErrorHandling(
+                context,
+                (ctx) => this.connectionManager.fetchCursorPage(cursor, ctx.connectionOverrides, ctx.signal),
+                (response, executionTime) => ResponseProcessor.appendCursorPage(result, response, executionTime)
+            );
+            if (!page.success) {
+                return page;
+            }
+
+            this.cursorConnections.delete(cursor);
+            if (page.cursor) {
+                this.cursorConnections.set(page.cursor, overrides);
+            }
+            // Keep showing the request that produced the result, not the cursor request
+            return { ...page, requestInfo: result.requestInfo, responseInfo: result.responseInfo };
+        });
+    }
+
+    /**
+     * Follows the cursor until every page is fetched or `maxRows` is reached.
+     * A cursor left open at the cap is closed and dropped from the result.
+     */
+    public async fetchRemainingPages(result: QueryResult, maxRows: number, token?: vscode.CancellationToken): Promise<QueryResult> {
+        let current = result;
+        while (current.cursor && (current.rowCount || 0) < maxRows && !token?.isCancellationRequested) {
+            const next = await this.fetchNextPage(current, token);
+            if (!next.success) {
+                await this.closeCursor(current.cursor);
+                return next;
+            }
+            current = next;
+        }
+
+        if (current.cursor) {
+            await this.closeCursor(current.cursor);
+            const data = Array.isArray(current.data) ? current.data.slice(0, maxRows) : current.data;
+            current = { ...current, data, rowCount: Array.isArray(data) ? data.length : current.rowCount, cursor: undefined };
+        }
+        return current;
+    }
+
+    /**
+     * Checks whether a cursor was opened in this session and has not been closed
+     */
+    public isCursorOpen(cursor?: string): boolean {
+        return !!cursor && this.cursorConnections.has(cursor);
+    }
+
+    /**
+     * Closes a cursor that will not be followed any more. Failures are only logged,
+     * since the cluster expires idle cursors on its own.
+     */
+    public async closeCursor(cursor: string): Promise<void> {
+        const overrides = this.cursorConnections.get(cursor);
+        this.cursorConnections.delete(cursor);
+        try {
+            const response = await this.connectionManager.closeCursor(cursor, overrides);
+            if (response.error) {
+                console.warn('Failed to close cursor:', response.error.reason || response.error.type);
+            }
+        } catch (error) {
+            console.warn('Failed to close cursor:', error);
+        }
+    }
+
+    /**
+     * Bridges a VS Code cancellation token to the AbortSignal used for HTTP requests
+     */
+    private async withAbortSignal<T>(
+        token: vscode.CancellationToken | undefined,
+        run: (signal?: AbortSignal) => Promise<T>
+    ): Promise<T> {
+        if (!token) {
+            return run(undefined);
+        }
+
+        const controller = new AbortController();
+        if (token.isCancellationRequested) {
+            controller.abort();
+        }
+        const listener = token.onCancellationRequested(() => controller.abort());
+        try {
+            return await run(controller.signal);
+        } finally {
+            listener.dispose();
+        }
+    }
+
+    /**
+     * Executes a block. With a document, `{{name.response...}}` references are
+     * resolved from earlier named blocks, running them first when needed.
+     */
+    public async executeQueryFromBlock(
+        queryBlock: QueryBlock,
+        document?: vscode.TextDocument,
+        token?: vscode.CancellationToken
+    ): Promise<QueryResult> {
+        return this.executeBlock(queryBlock, document, [], token);
+    }
+
+    private async executeBlock(
+        queryBlock: QueryBlock,
+        document: vscode.TextDocument | undefined,
+        chain: string[],
+        token?: vscode.CancellationToken
+    ): Promise<QueryResult> {
+        let chainedVariables: Record<string, string> | undefined;
+        if (document) {
+            const startTime = Date.now();
+            try {
+                chainedVariables = await this.resolveChainedVariables(queryBlock, document, chain, token);
+            } catch (error: any) {
+                return token?.isCancellationRequested
+                    ? ErrorHandler.createCancelledResponse(startTime)
+                    : ErrorHandler.createErrorResponse(error, startTime);
+            }
+        }
+
         const timeout = queryBlock.metadata?.timeout;
-        return this.executeQuery(
+        const result = await this.executeQuery(
             queryBlock.content, 
             queryBlock.type, 
             timeout, 
             queryBlock.metadata,
-            queryBlock.connectionOverrides
+            queryBlock.connectionOverrides,
+            chainedVariables,
+            token
+        );
+
+        if (document && queryBlock.metadata?.name && result.success) {
+            this.getResponseCache(document).set(queryBlock.metadata.name, result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Builds the variables for response references in a block, running
+     * referenced blocks that have no cached response yet
+     */
+    private resolveChainedVariables(
+        queryBlock: QueryBlock,
+        document: vscode.TextDocument,
+        chain: string[],
+        token?: vscode.CancellationToken
+    ): Promise<Record<string, string>> {
+        return QueryResolver.resolveChainedVariables(
+            queryBlock,
+            this.getResponseCache(document),
+            () => DocumentParser.parseDocumentWithOverrides(document),
+            (dependency, dependencyChain) => this.executeBlock(dependency, document, dependencyChain, token),
+            chain
         );
     }
 
+    private getResponseCache(document: vscode.TextDocument): Map<string, QueryResult> {
+        const key = document.uri.toString();
+        let cache = this.responseCache.get(key);
+        if (!cache) {
+            cache = new Map();
+            this.responseCache.set(key, cache);
+        }
+        return cache;
+    }
+
+    /**
+     * Forgets cached responses of named blocks, for one document or all of them
+     */
+    public clearResponseCache(uri?: vscode.Uri): void {
+        if (uri) {
+            this.responseCache.delete(uri.toString());
+        } else {
+            this.responseCache.clear();
+        }
+    }
+
     public async executeExplainQuery(
         query: string, 
         queryType: QueryType.SQL | QueryType.PPL, 
         timeout?: number,
-        connectionOverrides?: ConnectionOverrides
+        connectionOverrides?: ConnectionOverrides,
+        token?: vscode.CancellationToken
     ): Promise<QueryResult> {
-        const context = QueryExecutionEngine.createContext(query, queryType, timeout, undefined, connectionOverrides);
-        
-        // Pre-validation for explain queries
-        const validationError = QueryExecutionEngine.validateExplainQuery(context);
-        if (validationError) {
-            return validationError;
-        }
-
-        return QueryExecutionEngine.executeWithErrorHandling(
-            context,
-            async (ctx) => {
-                return await this.connectionManager.executeExplainQueryWithOverrides(
-                    ctx.query, 
-                    ctx.queryType as 'sql' | 'ppl', 
-                    ctx.connectionOverrides
-                );
-            },
-            (response, executionTime, queryType) => ResponseProcessor.processQueryResponse(response, executionTime, queryType)
-        );
+        return this.withAbortSignal(token, async (signal) => {
+            const context = QueryExecutionEngine.createContext(query, queryType, timeout, undefined, connectionOverrides, signal);
+            
+            // Pre-validation for explain queries
+            const validationError = QueryExecutionEngine.validateExplainQuery(context);
+            if (validationError) {
+                return validationError;
+            }
+
+            return QueryExecutionEngine.executeWithErrorHandling(
+                context,
+                async (ctx) => {
+                    return await this.connectionManager.executeExplainQueryWithOverrides(
+                        ctx.query, 
+                        ctx.queryType as 'sql' | 'ppl', 
+                        ctx.connectionOverrides,
+                        ctx.signal
+                    );
+                },
+                (response, executionTime, queryType) => ResponseProcessor.processQueryResponse(response, executionTime, queryType)
+            );
+        });
     }
 
-    public async executeExplainQueryFromBlock(queryBlock: QueryBlock): Promise<QueryResult> {
+    public async executeExplainQueryFromBlock(
+        queryBlock: QueryBlock,
+        document?: vscode.TextDocument,
+        token?: vscode.CancellationToken
+    ): Promise<QueryResult> {
         if (queryBlock.type !== QueryType.SQL && queryBlock.type !== QueryType.PPL) {
             return {
                 success: false,
@@ -98,12 +309,26 @@ export class QueryRunner {
             };
         }
 
+        const startTime = Date.now();
+        let resolved: ResolvedQuery;
+        try {
+            const chainedVariables = document
+                ? await this.resolveChainedVariables(queryBlock, document, [], token)
+                : undefined;
+            resolved = QueryResolver.resolve(this.connectionManager, queryBlock.content, queryBlock.metadata, queryBlock.connectionOverrides, chainedVariables);
+        } catch (error: any) {
+            return token?.isCancellationRequested
+                ? ErrorHandler.createCancelledResponse(startTime)
+                : ErrorHandler.createErrorResponse(error, startTime);
+        }
+
         const timeout = queryBlock.metadata?.timeout;
         return this.executeExplainQuery(
-            queryBlock.content, 
+            resolved.query,
             queryBlock.type as QueryType.SQL | QueryType.PPL, 
             timeout,
-            queryBlock.connectionOverrides
+            resolved.connectionOverrides,
+            token
         );
     }
 
@@ -118,7 +343,7 @@ export class QueryRunner {
             return null;
         }
 
-        return this.executeQueryFromBlock(queryBlock);
+        return this.executeQueryFromBlock(queryBlock, document);
     }
 
     /**
@@ -132,7 +357,7 @@ export class QueryRunner {
         
         for (const block of queryBlocks) {
             if (block.range.contains(position)) {
-                return this.executeQueryFromBlock(block);
+                return this.executeQueryFromBlock(block, document);
             }
         }
         
@@ -140,6 +365,72 @@ export class QueryRunner {
         return null;
     }
 
+    /**
+     * Executes blocks of a document in order, identified by their index in the document.
+     * The document is re-parsed before each block so that text inserted by
+     * `onResult` (e.g. inline results) does not shift later blocks.
+     */
+    public async executeBlocks(
+        document: vscode.TextDocument,
+        blockIndexes: number[],
+        options: BlockRunOptions,
+        onResult?: (block: QueryBlock, result: QueryResult) => Promise<void>,
+        token?: vscode.CancellationToken,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>
+    ): Promise<BlockRunSummary[]> {
+        const summaries: BlockRunSummary[] = [];
+        let stopStatus: 'skipped' | 'cancelled' | undefined;
+
+        for (const [position, index] of blockIndexes.entries()) {
+            const block = DocumentParser.parseDocumentWithOverrides(document)[index];
+            if (!block) {
+                continue;
+            }
+
+            const summary: BlockRunSummary = {
+                index,
+                line: block.range.start.line,
+                type: block.type,
+                name: block.metadata?.name,
+                preview: DocumentParser.getQueryPreview(block.metadata?.endpoint ? `${block.metadata.method} ${block.metadata.endpoint}` : block.content),
+                status: 'skipped'
+            };
+            summaries.push(summary);
+
+            if (!stopStatus && token?.isCancellationRequested) {
+                stopStatus = 'cancelled';
+            }
+            if (stopStatus) {
+                summary.status = stopStatus;
+                continue;
+            }
+
+            progress?.report({
+                message: `Block ${position + 1} of ${blockIndexes.length}: ${summary.name || summary.preview}`,
+                increment: 100 / blockIndexes.length
+            });
+
+            const result = await this.executeQueryFromBlock(block, document, token);
+            summary.status = result.success ? 'success' : result.cancelled ? 'cancelled' : 'failed';
+            summary.executionTime = result.executionTime;
+            summary.rowCount = result.rowCount;
+            summary.error = result.error;
+            summary.result = result;
+
+            if (onResult) {
+                await onResult(block, result);
+            }
+
+            if (result.cancelled) {
+                stopStatus = 'cancelled';
+            } else if (!result.success && options.stopOnFailure) {
+                stopStatus = 'skipped';
+            }
+        }
+
+        return summaries;
+    }
+
     public formatResultForDisplay(result: QueryResult, format: 'table' | 'json' = 'table'): string {
         return ResponseProcessor.formatResultForDisplay(result, format);
     }
@@ -1,18 +1,22 @@
 import * as vscode from 'vscode';
-import { QueryResult, DisplayMode, QueryType } from './types';
+import { QueryResult, DisplayMode, QueryType, BlockRunSummary, ResultPersistence, StoredResult } from './types';
 import { HttpFormatter } from './utils/httpFormatter';
 import { TabContentGenerator } from './utils/tabContentGenerator';
 import { PersistentResultsManager } from './persistentResultsManager';
 import { HistoryManager } from './historyManager';
+import { QueryRunner } from './queryRunner';
 import { WebviewStyles } from './utils/webviewStyles';
+import { RunSummaryFormatter } from './utils/runSummaryFormatter';
+import { ResultStore } from './utils/resultStore';
+import { InlineResultFormatter, InlineResultSyntax } from './utils/inlineResultFormatter';
 
 export class ResultsProvider {
-    private static readonly RESULTS_START = '<!-- OpenSearch Results Start -->';
-    private static readonly RESULTS_END = '<!-- OpenSearch Results End -->';
     private historyManager: HistoryManager;
+    private queryRunner: QueryRunner;
 
-    constructor(historyManager: HistoryManager) {
+    constructor(historyManager: HistoryManager, queryRunner: QueryRunner) {
         this.historyManager = historyManager;
+        this.queryRunner = queryRunner;
     }
 
     public async displayResults(
@@ -26,7 +30,7 @@ export class ResultsProvider {
         if (mode === DisplayMode.Inline && document && position) {
             await this.displayInlineResults(result, document, position, query, queryType);
         } else {
-            await this.displaySeparateTabResults(result, query, queryType);
+            await this.displaySeparateTabResults(result, query, queryType, document, position);
         }
     }
 
@@ -42,7 +46,7 @@ export class ResultsProvider {
         if (mode === DisplayMode.Inline && document && position) {
             await this.displayInlineResults(result, document, position, query, queryType);
         } else {
-            await this.displaySeparateTabResultsWithExplain(result, explainResult, query, queryType);
+            await this.displaySeparateTabResultsWithExplain(result, explainResult, query, queryType, document, position);
         }
     }
 
@@ -53,239 +57,205 @@ export class ResultsProvider {
         query: string,
         queryType: QueryType
     ): Promise<void> {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor || editor.document !== document) {
-            vscode.window.showErrorMessage('No active editor found');
+        if (!await this.insertInlineResults(result, document, position, query, queryType)) {
             return;
         }
 
-        const text = document.getText();
-        const lines = text.split('\n');
-        let insertLine = position.line;
-        const isRst = document.languageId === 'restructuredtext';
-
-        if (isRst) {
-            // For RST, find the end of the code-block content
-            // Start from the position and look for the end of indented content
-            for (let i = position.line + 1; i < lines.length; i++) {
-                const line = lines[i];
-                // If we hit a non-indented line that's not empty, or another directive, we've found the end
-                if (line.length > 0 && !line.match(/^\s/) && !line.match(/^\s*$/)) {
-                    insertLine = i;
-                    break;
-                }
-                // If we reach the end of the document
-                if (i === lines.length - 1) {
-                    insertLine = i + 1;
-                    break;
-                }
-            }
-        } else {
-            // For Markdown, find the closing ``` of the code block
-            for (let i = position.line; i < lines.length; i++) {
-                if (lines[i].trim() === '```') {
-                    insertLine = i + 1;
-                    break;
-                }
-            }
-        }
-
-        await this.removeExistingInlineResults(editor, insertLine);
-
-        const formattedResults = this.formatInlineResults(result, query, queryType);
-        
-        // Insert results
-        const insertPosition = new vscode.Position(insertLine, 0);
-        await editor.edit(editBuilder => {
-            editBuilder.insert(insertPosition, formattedResults);
-        });
-
         // Show success message
         if (result.success) {
             vscode.window.showInformationMessage(
                 `Query executed successfully in ${result.executionTime}ms`
             );
+        } else if (result.cancelled && result.cancelError) {
+            vscode.window.showWarningMessage(`Query cancelled after ${result.executionTime}ms. ${result.cancelError}`);
+        } else if (result.cancelled) {
+            vscode.window.showInformationMessage(`Query cancelled after ${result.executionTime}ms`);
         } else {
             vscode.window.showErrorMessage(`Query failed: ${result.error}`);
         }
     }
 
-    private async removeExistingInlineResults(editor: vscode.TextEditor, startLine: number): Promise<void> {
-        const document = editor.document;
-        const text = document.getText();
-        const lines = text.split('\n');
-
-        let startIndex = -1;
-        let endIndex = -1;
-
-        for (let i = startLine; i < lines.length; i++) {
-            if (lines[i].includes(ResultsProvider.RESULTS_START)) {
-                startIndex = i;
-            }
-            if (lines[i].includes(ResultsProvider.RESULTS_END)) {
-                endIndex = i;
-                break;
-            }
+    /**
+     * Inserts (or replaces) the results below the block at the position without notifications.
+     * Returns false when the document is not in the active editor.
+     */
+    public async insertInlineResults(
+        result: QueryResult,
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        query: string,
+        queryType: QueryType
+    ): Promise<boolean> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document !== document) {
+            vscode.window.showErrorMessage('No active editor found');
+            return false;
         }
 
-        if (startIndex >= 0 && endIndex >= 0) {
-            const startPos = new vscode.Position(startIndex, 0);
-            const endPos = new vscode.Position(endIndex + 1, 0);
-            const range = new vscode.Range(startPos, endPos);
-            
+        const syntax: InlineResultSyntax = document.languageId === 'restructuredtext' ? 'rst' : 'markdown';
+        const lines = document.getText().split('\n');
+        const blockEndLine = ResultsProvider.findBlockEndLine(lines, position.line, syntax === 'rst');
+
+        // Replace the results of the previous run
+        const previous = InlineResultFormatter.findResultsRange(lines, blockEndLine, syntax);
+        if (previous) {
             await editor.edit(editBuilder => {
-                editBuilder.delete(range);
+                editBuilder.delete(new vscode.Range(new vscode.Position(previous.start, 0), new vscode.Position(previous.end + 1, 0)));
             });
         }
-    }
-
-    private formatInlineResults(result: QueryResult, query: string, queryType: QueryType): string {
-        const timestamp = result.executedAt.toLocaleString();
-        let output = `\n${ResultsProvider.RESULTS_START}\n`;
-        output += `**${queryType.toUpperCase()} @ ${timestamp}**\n\n`;
 
+        // Cancelled runs have nothing worth keeping
+        const persistence = result.cancelled ? 'none' : this.getResultPersistence();
+        const stored: StoredResult = { query, queryType, result };
+        const formattedResults = InlineResultFormatter.format(result, queryType, {
+            syntax,
+            maxRows: this.getInlineRowLimit(),
+            stored: persistence === 'details' ? stored : undefined
+        });
+        
+        // Insert results
+        const insertPosition = new vscode.Position(previous ? previous.start : blockEndLine, 0);
+        await editor.edit(editBuilder => {
+            editBuilder.insert(insertPosition, formattedResults);
+        });
 
-        if (!result.success) {
-            output += `❌ **Error**: ${result.error}\n`;
-            output += `**Execution Time**: ${result.executionTime}ms\n\n`;
-            
-            // Add Raw Request information for failed requests
-            if (result.requestInfo) {
-                output += `**Raw Request**:\n`;
-                const { method, endpoint, headers, body } = result.requestInfo;
-                
-                // Format HTTP request
-                let rawRequest = `${method || 'POST'} ${endpoint || '/'} HTTP/1.1\n`;
-                if (headers) {
-                    Object.entries(headers).forEach(([key, value]) => {
-                        rawRequest += `${key}: ${value}\n`;
-                    });
-                }
-                rawRequest += '\n'; // Empty line between headers and body
-                if (body) {
-                    rawRequest += body;
-                }
-                
-                output += '```http\n';
-                output += rawRequest;
-                output += '\n```\n\n';
-            }
-            
-            // Add Raw Response information for failed requests
-            if (result.responseInfo || result.rawResponse) {
-                output += `**Raw Response**:\n`;
-                
-                if (result.responseInfo) {
-                    const { status, statusText, headers } = result.responseInfo;
-                    
-                    // Format HTTP response
-                    let rawResponse = `HTTP/1.1 ${status || 500} ${statusText || 'Internal Server Error'}\n`;
-                    if (headers) {
-                        Object.entries(headers).forEach(([key, value]) => {
-                            rawResponse += `${key}: ${value}\n`;
-                        });
-                    }
-                    rawResponse += '\n'; // Empty line between headers and body
-                    if (result.rawResponse) {
-                        rawResponse += JSON.stringify(result.rawResponse, null, 2);
-                    }
-                    
-                    output += '```http\n';
-                    output += rawResponse;
-                    output += '\n```\n\n';
-                } else if (result.rawResponse) {
-                    output += '```json\n';
-                    output += JSON.stringify(result.rawResponse, null, 2);
-                    output += '\n```\n\n';
-                }
-            }
-        } else {
-            output += `✅ **Query executed successfully**\n`;
-            output += `**Query Type**: ${queryType.toUpperCase()}\n`;
-            output += `**Execution Time**: ${result.executionTime}ms\n`;
-            
-            if (result.rowCount !== undefined) {
-                output += `**Rows**: ${result.rowCount}\n`;
+        if (persistence === 'sidecar') {
+            try {
+                await this.saveToSidecar(document, stored);
+            } catch (error: any) {
+                vscode.window.showWarningMessage(`Failed to save the result file: ${error.message}`);
             }
-            
-            output += '\n';
+        }
 
-            // Format data as table or JSON
-            if (result.data && Array.isArray(result.data) && result.data.length > 0) {
-                output += this.formatAsMarkdownTable(result.data, result.columns);
-            } else if (result.data) {
-                output += '**Results**:\n```json\n';
-                output += JSON.stringify(result.data, null, 2);
-                output += '\n```\n';
-            } else {
-                output += '**No results found**\n';
-            }
+        return true;
+    }
+
+    /**
+     * Reads the full results saved with the document, embedded in it or in its sidecar file
+     */
+    public async loadStoredResults(document: vscode.TextDocument): Promise<StoredResult[]> {
+        const results = ResultStore.parseDetails(document.getText());
+        const sidecar = await this.readSidecar(document);
+        if (sidecar) {
+            results.push(...ResultStore.parseSidecar(sidecar));
         }
+        return results;
+    }
+
+    private getResultPersistence(): ResultPersistence {
+        return vscode.workspace.getConfiguration('opensearch').get<ResultPersistence>('inlineResults.persist', 'none');
+    }
 
-        output += `${ResultsProvider.RESULTS_END}\n\n`;
-        return output;
+    /**
+     * Sidecar files only exist for documents saved on disk
+     */
+    private getSidecarUri(document: vscode.TextDocument): vscode.Uri | undefined {
+        return document.uri.scheme === 'file' ? vscode.Uri.file(ResultStore.getSidecarPath(document.uri.fsPath)) : undefined;
     }
 
-    private formatAsMarkdownTable(data: any[], columns?: string[]): string {
-        if (data.length === 0) {
-            return '**No results found**\n\n';
+    private async readSidecar(document: vscode.TextDocument): Promise<string | undefined> {
+        const uri = this.getSidecarUri(document);
+        if (!uri) {
+            return undefined;
+        }
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            // Not created yet
+            return undefined;
         }
+    }
 
-        // Determine columns to display
-        let displayColumns: string[];
-        if (columns && columns.length > 0) {
-            displayColumns = columns.slice(0, 8); // Limit for inline display
-        } else {
-            const firstRow = data[0];
-            displayColumns = Object.keys(firstRow).slice(0, 8);
+    private async saveToSidecar(document: vscode.TextDocument, stored: StoredResult): Promise<void> {
+        const uri = this.getSidecarUri(document);
+        if (!uri) {
+            return;
         }
+        const content = ResultStore.updateSidecar(await this.readSidecar(document), stored);
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    }
 
-        // Create table header with row number column
-        let table = '| # | ' + displayColumns.join(' | ') + ' |\n';
-        table += '| --- | ' + displayColumns.map(() => '---').join(' | ') + ' |\n';
+    /**
+     * Finds the first line after the query block that contains the given line,
+     * where inline results and other generated content are inserted
+     */
+    public static findBlockEndLine(lines: string[], startLine: number, isRst: boolean): number {
+        let insertLine = startLine;
 
-        // Add data rows (limit to first 20 rows for inline display)
-        const rowsToShow = Math.min(data.length, 20);
-        for (let i = 0; i < rowsToShow; i++) {
-            const row = data[i];
-            const values = displayColumns.map(col => {
-                let value = this.getNestedValue(row, col);
-                if (value === null || value === undefined) {
-                    return '';
+        if (isRst) {
+            // For RST, find the end of the code-block content
+            // Start from the position and look for the end of indented content
+            for (let i = startLine + 1; i < lines.length; i++) {
+                const line = lines[i];
+                // If we hit a non-indented line that's not empty, or another directive, we've found the end
+                if (line.length > 0 && !line.match(/^\s/) && !line.match(/^\s*$/)) {
+                    insertLine = i;
+                    break;
                 }
-                if (typeof value === 'object') {
-                    return JSON.stringify(value).substring(0, 50) + '...';
+                // If we reach the end of the document
+                if (i === lines.length - 1) {
+                    insertLine = i + 1;
+                    break;
                 }
-                const strValue = String(value);
-                return strValue.length > 50 ? strValue.substring(0, 47) + '...' : strValue;
-            });
-            table += `| ${i + 1} | ` + values.join(' | ') + ' |\n';
+            }
+        } else {
+            // For Markdown, find the closing ``` of the code block
+            for (let i = startLine; i < lines.length; i++) {
+                if (lines[i].trim() === '```') {
+                    insertLine = i + 1;
+                    break;
+                }
+            }
         }
 
-        if (data.length > 20) {
-            table += `\n*Showing first 20 of ${data.length} rows*\n`;
-        }
+        return insertLine;
+    }
+
+    /**
+     * Shows the outcome of a multi-block run in a summary tab
+     */
+    public displayRunSummary(summaries: BlockRunSummary[], document: vscode.TextDocument): void {
+        const fileName = document.uri.path.split('/').pop() || 'document';
+        const panel = vscode.window.createWebviewPanel(
+            'opensearchRunSummary',
+            `OpenSearch Run: ${fileName}`,
+            vscode.ViewColumn.Beside
+        );
+
+        panel.webview.html = RunSummaryFormatter.generateHtml(summaries, fileName);
+    }
 
-        return table + '\n';
+    /**
+     * Inline tables show 20 rows, or every fetched row when all cursor pages are fetched
+     */
+    private getInlineRowLimit(): number {
+        const config = vscode.workspace.getConfiguration('opensearch');
+        return config.get<boolean>('pagination.inlineFetchAll', false)
+            ? Math.max(config.get<number>('pagination.inlineMaxRows', 1000), 20)
+            : 20;
     }
 
     private async displaySeparateTabResults(
         result: QueryResult,
         query: string,
-        queryType: QueryType
+        queryType: QueryType,
+        document?: vscode.TextDocument,
+        position?: vscode.Position
     ): Promise<void> {
-        const persistentManager = PersistentResultsManager.getInstance(this.historyManager);
-        await persistentManager.showResults(result, query, queryType);
+        const persistentManager = PersistentResultsManager.getInstance(this.historyManager, this.queryRunner);
+        await persistentManager.showResults(result, query, queryType, undefined, document && position && { uri: document.uri, position });
     }
 
     private async displaySeparateTabResultsWithExplain(
         result: QueryResult,
         explainResult: QueryResult,
         query: string,
-        queryType: QueryType
+        queryType: QueryType,
+        document?: vscode.TextDocument,
+        position?: vscode.Position
     ): Promise<void> {
-        const persistentManager = PersistentResultsManager.getInstance(this.historyManager);
-        await persistentManager.showResults(result, query, queryType, explainResult);
+        const persistentManager = PersistentResultsManager.getInstance(this.historyManager, this.queryRunner);
+        await persistentManager.showResults(result, query, queryType, explainResult, document && position && { uri: document.uri, position });
     }
 
     private generateResultsHtml(result: QueryResult, query: string, queryType: QueryType): string {
@@ -349,10 +319,4 @@ export class ResultsProvider {
         </html>
         `;
     }
-
-    private getNestedValue(obj: any, path: string): any {
-        return path.split('.').reduce((current, key) => {
-            return current && current[key] !== undefined ? current[key] : undefined;
-        }, obj);
-    }
 }
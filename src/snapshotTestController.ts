@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import { DocumentParser } from './documentParser';
+import { QueryRunner } from './queryRunner';
+import { ResultsProvider } from './resultsProvider';
+import { QueryBlock, QueryResult } from './types';
+import { SnapshotAssertion } from './utils/snapshotAssertion';
+import { ResultExporter } from './utils/resultExporter';
+
+/**
+ * Exposes query blocks with an expected result (`-- Expect:` or an `expected` block)
+ * as tests in the Testing view. Documents are test files, blocks are tests.
+ */
+export class SnapshotTestController implements vscode.Disposable {
+    private static readonly CONTROLLER_ID = 'opensearchSnapshots';
+    // Cheap check before a workspace file is opened and parsed
+    private static readonly EXPECTATION_HINT_REGEX = /--\s*expect:|^```expected|code-block::\s+expected/im;
+    private static readonly UPDATE_DELAY = 300;
+
+    private controller: vscode.TestController;
+    private queryRunner: QueryRunner;
+    private disposables: vscode.Disposable[] = [];
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+    constructor(queryRunner: QueryRunner) {
+        this.queryRunner = queryRunner;
+        this.controller = vscode.tests.createTestController(SnapshotTestController.CONTROLLER_ID, 'OpenSearch Snapshots');
+        this.controller.resolveHandler = async (item) => {
+            if (!item) {
+                await this.discoverWorkspace();
+            }
+        };
+        this.controller.createRunProfile(
+            'Run',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runTests(request, token),
+            true
+        );
+
+        this.disposables.push(
+            this.controller,
+            vscode.workspace.onDidOpenTextDocument(document => this.updateDocument(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.cancelUpdate(document))
+        );
+        vscode.workspace.textDocuments.forEach(document => this.updateDocument(document));
+    }
+
+    /**
+     * Refreshes the tests of a document from its query blocks
+     */
+    public updateDocument(document: vscode.TextDocument): void {
+        if (document.languageId !== 'markdown' && document.languageId !== 'restructuredtext') {
+            return;
+        }
+
+        const queryBlocks = DocumentParser.parseDocument(document);
+        const expectedBlocks = DocumentParser.parseExpectedBlocks(document);
+        const tests = queryBlocks
+            .map((block, index) => ({ block, index }))
+            .filter(({ block }) => DocumentParser.findExpectation(document, block, queryBlocks, expectedBlocks) !== undefined)
+            .map(({ block, index }) => {
+                const label = block.metadata?.name || `${block.type.toUpperCase()}: ${DocumentParser.getQueryPreview(block.content, 40)}`;
+                const item = this.controller.createTestItem(this.getTestId(document.uri, index), label, document.uri);
+                item.range = block.range;
+                return item;
+            });
+
+        const fileId = document.uri.toString();
+        if (tests.length === 0) {
+            this.controller.items.delete(fileId);
+            return;
+        }
+
+        let fileItem = this.controller.items.get(fileId);
+        if (!fileItem) {
+            fileItem = this.controller.createTestItem(fileId, document.uri.path.split('/').pop() || fileId, document.uri);
+            this.controller.items.add(fileItem);
+        }
+        fileItem.children.replace(tests);
+    }
+
+    /**
+     * Runs the query block at the position, or of a test item, and rewrites its
+     * expectation from the result. Blocks without an expectation get an `expected` block.
+     */
+    public async updateSnapshot(target?: vscode.Uri | vscode.TestItem, position?: vscode.Position): Promise<void> {
+        const located = await this.locateBlock(target, position);
+        if (!located) {
+            vscode.window.showWarningMessage('No query block found to update the snapshot of');
+            return;
+        }
+        const { document, block } = located;
+
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Updating OpenSearch snapshot...',
+            cancellable: true
+        }, (_progress, token) => this.executeBlock(block, document, token));
+        if (!result.success) {
+            if (!result.cancelled) {
+                vscode.window.showErrorMessage(`Cannot update the snapshot, the query failed: ${result.error}`);
+            }
+            return;
+        }
+
+        const isRst = document.languageId === 'restructuredtext';
+        const expectation = DocumentParser.findExpectation(document, block);
+        const edit = new vscode.WorkspaceEdit();
+
+        if (expectation && !expectation.block) {
+            // `-- Expect:` holds a single line
+            const snapshot = expectation.format === 'rowCount'
+                ? SnapshotAssertion.formatSnapshot(result, 'rowCount')
+                : JSON.stringify(result.data);
+            const line = this.findExpectLine(document, block);
+            if (line === undefined) {
+                vscode.window.showErrorMessage('Cannot find the "-- Expect:" line of the block');
+                return;
+            }
+            const text = document.lineAt(line).text;
+            edit.replace(document.uri, new vscode.Range(line, 0, line, text.length), text.replace(/(--\s*expect:\s*).*$/i, `$1${snapshot}`));
+        } else {
+            const format = expectation?.format || (ResultExporter.canExport(result) ? 'table' : 'json');
+            const expectedBlock = SnapshotAssertion.formatExpectedBlock(SnapshotAssertion.formatSnapshot(result, format), isRst);
+            if (expectation?.block) {
+                edit.replace(document.uri, expectation.block.range, expectedBlock);
+            } else {
+                const line = ResultsProvider.findBlockEndLine(document.getText().split('\n'), block.range.start.line, isRst);
+                edit.insert(document.uri, new vscode.Position(line, 0), `\n${expectedBlock}\n\n`);
+            }
+        }
+
+        await vscode.workspace.applyEdit(edit);
+        vscode.window.showInformationMessage('Snapshot updated');
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.pendingUpdates.get(key));
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.updateDocument(document);
+        }, SnapshotTestController.UPDATE_DELAY));
+    }
+
+    private cancelUpdate(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.pendingUpdates.get(key));
+        this.pendingUpdates.delete(key);
+    }
+
+    private async discoverWorkspace(): Promise<void> {
+        const files = await vscode.workspace.findFiles('**/*.{md,rst}', '**/node_modules/**');
+        for (const uri of files) {
+            const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            if (SnapshotTestController.EXPECTATION_HINT_REGEX.test(text)) {
+                this.updateDocument(await vscode.workspace.openTextDocument(uri));
+            }
+        }
+    }
+
+    private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        const excluded = new Set((request.exclude || []).map(item => item.id));
+        const queue: vscode.TestItem[] = [];
+
+        const roots: vscode.TestItem[] = [];
+        if (request.include) {
+            roots.push(...request.include);
+        } else {
+            this.controller.items.forEach(item => roots.push(item));
+        }
+        for (const item of roots) {
+            if (excluded.has(item.id)) {
+                continue;
+            }
+            if (item.children.size > 0) {
+                item.children.forEach(child => !excluded.has(child.id) && queue.push(child));
+            } else {
+                queue.push(item);
+            }
+        }
+
+        queue.forEach(item => run.enqueued(item));
+        for (const item of queue) {
+            if (token.isCancellationRequested) {
+                run.skipped(item);
+                continue;
+            }
+            await this.runTest(run, item, token);
+        }
+        run.end();
+    }
+
+    private async runTest(run: vscode.TestRun, item: vscode.TestItem, token: vscode.CancellationToken): Promise<void> {
+        run.started(item);
+
+        const located = await this.locateBlock(item);
+        const expectation = located && DocumentParser.findExpectation(located.document, located.block);
+        if (!located || !expectation) {
+            run.errored(item, new vscode.TestMessage('The query block or its expectation no longer exists'));
+            return;
+        }
+
+        const result = await this.executeBlock(located.block, located.document, token);
+        if (result.cancelled) {
+            run.skipped(item);
+            return;
+        }
+
+        const outcome = SnapshotAssertion.check(expectation, result);
+        if (outcome.passed) {
+            run.passed(item, result.executionTime);
+            return;
+        }
+
+        const message = vscode.TestMessage.diff(outcome.message, outcome.expected, outcome.actual);
+        message.location = new vscode.Location(located.document.uri, expectation.block?.range || located.block.range);
+        run.failed(item, message, result.executionTime);
+    }
+
+    private async executeBlock(block: QueryBlock, document: vscode.TextDocument, token: vscode.CancellationToken): Promise<QueryResult> {
+        const result = await this.queryRunner.executeQueryFromBlock(block, document, token);
+        if (result.cursor) {
+            // Snapshots cover the first page
+            await this.queryRunner.closeCursor(result.cursor);
+        }
+        return result;
+    }
+
+    /**
+     * Finds the block of a test item, or the block at a position of a document
+     * (the active editor when no URI is given)
+     */
+    private async locateBlock(
+        target?: vscode.Uri | vscode.TestItem,
+        position?: vscode.Position
+    ): Promise<{ document: vscode.TextDocument; block: QueryBlock } | undefined> {
+        if (target && 'children' in target) {
+            if (!target.uri) {
+                return undefined;
+            }
+            const document = await vscode.workspace.openTextDocument(target.uri);
+            const index = Number(target.id.substring(target.id.lastIndexOf('#') + 1));
+            const block = DocumentParser.parseDocumentWithOverrides(document)[index];
+            return block && { document, block };
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const document = target ? await vscode.workspace.openTextDocument(target) : editor?.document;
+        const blockPosition = position || editor?.selection.active;
+        if (!document || !blockPosition) {
+            return undefined;
+        }
+        const block = DocumentParser.findQueryBlockAtPositionWithOverrides(document, blockPosition);
+        return block ? { document, block } : undefined;
+    }
+
+    private findExpectLine(document: vscode.TextDocument, block: QueryBlock): number | undefined {
+        for (let line = block.range.start.line; line < document.lineCount; line++) {
+            if (/^\s*--\s*expect:/i.test(document.lineAt(line).text)) {
+                return line;
+            }
+        }
+        return undefined;
+    }
+
+    private getTestId(uri: vscode.Uri, blockIndex: number): string {
+        return `${uri.toString()}#${blockIndex}`;
+    }
+
+    public dispose(): void {
+        this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+        this.pendingUpdates.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AwsSigV4Signer } from '../utils/awsSigV4';
+import { AwsCredentialProvider } from '../utils/awsCredentialProvider';
+
+suite('AWS SigV4 Tests', () => {
+    const credentials = {
+        accessKeyId: 'AKIDEXAMPLE',
+        secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY'
+    };
+
+    suite('AwsSigV4Signer', () => {
+        test('should match the AWS get-vanilla test vector', () => {
+            const headers = AwsSigV4Signer.sign(
+                { method: 'GET', url: 'https://example.amazonaws.com/', headers: {} },
+                credentials,
+                'us-east-1',
+                'service',
+                new Date('2015-08-30T12:36:00Z')
+            );
+
+            assert.strictEqual(headers['X-Amz-Date'], '20150830T123600Z');
+            assert.strictEqual(
+                headers.Authorization,
+                'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+                'SignedHeaders=host;x-amz-date, ' +
+                'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+            );
+        });
+
+        test('should sign x-amz headers and the session token', () => {
+            const headers = AwsSigV4Signer.sign(
+                {
+                    method: 'POST',
+                    url: 'https://collection.us-east-1.aoss.amazonaws.com/_bulk',
+                    headers: { 'X-Amz-Content-Sha256': AwsSigV4Signer.sha256Hex('{}\n') },
+                    body: '{}\n'
+                },
+                { ...credentials, sessionToken: 'token' },
+                'us-east-1',
+                'aoss'
+            );
+
+            assert.strictEqual(headers['X-Amz-Security-Token'], 'token');
+            assert.ok(headers.Authorization.includes('/us-east-1/aoss/aws4_request'));
+            assert.ok(headers.Authorization.includes('SignedHeaders=host;x-amz-content-sha256;x-amz-date;x-amz-security-token'));
+        });
+
+        test('should sort and encode query parameters in the canonical request', () => {
+            const canonical = AwsSigV4Signer.buildCanonicalRequest(
+                'get',
+                new URL('https://example.com/my-index/_search?q=a b&from=0'),
+                { host: 'example.com' },
+                'hash'
+            );
+
+            assert.strictEqual(canonical.split('\n')[0], 'GET');
+            assert.strictEqual(canonical.split('\n')[1], '/my-index/_search');
+            assert.strictEqual(canonical.split('\n')[2], 'from=0&q=a%20b');
+        });
+    });
+
+    suite('AwsCredentialProvider', () => {
+        let tempDir: string;
+        let env: NodeJS.ProcessEnv;
+
+        setup(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opensearch-aws-'));
+            fs.writeFileSync(path.join(tempDir, 'credentials'), [
+                '[default]',
+                'aws_access_key_id = DEFAULTKEY',
+                'aws_secret_access_key = defaultsecret',
+                '',
+                '[prod]',
+                'aws_access_key_id = PRODKEY',
+                'aws_secret_access_key = prodsecret',
+                'aws_session_token = prodtoken'
+            ].join('\n'));
+            fs.writeFileSync(path.join(tempDir, 'config'), [
+                '[profile prod]',
+                'region = eu-west-1'
+            ].join('\n'));
+            env = {
+                AWS_SHARED_CREDENTIALS_FILE: path.join(tempDir, 'credentials'),
+                AWS_CONFIG_FILE: path.join(tempDir, 'config')
+            };
+        });
+
+        teardown(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        test('should prefer explicit keys', async () => {
+            const resolved = await AwsCredentialProvider.resolveCredentials(
+                { accessKeyId: 'EXPLICIT', secretAccessKey: 'explicitsecret', awsProfile: 'prod' },
+                undefined,
+                env
+            );
+
+            assert.strictEqual(resolved.accessKeyId, 'EXPLICIT');
+        });
+
+        test('should read a named profile with its region', async () => {
+            const auth = { awsProfile: 'prod' };
+            const resolved = await AwsCredentialProvider.resolveCredentials(auth, undefined, env);
+
+            assert.strictEqual(resolved.accessKeyId, 'PRODKEY');
+            assert.strictEqual(resolved.sessionToken, 'prodtoken');
+            assert.strictEqual(AwsCredentialProvider.resolveRegion(auth, env), 'eu-west-1');
+        });
+
+        test('should use environment credentials before the default profile', async () => {
+            const resolved = await AwsCredentialProvider.resolveCredentials({}, undefined, {
+                ...env,
+                AWS_ACCESS_KEY_ID: 'ENVKEY',
+                AWS_SECRET_ACCESS_KEY: 'envsecret'
+            });
+            assert.strictEqual(resolved.accessKeyId, 'ENVKEY');
+
+            const fallback = await AwsCredentialProvider.resolveCredentials({}, undefined, env);
+            assert.strictEqual(fallback.accessKeyId, 'DEFAULTKEY');
+        });
+
+        test('should fail for unknown profiles and missing regions', async () => {
+            await assert.rejects(
+                AwsCredentialProvider.resolveCredentials({ awsProfile: 'missing' }, undefined, env),
+                /AWS profile "missing" has no credentials/
+            );
+            assert.throws(() => AwsCredentialProvider.resolveRegion({}, env), /AWS region is required/);
+            assert.strictEqual(AwsCredentialProvider.resolveRegion({}, { ...env, AWS_REGION: 'ap-northeast-1' }), 'ap-northeast-1');
+        });
+    });
+});
@@ -0,0 +1,202 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Cli, ExitCode } from '../cli';
+import { DocumentRunner, DocumentReport } from '../cli/documentRunner';
+import { ReportFormatter } from '../cli/reportFormatter';
+import { SettingsFile, EnvironmentSecretStore } from '../cli/settingsFile';
+import { ConnectionSettings } from '../connectionSettings';
+import { OpenSearchClient } from '../opensearchClient';
+import { MarkdownParser, StringTextSource } from '../parsers';
+import { JsonUtils } from '../utils/jsonUtils';
+
+suite('CLI Tests', () => {
+    suite('Parsing without VS Code', () => {
+        test('should return plain ranges from a string document', () => {
+            const document = new StringTextSource('# Title\n\n```sql\nSELECT 1\n```\n');
+            const [block] = new MarkdownParser().parseDocument(document);
+
+            assert.strictEqual(block.content, 'SELECT 1');
+            assert.deepStrictEqual(block.range, { start: { line: 2, character: 0 }, end: { line: 4, character: 3 } });
+        });
+
+        test('should pick the language from the file extension', () => {
+            assert.strictEqual(StringTextSource.forFile('docs/guide.rst', '').languageId, 'restructuredtext');
+            assert.strictEqual(StringTextSource.forFile('docs/guide.md', '').languageId, 'markdown');
+        });
+    });
+
+    suite('Settings', () => {
+        test('should parse settings files with comments and trailing commas', () => {
+            const settings = JsonUtils.parseJSONC('{\n  // comment\n  "url": "http://a//b", /* block */\n  "list": [1, 2,],\n}');
+            assert.deepStrictEqual(settings, { url: 'http://a//b', list: [1, 2] });
+        });
+
+        test('should read flat and nested opensearch settings, with overrides first', () => {
+            const file = new SettingsFile({
+                'opensearch.endpoint': 'http://flat:9200',
+                opensearch: { auth: { type: 'basic' } }
+            }, { timeout: 5000 });
+
+            assert.strictEqual(file.get('endpoint', ''), 'http://flat:9200');
+            assert.strictEqual(file.get('auth.type', 'none'), 'basic');
+            assert.strictEqual(file.get('timeout', 30000), 5000);
+            assert.strictEqual(file.get('missing', 'default'), 'default');
+        });
+
+        test('should read secrets from environment variables', async () => {
+            const store = new EnvironmentSecretStore({ OPENSEARCH_SECRET_PROD_PASSWORD: 'hunter2' });
+
+            assert.strictEqual(await store.get('opensearch.secret.prod.password'), 'hunter2');
+            await assert.rejects(store.get('opensearch.secret.other'), /OPENSEARCH_SECRET_OTHER/);
+        });
+    });
+
+    suite('Arguments', () => {
+        test('should parse run options', () => {
+            const options = Cli.parseArguments(['run', 'docs', 'a.md', '--connection', 'ci', '--format', 'junit', '--stop-on-failure']);
+
+            assert.deepStrictEqual(options.paths, ['docs', 'a.md']);
+            assert.strictEqual(options.connection, 'ci');
+            assert.strictEqual(options.format, 'junit');
+            assert.strictEqual(options.stopOnFailure, true);
+        });
+
+        test('should reject unknown options and formats', () => {
+            assert.throws(() => Cli.parseArguments(['run', 'a.md', '--verbose']), /Unknown option/);
+            assert.throws(() => Cli.parseArguments(['run', 'a.md', '--format', 'html']), /Unknown format/);
+            assert.throws(() => Cli.parseArguments(['run']), /No documents/);
+        });
+
+        test('should report errors of the run instead of crashing', async () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'opensearch-cli-'));
+            const errors: string[] = [];
+            const consoleError = console.error;
+            console.error = (message: string) => errors.push(message);
+            try {
+                fs.writeFileSync(path.join(dir, 'doc.md'), '# No queries\n');
+                fs.writeFileSync(path.join(dir, 'settings.json'), '{}');
+
+                const code = await Cli.main(['run', path.join(dir, 'doc.md'), '--settings', path.join(dir, 'settings.json'), '--output', path.join(dir, 'missing', 'r.md')]);
+
+                assert.strictEqual(code, ExitCode.RuntimeError);
+                assert.ok(errors.some(message => /^Error: ENOENT/.test(message)));
+            } finally {
+                console.error = consoleError;
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    suite('DocumentRunner', () => {
+        const settings = new ConnectionSettings(new SettingsFile({ 'opensearch.endpoint': 'http://localhost:9200' }));
+
+        function createRunner(rowCounts: number[]): { runner: DocumentRunner; queries: string[] } {
+            const queries: string[] = [];
+            const client = {
+                executeQueryWithOverrides: async (query: string) => {
+                    queries.push(query);
+                    const count = rowCounts[queries.length - 1];
+                    return {
+                        schema: [{ name: 'n', type: 'integer' }],
+                        datarows: Array.from({ length: count }, (_, i) => [i]),
+                        total: count,
+                        size: count
+                    };
+                }
+            } as unknown as OpenSearchClient;
+            return { runner: new DocumentRunner(settings, client), queries };
+        }
+
+        const document = new StringTextSource([
+            '```sql',
+            '-- Expect: 2 rows',
+            'SELECT * FROM a',
+            '```',
+            '',
+            '```sql',
+            'SELECT * FROM b',
+            '```',
+            '',
+            '```expected',
+            '1 row',
+            '```',
+            ''
+        ].join('\n'));
+
+        test('should check expectations of every block', async () => {
+            const { runner, queries } = createRunner([2, 3]);
+            const report = await runner.runDocument('doc.md', document, { stopOnFailure: false });
+
+            assert.deepStrictEqual(queries, ['SELECT * FROM a', 'SELECT * FROM b']);
+            assert.deepStrictEqual(report.blocks.map(block => block.status), ['success', 'failed']);
+            assert.strictEqual(report.blocks[1].assertion?.passed, false);
+            assert.strictEqual(ReportFormatter.hasFailures([report]), true);
+        });
+
+        test('should skip the remaining blocks after a failure when asked to', async () => {
+            const { runner, queries } = createRunner([5, 1]);
+            const report = await runner.runDocument('doc.md', document, { stopOnFailure: true });
+
+            assert.deepStrictEqual(queries, ['SELECT * FROM a']);
+            assert.deepStrictEqual(report.blocks.map(block => block.status), ['failed', 'skipped']);
+        });
+
+        test('should run blocks referenced by earlier blocks first', async () => {
+            const { runner, queries } = createRunner([3, 1, 3]);
+            const chained = new StringTextSource([
+                '```sql',
+                'SELECT {{count.response.body.total}} FROM a',
+                '```',
+                '',
+                '```sql',
+                '-- Name: count',
+                'SELECT * FROM b',
+                '```',
+                ''
+            ].join('\n'));
+
+            const report = await runner.runDocument('doc.md', chained, { stopOnFailure: false });
+
+            assert.deepStrictEqual(queries, ['SELECT * FROM b', 'SELECT 3 FROM a', 'SELECT * FROM b']);
+            assert.deepStrictEqual(report.blocks.map(block => block.status), ['success', 'success']);
+        });
+    });
+
+    suite('ReportFormatter', () => {
+        const reports: DocumentReport[] = [
+            {
+                file: 'a&b.md',
+                blocks: [
+                    { index: 0, line: 0, type: 'sql' as any, preview: 'SELECT <1>', status: 'success', executionTime: 12, rowCount: 1 },
+                    { index: 1, line: 5, type: 'ppl' as any, preview: 'source=x | head', status: 'failed', error: 'Boom' }
+                ]
+            },
+            { file: 'missing.md', blocks: [], error: 'Cannot read missing.md' }
+        ];
+
+        test('should write JUnit XML with escaped names', () => {
+            const xml = ReportFormatter.format(reports, 'junit');
+
+            assert.ok(xml.includes('<testsuites name="OpenSearch Query Runner" tests="3" failures="1" errors="1" skipped="0">'));
+            assert.ok(xml.includes('name="a&amp;b.md" tests="2"'));
+            assert.ok(xml.includes('name="line 1: SELECT &lt;1&gt;"'));
+            assert.ok(xml.includes('<failure message="Boom">Boom</failure>'));
+        });
+
+        test('should summarize runs in Markdown and JSON', () => {
+            const markdown = ReportFormatter.format(reports, 'markdown');
+            assert.ok(markdown.includes('2 files, 2 blocks: 1 succeeded, 1 failed, 1 file not run'));
+            assert.ok(markdown.includes('| 6 | PPL | source=x \\| head | failed |  |  |'));
+
+            const json = JSON.parse(ReportFormatter.format(reports, 'json'));
+            assert.strictEqual(json.summary.failed, 1);
+            assert.strictEqual(json.files[1].error, 'Cannot read missing.md');
+        });
+
+        test('should not report failures when every block succeeded', () => {
+            assert.strictEqual(ReportFormatter.hasFailures([{ file: 'a.md', blocks: [reports[0].blocks[0]] }]), false);
+        });
+    });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { ClusterHealthFormatter } from '../utils/clusterHealthFormatter';
+import { ClusterHealth } from '../types';
+
+suite('ClusterHealthFormatter Tests', () => {
+    const green: ClusterHealth = { status: 'green', clusterName: 'logs', version: '2.11.0', numberOfNodes: 3, unassignedShards: 0 };
+    const yellow: ClusterHealth = { ...green, status: 'yellow', unassignedShards: 4 };
+    const unreachable: ClusterHealth = { status: 'unreachable', error: 'Network error: Unable to connect to OpenSearch cluster' };
+
+    test('should describe the cluster in the tooltip', () => {
+        const tooltip = ClusterHealthFormatter.formatTooltip(yellow, new Date());
+
+        assert.ok(tooltip.startsWith('Cluster: logs (OpenSearch 2.11.0)\nHealth: yellow\nNodes: 3\nUnassigned shards: 4\nChecked: '));
+        assert.ok(tooltip.endsWith('Click to switch connection'));
+        assert.ok(ClusterHealthFormatter.formatTooltip(unreachable, new Date()).startsWith(`OpenSearch cluster unreachable: ${unreachable.error}`));
+    });
+
+    test('should notify when the health changes or the first check finds a problem', () => {
+        assert.strictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch', undefined, yellow), undefined);
+        assert.strictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch', yellow, { ...yellow, unassignedShards: 2 }), undefined);
+
+        assert.deepStrictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch', green, yellow), {
+            severity: 'warning',
+            message: 'OpenSearch cluster logs health changed from green to yellow'
+        });
+        assert.deepStrictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch: prod', yellow, unreachable), {
+            severity: 'error',
+            message: `OpenSearch cluster logs is unreachable: ${unreachable.error}`
+        });
+        assert.deepStrictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch: prod', unreachable, green), {
+            severity: 'info',
+            message: 'OpenSearch cluster logs is reachable again (health: green)'
+        });
+
+        // The first check only notifies about a cluster in trouble
+        assert.strictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch', undefined, green), undefined);
+        assert.deepStrictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch: prod', undefined, unreachable), {
+            severity: 'error',
+            message: `OpenSearch cluster OpenSearch: prod is unreachable: ${unreachable.error}`
+        });
+        assert.deepStrictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch', undefined, { ...green, status: 'red' }), {
+            severity: 'error',
+            message: 'OpenSearch cluster logs health is red'
+        });
+
+        // A missing sign-in is shown in the status bar only
+        const signInRequired: ClusterHealth = { status: 'sign-in-required', error: 'OIDC sign-in required. Run a query to sign in.' };
+        assert.strictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch', green, signInRequired), undefined);
+        assert.strictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch', undefined, signInRequired), undefined);
+        assert.strictEqual(ClusterHealthFormatter.getChangeMessage('OpenSearch', signInRequired, green), undefined);
+        assert.ok(ClusterHealthFormatter.formatTooltip(signInRequired, new Date()).startsWith(signInRequired.error!));
+    });
+});
@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { DocumentParser } from '../documentParser';
+import { BaseParser } from '../parsers/baseParser';
 
 // Mock vscode.Range constructor
 const mockRange = (startLine: number, startChar: number, endLine: number, endChar: number) => ({
@@ -194,4 +195,116 @@ SELECT * FROM prod_index LIMIT 10
         assert.strictEqual(configBlocks.length, 1);
         assert.strictEqual(configBlocks[0].config.timeout, 30000); // 30 seconds in milliseconds
     });
+
+    test('Parse connection profile reference', () => {
+        const content = `
+\`\`\`config
+@connection = 'prod-logs'
+@timeout = '60s'
+\`\`\`
+`;
+
+        const document = {
+            getText: () => content,
+            positionAt: (offset: number) => {
+                const lines = content.substring(0, offset).split('\n');
+                const line = lines.length - 1;
+                const character = lines[lines.length - 1].length;
+                return { line, character } as vscode.Position;
+            }
+        } as vscode.TextDocument;
+
+        const configBlocks = DocumentParser.parseConfigurationBlocks(document);
+        
+        assert.strictEqual(configBlocks.length, 1);
+        assert.strictEqual(configBlocks[0].config.connection, 'prod-logs');
+        assert.strictEqual(configBlocks[0].config.timeout, 60000);
+    });
+
+    test('Parse TLS variables', () => {
+        const content = `
+\`\`\`config
+@endpoint = 'https://secure:9200'
+@ca_file = '/etc/ssl/ca.pem'
+@client_cert = '/etc/ssl/client.pem'
+@client_key = '/etc/ssl/client-key.pem'
+@reject_unauthorized = 'false'
+\`\`\`
+`;
+
+        const document = {
+            getText: () => content,
+            positionAt: (offset: number) => {
+                const lines = content.substring(0, offset).split('\n');
+                const line = lines.length - 1;
+                const character = lines[lines.length - 1].length;
+                return { line, character } as vscode.Position;
+            }
+        } as vscode.TextDocument;
+
+        const configBlocks = DocumentParser.parseConfigurationBlocks(document);
+        
+        assert.strictEqual(configBlocks.length, 1);
+        assert.deepStrictEqual(configBlocks[0].config.tls, {
+            caFile: '/etc/ssl/ca.pem',
+            certFile: '/etc/ssl/client.pem',
+            keyFile: '/etc/ssl/client-key.pem',
+            rejectUnauthorized: false
+        });
+    });
+
+    test('Parse proxy variables', () => {
+        const overrides = BaseParser.parseConnectionOverrides([
+            "@proxy = 'http://proxy.corp:3128'",
+            "@proxy_username = 'jdoe'",
+            "@proxy_password = '{{proxyPassword}}'",
+            "@no_proxy = 'localhost,.internal'"
+        ].join('\n'));
+
+        assert.deepStrictEqual(overrides.proxy, {
+            url: 'http://proxy.corp:3128',
+            username: 'jdoe',
+            password: '{{proxyPassword}}',
+            noProxy: 'localhost,.internal'
+        });
+        assert.strictEqual(DocumentParser.validateConnectionOverrides({ proxy: { url: 'http://[bad' } }).valid, false);
+    });
+
+        test('Validate client certificate without key', () => {
+        const validation = DocumentParser.validateConnectionOverrides({
+            tls: { certFile: '/etc/ssl/client.pem' }
+        });
+
+        assert.strictEqual(validation.valid, false);
+        assert.ok(validation.error?.includes('client_key'));
+    });
+
+    test('Parse document variables', () => {
+        const content = `
+\`\`\`config
+@endpoint = 'http://localhost:9200'
+@index = 'logs-2024'
+@fieldName = 'message'
+\`\`\`
+`;
+
+        const document = {
+            getText: () => content,
+            positionAt: (offset: number) => {
+                const lines = content.substring(0, offset).split('\n');
+                const line = lines.length - 1;
+                const character = lines[lines.length - 1].length;
+                return { line, character } as vscode.Position;
+            }
+        } as vscode.TextDocument;
+
+        const configBlocks = DocumentParser.parseConfigurationBlocks(document);
+        
+        assert.strictEqual(configBlocks.length, 1);
+        assert.strictEqual(configBlocks[0].config.endpoint, 'http://localhost:9200');
+        assert.deepStrictEqual(configBlocks[0].config.variables, {
+            index: 'logs-2024',
+            fieldName: 'message'
+        });
+    });
 });
@@ -168,6 +168,21 @@ suite('ErrorHandler Tests', () => {
         });
     });
 
+    suite('createCancelledResponse', () => {
+        test('should mark the result as cancelled and keep request info', () => {
+            const startTime = Date.now() - 50;
+            const requestInfo = { method: 'GET', endpoint: '/logs/_search' };
+
+            const result = ErrorHandler.createCancelledResponse(startTime, { error: { type: 'ERR_CANCELED' }, requestInfo });
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.cancelled, true);
+            assert.strictEqual(result.error, 'Query cancelled');
+            assert.deepStrictEqual(result.requestInfo, requestInfo);
+            assert.ok(result.executionTime >= 50);
+        });
+    });
+
     suite('createApiErrorResponse', () => {
         test('should create API error response with error object', () => {
             const response = {
@@ -306,4 +321,35 @@ suite('ErrorHandler Tests', () => {
             assert.strictEqual(result, 'Unknown error occurred');
         });
     });
+
+    suite('getTlsHint', () => {
+        test('should suggest a CA file for self-signed certificates', () => {
+            const hint = ErrorHandler.getTlsHint({ code: 'DEPTH_ZERO_SELF_SIGNED_CERT', message: 'self-signed certificate' });
+
+            assert.ok(hint?.includes('@ca_file'));
+            assert.ok(hint?.includes('@reject_unauthorized'));
+        });
+
+        test('should suggest client certificates when the server requires them', () => {
+            const hint = ErrorHandler.getTlsHint({ code: 'ERR_SSL_TLSV13_ALERT_CERTIFICATE_REQUIRED', message: 'tlsv13 alert certificate required' });
+
+            assert.ok(hint?.includes('@client_cert'));
+        });
+
+        test('should return undefined for non-TLS errors', () => {
+            assert.strictEqual(ErrorHandler.getTlsHint({ code: 'ECONNREFUSED', message: 'connect ECONNREFUSED' }), undefined);
+        });
+
+        test('should add the hint to enhanced error details', () => {
+            const details = ErrorHandler.createEnhancedErrorDetails({
+                code: 'SELF_SIGNED_CERT_IN_CHAIN',
+                message: 'self-signed certificate in certificate chain',
+                request: {},
+                config: { url: '/_search', method: 'get' }
+            });
+
+            assert.strictEqual(details.details, 'TLS handshake or certificate verification failed');
+            assert.ok(details.hint.includes('@ca_file'));
+        });
+    });
 });
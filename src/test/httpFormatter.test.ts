@@ -237,6 +237,32 @@ content-type: application/json
             assert.ok(section.includes('📥 Raw HTTP Response'));
             assert.ok(section.includes('No response information available'));
         });
+
+        test('should escape the responses and errors of retried attempts', () => {
+            const result: QueryResult = {
+                success: true,
+                executionTime: 100,
+                executedAt: new Date(),
+                data: [],
+                responseInfo: { status: 200, statusText: 'OK', headers: {} },
+                rawResponse: {},
+                attempts: [
+                    { error: 'ECONNRESET: <script>alert(1)</script>', retryDelay: 100 },
+                    { responseInfo: { status: 503, statusText: 'Unavailable', headers: {} }, rawResponse: '<img src=x onerror=alert(1)>', retryDelay: 200 },
+                    { responseInfo: { status: 200, statusText: 'OK', headers: {} } }
+                ]
+            };
+
+            const responseSection = HttpFormatter.generateRawResponseSection(result);
+            const requestSection = HttpFormatter.generateRawRequestSection(result);
+
+            for (const section of [responseSection, requestSection]) {
+                assert.ok(!section.includes('<script>'));
+            }
+            assert.ok(responseSection.includes('&lt;script&gt;alert(1)&lt;/script&gt;'));
+            assert.ok(!responseSection.includes('<img'));
+            assert.ok(requestSection.includes('Attempt 1: ECONNRESET: &lt;script&gt;'));
+        });
     });
 
     suite('generateCurlCommand', () => {
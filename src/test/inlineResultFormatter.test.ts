@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { InlineResultFormatter } from '../utils/inlineResultFormatter';
+import { ResultStore } from '../utils/resultStore';
+import { QueryResult, QueryType } from '../types';
+
+suite('InlineResultFormatter Tests', () => {
+    const result: QueryResult = {
+        success: true,
+        data: [
+            { host: 'web-1', note: 'a|b *c*' },
+            { host: 'web-2', note: null },
+            { host: 'web-3', note: '- item' }
+        ],
+        columns: ['host', 'note'],
+        rowCount: 3,
+        executionTime: 12,
+        executedAt: new Date('2024-01-02T03:04:05.000Z')
+    };
+
+    suite('Markdown', () => {
+        test('should wrap a pipe table in HTML comment markers', () => {
+            const output = InlineResultFormatter.format(result, QueryType.SQL, { syntax: 'markdown', maxRows: 2 });
+
+            assert.ok(output.startsWith('\n<!-- OpenSearch Results Start -->\n**SQL @ '));
+            assert.ok(output.includes('| # | host | note |\n| --- | --- | --- |\n| 1 | web-1 | a|b *c* |\n| 2 | web-2 |  |\n'));
+            assert.ok(output.includes('*Showing first 2 of 3 rows*'));
+            assert.ok(output.endsWith('<!-- OpenSearch Results End -->\n\n'));
+        });
+    });
+
+    suite('reStructuredText', () => {
+        test('should write a list table between RST comments', () => {
+            const output = InlineResultFormatter.format(result, QueryType.SQL, { syntax: 'rst', maxRows: 20 });
+
+            assert.ok(output.startsWith('\n.. OpenSearch Results Start\n\n.. rubric:: SQL @ '));
+            assert.ok(output.includes(':Query Type: SQL\n:Execution Time: 12ms\n:Rows: 3\n'));
+            assert.ok(output.includes([
+                '.. list-table::',
+                '   :header-rows: 1',
+                '',
+                '   * - #',
+                '     - host',
+                '     - note',
+                '   * - 1',
+                '     - web-1',
+                '     - a\\|b \\*c\\*',
+                '   * - 2',
+                '     - web-2',
+                '     -',
+                '   * - 3',
+                '     - web-3',
+                '     - \\- item',
+                ''
+            ].join('\n')));
+            assert.ok(!output.includes('**'), 'should not contain Markdown emphasis');
+            assert.ok(output.endsWith('.. OpenSearch Results End\n\n'));
+        });
+
+        test('should use code-block directives for JSON and errors for failures', () => {
+            const json = InlineResultFormatter.format({ ...result, data: { acknowledged: true }, rowCount: undefined }, QueryType.OPENSEARCH_API, { syntax: 'rst', maxRows: 20 });
+            assert.ok(json.includes('.. code-block:: json\n\n   {\n     "acknowledged": true\n   }\n\n'));
+
+            const failed = InlineResultFormatter.format({
+                success: false,
+                error: 'index_not_found_exception\nno such index',
+                executionTime: 3,
+                executedAt: new Date(),
+                rawResponse: { status: 404 }
+            }, QueryType.PPL, { syntax: 'rst', maxRows: 20 });
+            assert.ok(failed.includes('.. error:: index\\_not\\_found\\_exception no such index\n'));
+            assert.ok(failed.includes('Raw Response:\n\n.. code-block:: json\n\n   {\n     "status": 404\n   }\n'));
+            assert.ok(!failed.includes('```'));
+        });
+
+        test('should embed stored results in an RST comment', () => {
+            const stored = { query: 'SELECT 1', queryType: QueryType.SQL, result };
+            const output = InlineResultFormatter.format(result, QueryType.SQL, { syntax: 'rst', maxRows: 20, stored });
+
+            assert.ok(output.includes(`\n${ResultStore.RST_COMMENT}\n   {"query":"SELECT 1"`));
+            assert.deepStrictEqual(ResultStore.parseDetails(output).map(entry => entry.result.rowCount), [3]);
+        });
+    });
+
+    suite('Replacing results', () => {
+        test('should find the results of the block and keep re-runs stable', () => {
+            const block = ['.. code-block:: sql', '', '   SELECT 1', ''];
+            const next = ['Next paragraph', ''];
+            const firstRun = InlineResultFormatter.format(result, QueryType.SQL, { syntax: 'rst', maxRows: 20 });
+            const lines = [...block, ...firstRun.split('\n').slice(0, -1), ...next];
+
+            // The block ends at the first unindented line, the blank line before the results
+            const range = InlineResultFormatter.findResultsRange(lines, block.length + 1, 'rst')!;
+            assert.strictEqual(range.start, block.length);
+            assert.strictEqual(lines[range.end + 1], 'Next paragraph');
+
+            const rerun = [...lines.slice(0, range.start), ...firstRun.split('\n').slice(0, -1), ...lines.slice(range.end + 1)];
+            assert.deepStrictEqual(rerun, lines);
+        });
+
+        test('should not take the results of a later block', () => {
+            const lines = [
+                '```sql', 'SELECT 1', '```', '',
+                'Text', '',
+                '```sql', 'SELECT 2', '```', '',
+                '<!-- OpenSearch Results Start -->', 'old', '<!-- OpenSearch Results End -->', ''
+            ];
+
+            assert.strictEqual(InlineResultFormatter.findResultsRange(lines, 3, 'markdown'), undefined);
+            assert.deepStrictEqual(InlineResultFormatter.findResultsRange(lines, 9, 'markdown'), { start: 9, end: 13 });
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { NodePool } from '../utils/nodePool';
+import { BaseParser } from '../parsers/baseParser';
+
+suite('NodePool Tests', () => {
+    const nodes = ['http://node1:9200', 'http://node2:9200', 'http://node3:9200'];
+    const connectError = (code: string) => Object.assign(new Error(`connect ${code}`), { code });
+
+    test('should list the endpoint first without duplicates', () => {
+        assert.deepStrictEqual(
+            NodePool.getNodeUrls('http://node1:9200/', ['http://node2:9200', ' http://node1:9200', 'http://node3:9200/']),
+            nodes
+        );
+    });
+
+    test('should keep the order for failover and rotate for round-robin', () => {
+        const failover = new NodePool(nodes);
+        assert.deepStrictEqual(failover.getNodes(), nodes);
+        assert.deepStrictEqual(failover.getNodes(), nodes);
+
+        const roundRobin = new NodePool(nodes, 'round-robin');
+        assert.strictEqual(roundRobin.getNodes()[0], 'http://node1:9200');
+        assert.strictEqual(roundRobin.getNodes()[0], 'http://node2:9200');
+        assert.strictEqual(roundRobin.getNodes()[0], 'http://node3:9200');
+        assert.strictEqual(roundRobin.getNodes()[0], 'http://node1:9200');
+    });
+
+    test('should fail over to the next node and skip dead nodes until the cooldown passes', async () => {
+        let now = 0;
+        const pool = new NodePool(nodes, 'failover', () => now);
+        const tried: string[] = [];
+
+        const { response, node } = await pool.send('POST', '/logs/_doc', async url => {
+            tried.push(url);
+            if (url === 'http://node1:9200') {
+                throw connectError('ECONNREFUSED');
+            }
+            return 'ok';
+        });
+
+        assert.strictEqual(response, 'ok');
+        assert.strictEqual(node, 'http://node2:9200');
+        assert.deepStrictEqual(tried, ['http://node1:9200', 'http://node2:9200']);
+        assert.deepStrictEqual(pool.getNodes(), ['http://node2:9200', 'http://node3:9200', 'http://node1:9200']);
+
+        now = NodePool.DEAD_NODE_COOLDOWN;
+        assert.deepStrictEqual(pool.getNodes(), nodes);
+    });
+
+    test('should not send a request that may change data again after the connection broke', async () => {
+        const tried: string[] = [];
+        const request = async (url: string) => {
+            tried.push(url);
+            throw connectError('ECONNRESET');
+        };
+
+        const error = await new NodePool(nodes).send('POST', '/logs/_doc', request).catch(e => e);
+        assert.strictEqual(error.node, 'http://node1:9200');
+        assert.deepStrictEqual(tried, ['http://node1:9200']);
+
+        tried.length = 0;
+        const searchError = await new NodePool(nodes).send('POST', '/logs/_search', request).catch(e => e);
+        assert.strictEqual(searchError.node, 'http://node3:9200');
+        assert.deepStrictEqual(tried, nodes);
+    });
+
+    test('should not fail over on HTTP errors', () => {
+        const httpError = Object.assign(new Error('Request failed with status code 503'), { response: { status: 503 } });
+        assert.ok(!NodePool.isNodeFailure(httpError, true));
+        assert.ok(NodePool.isNodeFailure(connectError('ENOTFOUND'), false));
+    });
+
+    test('should read node addresses from _nodes/http and fall back to the seeds', () => {
+        const response = {
+            nodes: {
+                a: { http: { publish_address: 'node-a.corp/10.0.0.1:9200' } },
+                b: { http: { publish_address: '10.0.0.2:9201' } },
+                c: { name: 'without http' }
+            }
+        };
+        const sniffed = NodePool.parseNodesHttp(response, 'https:');
+        assert.deepStrictEqual(sniffed, ['https://node-a.corp:9200', 'https://10.0.0.2:9201']);
+
+        let now = 0;
+        const pool = new NodePool(nodes, 'failover', () => now);
+        assert.ok(pool.needsSniff(1000));
+        pool.setSniffedNodes(sniffed);
+        assert.deepStrictEqual(pool.getNodes(), sniffed);
+        assert.ok(!pool.needsSniff(1000));
+
+        now = 1000;
+        assert.ok(pool.needsSniff(1000));
+        pool.setSniffedNodes([]);
+        assert.deepStrictEqual(pool.getNodes(), nodes);
+    });
+
+    test('should parse node variables of configuration blocks', () => {
+        const overrides = BaseParser.parseConnectionOverrides([
+            "@nodes = 'http://node2:9200, http://node3:9200'",
+            "@node_selection = 'Round-Robin'",
+            "@sniff = 'true'"
+        ].join('\n'));
+
+        assert.deepStrictEqual(overrides.nodes, {
+            urls: ['http://node2:9200', 'http://node3:9200'],
+            selection: 'round-robin',
+            sniff: true
+        });
+        assert.strictEqual(BaseParser.validateConnectionOverrides({ nodes: { urls: ['http://node2:9200', '{{node3}}'] } }).valid, true);
+        assert.strictEqual(BaseParser.validateConnectionOverrides({ nodes: { urls: ['not a url'] } }).error, 'Invalid node URL: not a url');
+    });
+});
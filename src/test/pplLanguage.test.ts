@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { PplLanguage } from '../utils/pplLanguage';
+
+suite('PplLanguage Tests', () => {
+    test('should offer commands at the start of the query and after pipes', () => {
+        assert.strictEqual(PplLanguage.getCompletionContext(''), 'command');
+        assert.strictEqual(PplLanguage.getCompletionContext('source=logs | '), 'command');
+        assert.strictEqual(PplLanguage.getCompletionContext('source=logs\n| st'), 'command');
+    });
+
+    test('should offer functions inside command arguments', () => {
+        assert.strictEqual(PplLanguage.getCompletionContext('source=logs | stats '), 'expression');
+        assert.strictEqual(PplLanguage.getCompletionContext('source=logs | eval x = ab'), 'expression');
+    });
+
+    test('should know the common commands', () => {
+        const names = PplLanguage.COMMANDS.map(command => command.name);
+        for (const name of ['where', 'stats', 'eval', 'fields', 'dedup', 'rename', 'sort', 'head', 'top', 'rare', 'parse']) {
+            assert.ok(names.includes(name), `missing ${name}`);
+        }
+    });
+
+    test('should find unknown commands outside strings', () => {
+        const query = 'source=logs | WHERE a = "x | nope" | fileds a';
+
+        assert.deepStrictEqual(PplLanguage.findUnknownCommands(query), [{ name: 'fileds', offset: query.indexOf('fileds') }]);
+    });
+
+    test('should accept every command of the PPL reference', () => {
+        const queries = [
+            'source=logs | ad time_field=@timestamp',
+            'source=logs | ml action=train algorithm=rcf',
+            'source=logs | kmeans centroids=3',
+            'source=logs | eventstats avg(bytes) by host',
+            'source=logs | lookup hosts host append owner',
+            'source=logs | join left=l right=r on l.host = r.host hosts',
+            'source=logs | expand tags | flatten location',
+            'source=logs | appendcol [ stats count() ]'
+        ];
+        for (const query of queries) {
+            assert.deepStrictEqual(PplLanguage.findUnknownCommands(query), [], query);
+        }
+    });
+});
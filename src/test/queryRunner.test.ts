@@ -0,0 +1,210 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { QueryRunner } from '../queryRunner';
+import { RunSummaryFormatter } from '../utils/runSummaryFormatter';
+
+suite('QueryRunner Tests', () => {
+    const content = `
+\`\`\`opensearch-api
+-- Name: health
+GET /_cluster/health
+\`\`\`
+
+\`\`\`opensearch-api
+GET /missing/_search
+\`\`\`
+
+\`\`\`sql
+SELECT * FROM logs
+\`\`\`
+`;
+    const document = {
+        getText: () => content,
+        positionAt: (offset: number) => {
+            const lines = content.substring(0, offset).split('\n');
+            return { line: lines.length - 1, character: lines[lines.length - 1].length } as vscode.Position;
+        },
+        languageId: 'markdown',
+        uri: { toString: () => 'file:///run-all.md' }
+    } as unknown as vscode.TextDocument;
+
+    let executed: string[];
+    let queryRunner: QueryRunner;
+
+    setup(() => {
+        executed = [];
+        const connectionManager = {
+            resolveConnectionOverrides: (_name?: string, overrides?: any) => overrides,
+            getEnvironmentVariables: () => ({}),
+            executeApiOperationWithOverrides: async (_method: string, endpoint: string, _body?: string, _overrides?: any, signal?: AbortSignal) => {
+                executed.push(endpoint);
+                if (endpoint.startsWith('/slow') && signal) {
+                    // Behave like axios: the request only ends when it is aborted
+                    await new Promise(resolve => signal.addEventListener('abort', resolve));
+                    return { error: { type: 'ERR_CANCELED', reason: 'canceled' } };
+                }
+                return endpoint.startsWith('/missing')
+                    ? { error: { type: 'index_not_found_exception', reason: 'no such index [missing]' } }
+                    : { status: 'green' };
+            },
+            executeQueryWithOverrides: async (query: string) => {
+                executed.push(query);
+                return { schema: [{ name: 'a', type: 'keyword' }], datarows: [['x'], ['y']] };
+            }
+        };
+        queryRunner = new QueryRunner(connectionManager as any);
+    });
+
+    suite('executeBlocks', () => {
+        test('should skip remaining blocks after a failure when stopOnFailure is set', async () => {
+            const summaries = await queryRunner.executeBlocks(document, [0, 1, 2], { stopOnFailure: true });
+
+            assert.deepStrictEqual(summaries.map(summary => summary.status), ['success', 'failed', 'skipped']);
+            assert.strictEqual(summaries[0].name, 'health');
+            assert.ok(summaries[1].error?.includes('index_not_found_exception'));
+            assert.deepStrictEqual(executed, ['/_cluster/health', '/missing/_search']);
+        });
+
+        test('should continue after a failure when stopOnFailure is off', async () => {
+            const results: string[] = [];
+            const summaries = await queryRunner.executeBlocks(
+                document,
+                [0, 1, 2],
+                { stopOnFailure: false },
+                async (block) => { results.push(block.type); }
+            );
+
+            assert.deepStrictEqual(summaries.map(summary => summary.status), ['success', 'failed', 'success']);
+            assert.strictEqual(summaries[2].rowCount, 2);
+            assert.deepStrictEqual(results, ['opensearch-api', 'opensearch-api', 'sql']);
+            assert.strictEqual(RunSummaryFormatter.describe(summaries), '2 succeeded, 1 failed');
+        });
+
+        test('should mark blocks as cancelled once cancellation is requested', async () => {
+            const token = {
+                isCancellationRequested: false,
+                onCancellationRequested: () => ({ dispose: () => {} })
+            } as unknown as vscode.CancellationToken;
+            const summaries = await queryRunner.executeBlocks(
+                document,
+                [0, 2],
+                { stopOnFailure: true },
+                async () => { (token as any).isCancellationRequested = true; },
+                token
+            );
+
+            assert.deepStrictEqual(summaries.map(summary => summary.status), ['success', 'cancelled']);
+            assert.strictEqual(executed.length, 1);
+        });
+    });
+
+    suite('Cancellation', () => {
+        test('should abort the in-flight request and report a cancelled result', async () => {
+            const slowContent = '```opensearch-api\nGET /slow/_search\n```\n';
+            const slowDocument = {
+                ...document,
+                getText: () => slowContent,
+                positionAt: (offset: number) => {
+                    const lines = slowContent.substring(0, offset).split('\n');
+                    return { line: lines.length - 1, character: lines[lines.length - 1].length } as vscode.Position;
+                }
+            } as unknown as vscode.TextDocument;
+
+            let cancel: () => void = () => {};
+            const token = {
+                isCancellationRequested: false,
+                onCancellationRequested: (listener: () => void) => {
+                    cancel = () => {
+                        (token as any).isCancellationRequested = true;
+                        listener();
+                    };
+                    return { dispose: () => {} };
+                }
+            } as unknown as vscode.CancellationToken;
+
+            const pending = queryRunner.executeBlocks(slowDocument, [0], { stopOnFailure: true }, undefined, token);
+            setTimeout(() => cancel(), 10);
+            const summaries = await pending;
+
+            assert.strictEqual(summaries[0].status, 'cancelled');
+            assert.strictEqual(summaries[0].result?.cancelled, true);
+            assert.strictEqual(summaries[0].result?.error, 'Query cancelled');
+        });
+    });
+
+    suite('Cursor pagination', () => {
+        const pages: Record<string, any> = {
+            'c1': { datarows: [['c'], ['d']], cursor: 'c2' },
+            'c2': { datarows: [['e'], ['f']], cursor: 'c3' },
+            'c3': { datarows: [['g']] }
+        };
+        let fetchSizes: Array<number | undefined>;
+        let closed: string[];
+        let pagingRunner: QueryRunner;
+
+        setup(() => {
+            fetchSizes = [];
+            closed = [];
+            const connectionManager = {
+                resolveConnectionOverrides: (_name?: string, overrides?: any) => overrides,
+                getEnvironmentVariables: () => ({}),
+                executeQueryWithOverrides: async (_query: string, _type: string, _overrides?: any, _signal?: AbortSignal, fetchSize?: number) => {
+                    fetchSizes.push(fetchSize);
+                    return { schema: [{ name: 'a', type: 'keyword' }], datarows: [['a'], ['b']], cursor: 'c1', total: 7, size: 2 };
+                },
+                fetchCursorPage: async (cursor: string) => pages[cursor],
+                closeCursor: async (cursor: string) => {
+                    closed.push(cursor);
+                    return { succeeded: true };
+                }
+            };
+            pagingRunner = new QueryRunner(connectionManager as any);
+        });
+
+        test('should send the fetch size and follow the cursor', async () => {
+            const pagedContent = '```sql\n-- FetchSize: 2\nSELECT a FROM logs\n```\n';
+            const pagedDocument = {
+                ...document,
+                getText: () => pagedContent,
+                positionAt: (offset: number) => {
+                    const lines = pagedContent.substring(0, offset).split('\n');
+                    return { line: lines.length - 1, character: lines[lines.length - 1].length } as vscode.Position;
+                }
+            } as unknown as vscode.TextDocument;
+            const [summary] = await pagingRunner.executeBlocks(pagedDocument, [0], { stopOnFailure: true });
+            const first = summary.result!;
+
+            assert.deepStrictEqual(fetchSizes, [2]);
+            assert.strictEqual(first.cursor, 'c1');
+            assert.ok(pagingRunner.isCursorOpen('c1'));
+
+            const second = await pagingRunner.fetchNextPage(first);
+
+            assert.strictEqual(second.success, true);
+            assert.strictEqual(second.rowCount, 4);
+            assert.deepStrictEqual(second.data?.map((row: any) => row.a), ['a', 'b', 'c', 'd']);
+            assert.deepStrictEqual(second.requestInfo, first.requestInfo);
+            assert.ok(!pagingRunner.isCursorOpen('c1'));
+            assert.ok(pagingRunner.isCursorOpen('c2'));
+        });
+
+        test('should fetch every page up to the row cap and close the cursor', async () => {
+            const first = await pagingRunner.executeQuery('SELECT a FROM logs', 'sql' as any, undefined, { fetchSize: 2 });
+
+            const capped = await pagingRunner.fetchRemainingPages(first, 5, undefined);
+
+            assert.strictEqual(capped.rowCount, 5);
+            assert.strictEqual(capped.cursor, undefined);
+            assert.deepStrictEqual(closed, ['c3']);
+            assert.ok(!pagingRunner.isCursorOpen('c3'));
+
+            const all = await pagingRunner.fetchRemainingPages(
+                await pagingRunner.executeQuery('SELECT a FROM logs', 'sql' as any, undefined, { fetchSize: 2 }),
+                100
+            );
+
+            assert.strictEqual(all.rowCount, 7);
+            assert.deepStrictEqual(closed, ['c3']);
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { RequestChain } from '../utils/requestChain';
+import { JsonUtils } from '../utils/jsonUtils';
+import { QueryRunner } from '../queryRunner';
+import { DocumentParser } from '../documentParser';
+import { QueryResult } from '../types';
+
+suite('Request Chaining Tests', () => {
+    const pitResult: QueryResult = {
+        success: true,
+        executionTime: 5,
+        executedAt: new Date(),
+        rawResponse: { pit_id: 'abc123', hits: { hits: [{ _id: 'doc-1' }, { _id: 'doc-2' }] } },
+        responseInfo: { status: 200, headers: { 'content-type': 'application/json', 'x-opaque-id': 'run-1' } }
+    };
+
+    suite('JsonUtils.evaluatePath', () => {
+        test('should support dot, index and quoted key segments', () => {
+            const data = { hits: { hits: [{ _id: 'a' }, { _id: 'b' }] }, 'odd.key': 1 };
+
+            assert.strictEqual(JsonUtils.evaluatePath(data, '$.hits.hits[1]._id'), 'b');
+            assert.strictEqual(JsonUtils.evaluatePath(data, 'hits.hits[0]._id'), 'a');
+            assert.strictEqual(JsonUtils.evaluatePath(data, "$['odd.key']"), 1);
+            assert.strictEqual(JsonUtils.evaluatePath(data, '$'), data);
+            assert.strictEqual(JsonUtils.evaluatePath(data, '$.missing.path'), undefined);
+        });
+    });
+
+    suite('RequestChain', () => {
+        test('should find response references and ignore plain variables', () => {
+            const references = RequestChain.findReferences(
+                'GET /{{index}}/_doc/{{search.response.body.$.hits.hits[0]._id}}\n{{createPit.response.headers.X-Opaque-Id}}'
+            );
+
+            assert.strictEqual(references.length, 2);
+            assert.strictEqual(references[0].requestName, 'search');
+            assert.strictEqual(references[0].source, 'body');
+            assert.strictEqual(references[0].path, '$.hits.hits[0]._id');
+            assert.strictEqual(references[1].source, 'headers');
+        });
+
+        test('should extract body values and headers case-insensitively', () => {
+            const [bodyRef, headerRef, objectRef] = RequestChain.findReferences(
+                '{{createPit.response.body.pit_id}} {{createPit.response.headers.X-Opaque-Id}} {{createPit.response.body.hits.hits[0]}}'
+            );
+
+            assert.strictEqual(RequestChain.extractValue(bodyRef, pitResult), 'abc123');
+            assert.strictEqual(RequestChain.extractValue(headerRef, pitResult), 'run-1');
+            assert.strictEqual(RequestChain.extractValue(objectRef, pitResult), '{"_id":"doc-1"}');
+        });
+
+        test('should report paths missing from the response', () => {
+            const [reference] = RequestChain.findReferences('{{createPit.response.body.scroll_id}}');
+
+            assert.throws(
+                () => RequestChain.extractValue(reference, pitResult),
+                /scroll_id" not found in the response of "createPit"/
+            );
+        });
+    });
+
+    suite('QueryRunner', () => {
+        const content = `
+\`\`\`opensearch-api
+-- Name: createPit
+POST /logs/_search/point_in_time?keep_alive=1m
+\`\`\`
+
+\`\`\`opensearch-api
+-- Name: search
+POST /_search
+{ "pit": { "id": "{{createPit.response.body.pit_id}}" } }
+\`\`\`
+
+\`\`\`opensearch-api
+-- Name: loopA
+GET /{{loopB.response.body.index}}/_count
+\`\`\`
+
+\`\`\`opensearch-api
+-- Name: loopB
+GET /{{loopA.response.body.index}}/_count
+\`\`\`
+`;
+        const document = {
+            getText: () => content,
+            positionAt: (offset: number) => {
+                const lines = content.substring(0, offset).split('\n');
+                return { line: lines.length - 1, character: lines[lines.length - 1].length } as vscode.Position;
+            },
+            languageId: 'markdown',
+            uri: { toString: () => 'file:///runbook.md' }
+        } as unknown as vscode.TextDocument;
+
+        let requests: Array<{ method: string, endpoint: string, body?: string }>;
+        let queryRunner: QueryRunner;
+
+        setup(() => {
+            requests = [];
+            const connectionManager = {
+                resolveConnectionOverrides: (_name?: string, overrides?: any) => overrides,
+                getEnvironmentVariables: () => ({}),
+                executeApiOperationWithOverrides: async (method: string, endpoint: string, body?: string) => {
+                    requests.push({ method, endpoint, body });
+                    return endpoint.includes('point_in_time') ? { pit_id: 'abc123' } : { hits: { total: { value: 0 }, hits: [] } };
+                }
+            };
+            queryRunner = new QueryRunner(connectionManager as any);
+        });
+
+        test('should run a referenced block first and substitute its response', async () => {
+            const search = DocumentParser.parseDocument(document).find(block => block.metadata?.name === 'search')!;
+
+            const result = await queryRunner.executeQueryFromBlock(search, document);
+
+            assert.strictEqual(result.success, true);
+            assert.strictEqual(requests.length, 2);
+            assert.strictEqual(requests[0].endpoint, '/logs/_search/point_in_time?keep_alive=1m');
+            assert.ok(requests[1].body?.includes('"id": "abc123"'));
+
+            // The cached response is reused on the next run
+            await queryRunner.executeQueryFromBlock(search, document);
+            assert.strictEqual(requests.length, 3);
+        });
+
+        test('should report circular references', async () => {
+            const loopA = DocumentParser.parseDocument(document).find(block => block.metadata?.name === 'loopA')!;
+
+            const result = await queryRunner.executeQueryFromBlock(loopA, document);
+
+            assert.strictEqual(result.success, false);
+            assert.ok(result.error?.includes('Circular request reference: loopA -> loopB -> loopA'));
+            assert.strictEqual(requests.length, 0);
+        });
+    });
+});
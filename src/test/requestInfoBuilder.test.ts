@@ -1,12 +1,13 @@
 import * as assert from 'assert';
 import { RequestInfoBuilder } from '../utils/requestInfoBuilder';
+import { SecretResolver } from '../utils/secretResolver';
 import { QueryResult } from '../types';
 
 suite('RequestInfoBuilder Tests', () => {
     suite('buildAuthHeaders', () => {
-        test('should build basic auth headers', () => {
+        test('should build basic auth headers', async () => {
             const baseAuth = { type: 'basic', username: 'testuser', password: 'testpass' };
-            const headers = RequestInfoBuilder.buildAuthHeaders(baseAuth);
+            const headers = await RequestInfoBuilder.buildAuthHeaders(baseAuth);
 
             assert.ok(headers.Authorization);
             assert.ok(headers.Authorization.startsWith('Basic '));
@@ -17,46 +18,97 @@ suite('RequestInfoBuilder Tests', () => {
             assert.strictEqual(decoded, 'testuser:testpass');
         });
 
-        test('should build API key headers', () => {
+        test('should build API key headers', async () => {
             const baseAuth = { type: 'apikey', apiKey: 'test-api-key-123' };
-            const headers = RequestInfoBuilder.buildAuthHeaders(baseAuth);
+            const headers = await RequestInfoBuilder.buildAuthHeaders(baseAuth);
 
             assert.strictEqual(headers.Authorization, 'ApiKey test-api-key-123');
         });
 
-        test('should return empty headers for none auth type', () => {
+        test('should return empty headers for none auth type', async () => {
             const baseAuth = { type: 'none' };
-            const headers = RequestInfoBuilder.buildAuthHeaders(baseAuth);
+            const headers = await RequestInfoBuilder.buildAuthHeaders(baseAuth);
 
             assert.deepStrictEqual(headers, {});
         });
 
-        test('should handle missing credentials for basic auth', () => {
+        test('should handle missing credentials for basic auth', async () => {
             const baseAuth = { type: 'basic' };
-            const headers = RequestInfoBuilder.buildAuthHeaders(baseAuth);
+            const headers = await RequestInfoBuilder.buildAuthHeaders(baseAuth);
 
             assert.deepStrictEqual(headers, {});
         });
 
-        test('should handle missing API key', () => {
+        test('should handle missing API key', async () => {
             const baseAuth = { type: 'apikey' };
-            const headers = RequestInfoBuilder.buildAuthHeaders(baseAuth);
+            const headers = await RequestInfoBuilder.buildAuthHeaders(baseAuth);
 
             assert.deepStrictEqual(headers, {});
         });
 
-        test('should apply connection overrides', () => {
+        test('should apply connection overrides', async () => {
             const baseAuth = { type: 'basic', username: 'baseuser', password: 'basepass' };
             const overrides = {
                 auth: { type: 'basic' as const, username: 'overrideuser', password: 'overridepass' }
             };
-            const headers = RequestInfoBuilder.buildAuthHeaders(baseAuth, overrides);
+            const headers = await RequestInfoBuilder.buildAuthHeaders(baseAuth, overrides);
 
             assert.ok(headers.Authorization);
             const encoded = headers.Authorization.split(' ')[1];
             const decoded = Buffer.from(encoded, 'base64').toString();
             assert.strictEqual(decoded, 'overrideuser:overridepass');
         });
+
+        test('should resolve secret references at request time', async () => {
+            const stored: Record<string, string> = { 'opensearch.secret.prod': 's3cr$&t' };
+            const resolver = new SecretResolver({
+                get: async (key: string) => stored[key],
+                store: async () => {},
+                delete: async () => {},
+                onDidChange: () => ({ dispose: () => {} })
+            } as any);
+            const baseAuth = { type: 'basic', username: 'admin', password: '${secret:prod}' };
+            const headers = await RequestInfoBuilder.buildAuthHeaders(baseAuth, undefined, resolver);
+
+            const decoded = Buffer.from(headers.Authorization.split(' ')[1], 'base64').toString();
+            assert.strictEqual(decoded, 'admin:s3cr$&t');
+        });
+
+        test('should fail for unknown secret references', async () => {
+            const resolver = new SecretResolver({ get: async () => undefined } as any);
+            const baseAuth = { type: 'apikey', apiKey: '${secret:missing}' };
+
+            await assert.rejects(
+                RequestInfoBuilder.buildAuthHeaders(baseAuth, undefined, resolver),
+                /Secret not found: missing/
+            );
+        });
+
+        test('should fail for secret references without SecretStorage', async () => {
+            const baseAuth = { type: 'apikey', apiKey: '${secret:prod}' };
+
+            await assert.rejects(
+                RequestInfoBuilder.buildAuthHeaders(baseAuth),
+                /SecretStorage/
+            );
+        });
+    });
+
+    suite('redactAuthHeaders', () => {
+        test('should mask the Authorization value but keep the scheme', () => {
+            const headers = RequestInfoBuilder.redactAuthHeaders({
+                'Content-Type': 'application/json',
+                'Authorization': 'Basic YWRtaW46c2VjcmV0'
+            });
+
+            assert.strictEqual(headers.Authorization, 'Basic ********');
+            assert.strictEqual(headers['Content-Type'], 'application/json');
+        });
+
+        test('should detect secret references in auth config', () => {
+            assert.strictEqual(RequestInfoBuilder.usesSecrets({ password: '${secret:prod}' }), true);
+            assert.strictEqual(RequestInfoBuilder.usesSecrets({ password: 'plain' }), false);
+        });
     });
 
     suite('buildQueryRequestInfo', () => {
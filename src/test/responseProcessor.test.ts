@@ -165,6 +165,105 @@ suite('ResponseProcessor Tests', () => {
             assert.strictEqual(result.rowCount, 0);
             assert.deepStrictEqual(result.data, []);
         });
+
+        test('should keep the cursor of a paged SQL response', () => {
+            const response = {
+                schema: [{ name: 'id', type: 'integer' }],
+                datarows: [[1], [2]],
+                cursor: 'd:abc',
+                total: 5,
+                size: 2
+            };
+
+            const result = ResponseProcessor.processQueryResponse(response, 10, 'sql');
+
+            assert.strictEqual(result.cursor, 'd:abc');
+            assert.strictEqual(result.rowCount, 2);
+        });
+    });
+
+    suite('appendCursorPage', () => {
+        test('should append rows using the schema of the first page', () => {
+            const first = ResponseProcessor.processQueryResponse({
+                schema: [{ name: 'id', type: 'integer' }, { name: 'name', type: 'keyword' }],
+                datarows: [[1, 'a'], [2, 'b']],
+                cursor: 'd:first',
+                total: 3,
+                size: 2
+            }, 10, 'sql');
+
+            const result = ResponseProcessor.appendCursorPage(first, { datarows: [[3, 'c']] }, 5);
+
+            assert.strictEqual(result.rowCount, 3);
+            assert.strictEqual(result.executionTime, 15);
+            assert.strictEqual(result.cursor, undefined);
+            assert.deepStrictEqual(result.columns, ['id', 'name']);
+            assert.deepStrictEqual(result.data?.[2], { id: 3, name: 'c' });
+            assert.strictEqual(result.rawResponse.datarows.length, 3);
+            assert.strictEqual(result.rawResponse.total, 3);
+        });
+    });
+
+    suite('flattenAggregations', () => {
+        test('should flatten nested buckets with metrics into rows', () => {
+            const result = ResponseProcessor.processQueryResponse({
+                hits: { total: { value: 5, relation: 'eq' }, max_score: 0, hits: [] },
+                aggregations: {
+                    by_host: {
+                        doc_count_error_upper_bound: 0,
+                        sum_other_doc_count: 0,
+                        buckets: [
+                            {
+                                key: 'web-1',
+                                doc_count: 3,
+                                avg_bytes: { value: 120.5 },
+                                per_day: {
+                                    buckets: [
+                                        { key_as_string: '2024-01-01', key: 1704067200000, doc_count: 2, latency: { values: { '99.0': 40, '99.0_as_string': '40' } } },
+                                        { key_as_string: '2024-01-02', key: 1704153600000, doc_count: 1, latency: { values: { '99.0': 12 } } }
+                                    ]
+                                }
+                            },
+                            { key: 'web-2', doc_count: 2, avg_bytes: { value: null }, per_day: { buckets: [] } }
+                        ]
+                    }
+                }
+            }, 10, 'opensearch-api');
+
+            assert.deepStrictEqual(result.columns, ['by_host', 'per_day', 'doc_count', 'avg_bytes', 'latency.99.0']);
+            assert.strictEqual(result.rowCount, 3);
+            assert.deepStrictEqual(result.data[0], { 'by_host': 'web-1', 'doc_count': 2, 'avg_bytes': 120.5, 'per_day': '2024-01-01', 'latency.99.0': 40 });
+            assert.strictEqual(result.data[1].per_day, '2024-01-02');
+            // A bucket without sub-buckets keeps its own row
+            assert.deepStrictEqual(result.data[2], { by_host: 'web-2', doc_count: 2, avg_bytes: null });
+        });
+
+        test('should flatten composite, keyed range and single-bucket aggregations', () => {
+            const { columns, rows } = ResponseProcessor.flattenAggregations({
+                composite_agg: {
+                    after_key: { host: 'b', status: 500 },
+                    buckets: [{ key: { host: 'a', status: 200 }, doc_count: 4, stats: { count: 4, min: 1, max: 9, avg: 5, sum: 20 } }]
+                },
+                sizes: {
+                    buckets: { small: { to: 100, doc_count: 7 }, large: { from: 100, doc_count: 1 } }
+                },
+                errors: { doc_count: 3, max_latency: { value: 900 } }
+            });
+
+            assert.deepStrictEqual(columns, ['host', 'status', 'sizes', 'doc_count', 'stats.count', 'stats.min', 'stats.max', 'stats.avg', 'stats.sum', 'errors', 'max_latency']);
+            assert.deepStrictEqual(rows[0], { 'host': 'a', 'status': 200, 'doc_count': 4, 'stats.count': 4, 'stats.min': 1, 'stats.max': 9, 'stats.avg': 5, 'stats.sum': 20 });
+            assert.deepStrictEqual(rows.slice(1, 3).map(row => [row.sizes, row.doc_count]), [['small', 7], ['large', 1]]);
+            assert.deepStrictEqual(rows[3], { errors: 3, max_latency: 900 });
+        });
+
+        test('should keep metric-only aggregations in a single row', () => {
+            const result = ResponseProcessor.processQueryResponse({
+                aggregations: { total_bytes: { value: 1024 }, hosts: { value: 3 } }
+            } as any, 10, 'opensearch-api');
+
+            assert.deepStrictEqual(result.data, [{ total_bytes: 1024, hosts: 3 }]);
+            assert.deepStrictEqual(result.columns, ['total_bytes', 'hosts']);
+        });
     });
 
     suite('formatResultForDisplay', () => {
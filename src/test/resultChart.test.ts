@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { ResultChart } from '../utils/resultChart';
+import { ResponseProcessor } from '../utils/responseProcessor';
+import { TabContentGenerator } from '../utils/tabContentGenerator';
+
+suite('ResultChart Tests', () => {
+    const sqlResult = ResponseProcessor.processQueryResponse({
+        schema: [
+            { name: 'host', type: 'keyword' },
+            { name: 'hour', type: 'timestamp' },
+            { name: 'requests', type: 'long' }
+        ],
+        datarows: [
+            ['a', '2024-01-01 10:00:00', 5],
+            ['b', '2024-01-01 11:00:00', 7]
+        ],
+        total: 2,
+        size: 2
+    }, 10, 'sql');
+
+    test('should detect time-typed schema columns as the x axis', () => {
+        const chartData = ResultChart.buildChartData(sqlResult)!;
+
+        assert.strictEqual(chartData.columns[1].sortType, 'date');
+        assert.deepStrictEqual(ResultChart.getDefaults(chartData), { x: 1, y: 2 });
+    });
+
+    test('should fall back to the first non-numeric column for x', () => {
+        const result = ResponseProcessor.processQueryResponse({
+            schema: [{ name: 'count', type: 'integer' }, { name: 'status', type: 'keyword' }],
+            datarows: [[3, 'ok'], [1, 'error']],
+            total: 2,
+            size: 2
+        }, 10, 'sql');
+
+        assert.deepStrictEqual(ResultChart.getDefaults(ResultChart.buildChartData(result)!), { x: 1, y: 0 });
+    });
+
+    test('should not chart results without a numeric column', () => {
+        const result = ResponseProcessor.processQueryResponse({
+            schema: [{ name: 'name', type: 'keyword' }],
+            datarows: [['a'], ['b']],
+            total: 2,
+            size: 2
+        }, 10, 'sql');
+
+        assert.strictEqual(ResultChart.buildChartData(result), undefined);
+        assert.ok(!TabContentGenerator.generateResultTabs(result).some(tab => tab.id === 'chart'));
+    });
+
+    test('should add a chart tab with escaped embedded data', () => {
+        const result = { ...sqlResult, data: [{ host: '</script>', hour: '2024-01-01 10:00:00', requests: 1 }] };
+        const chartTab = TabContentGenerator.generateResultTabs(result).find(tab => tab.id === 'chart');
+
+        assert.ok(chartTab);
+        assert.ok(chartTab!.content.includes('class="result-chart"'));
+        assert.ok(!chartTab!.content.includes('"</script>'));
+    });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { ResultDiff } from '../utils/resultDiff';
+import { ResponseProcessor } from '../utils/responseProcessor';
+
+suite('ResultDiff Tests', () => {
+    const searchResult = (hits: Array<{ id: string; source: any }>) => ResponseProcessor.processQueryResponse({
+        hits: {
+            total: { value: hits.length, relation: 'eq' },
+            max_score: 1,
+            hits: hits.map(hit => ({ _index: 'logs', _id: hit.id, _score: 1, _source: hit.source }))
+        }
+    } as any, 10, 'opensearch-api');
+
+    const left = searchResult([
+        { id: '1', source: { status: 'ok', user: { name: 'alice' } } },
+        { id: '2', source: { status: 'ok', user: { name: 'bob' } } },
+        { id: '3', source: { status: 'error', user: { name: 'carol' } } }
+    ]);
+    const right = searchResult([
+        { id: '2', source: { status: 'error', user: { name: 'bob' } } },
+        { id: '3', source: { status: 'error', user: { name: 'carol' } } },
+        { id: '4', source: { status: 'ok', user: { name: 'dave' } } }
+    ]);
+
+    test('should offer _id first as key column', () => {
+        const candidates = ResultDiff.getKeyCandidates(left, right);
+
+        assert.strictEqual(candidates[0], '_id');
+        assert.ok(candidates.includes('user.name'));
+    });
+
+    test('should classify rows matched by key', () => {
+        const diff = ResultDiff.diffRows(left, right, '_id');
+
+        assert.deepStrictEqual(diff.counts, { added: 1, removed: 1, changed: 1, unchanged: 1 });
+        assert.deepStrictEqual(diff.entries.map(entry => [entry.key, entry.status]), [
+            ['1', 'removed'], ['2', 'changed'], ['3', 'unchanged'], ['4', 'added']
+        ]);
+        assert.deepStrictEqual(diff.entries[1].changedColumns, ['status']);
+    });
+
+    test('should match rows by position without key and keep duplicate keys apart', () => {
+        assert.deepStrictEqual(ResultDiff.diffRows(left, right).counts, { added: 0, removed: 0, changed: 3, unchanged: 0 });
+
+        const duplicates = searchResult([{ id: '1', source: { n: 1 } }, { id: '1', source: { n: 2 } }]);
+        const diff = ResultDiff.diffRows(duplicates, duplicates, '_id');
+        assert.deepStrictEqual(diff.entries.map(entry => entry.key), ['1', '1 (2)']);
+        assert.strictEqual(diff.counts.unchanged, 2);
+    });
+
+    test('should list JSON paths that differ', () => {
+        const changes = ResultDiff.diffJson(
+            { hits: [{ a: 1 }, { a: 2 }], took: 5 },
+            { hits: [{ a: 1 }, { a: 3, b: true }], took: 5, extra: null }
+        );
+
+        assert.deepStrictEqual(changes, [
+            { path: '$.hits[1].a', kind: 'changed', left: 2, right: 3 },
+            { path: '$.hits[1].b', kind: 'added', right: true },
+            { path: '$.extra', kind: 'added', right: null }
+        ]);
+    });
+
+    test('should escape values in the generated page', () => {
+        const html = ResultDiff.generateHtml(
+            { label: 'staging <1>', result: left },
+            { label: 'prod', result: searchResult([{ id: '1', source: { status: '<b>' } }]) },
+            '_id'
+        );
+
+        assert.ok(html.includes('staging &lt;1&gt;'));
+        assert.ok(html.includes('&lt;b&gt;'));
+        assert.ok(!html.includes('<b>'));
+    });
+});
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResultExporter } from '../utils/resultExporter';
+import { ResponseProcessor } from '../utils/responseProcessor';
+import { QueryResult } from '../types';
+
+suite('ResultExporter Tests', () => {
+    const searchResult = ResponseProcessor.processQueryResponse({
+        hits: {
+            total: { value: 2, relation: 'eq' },
+            max_score: 1,
+            hits: [
+                { _index: 'logs', _id: '1', _score: 1, _source: { message: 'a, "quoted"', user: { name: 'alice' } } },
+                { _index: 'logs', _id: '2', _score: 1, _source: { message: 'multi\nline', user: { name: 'bob', roles: ['admin'] } } }
+            ]
+        }
+    } as any, 10, 'opensearch-api');
+
+    const sqlResult = ResponseProcessor.processQueryResponse({
+        schema: [{ name: 'id', type: 'integer' }, { name: 'tags', type: 'object' }],
+        datarows: [[1, { a: 1 }], [2, null]],
+        cursor: 'c1',
+        total: 3,
+        size: 2
+    }, 10, 'sql');
+
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opensearch-export-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    suite('Flattening', () => {
+        test('should flatten search hits like the table columns', () => {
+            const rows = ResultExporter.toRows(searchResult);
+            const columns = ResultExporter.getColumns(searchResult, rows);
+
+            assert.deepStrictEqual(columns, ['_index', '_id', '_score', 'message', 'user.name', 'user.roles']);
+            assert.strictEqual(rows[0]['user.name'], 'alice');
+            assert.deepStrictEqual(rows[1]['user.roles'], ['admin']);
+        });
+
+        test('should keep SQL rows as they match the schema', () => {
+            const rows = ResultExporter.toRows(sqlResult);
+
+            assert.deepStrictEqual(ResultExporter.getColumns(sqlResult, rows), ['id', 'tags']);
+            assert.deepStrictEqual(rows[0], { id: 1, tags: { a: 1 } });
+        });
+    });
+
+    suite('Formats', () => {
+        const rows = ResultExporter.toRows(searchResult);
+        const columns = ['_id', 'message', 'user.roles'];
+
+        test('should quote CSV values and start with a byte order mark', () => {
+            const csv = ResultExporter.formatHeader(columns, 'csv') + ResultExporter.formatRows(rows, columns, 'csv');
+
+            assert.ok(csv.startsWith('\uFEFF_id,message,user.roles\r\n'));
+            assert.ok(csv.includes('1,"a, ""quoted""",\r\n'));
+            assert.ok(csv.includes('2,"multi\nline","[""admin""]"\r\n'));
+        });
+
+        test('should escape tabs and newlines in TSV', () => {
+            const tsv = ResultExporter.formatRows(rows, columns, 'tsv');
+
+            assert.strictEqual(tsv.split('\n')[1], '2\tmulti\\nline\t["admin"]');
+        });
+
+        test('should write one JSON object per NDJSON line', () => {
+            const lines = ResultExporter.formatRows(rows, columns, 'ndjson').trim().split('\n');
+
+            assert.strictEqual(lines.length, 2);
+            assert.deepStrictEqual(JSON.parse(lines[0]), { '_id': '1', 'message': 'a, "quoted"', 'user.roles': null });
+            assert.deepStrictEqual(JSON.parse(lines[1])['user.roles'], ['admin']);
+        });
+
+        test('should escape pipes and newlines in Markdown', () => {
+            const markdown = ResultExporter.formatHeader(['a'], 'markdown')
+                + ResultExporter.formatRows([{ a: 'x|y\nz' }], ['a'], 'markdown');
+
+            assert.strictEqual(markdown, '| a |\n| --- |\n| x\\|y<br>z |\n');
+        });
+    });
+
+    suite('exportToFile', () => {
+        test('should stream every cursor page to the file', async () => {
+            const filePath = path.join(tempDir, 'out.csv');
+            const requestedPages: number[] = [];
+
+            const rowCount = await ResultExporter.exportToFile(sqlResult, 'csv', filePath, async (page: QueryResult) => {
+                // Only the last page is passed back, earlier rows are not kept
+                requestedPages.push(page.data.length);
+                return ResponseProcessor.appendCursorPage(page, { datarows: [[3, null]] }, 5);
+            });
+
+            assert.strictEqual(rowCount, 3);
+            assert.deepStrictEqual(requestedPages, [0]);
+            assert.strictEqual(
+                fs.readFileSync(filePath, 'utf8'),
+                '\uFEFFid,tags\r\n1,"{""a"":1}"\r\n2,\r\n3,\r\n'
+            );
+        });
+
+        test('should only write loaded rows without a page fetcher', async () => {
+            const filePath = path.join(tempDir, 'out.ndjson');
+
+            const rowCount = await ResultExporter.exportToFile(sqlResult, 'ndjson', filePath);
+
+            assert.strictEqual(rowCount, 2);
+            assert.strictEqual(fs.readFileSync(filePath, 'utf8').trim().split('\n').length, 2);
+        });
+
+        test('should reject results without rows', async () => {
+            const result: QueryResult = { success: true, data: { acknowledged: true }, executionTime: 1, executedAt: new Date() };
+
+            await assert.rejects(
+                ResultExporter.exportToFile(result, 'csv', path.join(tempDir, 'none.csv')),
+                /Only successful results with rows can be exported/
+            );
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { ResultGrid } from '../utils/resultGrid';
+
+suite('ResultGrid Tests', () => {
+    suite('getSortType', () => {
+        test('should map schema types to sort types', () => {
+            assert.strictEqual(ResultGrid.getSortType('integer'), 'number');
+            assert.strictEqual(ResultGrid.getSortType('DOUBLE'), 'number');
+            assert.strictEqual(ResultGrid.getSortType('timestamp'), 'date');
+            assert.strictEqual(ResultGrid.getSortType('boolean'), 'boolean');
+            assert.strictEqual(ResultGrid.getSortType('keyword'), 'string');
+            assert.strictEqual(ResultGrid.getSortType(undefined), undefined);
+        });
+    });
+
+    suite('buildGridData', () => {
+        test('should use the schema type for numeric and date sorting', () => {
+            const grid = ResultGrid.buildGridData(
+                [
+                    { bytes: '10', at: '2024-01-02 00:00:00', host: 'B' },
+                    { bytes: '9', at: '2024-01-01 00:00:00', host: null }
+                ],
+                ['bytes', 'at', 'host'],
+                [{ name: 'bytes', type: 'long' }, { name: 'at', type: 'timestamp' }, { name: 'host', type: 'keyword' }]
+            );
+
+            assert.deepStrictEqual(grid.columns.map(column => column.sortType), ['number', 'date', 'string']);
+            assert.deepStrictEqual(grid.sortValues.map(row => row[0]), [10, 9]);
+            assert.ok((grid.sortValues[0][1] as number) > (grid.sortValues[1][1] as number));
+            assert.deepStrictEqual(grid.sortValues.map(row => row[2]), ['b', null]);
+            assert.deepStrictEqual(grid.rows[1], ['9', '2024-01-01 00:00:00', '']);
+        });
+
+        test('should infer numeric columns and read search hit sources', () => {
+            const grid = ResultGrid.buildGridData(
+                [
+                    { _id: '1', _score: 1.5, _source: { user: { name: 'alice' }, tags: ['a'] } },
+                    { _id: '2', _score: 0.5, _source: { user: { name: 'bob' } } }
+                ],
+                ['_id', '_score', 'user.name', 'tags']
+            );
+
+            assert.deepStrictEqual(grid.columns.map(column => column.sortType), ['string', 'number', 'string', 'string']);
+            assert.deepStrictEqual(grid.rows[0], ['1', '1.5', 'alice', '["a"]']);
+            assert.strictEqual(grid.rows[1][3], '');
+        });
+    });
+
+    suite('generateHtml', () => {
+        test('should embed the data without closing the script block', () => {
+            const html = ResultGrid.generateHtml('grid_1', ResultGrid.buildGridData([{ text: '</script><b>' }], ['text']));
+
+            assert.ok(html.includes('id="grid_1"'));
+            assert.ok(!html.includes('</script><b>'));
+            assert.ok(html.includes('\\u003c/script>\\u003cb>'));
+        });
+    });
+});
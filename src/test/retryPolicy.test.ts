@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { RetryPolicy } from '../utils/retryPolicy';
+import { QueryExecutionEngine } from '../utils/queryExecutor';
+import { QueryType } from '../types';
+
+suite('RetryPolicy Tests', () => {
+    const response = (status: number, headers: Record<string, string> = {}) => ({ status, statusText: status === 200 ? 'OK' : 'Error', headers, data: { status } });
+    const httpError = (status: number, headers: Record<string, string> = {}) => Object.assign(new Error(`Request failed with status code ${status}`), { response: response(status, headers) });
+    const fast = { initialDelay: 1, maxDelay: 2 };
+
+    test('should retry throttled requests and record every attempt', async () => {
+        const outcomes = [httpError(429), Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), response(200)];
+        const { response: final, attempts } = await RetryPolicy.execute(async () => {
+            const outcome = outcomes.shift()!;
+            if (outcome instanceof Error) {
+                throw outcome;
+            }
+            return outcome;
+        }, { method: 'POST', endpoint: '/logs/_search?size=10', options: fast });
+
+        assert.strictEqual(final.status, 200);
+        assert.deepStrictEqual(attempts.map(attempt => attempt.responseInfo?.status), [429, undefined, 200]);
+        assert.strictEqual(attempts[1].error, 'ECONNRESET: socket hang up');
+        assert.ok(attempts[0].retryDelay !== undefined && attempts[1].retryDelay !== undefined);
+        assert.strictEqual(attempts[2].retryDelay, undefined);
+    });
+
+    test('should not retry requests that may change data unless enabled', async () => {
+        let calls = 0;
+        const send = async () => {
+            calls++;
+            throw httpError(503);
+        };
+
+        const error = await RetryPolicy.execute(send, { method: 'POST', endpoint: '/logs/_doc', options: fast }).catch(e => e);
+        assert.strictEqual(calls, 1);
+        assert.strictEqual(error.attempts.length, 1);
+
+        calls = 0;
+        await RetryPolicy.execute(send, { method: 'POST', endpoint: '/_bulk', options: { ...fast, retryNonIdempotent: true } }).catch(() => undefined);
+        assert.strictEqual(calls, 3);
+    });
+
+    test('should stop at the retry limit and on errors that are not transient', async () => {
+        let calls = 0;
+        await RetryPolicy.execute(async () => {
+            calls++;
+            throw httpError(400);
+        }, { method: 'GET', endpoint: '/logs', options: fast }).catch(() => undefined);
+        assert.strictEqual(calls, 1);
+
+        calls = 0;
+        await RetryPolicy.execute(async () => {
+            calls++;
+            throw httpError(502);
+        }, { method: 'GET', endpoint: '/logs', options: { ...fast, maxRetries: 4 } }).catch(() => undefined);
+        assert.strictEqual(calls, 5);
+    });
+
+    test('should back off exponentially with jitter and honor Retry-After', () => {
+        const options = { initialDelay: 500, maxDelay: 3000 };
+        assert.strictEqual(RetryPolicy.getDelay(1, options, undefined, () => 0), 250);
+        assert.strictEqual(RetryPolicy.getDelay(2, options, undefined, () => 1), 1000);
+        assert.strictEqual(RetryPolicy.getDelay(5, options, undefined, () => 1), 3000);
+
+        const now = Date.parse('2024-01-01T00:00:00Z');
+        assert.strictEqual(RetryPolicy.getDelay(1, options, httpError(429, { 'retry-after': '7' }), () => 0, now), 7000);
+        assert.strictEqual(RetryPolicy.getDelay(1, options, httpError(503, { 'retry-after': 'Mon, 01 Jan 2024 00:00:02 GMT' }), () => 0, now), 2000);
+        assert.strictEqual(RetryPolicy.getDelay(1, options, httpError(503, { 'retry-after': '3600' }), () => 0, now), undefined);
+    });
+
+    test('should classify idempotent requests', () => {
+        assert.ok(RetryPolicy.isIdempotent('GET', '/_cat/indices'));
+        assert.ok(RetryPolicy.isIdempotent('PUT', '/logs/_doc/1'));
+        assert.ok(RetryPolicy.isIdempotent('POST', '/_plugins/_ppl'));
+        assert.ok(RetryPolicy.isIdempotent('POST', '/logs-*/_search?scroll=1m'));
+        assert.ok(!RetryPolicy.isIdempotent('POST', '/logs/_update/1'));
+        assert.ok(!RetryPolicy.isIdempotent('POST', '/_search_pipeline_test/_doc'));
+    });
+
+    test('should let -- Retries: replace the retry count of the connection', () => {
+        const context = QueryExecutionEngine.createContext('SELECT 1', QueryType.SQL, undefined, { retries: 0 }, {
+            endpoint: 'http://localhost:9200',
+            retry: { maxRetries: 5, initialDelay: 100 }
+        });
+
+        assert.deepStrictEqual(context.connectionOverrides?.retry, { maxRetries: 0, initialDelay: 100 });
+    });
+});
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import { SchemaCache } from '../utils/schemaCache';
+import { SchemaCompletion } from '../utils/schemaCompletion';
+import { QueryType } from '../types';
+
+suite('SchemaCache Tests', () => {
+    const responses: Record<string, any> = {
+        '/_cat/indices?format=json&h=index': [{ index: 'logs-2024' }, { index: '.kibana' }, { index: 'audit' }],
+        '/_aliases': { 'logs-2024': { aliases: { logs: {} } }, audit: { aliases: {} } },
+        '/_data_stream': { data_streams: [{ name: 'metrics', indices: [{ index_name: '.ds-metrics-000001' }] }] },
+        '/logs/_mapping': {
+            'logs-2024': {
+                mappings: {
+                    properties: {
+                        message: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+                        user: { properties: { name: { type: 'keyword' } } },
+                        '@timestamp': { type: 'date' }
+                    }
+                }
+            }
+        }
+    };
+
+    const createRequest = (requested: string[]) => async (path: string) => {
+        requested.push(path);
+        if (!(path in responses)) {
+            throw new Error(`404 Not Found: ${path}`);
+        }
+        return responses[path];
+    };
+
+    test('should collect index, alias and data stream names', async () => {
+        const schema = await new SchemaCache(60000).getSchema('local', createRequest([]));
+
+        assert.deepStrictEqual(schema.indices, ['.kibana', 'audit', 'logs-2024']);
+        assert.deepStrictEqual(schema.aliases, { logs: ['logs-2024'] });
+        assert.deepStrictEqual(schema.dataStreams, { metrics: ['.ds-metrics-000001'] });
+    });
+
+    test('should flatten mappings into field paths', async () => {
+        const fields = await new SchemaCache(60000).getFields('local', 'logs', createRequest([]));
+
+        assert.deepStrictEqual(fields, [
+            { name: '@timestamp', type: 'date' },
+            { name: 'message', type: 'text' },
+            { name: 'message.keyword', type: 'keyword' },
+            { name: 'user', type: 'object' },
+            { name: 'user.name', type: 'keyword' }
+        ]);
+    });
+
+    test('should reuse names until the TTL expires or the cache is cleared', async () => {
+        let now = 0;
+        const requested: string[] = [];
+        const cache = new SchemaCache(1000, () => now);
+        const request = createRequest(requested);
+
+        await cache.getFields('local', 'logs', request);
+        await cache.getFields('local', 'logs', request);
+        assert.strictEqual(requested.length, 1);
+
+        now = 1001;
+        await cache.getFields('local', 'logs', request);
+        assert.strictEqual(requested.length, 2);
+
+        cache.clear('local');
+        await cache.getFields('local', 'logs', request);
+        assert.strictEqual(requested.length, 3);
+    });
+
+    test('should retry failed lookups after a while, and right away after a sign-in', async () => {
+        let now = 0;
+        let failure: Error = new Error('503 Service Unavailable');
+        let requests = 0;
+        const cache = new SchemaCache(60000, () => now);
+        const request = async () => {
+            requests++;
+            throw failure;
+        };
+
+        await assert.rejects(cache.getFields('local', 'logs', request));
+        await assert.rejects(cache.getFields('local', 'logs', request));
+        assert.strictEqual(requests, 1);
+
+        now = SchemaCache.FAILURE_TTL;
+        failure = Object.assign(new Error('OIDC sign-in required. Run a query to sign in.'), { signInRequired: true });
+        await assert.rejects(cache.getFields('local', 'logs', request));
+        await assert.rejects(cache.getFields('local', 'logs', request));
+        assert.strictEqual(requests, 3);
+    });
+
+    test('should keep index names when data streams are unavailable and skip invalid patterns', async () => {
+        const requested: string[] = [];
+        const schema = await new SchemaCache(60000).getSchema('old-cluster', async path => {
+            if (path === '/_data_stream') {
+                throw new Error('400 Bad Request');
+            }
+            return createRequest(requested)(path);
+        });
+
+        assert.strictEqual(schema.indices.length, 3);
+        assert.deepStrictEqual(schema.dataStreams, {});
+        assert.deepStrictEqual(await new SchemaCache(60000).getFields('local', 'logs/_doc', createRequest(requested)), []);
+        assert.ok(!requested.some(path => path.includes('_doc')));
+    });
+
+    suite('Completion context', () => {
+        test('should find index names in PPL, SQL and endpoints', () => {
+            assert.deepStrictEqual(SchemaCompletion.getContext(QueryType.PPL, 'source=logs-2', 'source=logs-2'), { kind: 'index', prefix: 'logs-2' });
+            assert.deepStrictEqual(SchemaCompletion.getContext(QueryType.SQL, 'SELECT * FROM au', 'SELECT * FROM au'), { kind: 'index', prefix: 'au' });
+            assert.deepStrictEqual(SchemaCompletion.getContext(QueryType.OPENSEARCH_API, 'GET /logs,me', ''), { kind: 'index', prefix: 'me' });
+        });
+
+        test('should find field names with the index of the query', () => {
+            assert.deepStrictEqual(
+                SchemaCompletion.getContext(QueryType.PPL, 'source=logs | where user.na', ''),
+                { kind: 'field', index: 'logs', prefix: 'user.na' }
+            );
+            assert.deepStrictEqual(
+                SchemaCompletion.getContext(QueryType.SQL, 'SELECT mes', 'SELECT mes FROM logs WHERE 1 = 1'),
+                { kind: 'field', index: 'logs', prefix: 'mes' }
+            );
+            assert.deepStrictEqual(
+                SchemaCompletion.getContext(QueryType.OPENSEARCH_API, 'GET /logs/_search\n{\n  "query": { "match": { "mes', '', '/logs/_search'),
+                { kind: 'field', index: 'logs', prefix: 'mes' }
+            );
+            assert.deepStrictEqual(
+                SchemaCompletion.getContext(QueryType.OPENSEARCH_API, '{"query": {"exists": {"field": "', '', '/logs/_search'),
+                { kind: 'field', index: 'logs', prefix: '' }
+            );
+        });
+
+        test('should not offer names in strings, other clauses or API paths', () => {
+            assert.strictEqual(SchemaCompletion.getContext(QueryType.PPL, 'source=logs | where message = \'us', ''), undefined);
+            assert.strictEqual(SchemaCompletion.getContext(QueryType.PPL, 'source=logs | head ', ''), undefined);
+            assert.strictEqual(SchemaCompletion.getContext(QueryType.SQL, 'SELECT a FROM logs LIMIT ', 'SELECT a FROM logs LIMIT '), undefined);
+            assert.strictEqual(SchemaCompletion.getContext(QueryType.OPENSEARCH_API, '{"query": {"match": {"', '', '/_cluster/health'), undefined);
+            assert.strictEqual(SchemaCompletion.getContext(QueryType.OPENSEARCH_API, '{"settings": {"', '', '/logs'), undefined);
+        });
+    });
+});
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DocumentParser } from '../documentParser';
+import { SnapshotAssertion } from '../utils/snapshotAssertion';
+import { ResponseProcessor } from '../utils/responseProcessor';
+import { Expectation } from '../types';
+
+suite('SnapshotAssertion Tests', () => {
+    function createMockDocument(content: string, languageId: string = 'markdown'): vscode.TextDocument {
+        return {
+            languageId,
+            getText: () => content,
+            positionAt: (offset: number) => {
+                const lines = content.substring(0, offset).split('\n');
+                return { line: lines.length - 1, character: lines[lines.length - 1].length } as vscode.Position;
+            }
+        } as vscode.TextDocument;
+    }
+
+    const result = ResponseProcessor.processQueryResponse({
+        schema: [{ name: 'host', type: 'keyword' }, { name: 'count', type: 'long' }, { name: 'note', type: 'text' }],
+        datarows: [['web-1', 3, 'a|b'], ['web-2', 1, null]],
+        total: 2,
+        size: 2
+    }, 10, 'sql');
+
+    const expect = (text: string): Expectation => ({ format: SnapshotAssertion.getFormat(text), text });
+
+    suite('Expectations in documents', () => {
+        test('should read -- Expect: metadata', () => {
+            const document = createMockDocument('```sql\n-- Expect: 2 rows\nSELECT * FROM logs\n```\n');
+            const [block] = DocumentParser.parseDocument(document);
+
+            assert.strictEqual(block.content, 'SELECT * FROM logs');
+            assert.deepStrictEqual(DocumentParser.findExpectation(document, block), { format: 'rowCount', text: '2 rows' });
+        });
+
+        test('should pair an expected block with the query block before it', () => {
+            const document = createMockDocument([
+                '```sql',
+                'SELECT 1',
+                '```',
+                '',
+                '```sql',
+                'SELECT host, count FROM logs',
+                '```',
+                '',
+                '```expected',
+                '| host | count |',
+                '| --- | --- |',
+                '| web-1 | 3 |',
+                '```',
+                ''
+            ].join('\n'));
+            const blocks = DocumentParser.parseDocument(document);
+
+            assert.strictEqual(DocumentParser.findExpectation(document, blocks[0], blocks), undefined);
+            const expectation = DocumentParser.findExpectation(document, blocks[1], blocks)!;
+            assert.strictEqual(expectation.format, 'table');
+            assert.strictEqual(expectation.text, '| host | count |\n| --- | --- |\n| web-1 | 3 |');
+            assert.strictEqual(expectation.block!.range.start.line, 8);
+            assert.strictEqual(expectation.block!.range.end.line, 12);
+        });
+
+        test('should parse RST expected directives', () => {
+            const document = createMockDocument([
+                '.. code-block:: expected',
+                '',
+                '   [',
+                '     {"a": 1}',
+                '   ]',
+                '',
+                'Next paragraph'
+            ].join('\n'), 'restructuredtext');
+
+            const [expected] = DocumentParser.parseExpectedBlocks(document);
+            assert.strictEqual(expected.content, '[\n  {"a": 1}\n]');
+            assert.strictEqual(expected.range.end.line, 4);
+        });
+    });
+
+    suite('check', () => {
+        test('should compare row counts', () => {
+            assert.ok(SnapshotAssertion.check(expect('rows: 2'), result).passed);
+
+            const outcome = SnapshotAssertion.check(expect('3'), result);
+            assert.strictEqual(outcome.passed, false);
+            assert.strictEqual(outcome.message, 'Expected 3 rows, got 2');
+        });
+
+        test('should compare selected table columns as text', () => {
+            const table = '| host | note |\n| --- | --- |\n| web-1 | a\\|b |\n| web-2 |  |';
+            assert.ok(SnapshotAssertion.check(expect(table), result).passed);
+
+            const outcome = SnapshotAssertion.check(expect('| host | count |\n|---|---|\n| web-1 | 3 |\n| web-2 | 2 |'), result);
+            assert.strictEqual(outcome.message, 'Row 2 differs from the expected table');
+            assert.ok(outcome.actual.includes('| web-2 | 1 |'));
+        });
+
+        test('should report missing columns', () => {
+            const outcome = SnapshotAssertion.check(expect('| host | status |\n| --- | --- |'), result);
+
+            assert.strictEqual(outcome.message, 'Result has no column status');
+        });
+
+        test('should compare JSON regardless of key order', () => {
+            const json = '[{"count": 3, "host": "web-1", "note": "a|b"}, {"note": null, "host": "web-2", "count": 1}]';
+            assert.ok(SnapshotAssertion.check(expect(json), result).passed);
+
+            const outcome = SnapshotAssertion.check(expect('{ not json'), result);
+            assert.strictEqual(outcome.passed, false);
+            assert.ok(outcome.message.startsWith('Expected result is not valid JSON'));
+        });
+
+        test('should fail when the query fails', () => {
+            const outcome = SnapshotAssertion.check(expect('1'), { success: false, error: 'boom', executionTime: 1, executedAt: new Date() });
+
+            assert.strictEqual(outcome.message, 'Query failed: boom');
+        });
+    });
+
+    suite('Snapshots', () => {
+        test('should write snapshots that pass their own check', () => {
+            for (const format of ['rowCount', 'table', 'json'] as const) {
+                const text = SnapshotAssertion.formatSnapshot(result, format);
+                assert.ok(SnapshotAssertion.check({ format, text }, result).passed, format);
+            }
+        });
+
+        test('should format expected blocks for Markdown and RST', () => {
+            assert.strictEqual(SnapshotAssertion.formatExpectedBlock('2 rows', false), '```expected\n2 rows\n```');
+            assert.strictEqual(SnapshotAssertion.formatExpectedBlock('[\n\n1]', true), '.. code-block:: expected\n\n   [\n\n   1]');
+        });
+    });
+});
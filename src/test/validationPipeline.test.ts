@@ -322,6 +322,33 @@ suite('ValidationPipeline Tests', () => {
         });
     });
 
+    suite('collectIssues', () => {
+        test('should report failed rules as a single error', () => {
+            const issues = ValidationPipeline.collectIssues('{"query":', QueryType.OPENSEARCH_API, { method: 'POST', endpoint: '/logs/_search' });
+
+            assert.deepStrictEqual(issues, [{ severity: 'error', message: 'Invalid JSON in request body' }]);
+        });
+
+        test('should warn about unknown PPL commands with their position', () => {
+            const query = 'source = logs | where status = 500 | stat count() by host';
+            const issues = ValidationPipeline.collectIssues(query, QueryType.PPL);
+
+            assert.deepStrictEqual(issues, [{ severity: 'warning', message: 'Unknown PPL command: stat', offset: query.indexOf('stat '), length: 4 }]);
+        });
+
+        test('should warn about suspicious query content', () => {
+            const issues = ValidationPipeline.collectIssues('UPDATE logs SET a = 1', QueryType.SQL);
+
+            assert.strictEqual(issues.length, 1);
+            assert.strictEqual(issues[0].severity, 'warning');
+            assert.ok(issues[0].message.includes('SQL query must start with one of'));
+        });
+
+        test('should report nothing for valid queries', () => {
+            assert.deepStrictEqual(ValidationPipeline.collectIssues("source=logs | where msg = 'a | b' | head 5", QueryType.PPL), []);
+        });
+    });
+
     suite('createContext', () => {
         test('should create basic validation context', () => {
             const context = ValidationPipeline.createContext(
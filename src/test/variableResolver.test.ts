@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { VariableResolver } from '../utils/variableResolver';
+
+suite('VariableResolver Tests', () => {
+    suite('substitute', () => {
+        test('should replace defined variables', () => {
+            const result = VariableResolver.substitute('GET /{{index}}/_search?size={{ size }}', { index: 'logs', size: '5' });
+
+            assert.strictEqual(result, 'GET /logs/_search?size=5');
+        });
+
+        test('should leave undefined variables untouched', () => {
+            const template = '{ "source": { "query": { "match": { "message": "{{query_string}}" } } } }';
+
+            assert.strictEqual(VariableResolver.substitute(template, { index: 'logs' }), template);
+        });
+
+        test('should not interpret replacement patterns in values', () => {
+            assert.strictEqual(VariableResolver.substitute('{{value}}', { value: '$&$1' }), '$&$1');
+        });
+
+        test('should not resolve inherited object properties', () => {
+            assert.strictEqual(VariableResolver.substitute('{{constructor}}', {}), '{{constructor}}');
+        });
+    });
+
+    suite('findReferences', () => {
+        test('should list each referenced name once', () => {
+            assert.deepStrictEqual(
+                VariableResolver.findReferences('SELECT * FROM {{index}} WHERE a = {{a}} OR b = {{index}}'),
+                ['index', 'a']
+            );
+        });
+    });
+
+    suite('substituteOverrides', () => {
+        test('should substitute endpoint, auth and TLS values', () => {
+            const result = VariableResolver.substituteOverrides({
+                endpoint: '{{host}}',
+                auth: { type: 'basic', username: '{{user}}', password: '${secret:prod}' },
+                tls: { caFile: '{{certs}}/ca.pem', rejectUnauthorized: false },
+                timeout: 5000
+            }, { host: 'https://prod:9200', user: 'reader', certs: '/etc/ssl' });
+
+            assert.strictEqual(result?.endpoint, 'https://prod:9200');
+            assert.strictEqual(result?.auth?.username, 'reader');
+            assert.strictEqual(result?.auth?.password, '${secret:prod}');
+            assert.strictEqual(result?.tls?.caFile, '/etc/ssl/ca.pem');
+            assert.strictEqual(result?.tls?.rejectUnauthorized, false);
+            assert.strictEqual(result?.timeout, 5000);
+        });
+    });
+});
@@ -15,54 +15,203 @@ export enum HttpMethod {
     PATCH = 'PATCH'
 }
 
+export type AuthType = 'none' | 'basic' | 'apikey' | 'aws-sigv4' | 'oidc';
+
+export type OidcFlow = 'static' | 'client-credentials' | 'device-code';
+
+export type AwsService = 'es' | 'aoss';
+
+export interface AuthSettings {
+    type?: AuthType;
+    username?: string;
+    password?: string;
+    apiKey?: string;
+    // aws-sigv4
+    region?: string;
+    service?: AwsService;
+    awsProfile?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    sessionToken?: string;
+    // oidc
+    oidcFlow?: OidcFlow;
+    // Bearer token for the `static` flow
+    token?: string;
+    tokenEndpoint?: string;
+    deviceAuthorizationEndpoint?: string;
+    clientId?: string;
+    clientSecret?: string;
+    scope?: string;
+}
+
+export interface TlsOptions {
+    caFile?: string;
+    certFile?: string;
+    keyFile?: string;
+    rejectUnauthorized?: boolean;
+}
+
+export interface ProxyOptions {
+    // e.g. `http://proxy.corp:3128`; credentials may be part of the URL
+    url?: string;
+    username?: string;
+    password?: string;
+    // Comma-separated hosts reached without the proxy, e.g. `localhost,.internal.corp`
+    noProxy?: string;
+    // Verify certificates of connections through the proxy
+    strictSSL?: boolean;
+}
+
+export interface RetryOptions {
+    // Retries after the first attempt; 0 turns retrying off
+    maxRetries?: number;
+    // Milliseconds before the first retry, doubled for each further retry up to maxDelay
+    initialDelay?: number;
+    maxDelay?: number;
+    // Also retry requests that may change the cluster, such as POST to `_doc` or `_bulk`
+    retryNonIdempotent?: boolean;
+}
+
+export type NodeSelection = 'failover' | 'round-robin';
+
+export interface NodeOptions {
+    // Further node URLs of the cluster, tried after or alternately with the endpoint
+    urls?: string[];
+    // `failover` sends every request to the first live node, `round-robin` alternates
+    selection?: NodeSelection;
+    // Discover the HTTP addresses of the nodes through `_nodes/http`
+    sniff?: boolean;
+    sniffIntervalMinutes?: number;
+}
+
+/**
+ * One attempt of a retried request, as shown in the Raw Response tab
+ */
+export interface RequestAttempt {
+    responseInfo?: QueryResult['responseInfo'];
+    rawResponse?: any;
+    // Connection error or HTTP error message; absent for a successful attempt
+    error?: string;
+    // Milliseconds waited before the next attempt
+    retryDelay?: number;
+}
+
 export interface OpenSearchConfig {
     endpoint: string;
-    auth: {
-        type: 'none' | 'basic' | 'apikey';
-        username?: string;
-        password?: string;
-        apiKey?: string;
-    };
+    auth: AuthSettings & { type: AuthType };
     timeout: number;
+    tls?: TlsOptions;
+    proxy?: ProxyOptions;
+    retry?: RetryOptions;
+    nodes?: NodeOptions;
+    connection?: string;
     maxHistoryItems: number;
     enableCodeLens: boolean;
 }
 
+/**
+ * Named connection profile from the `opensearch.connections` setting
+ */
+export interface ConnectionProfile {
+    endpoint: string;
+    auth?: AuthSettings;
+    timeout?: number;
+    tls?: TlsOptions;
+    proxy?: ProxyOptions;
+    retry?: RetryOptions;
+    nodes?: NodeOptions;
+}
+
 export interface ConnectionOverrides {
+    connection?: string;
     endpoint?: string;
-    auth?: {
-        type?: 'none' | 'basic' | 'apikey';
-        username?: string;
-        password?: string;
-        apiKey?: string;
-    };
+    auth?: AuthSettings;
     timeout?: number;
+    tls?: TlsOptions;
+    proxy?: ProxyOptions;
+    retry?: RetryOptions;
+    nodes?: NodeOptions;
+    variables?: Record<string, string>;
+}
+
+/**
+ * Line and character in a text, as used by the parsers. `vscode.Position` satisfies it,
+ * so the parsing core does not depend on VS Code.
+ */
+export interface TextPosition {
+    readonly line: number;
+    readonly character: number;
+}
+
+export interface TextRange {
+    readonly start: TextPosition;
+    readonly end: TextPosition;
+}
+
+/**
+ * Text read by the parsers; `vscode.TextDocument` satisfies it
+ */
+export interface TextSource {
+    readonly languageId?: string;
+    getText(): string;
+    positionAt(offset: number): TextPosition;
 }
 
-export interface ConfigurationBlock {
+// Blocks carry a vscode.Range in the extension and a plain TextRange in the parsers and CLI
+export interface ConfigurationBlock<R extends TextRange = vscode.Range> {
     config: ConnectionOverrides;
-    range: vscode.Range;
+    range: R;
     position: number;
 }
 
-export interface QueryBlock {
+export interface QueryBlock<R extends TextRange = vscode.Range> {
     type: QueryType;
     content: string;
-    range: vscode.Range;
+    range: R;
     metadata?: QueryMetadata;
     connectionOverrides?: ConnectionOverrides;
 }
 
 export interface QueryMetadata {
+    name?: string;
     connection?: string;
     timeout?: number;
     description?: string;
     method?: string;
     endpoint?: string;
+    fetchSize?: number;
+    // Retries from `-- Retries:`, replacing the connection's maxRetries
+    retries?: number;
+    // Expected result from `-- Expect:`: a row count or JSON
+    expect?: string;
+}
+
+/**
+ * An `expected` code block holding the expected result of the query block before it
+ */
+export interface ExpectedBlock<R extends TextRange = vscode.Range> {
+    content: string;
+    // The whole block including its fence or directive, replaced when the snapshot is updated
+    range: R;
+}
+
+export type ExpectationFormat = 'json' | 'table' | 'rowCount';
+
+/**
+ * The expected result of a query block
+ */
+export interface Expectation<R extends TextRange = vscode.Range> {
+    format: ExpectationFormat;
+    text: string;
+    // The `expected` block it comes from; undefined for `-- Expect:` metadata
+    block?: ExpectedBlock<R>;
 }
 
 export interface QueryResult {
     success: boolean;
+    cancelled?: boolean;
+    // Why a cancelled query could not be cancelled on the cluster as well
+    cancelError?: string;
     data?: any;
     error?: string;
     executionTime: number;
@@ -70,6 +219,8 @@ export interface QueryResult {
     rowCount?: number;
     columns?: string[];
     rawResponse?: any;
+    // SQL/PPL cursor for the next page, present while more rows are available
+    cursor?: string;
     requestInfo?: {
         method?: string;
         endpoint?: string;
@@ -84,7 +235,16 @@ export interface QueryResult {
     connectionInfo?: {
         endpoint: string;
         authType: string;
+        connectionName?: string;
+        // Proxy URL without credentials
+        proxy?: string;
+        // Node that served the request, for connections with several nodes
+        node?: string;
+        // Why the last sniff failed; the previously known nodes are used meanwhile
+        sniffError?: string;
     };
+    // Every attempt, oldest first, when the request was retried
+    attempts?: RequestAttempt[];
 }
 
 export interface QueryHistoryItem {
@@ -97,6 +257,17 @@ export interface QueryHistoryItem {
     explainResult?: QueryResult;
 }
 
+export type ResultPersistence = 'none' | 'details' | 'sidecar';
+
+/**
+ * A result saved with the document it was run from, see `opensearch.inlineResults.persist`
+ */
+export interface StoredResult {
+    query: string;
+    queryType: QueryType;
+    result: QueryResult;
+}
+
 export interface OpenSearchResponse {
     took?: number;
     timed_out?: boolean;
@@ -114,11 +285,13 @@ export interface OpenSearchResponse {
         max_score: number;
         hits: any[];
     };
+    aggregations?: Record<string, any>;
     schema?: Array<{
         name: string;
         type: string;
     }>;
     datarows?: any[][];
+    cursor?: string;
     total?: number;
     size?: number;
     status?: number;
@@ -136,6 +309,44 @@ export interface ConnectionTestResult {
     version?: string;
 }
 
+// `sign-in-required`: an OIDC connection has no token that can be used without signing in
+export type ClusterHealthStatus = 'green' | 'yellow' | 'red' | 'unreachable' | 'sign-in-required';
+
+/**
+ * Result of a `_cluster/health` check of the active connection
+ */
+export interface ClusterHealth {
+    status: ClusterHealthStatus;
+    clusterName?: string;
+    version?: string;
+    numberOfNodes?: number;
+    unassignedShards?: number;
+    // Why the cluster could not be reached or checked
+    error?: string;
+}
+
+export type BlockRunStatus = 'success' | 'failed' | 'skipped' | 'cancelled';
+
+/**
+ * Outcome of one block in a Run All / Run Blocks in Selection run
+ */
+export interface BlockRunSummary {
+    index: number;
+    line: number;
+    type: QueryType;
+    name?: string;
+    preview: string;
+    status: BlockRunStatus;
+    executionTime?: number;
+    rowCount?: number;
+    error?: string;
+    result?: QueryResult;
+}
+
+export interface BlockRunOptions {
+    stopOnFailure: boolean;
+}
+
 export enum DisplayMode {
     Inline = 'inline',
     SeparateTab = 'separateTab'
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuthSettings } from '../types';
+import { AwsCredentials } from './awsSigV4';
+import { SecretResolver } from './secretResolver';
+
+/**
+ * Resolves AWS credentials and region for SigV4 authentication.
+ *
+ * Credentials are taken from, in order: explicit keys in the auth config,
+ * the named shared credentials/config profile, the AWS_* environment
+ * variables, and finally the AWS_PROFILE (or `default`) profile.
+ */
+export class AwsCredentialProvider {
+    public static async resolveCredentials(
+        auth: AuthSettings,
+        secretResolver?: SecretResolver,
+        env: NodeJS.ProcessEnv = process.env
+    ): Promise<AwsCredentials> {
+        if (auth.accessKeyId && auth.secretAccessKey) {
+            return {
+                accessKeyId: await this.resolveValue(auth.accessKeyId, secretResolver) as string,
+                secretAccessKey: await this.resolveValue(auth.secretAccessKey, secretResolver) as string,
+                sessionToken: await this.resolveValue(auth.sessionToken, secretResolver)
+            };
+        }
+
+        if (auth.awsProfile) {
+            const fromProfile = this.readProfileCredentials(auth.awsProfile, env);
+            if (!fromProfile) {
+                throw new Error(`AWS profile "${auth.awsProfile}" has no credentials`);
+            }
+            return fromProfile;
+        }
+
+        if (env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY) {
+            return {
+                accessKeyId: env.AWS_ACCESS_KEY_ID,
+                secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+                sessionToken: env.AWS_SESSION_TOKEN || undefined
+            };
+        }
+
+        const fromDefaultProfile = this.readProfileCredentials(env.AWS_PROFILE || 'default', env);
+        if (fromDefaultProfile) {
+            return fromDefaultProfile;
+        }
+
+        throw new Error('No AWS credentials found. Set access keys, an AWS profile, or AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY');
+    }
+
+    public static resolveRegion(auth: AuthSettings, env: NodeJS.ProcessEnv = process.env): string {
+        const region = auth.region
+            || env.AWS_REGION
+            || env.AWS_DEFAULT_REGION
+            || this.readProfileSection(this.getConfigFile(env), auth.awsProfile || env.AWS_PROFILE || 'default', true)?.region;
+
+        if (!region) {
+            throw new Error('AWS region is required for aws-sigv4 authentication');
+        }
+        return region;
+    }
+
+    private static async resolveValue(value: string | undefined, secretResolver?: SecretResolver): Promise<string | undefined> {
+        if (!SecretResolver.containsReference(value)) {
+            return value;
+        }
+        if (!secretResolver) {
+            throw new Error('Secret references require VS Code SecretStorage');
+        }
+        return secretResolver.resolve(value);
+    }
+
+    private static readProfileCredentials(profile: string, env: NodeJS.ProcessEnv): AwsCredentials | undefined {
+        // Credentials may live in either file; the credentials file wins
+        const section = this.readProfileSection(this.getCredentialsFile(env), profile, false)
+            || this.readProfileSection(this.getConfigFile(env), profile, true);
+
+        if (!section?.aws_access_key_id || !section.aws_secret_access_key) {
+            return undefined;
+        }
+
+        return {
+            accessKeyId: section.aws_access_key_id,
+            secretAccessKey: section.aws_secret_access_key,
+            sessionToken: section.aws_session_token
+        };
+    }
+
+    private static getCredentialsFile(env: NodeJS.ProcessEnv): string {
+        return env.AWS_SHARED_CREDENTIALS_FILE || path.join(os.homedir(), '.aws', 'credentials');
+    }
+
+    private static getConfigFile(env: NodeJS.ProcessEnv): string {
+        return env.AWS_CONFIG_FILE || path.join(os.homedir(), '.aws', 'config');
+    }
+
+    /**
+     * Reads one section of an AWS INI file. Sections in the config file are
+     * named `[profile name]`, except for `[default]`.
+     */
+    private static readProfileSection(file: string, profile: string, isConfigFile: boolean): Record<string, string> | undefined {
+        let content: string;
+        try {
+            content = fs.readFileSync(file, 'utf8');
+        } catch {
+            return undefined;
+        }
+
+        const sectionName = isConfigFile && profile !== 'default' ? `profile ${profile}` : profile;
+        const sections = this.parseIni(content);
+        return sections[sectionName];
+    }
+
+    public static parseIni(content: string): Record<string, Record<string, string>> {
+        const sections: Record<string, Record<string, string>> = {};
+        let current: Record<string, string> | undefined;
+
+        for (const line of content.split(/\r?\n/)) {
+            const trimmedLine = line.trim();
+            if (!trimmedLine || trimmedLine.startsWith('#') || trimmedLine.startsWith(';')) {
+                continue;
+            }
+
+            const sectionMatch = trimmedLine.match(/^\[\s*(.+?)\s*\]$/);
+            if (sectionMatch) {
+                current = sections[sectionMatch[1]] = sections[sectionMatch[1]] || {};
+                continue;
+            }
+
+            const valueMatch = trimmedLine.match(/^([^=]+?)\s*=\s*(.*)$/);
+            if (valueMatch && current) {
+                current[valueMatch[1].toLowerCase()] = valueMatch[2];
+            }
+        }
+
+        return sections;
+    }
+}
@@ -0,0 +1,147 @@
+import * as crypto from 'crypto';
+
+export interface AwsCredentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+}
+
+export interface SignableRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+/**
+ * AWS Signature Version 4 request signing for Amazon OpenSearch Service (`es`)
+ * and OpenSearch Serverless (`aoss`)
+ */
+export class AwsSigV4Signer {
+    private static readonly ALGORITHM = 'AWS4-HMAC-SHA256';
+
+    /**
+     * Computes the headers to add to a request so that it is signed.
+     * Only `host` and `x-amz-*` headers are signed, since other headers
+     * may still be rewritten by the HTTP client.
+     */
+    public static sign(
+        request: SignableRequest,
+        credentials: AwsCredentials,
+        region: string,
+        service: string,
+        now: Date = new Date()
+    ): Record<string, string> {
+        const url = new URL(request.url);
+        const amzDate = this.formatAmzDate(now);
+        const dateStamp = amzDate.substring(0, 8);
+        const payloadHash = this.sha256Hex(request.body || '');
+
+        const signedHeaders: Record<string, string> = {
+            'host': url.host,
+            'x-amz-date': amzDate
+        };
+        for (const [name, value] of Object.entries(request.headers)) {
+            const lowerName = name.toLowerCase();
+            if (lowerName.startsWith('x-amz-')) {
+                signedHeaders[lowerName] = value;
+            }
+        }
+        if (credentials.sessionToken) {
+            signedHeaders['x-amz-security-token'] = credentials.sessionToken;
+        }
+
+        const canonicalRequest = this.buildCanonicalRequest(request.method, url, signedHeaders, payloadHash);
+        const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
+        const stringToSign = [
+            this.ALGORITHM,
+            amzDate,
+            credentialScope,
+            this.sha256Hex(canonicalRequest)
+        ].join('\n');
+
+        const signingKey = this.deriveSigningKey(credentials.secretAccessKey, dateStamp, region, service);
+        const signature = crypto.createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+        const signedHeaderNames = Object.keys(signedHeaders).sort().join(';');
+
+        const headers: Record<string, string> = {
+            'X-Amz-Date': amzDate,
+            'Authorization': `${this.ALGORITHM} Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`
+        };
+        if (credentials.sessionToken) {
+            headers['X-Amz-Security-Token'] = credentials.sessionToken;
+        }
+
+        return headers;
+    }
+
+    /**
+     * Builds the canonical request string defined by the SigV4 specification
+     */
+    public static buildCanonicalRequest(
+        method: string,
+        url: URL,
+        signedHeaders: Record<string, string>,
+        payloadHash: string
+    ): string {
+        const canonicalHeaderNames = Object.keys(signedHeaders).map(name => name.toLowerCase()).sort();
+        const lowerCaseHeaders: Record<string, string> = {};
+        for (const [name, value] of Object.entries(signedHeaders)) {
+            lowerCaseHeaders[name.toLowerCase()] = value;
+        }
+
+        const canonicalHeaders = canonicalHeaderNames
+            .map(name => `${name}:${String(lowerCaseHeaders[name]).trim().replace(/\s+/g, ' ')}\n`)
+            .join('');
+
+        return [
+            method.toUpperCase(),
+            this.canonicalPath(url.pathname),
+            this.canonicalQuery(url.searchParams),
+            canonicalHeaders,
+            canonicalHeaderNames.join(';'),
+            payloadHash
+        ].join('\n');
+    }
+
+    public static sha256Hex(value: string): string {
+        return crypto.createHash('sha256').update(value, 'utf8').digest('hex');
+    }
+
+    private static canonicalPath(pathname: string): string {
+        // Non-S3 services expect every path segment to be encoded once more
+        // on top of the encoding already present in the request path
+        const segments = pathname.split('/').map(segment => this.escapeUri(segment));
+        const path = segments.join('/');
+        return path || '/';
+    }
+
+    private static canonicalQuery(params: URLSearchParams): string {
+        const pairs: Array<[string, string]> = [];
+        params.forEach((value, key) => {
+            pairs.push([this.escapeUri(key), this.escapeUri(value)]);
+        });
+
+        return pairs
+            .sort(([keyA, valueA], [keyB, valueB]) => keyA === keyB
+                ? (valueA < valueB ? -1 : valueA > valueB ? 1 : 0)
+                : (keyA < keyB ? -1 : 1))
+            .map(([key, value]) => `${key}=${value}`)
+            .join('&');
+    }
+
+    private static escapeUri(value: string): string {
+        return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    }
+
+    private static deriveSigningKey(secretAccessKey: string, dateStamp: string, region: string, service: string): Buffer {
+        const kDate = crypto.createHmac('sha256', `AWS4${secretAccessKey}`).update(dateStamp, 'utf8').digest();
+        const kRegion = crypto.createHmac('sha256', kDate).update(region, 'utf8').digest();
+        const kService = crypto.createHmac('sha256', kRegion).update(service, 'utf8').digest();
+        return crypto.createHmac('sha256', kService).update('aws4_request', 'utf8').digest();
+    }
+
+    private static formatAmzDate(date: Date): string {
+        return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    }
+}
@@ -0,0 +1,89 @@
+import { ClusterHealth, ClusterHealthStatus } from '../types';
+
+export type HealthChangeSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * Formats cluster health checks for the status bar and its notifications
+ */
+export class ClusterHealthFormatter {
+    private static readonly STATUS_ICONS: Record<ClusterHealthStatus, string> = {
+        green: '✓',
+        yellow: '⚠',
+        red: '✗',
+        unreachable: '✗',
+        'sign-in-required': '🔑'
+    };
+
+    private static readonly STATUS_SEVERITIES: Record<ClusterHealthStatus, HealthChangeSeverity> = {
+        green: 'info',
+        yellow: 'warning',
+        red: 'error',
+        unreachable: 'error',
+        'sign-in-required': 'warning'
+    };
+
+    public static getIcon(status: ClusterHealthStatus): string {
+        return this.STATUS_ICONS[status];
+    }
+
+    /**
+     * Status bar tooltip with the cluster name, version, node count and unassigned shards
+     */
+    public static formatTooltip(health: ClusterHealth, checkedAt: Date): string {
+        const lines: string[] = [];
+        if (health.status === 'unreachable') {
+            lines.push(`OpenSearch cluster unreachable: ${health.error || 'Unknown error'}`);
+        } else if (health.status === 'sign-in-required') {
+            lines.push(health.error || 'OIDC sign-in required');
+        } else {
+            const version = health.version ? ` (OpenSearch ${health.version})` : '';
+            lines.push(`Cluster: ${health.clusterName || 'unknown'}${version}`);
+            lines.push(`Health: ${health.status}`);
+            if (health.numberOfNodes !== undefined) {
+                lines.push(`Nodes: ${health.numberOfNodes}`);
+            }
+            if (health.unassignedShards !== undefined) {
+                lines.push(`Unassigned shards: ${health.unassignedShards}`);
+            }
+        }
+        lines.push(`Checked: ${checkedAt.toLocaleTimeString()}`);
+        lines.push('Click to switch connection');
+        return lines.join('\n');
+    }
+
+    /**
+     * Notification for a change between two checks of the same connection, or
+     * undefined when nothing changed. The first check only notifies when the cluster
+     * is unreachable or red. A missing sign-in is only shown in the status bar:
+     * it is no change of the cluster.
+     */
+    public static getChangeMessage(
+        label: string,
+        previous: ClusterHealth | undefined,
+        current: ClusterHealth
+    ): { severity: HealthChangeSeverity; message: string } | undefined {
+        if (previous?.status === current.status) {
+            return undefined;
+        }
+        if (previous?.status === 'sign-in-required' || current.status === 'sign-in-required') {
+            return undefined;
+        }
+
+        const name = current.clusterName || previous?.clusterName || label;
+        if (current.status === 'unreachable') {
+            return { severity: 'error', message: `OpenSearch cluster ${name} is unreachable: ${current.error || 'Unknown error'}` };
+        }
+        if (!previous) {
+            return current.status === 'red'
+                ? { severity: 'error', message: `OpenSearch cluster ${name} health is red` }
+                : undefined;
+        }
+        if (previous.status === 'unreachable') {
+            return { severity: this.STATUS_SEVERITIES[current.status], message: `OpenSearch cluster ${name} is reachable again (health: ${current.status})` };
+        }
+        return {
+            severity: this.STATUS_SEVERITIES[current.status],
+            message: `OpenSearch cluster ${name} health changed from ${previous.status} to ${current.status}`
+        };
+    }
+}
@@ -1,12 +1,16 @@
 import { QueryResult, OpenSearchConfig, ConnectionOverrides } from '../types';
+import { ProxyAgentFactory } from './proxyAgentFactory';
 
 export class ConnectionInfoManager {
     /**
-     * Creates connection info object from config and overrides
+     * Creates connection info object from config and overrides, with the node that
+     * served the request and a failed sniff for connections with several nodes
      */
     public static createConnectionInfo(
         config: OpenSearchConfig | null,
-        overrides?: ConnectionOverrides
+        overrides?: ConnectionOverrides,
+        node?: string,
+        sniffError?: string
     ): QueryResult['connectionInfo'] {
         if (!config) {
             return {
@@ -15,10 +19,40 @@ export class ConnectionInfoManager {
             };
         }
 
-        return {
+        const connectionInfo: QueryResult['connectionInfo'] = {
             endpoint: overrides?.endpoint || config.endpoint,
             authType: overrides?.auth?.type || config.auth.type
         };
+
+        const connectionName = overrides?.endpoint ? overrides.connection : (overrides?.connection || config.connection);
+        if (connectionName) {
+            connectionInfo.connectionName = connectionName;
+        }
+
+        const proxy = this.resolveProxy(connectionInfo.endpoint, config, overrides);
+        if (proxy) {
+            connectionInfo.proxy = proxy;
+        }
+
+        if (node) {
+            connectionInfo.node = node;
+        }
+
+        if (sniffError) {
+            connectionInfo.sniffError = sniffError;
+        }
+
+        return connectionInfo;
+    }
+
+    private static resolveProxy(endpoint: string, config: OpenSearchConfig, overrides?: ConnectionOverrides): string | undefined {
+        try {
+            const proxyUrl = ProxyAgentFactory.resolveProxy(endpoint, { ...config.proxy, ...overrides?.proxy });
+            return proxyUrl ? ProxyAgentFactory.describe(proxyUrl) : undefined;
+        } catch {
+            // An invalid proxy URL fails the request itself with a clearer message
+            return undefined;
+        }
     }
 
     /**
@@ -27,9 +61,11 @@ export class ConnectionInfoManager {
     public static addConnectionInfo(
         response: any,
         config: OpenSearchConfig | null,
-        overrides?: ConnectionOverrides
+        overrides?: ConnectionOverrides,
+        node?: string,
+        sniffError?: string
     ): any {
-        response.connectionInfo = this.createConnectionInfo(config, overrides);
+        response.connectionInfo = this.createConnectionInfo(config, overrides, node, sniffError);
         return response;
     }
 
@@ -46,6 +82,9 @@ export class ConnectionInfoManager {
         if (source.responseInfo) {
             target.responseInfo = source.responseInfo;
         }
+        if (source.attempts) {
+            target.attempts = source.attempts;
+        }
         return target;
     }
 
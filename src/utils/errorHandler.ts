@@ -68,6 +68,33 @@ export class ErrorHandler {
         return errorResponse;
     }
 
+    /**
+     * Create the response for a query cancelled by the user
+     */
+    public static createCancelledResponse(startTime: number, response?: any): QueryResult {
+        const cancelledResponse: QueryResult = {
+            success: false,
+            cancelled: true,
+            error: 'Query cancelled',
+            executionTime: Date.now() - startTime,
+            executedAt: new Date(startTime)
+        };
+
+        if (response?.requestInfo) {
+            cancelledResponse.requestInfo = response.requestInfo;
+        }
+
+        if (response?.connectionInfo) {
+            cancelledResponse.connectionInfo = response.connectionInfo;
+        }
+
+        if (response?.cancelError) {
+            cancelledResponse.cancelError = response.cancelError;
+        }
+
+        return cancelledResponse;
+    }
+
     /**
      * Create a standardized error response from OpenSearch API response
      */
@@ -94,6 +121,10 @@ export class ErrorHandler {
         if (response.connectionInfo) {
             errorResponse.connectionInfo = response.connectionInfo;
         }
+
+        if (response.attempts) {
+            errorResponse.attempts = response.attempts;
+        }
         
         return errorResponse;
     }
@@ -155,21 +186,27 @@ export class ErrorHandler {
             errorDetails.method = error.config?.method?.toUpperCase() || 'Unknown Method';
             
             // Add specific connection error details
-            if (error.type === 'ECONNREFUSED') {
+            const code = error.code || error.type;
+            if (code === 'ECONNREFUSED') {
                 errorDetails.details = 'Connection refused - server may be down or unreachable';
-            } else if (error.type === 'ENOTFOUND') {
+            } else if (code === 'ENOTFOUND') {
                 errorDetails.details = 'DNS resolution failed - hostname not found';
-            } else if (error.type === 'ETIMEDOUT') {
+            } else if (code === 'ETIMEDOUT') {
                 errorDetails.details = 'Connection timeout - server took too long to respond';
-            } else if (error.type === 'ECONNRESET') {
+            } else if (code === 'ECONNRESET') {
                 errorDetails.details = 'Connection reset by server';
-            } else if (error.type === 'CERT_HAS_EXPIRED') {
+            } else if (code === 'CERT_HAS_EXPIRED') {
                 errorDetails.details = 'SSL certificate has expired';
-            } else if (error.type === 'UNABLE_TO_VERIFY_LEAF_SIGNATURE') {
-                errorDetails.details = 'SSL certificate verification failed';
+            } else if (this.getTlsHint(error)) {
+                errorDetails.details = 'TLS handshake or certificate verification failed';
             } else {
                 errorDetails.details = 'Network request failed - check connection and server availability';
             }
+
+            const hint = this.getTlsHint(error);
+            if (hint) {
+                errorDetails.hint = hint;
+            }
             
             if (error.config?.timeout) {
                 errorDetails.timeout = `${error.config.timeout}ms`;
@@ -198,4 +235,33 @@ export class ErrorHandler {
 
         return errorDetails;
     }
+
+    /**
+     * Suggest the TLS setting that fixes a certificate or handshake error
+     */
+    public static getTlsHint(error: any): string | undefined {
+        const code = error?.code || error?.type;
+        const message = String(error?.message || '').toLowerCase();
+
+        switch (code) {
+            case 'DEPTH_ZERO_SELF_SIGNED_CERT':
+            case 'SELF_SIGNED_CERT_IN_CHAIN':
+            case 'UNABLE_TO_GET_ISSUER_CERT_LOCALLY':
+            case 'UNABLE_TO_VERIFY_LEAF_SIGNATURE':
+                return 'The server certificate is not trusted. Point opensearch.tls.caFile (or @ca_file) at the CA that signed it, '
+                    + 'or set @reject_unauthorized = \'false\' for development clusters.';
+            case 'CERT_HAS_EXPIRED':
+                return 'The server certificate has expired. Renew it on the cluster, '
+                    + 'or set @reject_unauthorized = \'false\' until it is replaced.';
+            case 'ERR_TLS_CERT_ALTNAME_INVALID':
+                return 'The server certificate does not match the endpoint hostname. Use a hostname listed in the certificate.';
+        }
+
+        if (message.includes('certificate required') || message.includes('bad certificate') || message.includes('handshake failure')) {
+            return 'The server requires a client certificate. Set opensearch.tls.certFile and opensearch.tls.keyFile '
+                + '(or @client_cert and @client_key).';
+        }
+
+        return undefined;
+    }
 }
@@ -0,0 +1,16 @@
+/**
+ * Centralized HTML utility functions
+ */
+export class HtmlUtils {
+    /**
+     * Escapes HTML characters to prevent XSS
+     */
+    public static escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+}
@@ -1,4 +1,5 @@
-import { QueryResult } from '../types';
+import { QueryResult, RequestAttempt } from '../types';
+import { HtmlUtils } from './htmlUtils';
 import { YamlConverter } from './yamlConverter';
 
 export class HttpFormatter {
@@ -63,6 +64,19 @@ export class HttpFormatter {
         return rawResponse;
     }
 
+    /**
+     * One line per attempt of a retried request, e.g. `Attempt 1: HTTP 503 Service Unavailable, retried after 480ms`
+     */
+    public static formatAttempts(attempts: RequestAttempt[]): string {
+        return attempts.map((attempt, index) => {
+            const outcome = attempt.responseInfo
+                ? `HTTP ${attempt.responseInfo.status} ${attempt.responseInfo.statusText || ''}`.trim()
+                : attempt.error || 'No response';
+            const retry = attempt.retryDelay !== undefined ? `, retried after ${attempt.retryDelay}ms` : '';
+            return `Attempt ${index + 1}: ${outcome}${retry}`;
+        }).join('\n');
+    }
+
     /**
      * Generates HTML section for raw HTTP request
      */
@@ -86,8 +100,8 @@ export class HttpFormatter {
                             <button id="${connectionCopyId}" class="copy-btn" onclick="copyToClipboard('${connectionId}', '${connectionCopyId}')">Copy</button>
                         </div>
                         <div id="${connectionId}" class="json-container">
-                            <pre>Endpoint: ${result.connectionInfo.endpoint}
-Auth: ${result.connectionInfo.authType}</pre>
+                            <pre>${result.connectionInfo.connectionName ? `Connection: ${result.connectionInfo.connectionName}\n` : ''}Endpoint: ${result.connectionInfo.endpoint}${result.connectionInfo.node ? `\nNode: ${result.connectionInfo.node}` : ''}
+Auth: ${result.connectionInfo.authType}${result.connectionInfo.proxy ? `\nProxy: ${result.connectionInfo.proxy}` : ''}${result.connectionInfo.sniffError ? `\nSniffing failed: ${HtmlUtils.escapeHtml(result.connectionInfo.sniffError)}` : ''}</pre>
                         </div>
                     </div>
                 </div>
@@ -111,6 +125,17 @@ Auth: ${result.connectionInfo.authType}</pre>
                 </div>
         `;
 
+        if (result.attempts && result.attempts.length > 1) {
+            content += `
+                <div class="debug-item">
+                    <h3>🔁 Attempts</h3>
+                    <div class="json-container">
+                        <pre>${HtmlUtils.escapeHtml(this.formatAttempts(result.attempts))}</pre>
+                    </div>
+                </div>
+            `;
+        }
+
         // Add request details with YAML conversion if available
         if (result.requestInfo) {
             const requestDetailsJson = JSON.stringify(result.requestInfo, null, 2);
@@ -172,6 +197,21 @@ Auth: ${result.connectionInfo.authType}</pre>
 
         let content = '<div class="debug-section">';
 
+        // Responses of the attempts that were retried, before the final response
+        (result.attempts || []).slice(0, -1).forEach((attempt, index) => {
+            const attemptResponse = attempt.responseInfo
+                ? this.formatRawResponse({ responseInfo: attempt.responseInfo, rawResponse: attempt.rawResponse } as QueryResult)
+                : attempt.error || 'No response';
+            content += `
+                <div class="debug-item">
+                    <h3>📥 Attempt ${index + 1} of ${result.attempts!.length}${attempt.retryDelay !== undefined ? ` (retried after ${attempt.retryDelay}ms)` : ''}</h3>
+                    <div class="json-container">
+                        <pre>${HtmlUtils.escapeHtml(attemptResponse)}</pre>
+                    </div>
+                </div>
+            `;
+        });
+
         // Add raw HTTP response if we have response info
         if (result.responseInfo) {
             const rawResponse = this.formatRawResponse(result);
@@ -261,6 +301,8 @@ Auth: ${result.connectionInfo.authType}</pre>
         
         if (result.success) {
             items.push(`<span class="metadata-item success">✅ Success</span>`);
+        } else if (result.cancelled) {
+            items.push(`<span class="metadata-item">⏹️ Cancelled</span>`);
         } else {
             items.push(`<span class="metadata-item error">❌ Error</span>`);
         }
@@ -0,0 +1,293 @@
+import { QueryResult, QueryType, StoredResult } from '../types';
+import { ResultStore } from './resultStore';
+
+export type InlineResultSyntax = 'markdown' | 'rst';
+
+export interface InlineFormatOptions {
+    syntax: InlineResultSyntax;
+    maxRows: number;
+    // Full result embedded for `opensearch.inlineResults.persist: details`
+    stored?: StoredResult;
+}
+
+/**
+ * Formats the results inserted below query blocks, as Markdown or reStructuredText
+ * depending on the document
+ */
+export class InlineResultFormatter {
+    public static readonly MARKERS: Record<InlineResultSyntax, { start: string; end: string }> = {
+        markdown: { start: '<!-- OpenSearch Results Start -->', end: '<!-- OpenSearch Results End -->' },
+        rst: { start: '.. OpenSearch Results Start', end: '.. OpenSearch Results End' }
+    };
+
+    private static readonly MAX_COLUMNS = 8;
+    private static readonly MAX_CELL_LENGTH = 50;
+
+    public static format(result: QueryResult, queryType: QueryType, options: InlineFormatOptions): string {
+        const markers = this.MARKERS[options.syntax];
+        const body = options.syntax === 'rst'
+            ? this.formatRst(result, queryType, options.maxRows)
+            : this.formatMarkdown(result, queryType, options.maxRows);
+        const stored = options.stored ? `\n${ResultStore.formatDetails(options.stored, options.syntax)}` : '';
+
+        return `\n${markers.start}\n${options.syntax === 'rst' ? '\n' : ''}${body}${stored}${markers.end}\n\n`;
+    }
+
+    /**
+     * Finds the results inserted by `format` at the given line, so a re-run replaces them.
+     * The range includes the blank lines `format` adds around the markers. Results further
+     * down belong to other blocks and are not returned.
+     */
+    public static findResultsRange(lines: string[], insertLine: number, syntax: InlineResultSyntax): { start: number; end: number } | undefined {
+        const markers = this.MARKERS[syntax];
+        let start = insertLine;
+        while (start < lines.length && lines[start].trim() === '') {
+            start++;
+        }
+        if (start >= lines.length || lines[start].trim() !== markers.start) {
+            return undefined;
+        }
+
+        const end = lines.findIndex((line, index) => index > start && line.trim() === markers.end);
+        if (end < 0) {
+            return undefined;
+        }
+        return {
+            start: start > 0 && lines[start - 1].trim() === '' ? start - 1 : start,
+            end: end + 1 < lines.length && lines[end + 1].trim() === '' ? end + 1 : end
+        };
+    }
+
+    private static formatMarkdown(result: QueryResult, queryType: QueryType, maxRows: number): string {
+        const timestamp = result.executedAt.toLocaleString();
+        let output = `**${queryType.toUpperCase()} @ ${timestamp}**\n\n`;
+
+        if (result.cancelled) {
+            output += `⏹️ **Cancelled** after ${result.executionTime}ms\n\n`;
+            if (result.cancelError) {
+                output += `⚠️ ${result.cancelError}\n\n`;
+            }
+        } else if (!result.success) {
+            output += `❌ **Error**: ${result.error}\n`;
+            output += `**Execution Time**: ${result.executionTime}ms\n\n`;
+
+            // Add Raw Request information for failed requests
+            if (result.requestInfo) {
+                output += `**Raw Request**:\n`;
+                output += '```http\n';
+                output += this.formatRawRequest(result);
+                output += '\n```\n\n';
+            }
+
+            // Add Raw Response information for failed requests
+            if (result.responseInfo || result.rawResponse) {
+                output += `**Raw Response**:\n`;
+                output += result.responseInfo ? '```http\n' : '```json\n';
+                output += this.formatRawResponse(result);
+                output += '\n```\n\n';
+            }
+        } else {
+            output += `✅ **Query executed successfully**\n`;
+            output += `**Query Type**: ${queryType.toUpperCase()}\n`;
+            output += `**Execution Time**: ${result.executionTime}ms\n`;
+
+            if (result.rowCount !== undefined) {
+                output += `**Rows**: ${result.rowCount}\n`;
+            }
+
+            output += '\n';
+
+            // Format data as table or JSON
+            if (result.data && Array.isArray(result.data) && result.data.length > 0) {
+                output += this.formatAsMarkdownTable(result.data, result.columns, maxRows);
+                output += this.formatPagingNote(result, 'markdown');
+            } else if (result.data) {
+                output += '**Results**:\n```json\n';
+                output += JSON.stringify(result.data, null, 2);
+                output += '\n```\n';
+            } else {
+                output += '**No results found**\n';
+            }
+        }
+
+        return output;
+    }
+
+    private static formatRst(result: QueryResult, queryType: QueryType, maxRows: number): string {
+        const timestamp = result.executedAt.toLocaleString();
+        let output = `.. rubric:: ${queryType.toUpperCase()} @ ${timestamp}\n\n`;
+
+        if (result.cancelled) {
+            output += `.. note:: Cancelled after ${result.executionTime}ms\n\n`;
+            if (result.cancelError) {
+                output += `.. warning:: ${this.escapeRst(this.toSingleLine(result.cancelError))}\n\n`;
+            }
+        } else if (!result.success) {
+            output += `.. error:: ${this.escapeRst(this.toSingleLine(result.error || 'Unknown error'))}\n\n`;
+            output += `:Execution Time: ${result.executionTime}ms\n\n`;
+
+            if (result.requestInfo) {
+                output += 'Raw Request:\n\n';
+                output += this.formatRstCodeBlock('http', this.formatRawRequest(result));
+            }
+
+            if (result.responseInfo || result.rawResponse) {
+                output += 'Raw Response:\n\n';
+                output += this.formatRstCodeBlock(result.responseInfo ? 'http' : 'json', this.formatRawResponse(result));
+            }
+        } else {
+            output += 'Query executed successfully\n\n';
+            output += `:Query Type: ${queryType.toUpperCase()}\n`;
+            output += `:Execution Time: ${result.executionTime}ms\n`;
+
+            if (result.rowCount !== undefined) {
+                output += `:Rows: ${result.rowCount}\n`;
+            }
+
+            output += '\n';
+
+            if (result.data && Array.isArray(result.data) && result.data.length > 0) {
+                output += this.formatAsListTable(result.data, result.columns, maxRows);
+                output += this.formatPagingNote(result, 'rst');
+            } else if (result.data) {
+                output += this.formatRstCodeBlock('json', JSON.stringify(result.data, null, 2));
+            } else {
+                output += '*No results found*\n\n';
+            }
+        }
+
+        return output;
+    }
+
+    private static formatRawRequest(result: QueryResult): string {
+        const { method, endpoint, headers, body } = result.requestInfo || {};
+
+        let rawRequest = `${method || 'POST'} ${endpoint || '/'} HTTP/1.1\n`;
+        if (headers) {
+            Object.entries(headers).forEach(([key, value]) => {
+                rawRequest += `${key}: ${value}\n`;
+            });
+        }
+        rawRequest += '\n'; // Empty line between headers and body
+        if (body) {
+            rawRequest += body;
+        }
+        return rawRequest;
+    }
+
+    private static formatRawResponse(result: QueryResult): string {
+        if (!result.responseInfo) {
+            return JSON.stringify(result.rawResponse, null, 2);
+        }
+
+        const { status, statusText, headers } = result.responseInfo;
+        let rawResponse = `HTTP/1.1 ${status || 500} ${statusText || 'Internal Server Error'}\n`;
+        if (headers) {
+            Object.entries(headers).forEach(([key, value]) => {
+                rawResponse += `${key}: ${value}\n`;
+            });
+        }
+        rawResponse += '\n'; // Empty line between headers and body
+        if (result.rawResponse) {
+            rawResponse += JSON.stringify(result.rawResponse, null, 2);
+        }
+        return rawResponse;
+    }
+
+    private static formatPagingNote(result: QueryResult, syntax: InlineResultSyntax): string {
+        const code = (text: string) => syntax === 'rst' ? `\`\`${text}\`\`` : `\`${text}\``;
+        const total = result.rawResponse?.total;
+        if (result.cursor) {
+            return `*More rows available. Enable ${code('opensearch.pagination.inlineFetchAll')} to fetch every page inline.*\n\n`;
+        }
+        if (typeof total === 'number' && total > result.data.length) {
+            return `*Fetched ${result.data.length} of ${total} rows*\n\n`;
+        }
+        return '';
+    }
+
+    private static formatAsMarkdownTable(data: any[], columns: string[] | undefined, maxRows: number): string {
+        const displayColumns = this.getDisplayColumns(data, columns);
+
+        // Create table header with row number column
+        let table = '| # | ' + displayColumns.join(' | ') + ' |\n';
+        table += '| --- | ' + displayColumns.map(() => '---').join(' | ') + ' |\n';
+
+        // Add data rows (limit to first rows for inline display)
+        const rowsToShow = Math.min(data.length, maxRows);
+        for (let i = 0; i < rowsToShow; i++) {
+            const values = displayColumns.map(col => this.formatCell(data[i], col));
+            table += `| ${i + 1} | ` + values.join(' | ') + ' |\n';
+        }
+
+        if (data.length > maxRows) {
+            table += `\n*Showing first ${maxRows} of ${data.length} rows*\n`;
+        }
+
+        return table + '\n';
+    }
+
+    private static formatAsListTable(data: any[], columns: string[] | undefined, maxRows: number): string {
+        const displayColumns = this.getDisplayColumns(data, columns);
+        const row = (cells: string[]) => cells
+            .map((cell, index) => `${index === 0 ? '   * -' : '     -'}${cell ? ` ${cell}` : ''}\n`)
+            .join('');
+
+        let table = '.. list-table::\n   :header-rows: 1\n\n';
+        table += row(['#', ...displayColumns.map(col => this.escapeRst(col))]);
+
+        const rowsToShow = Math.min(data.length, maxRows);
+        for (let i = 0; i < rowsToShow; i++) {
+            table += row([String(i + 1), ...displayColumns.map(col => this.escapeRst(this.toSingleLine(this.formatCell(data[i], col))))]);
+        }
+
+        if (data.length > maxRows) {
+            table += `\n*Showing first ${maxRows} of ${data.length} rows*\n`;
+        }
+
+        return table + '\n';
+    }
+
+    private static formatRstCodeBlock(language: string, content: string): string {
+        const indented = content.split('\n').map(line => line ? `   ${line}` : '').join('\n');
+        return `.. code-block:: ${language}\n\n${indented}\n\n`;
+    }
+
+    private static getDisplayColumns(data: any[], columns?: string[]): string[] {
+        // Limit for inline display
+        return (columns && columns.length > 0 ? columns : Object.keys(data[0])).slice(0, this.MAX_COLUMNS);
+    }
+
+    private static formatCell(row: any, column: string): string {
+        const value = this.getNestedValue(row, column);
+        if (value === null || value === undefined) {
+            return '';
+        }
+        if (typeof value === 'object') {
+            return JSON.stringify(value).substring(0, this.MAX_CELL_LENGTH) + '...';
+        }
+        const strValue = String(value);
+        return strValue.length > this.MAX_CELL_LENGTH ? strValue.substring(0, this.MAX_CELL_LENGTH - 3) + '...' : strValue;
+    }
+
+    private static toSingleLine(text: string): string {
+        return text.replace(/\s*\n\s*/g, ' ');
+    }
+
+    /**
+     * Escapes inline markup, and list or directive syntax at the start of a cell
+     */
+    private static escapeRst(text: string): string {
+        const escaped = text.replace(/([\\*`|_])/g, '\\$1');
+        return /^([-+#:]|\.\.)/.test(escaped) ? `\\${escaped}` : escaped;
+    }
+
+    private static getNestedValue(obj: any, path: string): any {
+        if (obj && obj[path] !== undefined) {
+            return obj[path];
+        }
+        return path.split('.').reduce((current, key) => {
+            return current && current[key] !== undefined ? current[key] : undefined;
+        }, obj);
+    }
+}
@@ -52,6 +52,57 @@ export class JsonUtils {
         return { valid: true };
     }
     
+    /**
+     * Parse JSON with comments and trailing commas, as in VS Code settings files
+     */
+    public static parseJSONC(str: string): any {
+        const withoutComments = this.mapOutsideStrings(str, (text, i) => {
+            if (text.startsWith('//', i)) {
+                const end = text.indexOf('\n', i);
+                return end === -1 ? text.length : end;
+            }
+            if (text.startsWith('/*', i)) {
+                const end = text.indexOf('*/', i + 2);
+                return end === -1 ? text.length : end + 2;
+            }
+            return i;
+        });
+        const closingBracket = /\s*[}\]]/y;
+        const withoutTrailingCommas = this.mapOutsideStrings(withoutComments, (text, i) => {
+            closingBracket.lastIndex = i + 1;
+            return text[i] === ',' && closingBracket.test(text) ? i + 1 : i;
+        });
+        return JSON.parse(withoutTrailingCommas);
+    }
+
+    /**
+     * Copies a JSON text, letting `skip` drop text outside string literals by
+     * returning the index to continue from
+     */
+    private static mapOutsideStrings(str: string, skip: (text: string, index: number) => number): string {
+        let result = '';
+        let i = 0;
+        while (i < str.length) {
+            if (str[i] === '"') {
+                let end = i + 1;
+                while (end < str.length && str[end] !== '"') {
+                    end += str[end] === '\\' ? 2 : 1;
+                }
+                result += str.substring(i, end + 1);
+                i = end + 1;
+                continue;
+            }
+
+            const next = skip(str, i);
+            if (next > i) {
+                i = next;
+            } else {
+                result += str[i++];
+            }
+        }
+        return result;
+    }
+
     /**
      * Format JSON string with proper indentation
      */
@@ -64,4 +115,36 @@ export class JsonUtils {
             return str;
         }
     }
+
+    /**
+     * Evaluates a JSONPath-style expression such as `$.hits.hits[0]._id`.
+     * Supports dot notation, `[index]` and `['key']`; the leading `$` is optional.
+     */
+    public static evaluatePath(data: any, path: string): any {
+        const expression = path.trim().replace(/^\$\.?/, '');
+        if (!expression) {
+            return data;
+        }
+
+        const segments: Array<string | number> = [];
+        const segmentRegex = /([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/g;
+        for (const match of expression.matchAll(segmentRegex)) {
+            if (match[1] !== undefined) {
+                segments.push(match[1]);
+            } else if (match[2] !== undefined) {
+                segments.push(parseInt(match[2], 10));
+            } else {
+                segments.push(match[3]);
+            }
+        }
+
+        let current = data;
+        for (const segment of segments) {
+            if (current === null || current === undefined) {
+                return undefined;
+            }
+            current = current[segment];
+        }
+        return current;
+    }
 }
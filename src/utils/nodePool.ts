@@ -0,0 +1,152 @@
+import { NodeSelection } from '../types';
+import { RetryPolicy } from './retryPolicy';
+
+/**
+ * The nodes of a multi-node connection: which node to send a request to, which
+ * nodes are down, and which nodes sniffing found
+ */
+export class NodePool {
+    // How long a node that refused a connection is tried only after the others
+    public static readonly DEAD_NODE_COOLDOWN = 30 * 1000;
+
+    // Errors raised before the request reached the node, so any request may go to another node
+    private static readonly CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN']);
+    // Errors after the request may have been received; only requests safe to repeat go to another node
+    private static readonly BROKEN_CONNECTION_CODES = new Set(['ECONNRESET', 'EPIPE', 'ETIMEDOUT']);
+
+    private nodes: string[];
+    private deadUntil = new Map<string, number>();
+    private nextIndex = 0;
+    private lastSniff: number | undefined;
+    private sniffError: string | undefined;
+
+    constructor(
+        private readonly seeds: string[],
+        private readonly selection: NodeSelection = 'failover',
+        private readonly now: () => number = Date.now
+    ) {
+        this.nodes = [...seeds];
+    }
+
+    /**
+     * Configured endpoint followed by the further node URLs, without duplicates
+     * or trailing slashes
+     */
+    public static getNodeUrls(endpoint: string, urls?: string[]): string[] {
+        const normalized = [endpoint, ...(urls || [])].map(url => url.trim().replace(/\/+$/, '')).filter(Boolean);
+        return [...new Set(normalized)];
+    }
+
+    /**
+     * Whether the request failed because of the node rather than the request
+     */
+    public static isNodeFailure(error: any, idempotent: boolean): boolean {
+        if (error?.response || error?.code === 'ERR_CANCELED') {
+            return false;
+        }
+        return this.CONNECT_ERROR_CODES.has(error?.code) || (idempotent && this.BROKEN_CONNECTION_CODES.has(error?.code));
+    }
+
+    /**
+     * Node URLs from a `_nodes/http` response, using the scheme of the configured endpoint.
+     * `publish_address` is either `ip:port` or `hostname/ip:port`; the host name is preferred
+     * so that TLS certificates match.
+     */
+    public static parseNodesHttp(response: any, scheme: string): string[] {
+        const urls: string[] = [];
+        for (const node of Object.values<any>(response?.nodes || {})) {
+            const address: unknown = node?.http?.publish_address;
+            if (typeof address !== 'string') {
+                continue;
+            }
+            const [host, ipAndPort] = address.includes('/') ? address.split('/') : [undefined, address];
+            const port = ipAndPort.substring(ipAndPort.lastIndexOf(':') + 1);
+            const ip = ipAndPort.substring(0, ipAndPort.lastIndexOf(':'));
+            urls.push(`${scheme}//${host || ip}:${port}`);
+        }
+        return urls;
+    }
+
+    /**
+     * Nodes in the order a request should try them: live nodes first (rotated for
+     * round-robin), then nodes that recently failed, soonest to recover first
+     */
+    public getNodes(): string[] {
+        const now = this.now();
+        const live = this.nodes.filter(node => (this.deadUntil.get(node) || 0) <= now);
+        const dead = this.nodes
+            .filter(node => (this.deadUntil.get(node) || 0) > now)
+            .sort((a, b) => this.deadUntil.get(a)! - this.deadUntil.get(b)!);
+
+        if (this.selection === 'round-robin' && live.length > 0) {
+            const start = this.nextIndex++ % live.length;
+            return [...live.slice(start), ...live.slice(0, start), ...dead];
+        }
+        return [...live, ...dead];
+    }
+
+    public markDead(node: string): void {
+        this.deadUntil.set(node, this.now() + NodePool.DEAD_NODE_COOLDOWN);
+    }
+
+    public markAlive(node: string): void {
+        this.deadUntil.delete(node);
+    }
+
+    public needsSniff(interval: number): boolean {
+        return this.lastSniff === undefined || this.now() - this.lastSniff >= interval;
+    }
+
+    /**
+     * Replaces the nodes with the ones sniffing found. Without any, the configured
+     * nodes are used again.
+     */
+    public setSniffedNodes(nodes: string[]): void {
+        this.lastSniff = this.now();
+        this.sniffError = undefined;
+        this.nodes = nodes.length > 0 ? [...new Set(nodes)] : [...this.seeds];
+    }
+
+    /**
+     * Records a failed sniff so that it is not repeated before the interval.
+     * The error is reported with every request until a sniff succeeds.
+     */
+    public markSniffFailed(error: string): void {
+        this.lastSniff = this.now();
+        this.sniffError = error;
+    }
+
+    /**
+     * Sends the request to the first node that accepts it. Node failures move on to
+     * the next node; the error of the last node tried is thrown with a `node` property.
+     * The error of the last failed sniff comes with the response or the error as `sniffError`.
+     */
+    public async send<T>(
+        method: string,
+        endpoint: string,
+        request: (node: string) => Promise<T>,
+        signal?: AbortSignal
+    ): Promise<{ response: T; node: string; sniffError?: string }> {
+        const idempotent = RetryPolicy.isIdempotent(method, endpoint);
+        const nodes = this.getNodes();
+
+        for (let i = 0; ; i++) {
+            const node = nodes[i];
+            try {
+                const response = await request(node);
+                this.markAlive(node);
+                return { response, node, sniffError: this.sniffError };
+            } catch (error: any) {
+                const failedOver = NodePool.isNodeFailure(error, idempotent);
+                if (failedOver) {
+                    this.markDead(node);
+                }
+                if (!failedOver || i === nodes.length - 1 || signal?.aborted) {
+                    error.node = node;
+                    error.sniffError = this.sniffError;
+                    throw error;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,361 @@
+import * as crypto from 'crypto';
+import axios, { AxiosRequestConfig } from 'axios';
+import { AuthSettings, OidcFlow, ProxyOptions, TlsOptions } from '../types';
+import { SecretResolver, SecretStore } from './secretResolver';
+import { ProxyAgentFactory } from './proxyAgentFactory';
+import { TlsAgentFactory } from './tlsAgentFactory';
+
+/**
+ * What the user has to do to finish a device code sign-in
+ */
+export interface DeviceCodePrompt {
+    verificationUri: string;
+    // Verification URI with the code filled in, when the provider offers one
+    verificationUriComplete?: string;
+    userCode: string;
+    expiresIn: number;
+}
+
+export interface OidcTokenProviderOptions {
+    // Keeps tokens across sessions; without it they are only kept in memory
+    tokenStore?: SecretStore;
+    // Shows the device code to the user; required for the device code flow
+    onDeviceCode?: (prompt: DeviceCodePrompt) => void | Promise<void>;
+    now?: () => number;
+}
+
+export interface TokenRequestOptions {
+    // Skips the cached token, e.g. because the cluster rejected it
+    forceRefresh?: boolean;
+    // Whether a device code sign-in may be started; background requests set it to false
+    interactive?: boolean;
+    // The identity provider is reached like the cluster: through its proxy, with its TLS settings
+    proxy?: ProxyOptions;
+    tls?: TlsOptions;
+    // Milliseconds each request to the identity provider may take
+    timeout?: number;
+    // Stops the token requests and device code polling, e.g. when the query is cancelled
+    signal?: AbortSignal;
+}
+
+interface CachedToken {
+    accessToken: string;
+    expiresAt?: number;
+    refreshToken?: string;
+}
+
+/**
+ * Gets bearer tokens for `oidc` authentication: a static token, the client
+ * credentials flow or the device code flow against the token endpoint of the
+ * identity provider. Tokens are cached and refreshed before they expire.
+ */
+export class OidcTokenProvider {
+    // Tokens are renewed this long before they expire
+    public static readonly REFRESH_MARGIN = 60 * 1000;
+
+    private static readonly STORAGE_KEY_PREFIX = 'opensearch.oidc.';
+    private static readonly DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code';
+
+    private tokens = new Map<string, CachedToken>();
+    // Requests sent while a token is being fetched wait for the same token
+    private pending = new Map<string, Promise<string>>();
+    // Cache keys with a device code sign-in in progress
+    private signingIn = new Set<string>();
+    private now: () => number;
+
+    constructor(
+        private secretResolver?: SecretResolver,
+        private options: OidcTokenProviderOptions = {}
+    ) {
+        this.now = options.now || Date.now;
+    }
+
+    /**
+     * The flow of the auth settings: explicit, or a static token when one is set,
+     * client credentials when a client secret is set, and the device code flow otherwise
+     */
+    public static getFlow(auth: AuthSettings): OidcFlow {
+        if (auth.oidcFlow) {
+            return auth.oidcFlow;
+        }
+        if (auth.token) {
+            return 'static';
+        }
+        return auth.clientSecret ? 'client-credentials' : 'device-code';
+    }
+
+    /**
+     * Whether a rejected token can be replaced by a new one
+     */
+    public static canRefresh(auth: AuthSettings): boolean {
+        return auth.type === 'oidc' && this.getFlow(auth) !== 'static';
+    }
+
+    /**
+     * Whether an error of `getToken` means that the user has to sign in first
+     */
+    public static isSignInRequired(error: any): boolean {
+        return error?.signInRequired === true;
+    }
+
+    /**
+     * Whether an error of `getToken` means that the request was cancelled through its signal
+     */
+    public static isCancelled(error: any): boolean {
+        return error?.code === 'ERR_CANCELED';
+    }
+
+    /**
+     * A valid access token. When `interactive` is false, only cached and refreshable
+     * tokens are used: a device code sign-in is never started, e.g. by background
+     * health checks, and an error for which `isSignInRequired` holds is thrown instead.
+     */
+    public async getToken(auth: AuthSettings, options: TokenRequestOptions = {}): Promise<string> {
+        const flow = OidcTokenProvider.getFlow(auth);
+        if (flow === 'static') {
+            const token = await this.resolveValue(auth.token);
+            if (!token) {
+                throw new Error('OIDC authentication requires a token, or a token endpoint and client ID');
+            }
+            return token;
+        }
+
+        const key = this.getCacheKey(auth, flow);
+        const pending = this.pending.get(key);
+        if (pending) {
+            // Background requests do not wait until the user signed in on another device
+            if (options.interactive === false && this.signingIn.has(key)) {
+                throw OidcTokenProvider.createSignInRequiredError();
+            }
+            // A request that could not sign in, or that was cancelled, does not stop the others
+            return pending.catch(error =>
+                (OidcTokenProvider.isSignInRequired(error) && options.interactive !== false)
+                    || (OidcTokenProvider.isCancelled(error) && !options.signal?.aborted)
+                    ? this.getToken(auth, options)
+                    : Promise.reject(error));
+        }
+
+        const request = this.fetchToken(key, auth, flow, options);
+        this.pending.set(key, request);
+        try {
+            return await request;
+        } finally {
+            this.pending.delete(key);
+        }
+    }
+
+    private async fetchToken(key: string, auth: AuthSettings, flow: OidcFlow, options: TokenRequestOptions): Promise<string> {
+        const cached = await this.readCache(key);
+        if (cached && !options.forceRefresh && (cached.expiresAt === undefined || cached.expiresAt - OidcTokenProvider.REFRESH_MARGIN > this.now())) {
+            return cached.accessToken;
+        }
+
+        if (!auth.tokenEndpoint || !auth.clientId) {
+            throw new Error('OIDC authentication requires a token endpoint and client ID');
+        }
+
+        let token: CachedToken | undefined;
+        if (cached?.refreshToken) {
+            // An expired or revoked refresh token means signing in again
+            token = await this.requestToken(auth, {
+                grant_type: 'refresh_token',
+                refresh_token: cached.refreshToken
+            }, options).catch(error => OidcTokenProvider.isCancelled(error) ? Promise.reject(error) : undefined);
+        }
+        if (!token && flow === 'device-code' && options.interactive === false) {
+            throw OidcTokenProvider.createSignInRequiredError();
+        }
+        if (!token && flow === 'client-credentials') {
+            token = await this.requestToken(auth, { grant_type: 'client_credentials' }, options);
+        }
+        if (!token) {
+            this.signingIn.add(key);
+            try {
+                token = await this.runDeviceCodeFlow(auth, options);
+            } finally {
+                this.signingIn.delete(key);
+            }
+        }
+
+        await this.writeCache(key, token);
+        return token.accessToken;
+    }
+
+    /**
+     * Asks the user to sign in on another device and polls the token endpoint until
+     * they do, or until the request is cancelled
+     */
+    private async runDeviceCodeFlow(auth: AuthSettings, options: TokenRequestOptions): Promise<CachedToken> {
+        if (!auth.deviceAuthorizationEndpoint) {
+            throw new Error('The OIDC device code flow requires a device authorization endpoint');
+        }
+        if (!this.options.onDeviceCode) {
+            throw new Error('The OIDC device code flow needs an interactive session. Use a static token or client credentials instead.');
+        }
+
+        const params: Record<string, string> = { client_id: auth.clientId! };
+        if (auth.scope) {
+            params.scope = auth.scope;
+        }
+        const device = await this.post(auth.deviceAuthorizationEndpoint, params, options);
+        if (!device.device_code || !device.user_code) {
+            throw new Error('The device authorization endpoint did not return a device code');
+        }
+
+        const expiresIn = Number(device.expires_in) || 600;
+        await this.options.onDeviceCode({
+            verificationUri: device.verification_uri || device.verification_url,
+            verificationUriComplete: device.verification_uri_complete,
+            userCode: device.user_code,
+            expiresIn
+        });
+
+        const deadline = this.now() + expiresIn * 1000;
+        let interval = (device.interval !== undefined ? Number(device.interval) : 5) * 1000;
+        while (this.now() < deadline) {
+            await OidcTokenProvider.wait(interval, options.signal);
+            try {
+                return await this.requestToken(auth, {
+                    grant_type: OidcTokenProvider.DEVICE_CODE_GRANT,
+                    device_code: device.device_code
+                }, options);
+            } catch (error: any) {
+                const code = error.oauthError;
+                if (code === 'slow_down') {
+                    interval += 5000;
+                } else if (code !== 'authorization_pending') {
+                    throw error;
+                }
+            }
+        }
+        throw new Error('The OIDC device code expired before sign-in was completed');
+    }
+
+    private async requestToken(auth: AuthSettings, params: Record<string, string>, options: TokenRequestOptions): Promise<CachedToken> {
+        const body: Record<string, string> = { ...params, client_id: auth.clientId! };
+        const clientSecret = await this.resolveValue(auth.clientSecret);
+        if (clientSecret) {
+            body.client_secret = clientSecret;
+        }
+        if (auth.scope && params.grant_type !== OidcTokenProvider.DEVICE_CODE_GRANT) {
+            body.scope = auth.scope;
+        }
+
+        const data = await this.post(auth.tokenEndpoint!, body, options);
+        if (!data.access_token) {
+            throw new Error('The token endpoint did not return an access token');
+        }
+        return {
+            accessToken: data.access_token,
+            expiresAt: data.expires_in ? this.now() + Number(data.expires_in) * 1000 : undefined,
+            // Refreshing may not return a new refresh token; the previous one stays valid then
+            refreshToken: data.refresh_token || params.refresh_token
+        };
+    }
+
+    /**
+     * Posts a form to the identity provider. OAuth errors are thrown with an `oauthError` property.
+     */
+    private async post(url: string, params: Record<string, string>, options: TokenRequestOptions): Promise<any> {
+        try {
+            const config: AxiosRequestConfig = {
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' }
+            };
+            const httpsAgent = TlsAgentFactory.createAgent(options.tls);
+            if (httpsAgent) {
+                config.httpsAgent = httpsAgent;
+            }
+            const proxy = options.proxy && { ...options.proxy, password: await this.resolveValue(options.proxy.password) };
+            ProxyAgentFactory.configure(config, url, proxy, options.tls, options.timeout);
+            config.timeout = options.timeout;
+            config.signal = options.signal;
+            const response = await axios.post(url, new URLSearchParams(params).toString(), config);
+            return response.data;
+        } catch (error: any) {
+            if (axios.isCancel(error)) {
+                throw OidcTokenProvider.createCancelledError();
+            }
+            const data = error.response?.data;
+            if (data?.error) {
+                throw Object.assign(
+                    new Error(`OIDC token request failed: ${data.error}${data.error_description ? ` (${data.error_description})` : ''}`),
+                    { oauthError: data.error }
+                );
+            }
+            throw new Error(`OIDC token request to ${url} failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Tokens of different clients, scopes or identity providers are kept apart
+     */
+    private getCacheKey(auth: AuthSettings, flow: OidcFlow): string {
+        const identity = [flow, auth.tokenEndpoint, auth.clientId, auth.scope || ''].join('\n');
+        return OidcTokenProvider.STORAGE_KEY_PREFIX + crypto.createHash('sha256').update(identity).digest('hex').substring(0, 32);
+    }
+
+    private async readCache(key: string): Promise<CachedToken | undefined> {
+        const cached = this.tokens.get(key);
+        if (cached || !this.options.tokenStore) {
+            return cached;
+        }
+        try {
+            const stored = await this.options.tokenStore.get(key);
+            const token = stored ? JSON.parse(stored) as CachedToken : undefined;
+            if (token) {
+                this.tokens.set(key, token);
+            }
+            return token;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeCache(key: string, token: CachedToken): Promise<void> {
+        this.tokens.set(key, token);
+        try {
+            await this.options.tokenStore?.store(key, JSON.stringify(token));
+        } catch (error) {
+            console.warn('Failed to store the OIDC token:', error);
+        }
+    }
+
+    private static createSignInRequiredError(): Error {
+        return Object.assign(new Error('OIDC sign-in required. Run a query to sign in.'), { signInRequired: true });
+    }
+
+    private static createCancelledError(): Error {
+        return Object.assign(new Error('OIDC token request was cancelled'), { code: 'ERR_CANCELED' });
+    }
+
+    /**
+     * Resolves after the delay; rejects right away when the request is cancelled
+     */
+    private static wait(delay: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(this.createCancelledError());
+                return;
+            }
+            const abort = () => {
+                clearTimeout(timer);
+                reject(this.createCancelledError());
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', abort);
+                resolve();
+            }, delay);
+            signal?.addEventListener('abort', abort, { once: true });
+        });
+    }
+
+    private async resolveValue(value: string | undefined): Promise<string | undefined> {
+        if (!SecretResolver.containsReference(value)) {
+            return value;
+        }
+        if (!this.secretResolver) {
+            throw new Error('Secret references require VS Code SecretStorage');
+        }
+        return this.secretResolver.resolve(value);
+    }
+}
@@ -0,0 +1,141 @@
+export interface PplKeyword {
+    name: string;
+    // Usage shown in completion details, e.g. `stats <aggregation>... [by <field>...]`
+    syntax: string;
+    description: string;
+}
+
+export type PplCompletionContext = 'command' | 'expression';
+
+/**
+ * Commands and functions of the OpenSearch Piped Processing Language
+ */
+export class PplLanguage {
+    public static readonly COMMANDS: PplKeyword[] = [
+        { name: 'search', syntax: 'search source=<index> [<boolean-expression>]', description: 'Retrieves documents from an index' },
+        { name: 'where', syntax: 'where <boolean-expression>', description: 'Keeps the rows for which the expression is true' },
+        { name: 'fields', syntax: 'fields [+|-] <field>, ...', description: 'Keeps or removes fields' },
+        { name: 'stats', syntax: 'stats <aggregation>, ... [by <field>, ...]', description: 'Aggregates rows, optionally grouped by fields' },
+        { name: 'eval', syntax: 'eval <field> = <expression>, ...', description: 'Adds or replaces fields computed from expressions' },
+        { name: 'dedup', syntax: 'dedup [<count>] <field>, ... [keepempty=<bool>] [consecutive=<bool>]', description: 'Removes rows with duplicate field values' },
+        { name: 'rename', syntax: 'rename <field> as <new-name>, ...', description: 'Renames fields' },
+        { name: 'sort', syntax: 'sort [+|-] <field>, ...', description: 'Sorts rows by fields, ascending by default' },
+        { name: 'head', syntax: 'head [<size>] [from <offset>]', description: 'Keeps the first rows, 10 by default' },
+        { name: 'top', syntax: 'top [<count>] <field>, ... [by <field>, ...]', description: 'Finds the most common values of fields' },
+        { name: 'rare', syntax: 'rare <field>, ... [by <field>, ...]', description: 'Finds the least common values of fields' },
+        { name: 'parse', syntax: 'parse <field> <regular-expression>', description: 'Extracts new fields from a text field with named groups' },
+        { name: 'grok', syntax: 'grok <field> <grok-pattern>', description: 'Extracts new fields from a text field with a grok pattern' },
+        { name: 'patterns', syntax: 'patterns [new_field=<name>] [pattern=<regex>] <field>', description: 'Extracts log patterns from a text field' },
+        { name: 'fillnull', syntax: 'fillnull with <expression> in <field>, ...', description: 'Replaces null values' },
+        { name: 'trendline', syntax: 'trendline [sort <field>] sma(<period>, <field>) [as <alias>]', description: 'Computes moving averages' },
+        { name: 'describe', syntax: 'describe <index>', description: 'Lists the fields of an index' },
+        { name: 'show', syntax: 'show datasources', description: 'Lists the configured data sources' },
+        { name: 'explain', syntax: 'explain <query>', description: 'Shows the execution plan of a query' },
+        { name: 'eventstats', syntax: 'eventstats <aggregation>, ... [by <field>, ...]', description: 'Adds aggregation results to every row' },
+        { name: 'streamstats', syntax: 'streamstats <aggregation>, ... [by <field>, ...]', description: 'Adds running aggregations to every row' },
+        { name: 'lookup', syntax: 'lookup <index> <field> [as <field>], ... [replace|append <field>, ...]', description: 'Adds fields from a lookup index' },
+        { name: 'join', syntax: 'join [type=<type>] [left=<alias>] [right=<alias>] on <condition> <index>', description: 'Combines rows with the rows of another index' },
+        { name: 'append', syntax: 'append [<subsearch>]', description: 'Adds the rows of a subsearch' },
+        { name: 'appendcol', syntax: 'appendcol [override=<bool>] [<subsearch>]', description: 'Adds the columns of a subsearch' },
+        { name: 'appendpipe', syntax: 'appendpipe [<commands>]', description: 'Adds the rows produced by commands on the current results' },
+        { name: 'multisearch', syntax: 'multisearch [<subsearch>] [<subsearch>] ...', description: 'Combines the rows of several searches' },
+        { name: 'expand', syntax: 'expand <field> [as <alias>]', description: 'Splits an array field into one row per value' },
+        { name: 'flatten', syntax: 'flatten <field> [as <alias>, ...]', description: 'Turns the keys of an object field into fields' },
+        { name: 'reverse', syntax: 'reverse', description: 'Reverses the order of rows' },
+        { name: 'table', syntax: 'table <field>, ...', description: 'Keeps fields in the given order' },
+        { name: 'bin', syntax: 'bin <field> [span=<interval>] [bins=<count>] [as <alias>]', description: 'Buckets values into intervals' },
+        { name: 'timechart', syntax: 'timechart [span=<interval>] <aggregation> [by <field>]', description: 'Aggregates rows over time buckets' },
+        { name: 'chart', syntax: 'chart <aggregation> [over <field>] [by <field>]', description: 'Aggregates rows into a table for charts' },
+        { name: 'rex', syntax: 'rex field=<field> <regular-expression>', description: 'Extracts fields with named groups of a regular expression' },
+        { name: 'regex', syntax: 'regex <field> [=|!=] <regular-expression>', description: 'Keeps the rows whose field matches a regular expression' },
+        { name: 'spath', syntax: 'spath input=<field> [path=<path>] [output=<field>]', description: 'Extracts fields from JSON text' },
+        { name: 'addtotals', syntax: 'addtotals [<field>, ...]', description: 'Adds a field with the row total' },
+        { name: 'addcoltotals', syntax: 'addcoltotals [<field>, ...]', description: 'Adds a row with the column totals' },
+        { name: 'ad', syntax: 'ad [time_field=<field>] [shingle_size=<n>] ...', description: 'Detects anomalies with Random Cut Forest' },
+        { name: 'kmeans', syntax: 'kmeans [centroids=<n>] [iterations=<n>] [distance_type=<type>]', description: 'Clusters rows with k-means' },
+        { name: 'ml', syntax: 'ml action=train algorithm=<algorithm> ...', description: 'Runs a machine learning algorithm' }
+    ];
+
+    public static readonly FUNCTIONS: PplKeyword[] = [
+        // Aggregations
+        { name: 'count', syntax: 'count([<field>])', description: 'Number of rows or non-null values' },
+        { name: 'sum', syntax: 'sum(<field>)', description: 'Sum of values' },
+        { name: 'avg', syntax: 'avg(<field>)', description: 'Average of values' },
+        { name: 'max', syntax: 'max(<field>)', description: 'Largest value' },
+        { name: 'min', syntax: 'min(<field>)', description: 'Smallest value' },
+        { name: 'distinct_count', syntax: 'distinct_count(<field>)', description: 'Number of distinct values' },
+        { name: 'stddev_pop', syntax: 'stddev_pop(<field>)', description: 'Population standard deviation' },
+        { name: 'stddev_samp', syntax: 'stddev_samp(<field>)', description: 'Sample standard deviation' },
+        { name: 'var_pop', syntax: 'var_pop(<field>)', description: 'Population variance' },
+        { name: 'var_samp', syntax: 'var_samp(<field>)', description: 'Sample variance' },
+        { name: 'percentile', syntax: 'percentile(<field>, <percent>)', description: 'Approximate percentile of values' },
+        { name: 'take', syntax: 'take(<field>[, <size>])', description: 'Original values of a field' },
+        { name: 'span', syntax: 'span(<field>, <interval>)', description: 'Buckets values into intervals, e.g. span(@timestamp, 1h)' },
+        // Math
+        { name: 'abs', syntax: 'abs(<number>)', description: 'Absolute value' },
+        { name: 'ceil', syntax: 'ceil(<number>)', description: 'Smallest integer not less than the value' },
+        { name: 'floor', syntax: 'floor(<number>)', description: 'Largest integer not greater than the value' },
+        { name: 'round', syntax: 'round(<number>[, <decimals>])', description: 'Rounds to the given number of decimals' },
+        { name: 'sqrt', syntax: 'sqrt(<number>)', description: 'Square root' },
+        { name: 'pow', syntax: 'pow(<base>, <exponent>)', description: 'Power' },
+        { name: 'mod', syntax: 'mod(<dividend>, <divisor>)', description: 'Remainder of a division' },
+        { name: 'log', syntax: 'log([<base>, ]<number>)', description: 'Logarithm, natural by default' },
+        // Strings
+        { name: 'concat', syntax: 'concat(<string>, ...)', description: 'Joins strings' },
+        { name: 'length', syntax: 'length(<string>)', description: 'Length in bytes' },
+        { name: 'lower', syntax: 'lower(<string>)', description: 'Converts to lowercase' },
+        { name: 'upper', syntax: 'upper(<string>)', description: 'Converts to uppercase' },
+        { name: 'trim', syntax: 'trim(<string>)', description: 'Removes leading and trailing spaces' },
+        { name: 'substring', syntax: 'substring(<string>, <start>[, <length>])', description: 'Part of a string, starting at 1' },
+        { name: 'locate', syntax: 'locate(<substring>, <string>[, <start>])', description: 'Position of a substring, 0 when missing' },
+        { name: 'replace', syntax: 'replace(<string>, <search>, <replacement>)', description: 'Replaces every occurrence of a substring' },
+        { name: 'reverse', syntax: 'reverse(<string>)', description: 'Reverses a string' },
+        // Date and time
+        { name: 'now', syntax: 'now()', description: 'Current date and time' },
+        { name: 'curdate', syntax: 'curdate()', description: 'Current date' },
+        { name: 'date_format', syntax: 'date_format(<date>, <format>)', description: 'Formats a date, e.g. date_format(@timestamp, \'%Y-%m-%d\')' },
+        { name: 'date_add', syntax: 'date_add(<date>, INTERVAL <n> <unit>)', description: 'Adds an interval to a date' },
+        { name: 'date_sub', syntax: 'date_sub(<date>, INTERVAL <n> <unit>)', description: 'Subtracts an interval from a date' },
+        { name: 'datediff', syntax: 'datediff(<date>, <date>)', description: 'Days between two dates' },
+        { name: 'day', syntax: 'day(<date>)', description: 'Day of the month' },
+        { name: 'month', syntax: 'month(<date>)', description: 'Month, 1 to 12' },
+        { name: 'year', syntax: 'year(<date>)', description: 'Year' },
+        { name: 'hour', syntax: 'hour(<time>)', description: 'Hour, 0 to 23' },
+        { name: 'unix_timestamp', syntax: 'unix_timestamp(<date>)', description: 'Seconds since the epoch' },
+        { name: 'from_unixtime', syntax: 'from_unixtime(<seconds>[, <format>])', description: 'Date from seconds since the epoch' },
+        // Conditions and types
+        { name: 'isnull', syntax: 'isnull(<field>)', description: 'True when the value is null' },
+        { name: 'isnotnull', syntax: 'isnotnull(<field>)', description: 'True when the value is not null' },
+        { name: 'ifnull', syntax: 'ifnull(<field>, <default>)', description: 'The default when the value is null' },
+        { name: 'nullif', syntax: 'nullif(<expression>, <expression>)', description: 'Null when both values are equal' },
+        { name: 'if', syntax: 'if(<condition>, <then>, <else>)', description: 'Chooses a value by a condition' },
+        { name: 'like', syntax: 'like(<string>, <pattern>)', description: 'Wildcard match with % and _' },
+        { name: 'cast', syntax: 'cast(<expression> as <type>)', description: 'Converts to another type' }
+    ];
+
+    /**
+     * Whether the cursor is where a command name goes (start of the query or after a pipe)
+     * or inside the arguments of a command
+     */
+    public static getCompletionContext(textBeforeCursor: string): PplCompletionContext {
+        const segment = textBeforeCursor.split('|').pop() || '';
+        return /^\s*\w*$/.test(segment) ? 'command' : 'expression';
+    }
+
+    /**
+     * Finds the names after pipes that are not PPL commands, with their offsets in the query.
+     * Pipes inside quoted strings are ignored.
+     */
+    public static findUnknownCommands(query: string): Array<{ name: string; offset: number }> {
+        const known = new Set(this.COMMANDS.map(command => command.name));
+        const withoutStrings = query.replace(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`[^`]*`/g, match => ' '.repeat(match.length));
+        const unknown: Array<{ name: string; offset: number }> = [];
+        for (const match of withoutStrings.matchAll(/\|\s*([A-Za-z_]\w*)/g)) {
+            const name = match[1];
+            if (!known.has(name.toLowerCase())) {
+                unknown.push({ name, offset: match.index! + match[0].length - name.length });
+            }
+        }
+        return unknown;
+    }
+}
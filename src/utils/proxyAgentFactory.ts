@@ -0,0 +1,225 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { AxiosRequestConfig } from 'axios';
+import { ProxyOptions, TlsOptions } from '../types';
+import { TlsAgentFactory } from './tlsAgentFactory';
+
+declare module 'http' {
+    interface Agent {
+        // Called by Node for every request; missing from the typings
+        addRequest(request: ClientRequest, options: RequestOptions): void;
+    }
+}
+
+type TunnelConnectionOptions = tls.ConnectionOptions & { host: string; port: number; request?: http.ClientRequest };
+
+/**
+ * Connects HTTPS requests through an HTTP(S) proxy with a CONNECT tunnel, then
+ * starts TLS with the cluster inside the tunnel
+ */
+class TunnelingAgent extends https.Agent {
+    constructor(private proxyUrl: URL, private strictSSL: boolean, private connectTimeout: number | undefined, options: https.AgentOptions) {
+        super(options);
+    }
+
+    /**
+     * Passes the request on to createConnection, so the tunnel is closed when the request is aborted
+     */
+    public addRequest(request: http.ClientRequest, options: http.RequestOptions): void {
+        super.addRequest(request, { ...options, request } as http.RequestOptions);
+    }
+
+    /**
+     * Called by Node for every new socket; the socket is passed to the callback once the tunnel is open
+     */
+    public createConnection(options: TunnelConnectionOptions, callback: (error: Error | null, socket?: net.Socket) => void): undefined {
+        const target = `${options.host}:${options.port}`;
+        const headers: Record<string, string> = { Host: target };
+        const authorization = ProxyAgentFactory.getProxyAuthorization(this.proxyUrl);
+        if (authorization) {
+            headers['Proxy-Authorization'] = authorization;
+        }
+
+        const secureProxy = this.proxyUrl.protocol === 'https:';
+        const request = (secureProxy ? https : http).request({
+            host: this.proxyUrl.hostname,
+            port: this.proxyUrl.port || (secureProxy ? 443 : 80),
+            method: 'CONNECT',
+            path: target,
+            headers,
+            agent: false,
+            rejectUnauthorized: this.strictSSL
+        });
+
+        let settled = false;
+        const settle = (error: Error | null, socket?: net.Socket) => {
+            if (!settled) {
+                settled = true;
+                callback(error, socket);
+            }
+        };
+        const fail = (message: string) => {
+            request.destroy();
+            settle(new Error(message));
+        };
+
+        if (this.connectTimeout) {
+            request.setTimeout(this.connectTimeout, () =>
+                fail(`Proxy ${ProxyAgentFactory.describe(this.proxyUrl)} did not open a tunnel to ${target} within ${this.connectTimeout} ms`));
+        }
+
+        // An aborted request has no socket yet and emits no event, so its destroy() is watched instead
+        const outer = options.request;
+        if (outer) {
+            const destroy = outer.destroy;
+            outer.destroy = function (this: http.ClientRequest, error?: Error) {
+                outer.destroy = destroy;
+                fail(`Request to ${target} was aborted while connecting to the proxy`);
+                return destroy.call(this, error);
+            };
+            request.once('close', () => {
+                outer.destroy = destroy;
+            });
+        }
+
+        request.once('connect', (response, socket) => {
+            request.setTimeout(0);
+            if (settled) {
+                socket.destroy();
+                return;
+            }
+            if (response.statusCode !== 200) {
+                socket.destroy();
+                settle(new Error(`Proxy ${ProxyAgentFactory.describe(this.proxyUrl)} refused the connection to ${target}: ${response.statusCode} ${response.statusMessage}`));
+                return;
+            }
+            settle(null, tls.connect({ ...options, socket, servername: options.servername || (net.isIP(options.host) ? undefined : options.host) }));
+        });
+        request.once('error', error => settle(new Error(`Unable to connect to proxy ${ProxyAgentFactory.describe(this.proxyUrl)}: ${error.message}`)));
+        request.end();
+        return undefined;
+    }
+}
+
+/**
+ * Chooses the proxy for a cluster endpoint and configures axios to use it.
+ * Settings come first, then the `HTTPS_PROXY`, `HTTP_PROXY` and `NO_PROXY` environment variables.
+ */
+export class ProxyAgentFactory {
+    /**
+     * The proxy to use for the endpoint, or undefined for a direct connection
+     */
+    public static resolveProxy(endpoint: string, proxy?: ProxyOptions, env: NodeJS.ProcessEnv = process.env): URL | undefined {
+        let target: URL;
+        try {
+            target = new URL(endpoint);
+        } catch {
+            return undefined;
+        }
+
+        const secure = target.protocol === 'https:';
+        const proxyUrl = proxy?.url || (secure
+            ? env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+            : env.HTTP_PROXY || env.http_proxy);
+        const noProxy = proxy?.noProxy ?? (env.NO_PROXY || env.no_proxy || '');
+        if (!proxyUrl || this.shouldBypass(target, noProxy)) {
+            return undefined;
+        }
+
+        let url: URL;
+        try {
+            // `proxy:3128` is common in environment variables
+            url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(proxyUrl) ? proxyUrl : `http://${proxyUrl}`);
+        } catch {
+            throw new Error(`Invalid proxy URL: ${proxyUrl}`);
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new Error(`Unsupported proxy protocol "${url.protocol}" in ${this.describe(url)}. Use an http:// or https:// proxy.`);
+        }
+        if (proxy?.username) {
+            url.username = encodeURIComponent(proxy.username);
+            url.password = encodeURIComponent(proxy.password || '');
+        }
+        return url;
+    }
+
+    /**
+     * Whether the endpoint matches a `NO_PROXY` entry: `*`, a host name (also matching its
+     * subdomains), `.domain`, `*.domain` or an IP address, each optionally with `:port`
+     */
+    public static shouldBypass(target: URL, noProxy: string): boolean {
+        const hostname = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+        const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+
+        return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+            if (entry === '*') {
+                return true;
+            }
+            const match = entry.toLowerCase().match(/^(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+            if (!match || (match[2] && match[2] !== port)) {
+                return false;
+            }
+            const host = match[1].replace(/^\[|\]$/g, '').replace(/^\*?\./, '');
+            return hostname === host || hostname.endsWith(`.${host}`);
+        });
+    }
+
+    /**
+     * Routes the requests of an axios client through the proxy. Without a proxy,
+     * axios' own environment handling is turned off so that NO_PROXY is applied the same way.
+     * `timeout` (ms) limits how long the proxy may take to open a tunnel.
+     */
+    public static configure(
+        axiosConfig: AxiosRequestConfig,
+        endpoint: string,
+        proxy: ProxyOptions | undefined,
+        tlsOptions: TlsOptions | undefined,
+        timeout?: number
+    ): void {
+        axiosConfig.proxy = false;
+        const proxyUrl = this.resolveProxy(endpoint, proxy);
+        if (!proxyUrl) {
+            return;
+        }
+
+        const strictSSL = proxy?.strictSSL !== false;
+        if (new URL(endpoint).protocol === 'https:') {
+            const agentOptions = TlsAgentFactory.createAgentOptions(tlsOptions);
+            axiosConfig.httpsAgent = new TunnelingAgent(proxyUrl, strictSSL, timeout, {
+                ...agentOptions,
+                rejectUnauthorized: strictSSL && agentOptions.rejectUnauthorized
+            });
+            return;
+        }
+
+        // Plain HTTP requests are sent to the proxy with the full URL
+        axiosConfig.proxy = {
+            protocol: proxyUrl.protocol.replace(':', ''),
+            host: proxyUrl.hostname,
+            port: Number(proxyUrl.port) || (proxyUrl.protocol === 'https:' ? 443 : 80),
+            auth: proxyUrl.username
+                ? { username: decodeURIComponent(proxyUrl.username), password: decodeURIComponent(proxyUrl.password) }
+                : undefined
+        };
+    }
+
+    /**
+     * `Proxy-Authorization` header value for credentials in the proxy URL
+     */
+    public static getProxyAuthorization(proxyUrl: URL): string | undefined {
+        if (!proxyUrl.username) {
+            return undefined;
+        }
+        const credentials = `${decodeURIComponent(proxyUrl.username)}:${decodeURIComponent(proxyUrl.password)}`;
+        return `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    /**
+     * The proxy URL without credentials, for messages and connection info
+     */
+    public static describe(proxyUrl: URL): string {
+        return `${proxyUrl.protocol}//${proxyUrl.host}`;
+    }
+}
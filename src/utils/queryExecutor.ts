@@ -8,6 +8,7 @@ export interface QueryExecutionContext {
     timeout?: number;
     metadata?: any;
     connectionOverrides?: ConnectionOverrides;
+    signal?: AbortSignal;
     startTime: number;
 }
 
@@ -25,10 +26,19 @@ export class QueryExecutionEngine {
         executor: (context: QueryExecutionContext) => Promise<T>,
         responseProcessor: (response: T, executionTime: number, queryType?: string, startTime?: number) => QueryResult
     ): Promise<QueryResult> {
+        if (context.signal?.aborted) {
+            return ErrorHandler.createCancelledResponse(context.startTime);
+        }
+
         try {
             const response = await executor(context);
             const executionTime = Date.now() - context.startTime;
 
+            // An aborted request may surface as an error response; report it as cancelled instead
+            if (context.signal?.aborted) {
+                return ErrorHandler.createCancelledResponse(context.startTime, response);
+            }
+
             if (response && (response as any).error) {
                 return ErrorHandler.createApiErrorResponse(response, context.startTime);
             }
@@ -47,6 +57,9 @@ export class QueryExecutionEngine {
             return result;
 
         } catch (error: any) {
+            if (context.signal?.aborted) {
+                return ErrorHandler.createCancelledResponse(context.startTime);
+            }
             return this.handleExecutionError(error, context.startTime);
         }
     }
@@ -96,14 +109,24 @@ export class QueryExecutionEngine {
         queryType: QueryType,
         timeout?: number,
         metadata?: any,
-        connectionOverrides?: ConnectionOverrides
+        connectionOverrides?: ConnectionOverrides,
+        signal?: AbortSignal
     ): QueryExecutionContext {
+        // `-- Retries:` replaces the retry count of the connection for this block
+        if (metadata?.retries !== undefined) {
+            connectionOverrides = {
+                ...connectionOverrides,
+                retry: { ...connectionOverrides?.retry, maxRetries: metadata.retries }
+            };
+        }
+
         return {
             query,
             queryType,
             timeout,
             metadata,
             connectionOverrides,
+            signal,
             startTime: Date.now()
         };
     }
@@ -0,0 +1,91 @@
+import { ConnectionOverrides, QueryBlock, QueryMetadata, QueryResult, TextRange } from '../types';
+import { RequestChain } from './requestChain';
+import { VariableResolver } from './variableResolver';
+
+/**
+ * Where connection profiles and environment variables come from:
+ * the ConnectionManager in the extension, ConnectionSettings in the CLI
+ */
+export interface QuerySettings {
+    resolveConnectionOverrides(connectionName?: string, overrides?: ConnectionOverrides): ConnectionOverrides | undefined;
+    getEnvironmentVariables(): Record<string, string>;
+}
+
+export interface ResolvedQuery {
+    query: string;
+    metadata?: QueryMetadata;
+    connectionOverrides?: ConnectionOverrides;
+}
+
+/**
+ * Runs a block that another block refers to and returns its result.
+ * `chain` lists the blocks waiting for it, for detecting circular references.
+ */
+export type DependencyRunner<B> = (dependency: B, chain: string[]) => Promise<QueryResult>;
+
+/**
+ * Turns a query block into the request that is sent, the same way in the extension and the CLI
+ */
+export class QueryResolver {
+    /**
+     * Resolves the connection of a query and substitutes {{name}} references in the
+     * query, the endpoint and the connection overrides, so the request that is sent
+     * (and shown) is final. Throws on unknown connection profiles.
+     */
+    public static resolve(
+        settings: QuerySettings,
+        query: string,
+        metadata?: QueryMetadata,
+        connectionOverrides?: ConnectionOverrides,
+        chainedVariables?: Record<string, string>
+    ): ResolvedQuery {
+        const overrides = settings.resolveConnectionOverrides(metadata?.connection, connectionOverrides);
+
+        // The active environment overridden by document variables, then by response references
+        const variables = { ...settings.getEnvironmentVariables(), ...overrides?.variables, ...chainedVariables };
+        return {
+            query: VariableResolver.substitute(query, variables),
+            metadata: metadata?.endpoint ? { ...metadata, endpoint: VariableResolver.substitute(metadata.endpoint, variables) } : metadata,
+            connectionOverrides: VariableResolver.substituteOverrides(overrides, variables)
+        };
+    }
+
+    /**
+     * Builds the variables for `{{name.response...}}` references in a block. Referenced
+     * blocks without a response in `responses` are run first, wherever they are in the document.
+     */
+    public static async resolveChainedVariables<R extends TextRange>(
+        block: QueryBlock<R>,
+        responses: Map<string, QueryResult>,
+        findBlocks: () => QueryBlock<R>[],
+        runDependency: DependencyRunner<QueryBlock<R>>,
+        chain: string[] = []
+    ): Promise<Record<string, string>> {
+        const references = RequestChain.findReferences(`${block.metadata?.endpoint || ''}\n${block.content}`);
+        const variables: Record<string, string> = {};
+
+        for (const reference of references) {
+            const name = reference.requestName;
+            let response = responses.get(name);
+            if (!response) {
+                const dependencyChain = [...chain, block.metadata?.name || '(current block)'];
+                if (dependencyChain.includes(name)) {
+                    throw new Error(`Circular request reference: ${[...dependencyChain, name].join(' -> ')}`);
+                }
+
+                const dependency = findBlocks().find(candidate => candidate.metadata?.name === name);
+                if (!dependency) {
+                    throw new Error(`No block named "${name}". Add "-- Name: ${name}" to the block it refers to.`);
+                }
+
+                response = await runDependency(dependency, dependencyChain);
+                if (!response.success) {
+                    throw new Error(`Request "${name}" failed: ${response.error}`);
+                }
+            }
+            variables[reference.variable] = RequestChain.extractValue(reference, response);
+        }
+
+        return variables;
+    }
+}
@@ -0,0 +1,69 @@
+import { QueryResult } from '../types';
+import { JsonUtils } from './jsonUtils';
+import { VariableResolver } from './variableResolver';
+
+/**
+ * A `{{name.response.body.path}}` or `{{name.response.headers.header}}` reference
+ */
+export interface ResponseReference {
+    variable: string;
+    requestName: string;
+    source: 'body' | 'headers';
+    path: string;
+}
+
+/**
+ * Resolves references from one block to the response of an earlier named block
+ */
+export class RequestChain {
+    private static readonly RESPONSE_REFERENCE_REGEX = /^([\w-]+)\.response\.(body|headers)(?:\.(.+))?$/;
+
+    /**
+     * Finds the response references in a text, ignoring plain variables
+     */
+    public static findReferences(text: string): ResponseReference[] {
+        const references: ResponseReference[] = [];
+
+        for (const variable of VariableResolver.findReferences(text)) {
+            const match = variable.match(this.RESPONSE_REFERENCE_REGEX);
+            if (match) {
+                references.push({
+                    variable,
+                    requestName: match[1],
+                    source: match[2] as 'body' | 'headers',
+                    path: match[3] || ''
+                });
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * Extracts the referenced value from a cached result. Strings are used as-is,
+     * other values are inserted as JSON.
+     */
+    public static extractValue(reference: ResponseReference, result: QueryResult): string {
+        const value = reference.source === 'headers'
+            ? this.getHeader(result.responseInfo?.headers, reference.path)
+            : JsonUtils.evaluatePath(result.rawResponse, reference.path);
+
+        if (value === undefined) {
+            throw new Error(`Could not resolve {{${reference.variable}}}: "${reference.path || reference.source}" not found in the response of "${reference.requestName}"`);
+        }
+
+        return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+
+    private static getHeader(headers: Record<string, string> | undefined, name: string): any {
+        if (!headers) {
+            return undefined;
+        }
+        if (!name) {
+            return headers;
+        }
+
+        const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+        return key ? headers[key] : undefined;
+    }
+}
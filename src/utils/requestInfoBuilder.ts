@@ -1,21 +1,28 @@
-import { ConnectionOverrides, QueryResult } from '../types';
+import { AuthSettings, ConnectionOverrides, QueryResult } from '../types';
 import { JsonUtils } from './jsonUtils';
+import { SecretResolver } from './secretResolver';
+import { OidcTokenProvider, TokenRequestOptions } from './oidcTokenProvider';
 
 export class RequestInfoBuilder {
     /**
-     * Build auth headers for a specific configuration (with overrides)
+     * Build auth headers for a specific configuration (with overrides).
+     * `${secret:key}` references are resolved here, at request time.
+     * `oidc` tokens come from the token provider.
      */
-    public static buildAuthHeaders(
-        baseAuth: { type: string; username?: string; password?: string; apiKey?: string },
-        overrides?: ConnectionOverrides
-    ): Record<string, string> {
+    public static async buildAuthHeaders(
+        baseAuth: Omit<AuthSettings, 'type'> & { type: string },
+        overrides?: ConnectionOverrides,
+        secretResolver?: SecretResolver,
+        tokenProvider?: OidcTokenProvider,
+        tokenOptions?: TokenRequestOptions
+    ): Promise<Record<string, string>> {
         const headers: Record<string, string> = {};
         
         // Merge auth config
         const authType = overrides?.auth?.type || baseAuth.type;
-        const username = overrides?.auth?.username || baseAuth.username;
-        const password = overrides?.auth?.password || baseAuth.password;
-        const apiKey = overrides?.auth?.apiKey || baseAuth.apiKey;
+        const username = await this.resolveSecret(overrides?.auth?.username || baseAuth.username, secretResolver);
+        const password = await this.resolveSecret(overrides?.auth?.password || baseAuth.password, secretResolver);
+        const apiKey = await this.resolveSecret(overrides?.auth?.apiKey || baseAuth.apiKey, secretResolver);
         
         switch (authType) {
             case 'basic':
@@ -29,11 +36,58 @@ export class RequestInfoBuilder {
                     headers['Authorization'] = `ApiKey ${apiKey}`;
                 }
                 break;
+            case 'oidc': {
+                const provider = tokenProvider || new OidcTokenProvider(secretResolver);
+                const token = await provider.getToken({ ...baseAuth, ...overrides?.auth, type: 'oidc' }, tokenOptions);
+                headers['Authorization'] = `Bearer ${token}`;
+                break;
+            }
         }
         
         return headers;
     }
 
+    /**
+     * Replaces `${secret:name}` references in a setting with the stored secrets
+     */
+    public static async resolveSecret(value: string | undefined, secretResolver?: SecretResolver): Promise<string | undefined> {
+        if (!SecretResolver.containsReference(value)) {
+            return value;
+        }
+        if (!secretResolver) {
+            throw new Error('Secret references require VS Code SecretStorage');
+        }
+        return secretResolver.resolve(value);
+    }
+
+    /**
+     * Checks whether the effective auth config refers to stored secrets
+     */
+    public static usesSecrets(
+        baseAuth: { username?: string; password?: string; apiKey?: string },
+        overrides?: ConnectionOverrides
+    ): boolean {
+        return [
+            overrides?.auth?.username || baseAuth.username,
+            overrides?.auth?.password || baseAuth.password,
+            overrides?.auth?.apiKey || baseAuth.apiKey
+        ].some(value => SecretResolver.containsReference(value));
+    }
+
+    /**
+     * Mask the Authorization header so resolved secrets never reach results or history
+     */
+    public static redactAuthHeaders(headers: Record<string, string>): Record<string, string> {
+        if (!headers['Authorization']) {
+            return headers;
+        }
+        const scheme = headers['Authorization'].split(' ')[0];
+        return {
+            ...headers,
+            'Authorization': `${scheme} ********`
+        };
+    }
+
     /**
      * Build request info for query operations
      */
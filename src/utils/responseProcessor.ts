@@ -19,6 +19,13 @@ export class ResponseProcessor {
             data = this.formatSqlResponse(response.schema, response.datarows);
             rowCount = response.datarows.length;
         }
+        else if (response.aggregations && Object.keys(response.aggregations).length > 0) {
+            // Aggregations are what the query asked for; the hits stay available in the raw response
+            const table = this.flattenAggregations(response.aggregations);
+            data = table.rows;
+            columns = table.columns;
+            rowCount = table.rows.length;
+        }
         else if (response.hits) {
             data = response.hits.hits;
             rowCount = response.hits.total?.value || response.hits.hits.length;
@@ -53,6 +60,10 @@ export class ResponseProcessor {
             rawResponse: response
         };
 
+        if (response.cursor) {
+            result.cursor = response.cursor;
+        }
+
         // Preserve additional information that may have been added by ConnectionManager
         const responseWithInfo = response as any;
         if (responseWithInfo.requestInfo) {
@@ -64,10 +75,32 @@ export class ResponseProcessor {
         if (responseWithInfo.connectionInfo) {
             result.connectionInfo = responseWithInfo.connectionInfo;
         }
+        if (responseWithInfo.attempts) {
+            result.attempts = responseWithInfo.attempts;
+        }
 
         return result;
     }
 
+    /**
+     * Appends the rows of a cursor page to a SQL/PPL result. Later pages may omit
+     * the schema, so rows are mapped with the schema of the first page.
+     */
+    public static appendCursorPage(result: QueryResult, page: OpenSearchResponse, executionTime: number): QueryResult {
+        const schema = result.rawResponse?.schema || page.schema || [];
+        const datarows = [...(result.rawResponse?.datarows || []), ...(page.datarows || [])];
+        const data = [...(Array.isArray(result.data) ? result.data : []), ...this.formatSqlResponse(schema, page.datarows || [])];
+
+        return {
+            ...result,
+            data,
+            rowCount: data.length,
+            executionTime: result.executionTime + executionTime,
+            cursor: page.cursor,
+            rawResponse: { ...result.rawResponse, datarows, size: datarows.length, cursor: page.cursor }
+        };
+    }
+
     /**
      * Formats SQL response data into object array
      */
@@ -99,27 +132,134 @@ export class ResponseProcessor {
 
         // Add source fields
         if (firstHit._source) {
-            this.extractFieldNames(firstHit._source, '', columns);
+            Object.keys(this.flattenFields(firstHit._source)).forEach(column => columns.add(column));
         }
 
         return Array.from(columns);
     }
 
     /**
-     * Recursively extracts field names from nested objects
+     * Flattens nested objects into dot-notation keys. Arrays and scalar values are kept as leaves.
      */
-    private static extractFieldNames(obj: any, prefix: string, columns: Set<string>): void {
+    public static flattenFields(obj: any, prefix: string = '', fields: Record<string, any> = {}): Record<string, any> {
         for (const key in obj) {
             if (obj.hasOwnProperty(key)) {
                 const fullKey = prefix ? `${prefix}.${key}` : key;
                 
                 if (typeof obj[key] === 'object' && obj[key] !== null && !Array.isArray(obj[key])) {
-                    this.extractFieldNames(obj[key], fullKey, columns);
+                    this.flattenFields(obj[key], fullKey, fields);
+                } else {
+                    fields[fullKey] = obj[key];
+                }
+            }
+        }
+        return fields;
+    }
+
+    /**
+     * Flattens `_search` aggregations into rows. Every bucket aggregation level adds a
+     * key column named after the aggregation (one per source for composite keys), the
+     * deepest level adds `doc_count`, and metrics add one column each, with dotted names
+     * for multi-value metrics such as `latency.99.0` or `stats.avg`. Single-bucket
+     * aggregations (filter, nested, ...) add their document count as a column. Metrics of
+     * a parent bucket are repeated on the rows of its child buckets, and sibling bucket
+     * aggregations produce separate sets of rows.
+     */
+    public static flattenAggregations(aggregations: Record<string, any>): { columns: string[]; rows: Record<string, any>[] } {
+        const keyColumns = new Set<string>();
+        const rows = this.collectAggregationRows(aggregations, {}, keyColumns, false);
+
+        const columns = new Set<string>(keyColumns);
+        if (rows.some(row => row.doc_count !== undefined)) {
+            columns.add('doc_count');
+        }
+        rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+        return { columns: Array.from(columns), rows };
+    }
+
+    private static collectAggregationRows(
+        container: Record<string, any>,
+        parentRow: Record<string, any>,
+        keyColumns: Set<string>,
+        isBucket: boolean
+    ): Record<string, any>[] {
+        const row = { ...parentRow };
+        const bucketAggregations: Array<{ name: string; buckets: Array<[string, any]>; singleBucket: boolean }> = [];
+
+        for (const [name, aggregation] of Object.entries(container)) {
+            // Buckets carry their own key, after_key and meta objects next to the sub-aggregations
+            if (!aggregation || typeof aggregation !== 'object' || Array.isArray(aggregation)
+                || (isBucket && (name === 'key' || name === 'after_key' || name === 'meta'))) {
+                continue;
+            }
+
+            if (aggregation.buckets) {
+                // Keyed range and filters aggregations return the buckets as an object
+                const buckets = Array.isArray(aggregation.buckets)
+                    ? aggregation.buckets.map((bucket: any, index: number) => [String(index), bucket] as [string, any])
+                    : Object.entries(aggregation.buckets);
+                bucketAggregations.push({ name, buckets, singleBucket: false });
+            } else if (typeof aggregation.doc_count === 'number' && aggregation.value === undefined) {
+                bucketAggregations.push({ name, buckets: [[name, aggregation]], singleBucket: true });
+            } else {
+                Object.assign(row, this.flattenMetric(name, aggregation));
+            }
+        }
+
+        if (bucketAggregations.length === 0) {
+            return [row];
+        }
+
+        const rows: Record<string, any>[] = [];
+        for (const { name, buckets, singleBucket } of bucketAggregations) {
+            for (const [bucketName, bucket] of buckets) {
+                const bucketRow = { ...row };
+                if (singleBucket) {
+                    bucketRow[name] = bucket.doc_count;
                 } else {
-                    columns.add(fullKey);
+                    if (bucket.key && typeof bucket.key === 'object') {
+                        // Composite aggregation: one column per source
+                        for (const [source, value] of Object.entries(bucket.key)) {
+                            keyColumns.add(source);
+                            bucketRow[source] = value;
+                        }
+                    } else {
+                        keyColumns.add(name);
+                        bucketRow[name] = bucket.key_as_string ?? bucket.key ?? bucketName;
+                    }
+                    bucketRow.doc_count = bucket.doc_count;
                 }
+                rows.push(...this.collectAggregationRows(bucket, bucketRow, keyColumns, true));
             }
         }
+        // Keep a parent bucket whose sub-aggregations returned no buckets
+        return rows.length === 0 && Object.keys(row).length > 0 ? [row] : rows;
+    }
+
+    /**
+     * Flattens a metric aggregation into one or more columns
+     */
+    private static flattenMetric(name: string, metric: Record<string, any>): Record<string, any> {
+        if (metric.value !== undefined) {
+            return { [name]: metric.value };
+        }
+        if (metric.hits?.hits) {
+            // top_hits: keep the documents together in one cell
+            return { [name]: metric.hits.hits.map((hit: any) => hit._source) };
+        }
+        if (Array.isArray(metric.values)) {
+            // Percentiles with keyed: false
+            return Object.fromEntries(metric.values.map((item: any) => [`${name}.${item.key}`, item.value]));
+        }
+
+        const values = metric.values && typeof metric.values === 'object' ? metric.values : metric;
+        const fields = this.flattenFields(values, name);
+        for (const field of Object.keys(fields)) {
+            if (field.endsWith('_as_string') || field.startsWith(`${name}.meta.`)) {
+                delete fields[field];
+            }
+        }
+        return fields;
     }
 
     /**
@@ -206,6 +346,10 @@ export class ResponseProcessor {
      * Gets nested value from object using dot notation
      */
     private static getNestedValue(obj: any, path: string): any {
+        // Flattened rows (aggregations) use dotted column names as plain keys
+        if (obj && obj[path] !== undefined) {
+            return obj[path];
+        }
         return path.split('.').reduce((current, key) => {
             return current && current[key] !== undefined ? current[key] : undefined;
         }, obj);
@@ -0,0 +1,360 @@
+import { QueryResult } from '../types';
+import { ResultGrid, GridData } from './resultGrid';
+
+export type ChartType = 'line' | 'bar' | 'pie';
+
+/**
+ * Columns preselected in the chart controls
+ */
+export interface ChartDefaults {
+    x: number;
+    y: number;
+}
+
+/**
+ * Line, bar and pie charts of tabular results. Column types come from the same
+ * analysis as the result grid: schema types first, inferred numbers otherwise.
+ * The SVG is drawn by the webview script so the chart follows the selected
+ * columns without a round trip to the extension.
+ */
+export class ResultChart {
+    /**
+     * Builds the chart data, or undefined when the result has no numeric column to plot
+     */
+    public static buildChartData(result: QueryResult): GridData | undefined {
+        if (!result.success || !Array.isArray(result.data) || result.data.length === 0) {
+            return undefined;
+        }
+
+        const columns = result.columns && result.columns.length > 0 ? result.columns : Object.keys(result.data[0] || {});
+        const gridData = ResultGrid.buildGridData(result.data, columns, result.rawResponse?.schema);
+        return gridData.columns.some(column => column.sortType === 'number') ? gridData : undefined;
+    }
+
+    /**
+     * Picks the x axis (the first time column, else the first non-numeric column,
+     * else the first column) and the first other numeric column as y axis
+     */
+    public static getDefaults(chartData: GridData): ChartDefaults {
+        const columns = chartData.columns;
+        let x = columns.findIndex(column => column.sortType === 'date');
+        if (x < 0) {
+            x = columns.findIndex(column => column.sortType !== 'number');
+        }
+        if (x < 0) {
+            x = 0;
+        }
+
+        const y = columns.findIndex((column, index) => index !== x && column.sortType === 'number');
+        return { x, y: y < 0 ? x : y };
+    }
+
+    public static generateHtml(chartId: string, chartData: GridData): string {
+        const defaults = this.getDefaults(chartData);
+        // Keep "</script>" in values from closing the data block
+        const json = JSON.stringify({ ...chartData, defaults }).replace(/</g, '\\u003c');
+
+        return `
+            <div class="result-chart" id="${chartId}">
+                <div class="chart-controls">
+                    <label>Chart
+                        <select class="chart-type" onchange="renderChart('${chartId}')">
+                            <option value="line">Line</option>
+                            <option value="bar">Bar</option>
+                            <option value="pie">Pie</option>
+                        </select>
+                    </label>
+                    <label>X <select class="chart-x" onchange="renderChart('${chartId}')"></select></label>
+                    <label>Y <select class="chart-y" onchange="renderChart('${chartId}')"></select></label>
+                    <label>Series <select class="chart-series" onchange="renderChart('${chartId}')"></select></label>
+                    <span class="chart-actions">
+                        <button class="copy-btn" onclick="exportChart('${chartId}', 'svg')">Export SVG</button>
+                        <button class="copy-btn" onclick="exportChart('${chartId}', 'png')">Export PNG</button>
+                        <button class="copy-btn" onclick="insertChart('${chartId}')" title="Save as SVG next to the document and insert an image link">Insert into Document</button>
+                    </span>
+                </div>
+                <div class="chart-canvas"></div>
+                <script type="application/json" class="chart-data">${json}</script>
+            </div>
+        `;
+    }
+
+    public static getCSS(): string {
+        return `
+                .chart-controls {
+                    display: flex;
+                    flex-wrap: wrap;
+                    align-items: center;
+                    gap: 12px;
+                    margin: 10px 0;
+                    font-size: 0.9em;
+                }
+                .chart-controls select {
+                    margin-left: 4px;
+                    background-color: var(--vscode-dropdown-background);
+                    color: var(--vscode-dropdown-foreground);
+                    border: 1px solid var(--vscode-dropdown-border);
+                }
+                .chart-actions {
+                    margin-left: auto;
+                    display: flex;
+                    gap: 4px;
+                }
+                .chart-canvas svg {
+                    max-width: 100%;
+                    height: auto;
+                }
+        `;
+    }
+
+    public static getJavaScript(): string {
+        return `
+                const CHART_WIDTH = 800;
+                const CHART_HEIGHT = 400;
+                const CHART_MARGIN = { top: 30, right: 150, bottom: 60, left: 70 };
+                const CHART_COLORS = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+                const CHART_TEXT_COLOR = '#888888';
+                const charts = {};
+
+                function initChart(container) {
+                    const data = JSON.parse(container.querySelector('.chart-data').textContent);
+                    charts[container.id] = { container: container, data: data };
+
+                    const xSelect = container.querySelector('.chart-x');
+                    const ySelect = container.querySelector('.chart-y');
+                    const seriesSelect = container.querySelector('.chart-series');
+                    seriesSelect.appendChild(new Option('None', '-1'));
+                    data.columns.forEach((column, index) => {
+                        xSelect.appendChild(new Option(column.name, String(index)));
+                        if (column.sortType === 'number') {
+                            ySelect.appendChild(new Option(column.name, String(index)));
+                        } else {
+                            seriesSelect.appendChild(new Option(column.name, String(index)));
+                        }
+                    });
+                    xSelect.value = String(data.defaults.x);
+                    ySelect.value = String(data.defaults.y);
+                    renderChart(container.id);
+                }
+
+                function escapeChartText(text) {
+                    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+                }
+
+                function formatChartValue(value) {
+                    if (Math.abs(value) >= 1000000) {
+                        return (value / 1000000).toFixed(1) + 'M';
+                    }
+                    if (Math.abs(value) >= 1000) {
+                        return (value / 1000).toFixed(1) + 'k';
+                    }
+                    return String(Math.round(value * 100) / 100);
+                }
+
+                /**
+                 * Groups the rows into series of points. Rows with the same series and
+                 * x value are summed; ordered x axes are sorted by value.
+                 */
+                function buildChartSeries(data, x, y, seriesColumn) {
+                    const ordered = data.columns[x].sortType === 'date' || data.columns[x].sortType === 'number';
+                    const seriesMap = new Map();
+                    const labels = new Map();
+                    data.rows.forEach((row, rowIndex) => {
+                        const yValue = data.sortValues[rowIndex][y];
+                        const xValue = ordered ? data.sortValues[rowIndex][x] : row[x];
+                        if (yValue === null || xValue === null) {
+                            return;
+                        }
+                        const name = seriesColumn >= 0 ? row[seriesColumn] : data.columns[y].name;
+                        if (!seriesMap.has(name)) {
+                            seriesMap.set(name, new Map());
+                        }
+                        const points = seriesMap.get(name);
+                        points.set(xValue, (points.get(xValue) || 0) + yValue);
+                        labels.set(xValue, row[x]);
+                    });
+
+                    let xValues = Array.from(labels.keys());
+                    if (ordered) {
+                        xValues.sort((a, b) => a - b);
+                    }
+                    const series = Array.from(seriesMap.entries()).map(([name, points]) => ({ name: name, points: points }));
+                    return { ordered: ordered, xValues: xValues, labels: labels, series: series };
+                }
+
+                function renderChart(chartId) {
+                    const chart = charts[chartId];
+                    if (!chart) {
+                        return;
+                    }
+                    const container = chart.container;
+                    const type = container.querySelector('.chart-type').value;
+                    const x = Number(container.querySelector('.chart-x').value);
+                    const y = Number(container.querySelector('.chart-y').value);
+                    const seriesColumn = Number(container.querySelector('.chart-series').value);
+                    const model = buildChartSeries(chart.data, x, y, seriesColumn === x ? -1 : seriesColumn);
+
+                    let body;
+                    if (model.xValues.length === 0) {
+                        body = '<text x="' + CHART_WIDTH / 2 + '" y="' + CHART_HEIGHT / 2 + '" text-anchor="middle">No numeric values to plot</text>';
+                    } else if (type === 'pie') {
+                        body = renderPieChart(model);
+                    } else {
+                        body = renderAxesChart(model, type, chart.data.columns[x], chart.data.columns[y]);
+                    }
+
+                    chart.svg = '<svg xmlns="http://www.w3.org/2000/svg" width="' + CHART_WIDTH + '" height="' + CHART_HEIGHT + '" viewBox="0 0 ' + CHART_WIDTH + ' ' + CHART_HEIGHT + '"'
+                        + ' font-family="sans-serif" font-size="11" fill="' + CHART_TEXT_COLOR + '">'
+                        + body + '</svg>';
+                    container.querySelector('.chart-canvas').innerHTML = chart.svg;
+                }
+
+                function renderLegend(names) {
+                    return names.map((name, index) => {
+                        const top = CHART_MARGIN.top + index * 18;
+                        const left = CHART_WIDTH - CHART_MARGIN.right + 15;
+                        return '<rect x="' + left + '" y="' + (top - 9) + '" width="10" height="10" fill="' + CHART_COLORS[index % CHART_COLORS.length] + '"/>'
+                            + '<text x="' + (left + 15) + '" y="' + top + '">' + escapeChartText(name) + '</text>';
+                    }).join('');
+                }
+
+                function renderAxesChart(model, type, xColumn, yColumn) {
+                    const plotWidth = CHART_WIDTH - CHART_MARGIN.left - CHART_MARGIN.right;
+                    const plotHeight = CHART_HEIGHT - CHART_MARGIN.top - CHART_MARGIN.bottom;
+                    const values = [];
+                    model.series.forEach(series => series.points.forEach(value => values.push(value)));
+                    const yMin = Math.min(0, Math.min.apply(null, values));
+                    const yMax = Math.max(0, Math.max.apply(null, values)) || 1;
+                    const scaleY = value => CHART_MARGIN.top + plotHeight - (value - yMin) / (yMax - yMin) * plotHeight;
+
+                    // Bars and unordered axes use one slot per x value; ordered line charts scale by value
+                    const slots = model.xValues.length;
+                    const slotWidth = plotWidth / slots;
+                    const xMin = model.xValues[0];
+                    const xMax = model.xValues[slots - 1];
+                    const scaleX = (value, index) => type === 'line' && model.ordered && xMax !== xMin
+                        ? CHART_MARGIN.left + (value - xMin) / (xMax - xMin) * plotWidth
+                        : CHART_MARGIN.left + slotWidth * (index + 0.5);
+
+                    let svg = '';
+                    for (let tick = 0; tick <= 5; tick++) {
+                        const value = yMin + (yMax - yMin) * tick / 5;
+                        const top = scaleY(value);
+                        svg += '<line x1="' + CHART_MARGIN.left + '" x2="' + (CHART_MARGIN.left + plotWidth) + '" y1="' + top + '" y2="' + top + '" stroke="' + CHART_TEXT_COLOR + '" stroke-opacity="0.2"/>';
+                        svg += '<text x="' + (CHART_MARGIN.left - 6) + '" y="' + (top + 4) + '" text-anchor="end">' + formatChartValue(value) + '</text>';
+                    }
+
+                    const labelEvery = Math.max(1, Math.ceil(slots / 10));
+                    model.xValues.forEach((value, index) => {
+                        if (index % labelEvery !== 0) {
+                            return;
+                        }
+                        const left = scaleX(value, index);
+                        const top = CHART_MARGIN.top + plotHeight + 14;
+                        svg += '<text x="' + left + '" y="' + top + '" text-anchor="end" transform="rotate(-30 ' + left + ' ' + top + ')">'
+                            + escapeChartText(model.labels.get(value)) + '</text>';
+                    });
+                    svg += '<line x1="' + CHART_MARGIN.left + '" x2="' + (CHART_MARGIN.left + plotWidth) + '" y1="' + scaleY(0) + '" y2="' + scaleY(0) + '" stroke="' + CHART_TEXT_COLOR + '"/>';
+                    svg += '<text x="' + (CHART_MARGIN.left + plotWidth / 2) + '" y="' + (CHART_HEIGHT - 4) + '" text-anchor="middle">' + escapeChartText(xColumn.name) + '</text>';
+                    svg += '<text x="14" y="' + (CHART_MARGIN.top + plotHeight / 2) + '" text-anchor="middle" transform="rotate(-90 14 ' + (CHART_MARGIN.top + plotHeight / 2) + ')">' + escapeChartText(yColumn.name) + '</text>';
+
+                    const barWidth = slotWidth * 0.8 / model.series.length;
+                    model.series.forEach((series, seriesIndex) => {
+                        const color = CHART_COLORS[seriesIndex % CHART_COLORS.length];
+                        if (type === 'bar') {
+                            model.xValues.forEach((value, index) => {
+                                if (!series.points.has(value)) {
+                                    return;
+                                }
+                                const pointValue = series.points.get(value);
+                                const left = CHART_MARGIN.left + slotWidth * index + slotWidth * 0.1 + barWidth * seriesIndex;
+                                const top = Math.min(scaleY(pointValue), scaleY(0));
+                                svg += '<rect x="' + left + '" y="' + top + '" width="' + Math.max(1, barWidth - 1) + '" height="' + Math.abs(scaleY(pointValue) - scaleY(0)) + '" fill="' + color + '">'
+                                    + '<title>' + escapeChartText(series.name + ': ' + model.labels.get(value) + ' = ' + pointValue) + '</title></rect>';
+                            });
+                        } else {
+                            const points = model.xValues
+                                .map((value, index) => series.points.has(value) ? scaleX(value, index) + ',' + scaleY(series.points.get(value)) : null)
+                                .filter(point => point !== null);
+                            svg += '<polyline fill="none" stroke="' + color + '" stroke-width="2" points="' + points.join(' ') + '"/>';
+                        }
+                    });
+
+                    return svg + renderLegend(model.series.map(series => series.name));
+                }
+
+                function renderPieChart(model) {
+                    // Each x value is one slice; series are summed
+                    const slices = model.xValues.map(value => ({
+                        label: model.labels.get(value),
+                        value: model.series.reduce((sum, series) => sum + Math.max(0, series.points.get(value) || 0), 0)
+                    })).filter(slice => slice.value > 0);
+                    const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+                    if (total === 0) {
+                        return '<text x="' + CHART_WIDTH / 2 + '" y="' + CHART_HEIGHT / 2 + '" text-anchor="middle">No positive values to plot</text>';
+                    }
+
+                    const radius = (CHART_HEIGHT - CHART_MARGIN.top - 20) / 2;
+                    const centerX = CHART_MARGIN.left + radius;
+                    const centerY = CHART_HEIGHT / 2;
+                    let angle = -Math.PI / 2;
+                    let svg = '';
+                    slices.forEach((slice, index) => {
+                        const color = CHART_COLORS[index % CHART_COLORS.length];
+                        const sweep = slice.value / total * Math.PI * 2;
+                        const title = '<title>' + escapeChartText(slice.label + ': ' + slice.value) + '</title>';
+                        if (slices.length === 1) {
+                            svg += '<circle cx="' + centerX + '" cy="' + centerY + '" r="' + radius + '" fill="' + color + '">' + title + '</circle>';
+                        } else {
+                            const startX = centerX + radius * Math.cos(angle);
+                            const startY = centerY + radius * Math.sin(angle);
+                            const endX = centerX + radius * Math.cos(angle + sweep);
+                            const endY = centerY + radius * Math.sin(angle + sweep);
+                            svg += '<path d="M' + centerX + ',' + centerY + ' L' + startX + ',' + startY
+                                + ' A' + radius + ',' + radius + ' 0 ' + (sweep > Math.PI ? 1 : 0) + ' 1 ' + endX + ',' + endY + ' Z" fill="' + color + '">' + title + '</path>';
+                        }
+                        angle += sweep;
+                    });
+
+                    const legend = slices.map(slice => slice.label + ' (' + Math.round(slice.value / total * 1000) / 10 + '%)');
+                    return svg + renderLegend(legend);
+                }
+
+                function exportChart(chartId, format) {
+                    const chart = charts[chartId];
+                    if (!chart || !chart.svg) {
+                        return;
+                    }
+                    if (format === 'svg') {
+                        vscode.postMessage({ command: 'exportChart', format: 'svg', data: chart.svg });
+                        return;
+                    }
+
+                    // Rasterize through a canvas at twice the size for sharper images
+                    const image = new Image();
+                    image.onload = () => {
+                        const canvas = document.createElement('canvas');
+                        canvas.width = CHART_WIDTH * 2;
+                        canvas.height = CHART_HEIGHT * 2;
+                        const context = canvas.getContext('2d');
+                        context.fillStyle = '#ffffff';
+                        context.fillRect(0, 0, canvas.width, canvas.height);
+                        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+                        vscode.postMessage({ command: 'exportChart', format: 'png', data: canvas.toDataURL('image/png') });
+                    };
+                    image.src = 'data:image/svg+xml;base64,' + btoa(unescape(encodeURIComponent(chart.svg)));
+                }
+
+                function insertChart(chartId) {
+                    const chart = charts[chartId];
+                    if (chart && chart.svg) {
+                        vscode.postMessage({ command: 'insertChart', data: chart.svg });
+                    }
+                }
+
+                document.addEventListener('DOMContentLoaded', function() {
+                    document.querySelectorAll('.result-chart').forEach(container => initChart(container));
+                });
+        `;
+    }
+}
@@ -0,0 +1,300 @@
+import { QueryResult } from '../types';
+import { HtmlUtils } from './htmlUtils';
+import { ResultExporter } from './resultExporter';
+import { TabContentGenerator } from './tabContentGenerator';
+import { WebviewStyles } from './webviewStyles';
+
+export type RowDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * One row of a comparison, matched by its key
+ */
+export interface RowDiffEntry {
+    status: RowDiffStatus;
+    key: string;
+    left?: Record<string, any>;
+    right?: Record<string, any>;
+    changedColumns: string[];
+}
+
+export interface RowDiff {
+    // Column rows are matched by; undefined matches rows by position
+    keyColumn?: string;
+    columns: string[];
+    entries: RowDiffEntry[];
+    counts: Record<RowDiffStatus, number>;
+}
+
+/**
+ * A value that differs at a JSON path, e.g. `$.hits.total.value`
+ */
+export interface JsonChange {
+    path: string;
+    kind: 'added' | 'removed' | 'changed';
+    left?: any;
+    right?: any;
+}
+
+/**
+ * A result and the label it is shown with, e.g. the connection it came from
+ */
+export interface DiffSide {
+    label: string;
+    result: QueryResult;
+}
+
+/**
+ * Compares two query results row by row and as JSON
+ */
+export class ResultDiff {
+    /**
+     * Columns both results have, with `_id` first, to match rows by
+     */
+    public static getKeyCandidates(left: QueryResult, right: QueryResult): string[] {
+        const rightColumns = new Set(this.getColumns(right));
+        const common = this.getColumns(left).filter(column => rightColumns.has(column));
+        return common.includes('_id') ? ['_id', ...common.filter(column => column !== '_id')] : common;
+    }
+
+    /**
+     * Matches the rows of both results by the key column (or by position without one)
+     * and classifies them as added, removed, changed or unchanged. Rows are flattened
+     * like exports, so nested fields are compared per column.
+     */
+    public static diffRows(left: QueryResult, right: QueryResult, keyColumn?: string): RowDiff {
+        const leftRows = this.toKeyedRows(left, keyColumn);
+        const rightRows = this.toKeyedRows(right, keyColumn);
+        const columns = Array.from(new Set([...this.getColumns(left), ...this.getColumns(right)]));
+        const entries: RowDiffEntry[] = [];
+
+        for (const [key, leftRow] of leftRows) {
+            const rightRow = rightRows.get(key);
+            if (!rightRow) {
+                entries.push({ status: 'removed', key, left: leftRow, changedColumns: [] });
+                continue;
+            }
+            const changedColumns = columns.filter(column => !this.isEqual(leftRow[column], rightRow[column]));
+            entries.push({
+                status: changedColumns.length > 0 ? 'changed' : 'unchanged',
+                key,
+                left: leftRow,
+                right: rightRow,
+                changedColumns
+            });
+        }
+        for (const [key, rightRow] of rightRows) {
+            if (!leftRows.has(key)) {
+                entries.push({ status: 'added', key, right: rightRow, changedColumns: [] });
+            }
+        }
+
+        const counts: Record<RowDiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+        entries.forEach(entry => counts[entry.status]++);
+        return { keyColumn, columns, entries, counts };
+    }
+
+    /**
+     * Lists the paths where two JSON values differ. Arrays are compared by index.
+     */
+    public static diffJson(left: any, right: any, path: string = '$', changes: JsonChange[] = []): JsonChange[] {
+        if (this.isEqual(left, right)) {
+            return changes;
+        }
+
+        const leftIsContainer = left !== null && typeof left === 'object';
+        const rightIsContainer = right !== null && typeof right === 'object';
+        if (!leftIsContainer || !rightIsContainer || Array.isArray(left) !== Array.isArray(right)) {
+            changes.push({ path, kind: 'changed', left, right });
+            return changes;
+        }
+
+        const keys = Array.isArray(left)
+            ? Array.from({ length: Math.max(left.length, right.length) }, (_, index) => String(index))
+            : Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+        for (const key of keys) {
+            const childPath = Array.isArray(left) ? `${path}[${key}]` : `${path}.${key}`;
+            if (!(key in left)) {
+                changes.push({ path: childPath, kind: 'added', right: right[key] });
+            } else if (!(key in right)) {
+                changes.push({ path: childPath, kind: 'removed', left: left[key] });
+            } else {
+                this.diffJson(left[key], right[key], childPath, changes);
+            }
+        }
+        return changes;
+    }
+
+    public static generateHtml(left: DiffSide, right: DiffSide, keyColumn?: string): string {
+        const rowDiff = this.diffRows(left.result, right.result, keyColumn);
+        const jsonChanges = this.diffJson(this.getComparedValue(left.result), this.getComparedValue(right.result));
+        const tabs = TabContentGenerator.generateTabsHtml([
+            { id: 'diff-rows', label: 'Rows', content: this.generateRowsContent(rowDiff, left, right), active: true },
+            { id: 'diff-json', label: `JSON (${jsonChanges.length} changes)`, content: this.generateJsonContent(jsonChanges) }
+        ]);
+
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>OpenSearch Result Comparison</title>
+            <style>
+                ${WebviewStyles.getCommonCSS()}
+                ${this.getCSS()}
+            </style>
+        </head>
+        <body>
+            <div class="header">
+                <div class="header-content">
+                    <div class="header-left">
+                        <h1>Result Comparison</h1>
+                    </div>
+                </div>
+            </div>
+
+            <div class="metadata">
+                <span class="metadata-item diff-removed">Left: ${HtmlUtils.escapeHtml(left.label)}</span>
+                <span class="metadata-item diff-added">Right: ${HtmlUtils.escapeHtml(right.label)}</span>
+                <span class="metadata-item">Rows matched by ${rowDiff.keyColumn ? `<code>${HtmlUtils.escapeHtml(rowDiff.keyColumn)}</code>` : 'position'}</span>
+            </div>
+
+            ${tabs}
+
+            <script>
+                ${WebviewStyles.getCommonJavaScript()}
+            </script>
+        </body>
+        </html>
+        `;
+    }
+
+    private static generateRowsContent(rowDiff: RowDiff, left: DiffSide, right: DiffSide): string {
+        if (!ResultExporter.canExport(left.result) || !ResultExporter.canExport(right.result)) {
+            return '<p>Only results with rows can be compared row by row. See the JSON tab.</p>';
+        }
+
+        const { counts } = rowDiff;
+        const header = rowDiff.columns.map(column => `<th>${HtmlUtils.escapeHtml(column)}</th>`).join('');
+        const rows = rowDiff.entries.map(entry => {
+            const cells = rowDiff.columns.map(column => {
+                if (entry.status === 'changed' && entry.changedColumns.includes(column)) {
+                    return `<td class="diff-cell-changed"><del>${this.formatValue(entry.left![column])}</del><br><ins>${this.formatValue(entry.right![column])}</ins></td>`;
+                }
+                return `<td>${this.formatValue((entry.right || entry.left)![column])}</td>`;
+            }).join('');
+            return `<tr class="diff-${entry.status}"><td class="diff-status">${this.statusSymbol(entry.status)}</td><td>${HtmlUtils.escapeHtml(entry.key)}</td>${cells}</tr>`;
+        }).join('\n');
+
+        return `
+            <div class="diff-summary">
+                <span class="diff-added">+${counts.added} added</span>
+                <span class="diff-removed">-${counts.removed} removed</span>
+                <span class="diff-changed">~${counts.changed} changed</span>
+                <span>${counts.unchanged} unchanged</span>
+                <label><input type="checkbox" onchange="document.getElementById('diff-rows-table').classList.toggle('diff-hide-unchanged', this.checked)"> Hide unchanged rows</label>
+            </div>
+            <div class="table-container">
+                <table id="diff-rows-table">
+                    <thead><tr><th></th><th>${HtmlUtils.escapeHtml(rowDiff.keyColumn || '#')}</th>${header}</tr></thead>
+                    <tbody>${rows}</tbody>
+                </table>
+            </div>
+        `;
+    }
+
+    private static generateJsonContent(changes: JsonChange[]): string {
+        if (changes.length === 0) {
+            return '<p>Both results are identical.</p>';
+        }
+
+        const rows = changes.map(change => `<tr class="diff-${change.kind}">
+                <td class="diff-status">${this.statusSymbol(change.kind)}</td>
+                <td><code>${HtmlUtils.escapeHtml(change.path)}</code></td>
+                <td>${change.kind === 'added' ? '' : this.formatValue(change.left)}</td>
+                <td>${change.kind === 'removed' ? '' : this.formatValue(change.right)}</td>
+            </tr>`).join('\n');
+
+        return `
+            <div class="table-container">
+                <table>
+                    <thead><tr><th></th><th>Path</th><th>Left</th><th>Right</th></tr></thead>
+                    <tbody>${rows}</tbody>
+                </table>
+            </div>
+        `;
+    }
+
+    private static getCSS(): string {
+        return `
+                .diff-summary {
+                    display: flex;
+                    gap: 16px;
+                    align-items: center;
+                    margin: 10px 0;
+                }
+                .diff-added { color: var(--vscode-gitDecoration-addedResourceForeground); }
+                .diff-removed { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+                .diff-changed { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+                tr.diff-added td { background-color: var(--vscode-diffEditor-insertedTextBackground); }
+                tr.diff-removed td { background-color: var(--vscode-diffEditor-removedTextBackground); }
+                td.diff-cell-changed del { background-color: var(--vscode-diffEditor-removedTextBackground); }
+                td.diff-cell-changed ins { background-color: var(--vscode-diffEditor-insertedTextBackground); text-decoration: none; }
+                td.diff-status { font-weight: bold; text-align: center; }
+                .diff-hide-unchanged tr.diff-unchanged { display: none; }
+        `;
+    }
+
+    private static toKeyedRows(result: QueryResult, keyColumn?: string): Map<string, Record<string, any>> {
+        const keyed = new Map<string, Record<string, any>>();
+        if (!ResultExporter.canExport(result)) {
+            return keyed;
+        }
+
+        ResultExporter.toRows(result).forEach((row, index) => {
+            const baseKey = keyColumn ? this.formatKey(row[keyColumn]) : `#${index + 1}`;
+            // Rows sharing a key are matched in order of appearance
+            let key = baseKey;
+            for (let occurrence = 2; keyed.has(key); occurrence++) {
+                key = `${baseKey} (${occurrence})`;
+            }
+            keyed.set(key, row);
+        });
+        return keyed;
+    }
+
+    private static getColumns(result: QueryResult): string[] {
+        return ResultExporter.canExport(result) ? ResultExporter.getColumns(result, ResultExporter.toRows(result)) : [];
+    }
+
+    private static getComparedValue(result: QueryResult): any {
+        return result.success ? result.data : { error: result.error };
+    }
+
+    private static isEqual(left: any, right: any): boolean {
+        return JSON.stringify(left) === JSON.stringify(right);
+    }
+
+    private static formatKey(value: any): string {
+        if (value === null || value === undefined) {
+            return '(empty)';
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    private static formatValue(value: any): string {
+        if (value === undefined) {
+            return '';
+        }
+        return HtmlUtils.escapeHtml(typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+
+    private static statusSymbol(status: RowDiffStatus): string {
+        switch (status) {
+            case 'added': return '+';
+            case 'removed': return '-';
+            case 'changed': return '~';
+            default: return '';
+        }
+    }
+}
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import { QueryResult } from '../types';
+import { ResponseProcessor } from './responseProcessor';
+
+export type ExportFormat = 'csv' | 'tsv' | 'ndjson' | 'markdown';
+
+export interface ExportFormatInfo {
+    label: string;
+    extension: string;
+}
+
+/**
+ * A flattened row: dot-notation keys for nested fields, hit metadata for search results
+ */
+type ExportRow = Record<string, any>;
+
+/**
+ * Writes tabular query results to CSV, TSV, NDJSON or Markdown files
+ */
+export class ResultExporter {
+    public static readonly FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+        csv: { label: 'CSV (Excel compatible)', extension: 'csv' },
+        tsv: { label: 'TSV', extension: 'tsv' },
+        ndjson: { label: 'NDJSON (JSON Lines)', extension: 'ndjson' },
+        markdown: { label: 'Markdown table', extension: 'md' }
+    };
+
+    /**
+     * Checks whether a result has rows that can be exported
+     */
+    public static canExport(result: QueryResult): boolean {
+        return result.success && Array.isArray(result.data);
+    }
+
+    /**
+     * Flattens the rows of a result. Search hits are reduced to `_index`, `_id`,
+     * `_score` and their flattened `_source`, the same fields shown as table columns.
+     * SQL/PPL rows already match their schema and are kept as they are.
+     */
+    public static toRows(result: QueryResult, data: any[] = result.data): ExportRow[] {
+        if (result.rawResponse?.schema) {
+            return data;
+        }
+
+        return data.map(row => {
+            if (row && typeof row === 'object' && row._source && typeof row._source === 'object') {
+                return {
+                    _index: row._index,
+                    _id: row._id,
+                    _score: row._score,
+                    ...ResponseProcessor.flattenFields(row._source)
+                };
+            }
+            return row && typeof row === 'object' ? ResponseProcessor.flattenFields(row) : { value: row };
+        });
+    }
+
+    /**
+     * Columns of an export: the result columns, extended with fields that only
+     * appear in later rows of schemaless (search) results
+     */
+    public static getColumns(result: QueryResult, rows: ExportRow[]): string[] {
+        const columns = new Set<string>(result.columns || []);
+        if (!result.rawResponse?.schema) {
+            for (const row of rows) {
+                Object.keys(row).forEach(column => columns.add(column));
+            }
+        }
+        return Array.from(columns);
+    }
+
+    public static formatHeader(columns: string[], format: ExportFormat): string {
+        switch (format) {
+            case 'csv':
+                // The byte order mark makes Excel read the file as UTF-8
+                return '\uFEFF' + columns.map(column => this.escapeCsv(column)).join(',') + '\r\n';
+            case 'tsv':
+                return columns.map(column => this.escapeTsv(column)).join('\t') + '\n';
+            case 'markdown':
+                return '| ' + columns.map(column => this.escapeMarkdown(column)).join(' | ') + ' |\n'
+                    + '| ' + columns.map(() => '---').join(' | ') + ' |\n';
+            case 'ndjson':
+                return '';
+        }
+    }
+
+    public static formatRows(rows: ExportRow[], columns: string[], format: ExportFormat): string {
+        return rows.map(row => {
+            switch (format) {
+                case 'csv':
+                    return columns.map(column => this.escapeCsv(this.toText(row[column]))).join(',') + '\r\n';
+                case 'tsv':
+                    return columns.map(column => this.escapeTsv(this.toText(row[column]))).join('\t') + '\n';
+                case 'markdown':
+                    return '| ' + columns.map(column => this.escapeMarkdown(this.toText(row[column]))).join(' | ') + ' |\n';
+                case 'ndjson': {
+                    const record: Record<string, any> = {};
+                    columns.forEach(column => {
+                        record[column] = row[column] === undefined ? null : row[column];
+                    });
+                    return JSON.stringify(record) + '\n';
+                }
+            }
+        }).join('');
+    }
+
+    /**
+     * Writes a result to a file. With `fetchNextPage`, the remaining cursor pages are
+     * streamed to the file one page at a time. Returns the number of rows written.
+     */
+    public static async exportToFile(
+        result: QueryResult,
+        format: ExportFormat,
+        filePath: string,
+        fetchNextPage?: (page: QueryResult) => Promise<QueryResult>,
+        isCancelled: () => boolean = () => false
+    ): Promise<number> {
+        if (!this.canExport(result)) {
+            throw new Error('Only successful results with rows can be exported');
+        }
+
+        const stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+        const closed = new Promise<void>((resolve, reject) => {
+            stream.on('error', reject);
+            stream.on('finish', resolve);
+        });
+
+        try {
+            const firstRows = this.toRows(result);
+            const columns = this.getColumns(result, firstRows);
+            await this.write(stream, this.formatHeader(columns, format));
+            await this.write(stream, this.formatRows(firstRows, columns, format));
+            let rowCount = firstRows.length;
+
+            let page = result;
+            while (fetchNextPage && page.cursor && !isCancelled()) {
+                // Drop the rows already written so only the next page is held in memory
+                page = await fetchNextPage({
+                    ...page,
+                    data: [],
+                    rawResponse: { ...page.rawResponse, datarows: [] }
+                });
+                if (!page.success) {
+                    throw new Error(`Failed to fetch the next page: ${page.error}`);
+                }
+
+                const rows = this.toRows(result, page.data || []);
+                await this.write(stream, this.formatRows(rows, columns, format));
+                rowCount += rows.length;
+            }
+
+            return rowCount;
+        } finally {
+            stream.end();
+            await closed;
+        }
+    }
+
+    private static write(stream: fs.WriteStream, chunk: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            stream.write(chunk, error => error ? reject(error) : resolve());
+        });
+    }
+
+    private static toText(value: any): string {
+        if (value === null || value === undefined) {
+            return '';
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    private static escapeCsv(value: string): string {
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    private static escapeTsv(value: string): string {
+        return value.replace(/\t/g, '\\t').replace(/\r?\n/g, '\\n');
+    }
+
+    private static escapeMarkdown(value: string): string {
+        return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+    }
+}
@@ -0,0 +1,580 @@
+export type GridSortType = 'number' | 'date' | 'boolean' | 'string';
+
+export interface GridColumn {
+    name: string;
+    type?: string;
+    sortType: GridSortType;
+}
+
+/**
+ * Data embedded in the results webview for the interactive grid
+ */
+export interface GridData {
+    columns: GridColumn[];
+    // Display text per cell
+    rows: string[][];
+    // Values used for sorting: numbers, epoch milliseconds, booleans or strings
+    sortValues: Array<Array<string | number | boolean | null>>;
+}
+
+/**
+ * Interactive result grid: sorting, per-column filters, column visibility and
+ * order, resizable widths and virtual scrolling. The rows are embedded as JSON
+ * and rendered by the webview script, so only the visible rows are in the DOM.
+ */
+export class ResultGrid {
+    private static readonly NUMERIC_TYPES = [
+        'byte', 'short', 'integer', 'int', 'long', 'float', 'half_float', 'scaled_float',
+        'double', 'unsigned_long', 'number', 'tinyint', 'smallint', 'bigint', 'real'
+    ];
+    private static readonly DATE_TYPES = ['timestamp', 'date', 'datetime', 'date_nanos'];
+
+    /**
+     * Maps an OpenSearch SQL/PPL schema type to the way its values are sorted
+     */
+    public static getSortType(type?: string): GridSortType | undefined {
+        if (!type) {
+            return undefined;
+        }
+
+        const normalized = type.toLowerCase();
+        if (this.NUMERIC_TYPES.includes(normalized)) {
+            return 'number';
+        }
+        if (this.DATE_TYPES.includes(normalized)) {
+            return 'date';
+        }
+        if (normalized === 'boolean') {
+            return 'boolean';
+        }
+        return 'string';
+    }
+
+    /**
+     * Builds the grid data. Columns without a schema type are sorted numerically
+     * when every non-empty value is a number.
+     */
+    public static buildGridData(data: any[], columns: string[], schema?: Array<{name: string, type: string}>): GridData {
+        const schemaTypes = new Map((schema || []).map(column => [column.name, column.type]));
+        const rawRows = data.map(row => columns.map(column => this.getValue(row, column)));
+
+        const gridColumns: GridColumn[] = columns.map((name, index) => {
+            const type = schemaTypes.get(name);
+            return {
+                name,
+                type,
+                sortType: this.getSortType(type) || this.inferSortType(rawRows.map(row => row[index]))
+            };
+        });
+
+        return {
+            columns: gridColumns,
+            rows: rawRows.map(row => row.map(value => this.toText(value))),
+            sortValues: rawRows.map(row => row.map((value, index) => this.toSortValue(value, gridColumns[index].sortType)))
+        };
+    }
+
+    /**
+     * Generates the grid container with its embedded data
+     */
+    public static generateHtml(gridId: string, gridData: GridData): string {
+        // Keep "</script>" and friends in values from closing the data block
+        const json = JSON.stringify(gridData).replace(/</g, '\\u003c');
+
+        return `
+            <div class="result-grid" id="${gridId}">
+                <div class="grid-toolbar">
+                    <span class="grid-status"></span>
+                    <div class="grid-columns-menu">
+                        <button class="copy-btn grid-columns-btn" onclick="toggleGridColumnsMenu('${gridId}')">Columns</button>
+                        <div class="grid-columns-list"></div>
+                    </div>
+                    <button class="copy-btn" onclick="resetGrid('${gridId}')" title="Clear sorting, filters and column changes">Reset</button>
+                </div>
+                <div class="grid-viewport">
+                    <table class="grid-table">
+                        <colgroup></colgroup>
+                        <thead></thead>
+                        <tbody></tbody>
+                    </table>
+                </div>
+                <script type="application/json" class="grid-data">${json}</script>
+            </div>
+        `;
+    }
+
+    /**
+     * Reads a cell: a flat key first, then a dot-notation path, falling back to
+     * `_source` for search hits
+     */
+    private static getValue(row: any, column: string): any {
+        if (row && Object.prototype.hasOwnProperty.call(row, column)) {
+            return row[column];
+        }
+        const value = this.getNestedValue(row, column);
+        return value === undefined && row?._source ? this.getNestedValue(row._source, column) : value;
+    }
+
+    private static getNestedValue(obj: any, path: string): any {
+        return path.split('.').reduce((current, key) => {
+            return current && current[key] !== undefined ? current[key] : undefined;
+        }, obj);
+    }
+
+    private static inferSortType(values: any[]): GridSortType {
+        const present = values.filter(value => value !== null && value !== undefined && value !== '');
+        if (present.length > 0 && present.every(value => typeof value === 'number')) {
+            return 'number';
+        }
+        return 'string';
+    }
+
+    private static toText(value: any): string {
+        if (value === null || value === undefined) {
+            return '';
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    private static toSortValue(value: any, sortType: GridSortType): string | number | boolean | null {
+        if (value === null || value === undefined || value === '') {
+            return null;
+        }
+
+        switch (sortType) {
+            case 'number': {
+                const number = typeof value === 'number' ? value : Number(value);
+                return isNaN(number) ? null : number;
+            }
+            case 'date': {
+                const time = typeof value === 'number' ? value : Date.parse(String(value).replace(' ', 'T'));
+                return isNaN(time) ? null : time;
+            }
+            case 'boolean':
+                return value === true || value === 'true';
+            default:
+                return this.toText(value).toLowerCase();
+        }
+    }
+
+    public static getCSS(): string {
+        return `
+                .result-grid {
+                    margin-top: 10px;
+                }
+                .grid-toolbar {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    margin-bottom: 6px;
+                    font-size: 0.9em;
+                }
+                .grid-status {
+                    flex: 1;
+                    color: var(--vscode-descriptionForeground);
+                }
+                .grid-columns-menu {
+                    position: relative;
+                }
+                .grid-columns-list {
+                    display: none;
+                    position: absolute;
+                    right: 0;
+                    top: 100%;
+                    z-index: 20;
+                    max-height: 300px;
+                    overflow-y: auto;
+                    padding: 6px 10px;
+                    background-color: var(--vscode-dropdown-background);
+                    border: 1px solid var(--vscode-dropdown-border);
+                    white-space: nowrap;
+                }
+                .grid-columns-list.open {
+                    display: block;
+                }
+                .grid-columns-list label {
+                    display: block;
+                    padding: 2px 0;
+                    cursor: pointer;
+                }
+                .grid-viewport {
+                    max-height: 70vh;
+                    overflow: auto;
+                    border: 1px solid var(--vscode-panel-border);
+                }
+                .grid-table {
+                    table-layout: fixed;
+                    width: max-content;
+                    min-width: 100%;
+                    margin-top: 0;
+                }
+                .grid-table th, .grid-table td {
+                    height: 28px;
+                    padding: 0 8px;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                    box-sizing: border-box;
+                }
+                .grid-table thead th {
+                    position: sticky;
+                    z-index: 2;
+                    background-color: var(--vscode-editor-background);
+                }
+                .grid-table thead tr.grid-header-row th {
+                    top: 0;
+                    cursor: pointer;
+                    user-select: none;
+                    position: sticky;
+                }
+                .grid-table thead tr.grid-filter-row th {
+                    top: 28px;
+                    padding: 2px 4px;
+                }
+                .grid-table thead th.drag-over {
+                    border-left: 2px solid var(--vscode-focusBorder);
+                }
+                .grid-filter {
+                    width: 100%;
+                    box-sizing: border-box;
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                    font-size: 0.9em;
+                }
+                .grid-sort-indicator {
+                    margin-left: 4px;
+                    opacity: 0.8;
+                }
+                .grid-resizer {
+                    position: absolute;
+                    top: 0;
+                    right: 0;
+                    width: 5px;
+                    height: 100%;
+                    cursor: col-resize;
+                }
+                .grid-table tbody tr:nth-child(even) {
+                    background-color: transparent;
+                }
+                .grid-table tbody tr.grid-row-alt {
+                    background-color: var(--vscode-list-inactiveSelectionBackground);
+                }
+                .grid-table tr.grid-spacer td {
+                    padding: 0;
+                    border: none;
+                    height: auto;
+                }
+        `;
+    }
+
+    public static getJavaScript(): string {
+        return `
+                const GRID_ROW_HEIGHT = 28;
+                const GRID_OVERSCAN = 20;
+                const DEFAULT_COLUMN_WIDTH = 160;
+                const grids = {};
+
+                function initGrid(container) {
+                    const data = JSON.parse(container.querySelector('.grid-data').textContent);
+                    const grid = {
+                        container: container,
+                        data: data,
+                        order: data.columns.map((column, index) => index),
+                        hidden: new Set(),
+                        widths: data.columns.map(() => DEFAULT_COLUMN_WIDTH),
+                        filters: data.columns.map(() => ''),
+                        sortColumn: -1,
+                        sortDirection: 0,
+                        view: data.rows.map((row, index) => index)
+                    };
+                    grids[container.id] = grid;
+
+                    const viewport = container.querySelector('.grid-viewport');
+                    viewport.addEventListener('scroll', () => renderGridRows(grid));
+
+                    renderGridHeader(grid);
+                    renderGridColumnsMenu(grid);
+                    applyGridView(grid);
+                }
+
+                function visibleGridColumns(grid) {
+                    return grid.order.filter(index => !grid.hidden.has(index));
+                }
+
+                function renderGridHeader(grid) {
+                    const columns = visibleGridColumns(grid);
+                    const colgroup = grid.container.querySelector('colgroup');
+                    colgroup.innerHTML = '';
+                    const numberCol = document.createElement('col');
+                    numberCol.style.width = '60px';
+                    colgroup.appendChild(numberCol);
+                    columns.forEach(index => {
+                        const col = document.createElement('col');
+                        col.style.width = grid.widths[index] + 'px';
+                        colgroup.appendChild(col);
+                    });
+
+                    const thead = grid.container.querySelector('thead');
+                    thead.innerHTML = '';
+                    const headerRow = document.createElement('tr');
+                    headerRow.className = 'grid-header-row';
+                    const filterRow = document.createElement('tr');
+                    filterRow.className = 'grid-filter-row';
+
+                    const numberHeader = document.createElement('th');
+                    numberHeader.className = 'row-number-header';
+                    numberHeader.textContent = '#';
+                    headerRow.appendChild(numberHeader);
+                    filterRow.appendChild(document.createElement('th'));
+
+                    columns.forEach(index => {
+                        const column = grid.data.columns[index];
+                        const th = document.createElement('th');
+                        th.title = column.type ? column.name + ' (Type: ' + column.type + ')' : column.name;
+                        th.draggable = true;
+                        th.textContent = column.name;
+                        if (grid.sortColumn === index && grid.sortDirection !== 0) {
+                            const indicator = document.createElement('span');
+                            indicator.className = 'grid-sort-indicator';
+                            indicator.textContent = grid.sortDirection > 0 ? '▲' : '▼';
+                            th.appendChild(indicator);
+                        }
+                        th.addEventListener('click', () => toggleGridSort(grid, index));
+                        th.addEventListener('dragstart', (event) => {
+                            event.dataTransfer.setData('text/plain', String(index));
+                        });
+                        th.addEventListener('dragover', (event) => {
+                            event.preventDefault();
+                            th.classList.add('drag-over');
+                        });
+                        th.addEventListener('dragleave', () => th.classList.remove('drag-over'));
+                        th.addEventListener('drop', (event) => {
+                            event.preventDefault();
+                            moveGridColumn(grid, Number(event.dataTransfer.getData('text/plain')), index);
+                        });
+
+                        const resizer = document.createElement('div');
+                        resizer.className = 'grid-resizer';
+                        resizer.addEventListener('click', (event) => event.stopPropagation());
+                        resizer.addEventListener('mousedown', (event) => startGridResize(grid, index, event));
+                        th.appendChild(resizer);
+                        headerRow.appendChild(th);
+
+                        const filterCell = document.createElement('th');
+                        const filter = document.createElement('input');
+                        filter.className = 'grid-filter';
+                        filter.placeholder = 'Filter';
+                        filter.value = grid.filters[index];
+                        filter.addEventListener('input', () => {
+                            grid.filters[index] = filter.value;
+                            applyGridView(grid);
+                        });
+                        filterCell.appendChild(filter);
+                        filterRow.appendChild(filterCell);
+                    });
+
+                    thead.appendChild(headerRow);
+                    thead.appendChild(filterRow);
+                }
+
+                function renderGridColumnsMenu(grid) {
+                    const list = grid.container.querySelector('.grid-columns-list');
+                    list.innerHTML = '';
+                    grid.order.forEach(index => {
+                        const label = document.createElement('label');
+                        const checkbox = document.createElement('input');
+                        checkbox.type = 'checkbox';
+                        checkbox.checked = !grid.hidden.has(index);
+                        checkbox.addEventListener('change', () => {
+                            if (checkbox.checked) {
+                                grid.hidden.delete(index);
+                            } else {
+                                grid.hidden.add(index);
+                            }
+                            renderGridHeader(grid);
+                            renderGridRows(grid);
+                        });
+                        label.appendChild(checkbox);
+                        label.appendChild(document.createTextNode(' ' + grid.data.columns[index].name));
+                        list.appendChild(label);
+                    });
+                }
+
+                function toggleGridColumnsMenu(gridId) {
+                    const grid = grids[gridId];
+                    if (grid) {
+                        grid.container.querySelector('.grid-columns-list').classList.toggle('open');
+                    }
+                }
+
+                function resetGrid(gridId) {
+                    const grid = grids[gridId];
+                    if (!grid) {
+                        return;
+                    }
+                    grid.order = grid.data.columns.map((column, index) => index);
+                    grid.hidden.clear();
+                    grid.widths = grid.data.columns.map(() => DEFAULT_COLUMN_WIDTH);
+                    grid.filters = grid.data.columns.map(() => '');
+                    grid.sortColumn = -1;
+                    grid.sortDirection = 0;
+                    renderGridHeader(grid);
+                    renderGridColumnsMenu(grid);
+                    applyGridView(grid);
+                }
+
+                function toggleGridSort(grid, index) {
+                    // Cycle ascending -> descending -> unsorted
+                    if (grid.sortColumn !== index) {
+                        grid.sortColumn = index;
+                        grid.sortDirection = 1;
+                    } else {
+                        grid.sortDirection = grid.sortDirection === 1 ? -1 : 0;
+                    }
+                    renderGridHeader(grid);
+                    applyGridView(grid);
+                }
+
+                function moveGridColumn(grid, from, to) {
+                    if (from === to || isNaN(from)) {
+                        renderGridHeader(grid);
+                        return;
+                    }
+                    grid.order.splice(grid.order.indexOf(from), 1);
+                    grid.order.splice(grid.order.indexOf(to), 0, from);
+                    renderGridHeader(grid);
+                    renderGridColumnsMenu(grid);
+                    renderGridRows(grid);
+                }
+
+                function startGridResize(grid, index, event) {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    const startX = event.clientX;
+                    const startWidth = grid.widths[index];
+                    const col = grid.container.querySelectorAll('col')[visibleGridColumns(grid).indexOf(index) + 1];
+
+                    function onMove(moveEvent) {
+                        grid.widths[index] = Math.max(40, startWidth + moveEvent.clientX - startX);
+                        col.style.width = grid.widths[index] + 'px';
+                    }
+                    function onUp() {
+                        document.removeEventListener('mousemove', onMove);
+                        document.removeEventListener('mouseup', onUp);
+                    }
+                    document.addEventListener('mousemove', onMove);
+                    document.addEventListener('mouseup', onUp);
+                }
+
+                function compareGridValues(a, b) {
+                    // Empty values always sort last
+                    if (a === null && b === null) {
+                        return 0;
+                    }
+                    if (a === null) {
+                        return 1;
+                    }
+                    if (b === null) {
+                        return -1;
+                    }
+                    if (typeof a === 'string') {
+                        return a.localeCompare(b);
+                    }
+                    return a < b ? -1 : a > b ? 1 : 0;
+                }
+
+                function applyGridView(grid) {
+                    const filters = grid.filters
+                        .map((text, index) => ({ index: index, text: text.trim().toLowerCase() }))
+                        .filter(filter => filter.text);
+                    let view = grid.data.rows
+                        .map((row, index) => index)
+                        .filter(rowIndex => filters.every(filter =>
+                            grid.data.rows[rowIndex][filter.index].toLowerCase().includes(filter.text)));
+
+                    if (grid.sortColumn >= 0 && grid.sortDirection !== 0) {
+                        const values = grid.data.sortValues;
+                        const column = grid.sortColumn;
+                        const direction = grid.sortDirection;
+                        view.sort((a, b) => {
+                            const compared = compareGridValues(values[a][column], values[b][column]);
+                            if (values[a][column] === null || values[b][column] === null) {
+                                return compared || a - b;
+                            }
+                            return compared * direction || a - b;
+                        });
+                    }
+
+                    grid.view = view;
+                    const total = grid.data.rows.length;
+                    grid.container.querySelector('.grid-status').textContent = view.length === total
+                        ? total + ' rows'
+                        : view.length + ' of ' + total + ' rows';
+                    grid.container.querySelector('.grid-viewport').scrollTop = 0;
+                    renderGridRows(grid);
+                }
+
+                function renderGridRows(grid) {
+                    const viewport = grid.container.querySelector('.grid-viewport');
+                    const tbody = grid.container.querySelector('tbody');
+                    const columns = visibleGridColumns(grid);
+                    const visibleCount = Math.ceil(viewport.clientHeight / GRID_ROW_HEIGHT) || 30;
+                    const start = Math.max(0, Math.floor(viewport.scrollTop / GRID_ROW_HEIGHT) - GRID_OVERSCAN);
+                    const end = Math.min(grid.view.length, start + visibleCount + GRID_OVERSCAN * 2);
+
+                    const fragment = document.createDocumentFragment();
+                    fragment.appendChild(createGridSpacer(start * GRID_ROW_HEIGHT, columns.length + 1));
+                    for (let position = start; position < end; position++) {
+                        const rowIndex = grid.view[position];
+                        const tr = document.createElement('tr');
+                        if (position % 2 === 1) {
+                            tr.className = 'grid-row-alt';
+                        }
+                        const numberCell = document.createElement('td');
+                        numberCell.className = 'row-number';
+                        numberCell.textContent = String(rowIndex + 1);
+                        tr.appendChild(numberCell);
+                        columns.forEach(index => {
+                            const td = document.createElement('td');
+                            td.textContent = grid.data.rows[rowIndex][index];
+                            td.title = grid.data.rows[rowIndex][index];
+                            tr.appendChild(td);
+                        });
+                        fragment.appendChild(tr);
+                    }
+                    fragment.appendChild(createGridSpacer((grid.view.length - end) * GRID_ROW_HEIGHT, columns.length + 1));
+
+                    tbody.innerHTML = '';
+                    tbody.appendChild(fragment);
+                }
+
+                function createGridSpacer(height, columnCount) {
+                    const tr = document.createElement('tr');
+                    tr.className = 'grid-spacer';
+                    const td = document.createElement('td');
+                    td.colSpan = columnCount;
+                    td.style.height = height + 'px';
+                    tr.appendChild(td);
+                    return tr;
+                }
+
+                function gridToText(gridId) {
+                    const grid = grids[gridId];
+                    if (!grid) {
+                        return '';
+                    }
+                    const columns = visibleGridColumns(grid);
+                    const lines = [columns.map(index => grid.data.columns[index].name).join('\\t')];
+                    grid.view.forEach(rowIndex => {
+                        lines.push(columns.map(index => grid.data.rows[rowIndex][index]).join('\\t'));
+                    });
+                    return lines.join('\\n') + '\\n';
+                }
+
+                document.addEventListener('DOMContentLoaded', function() {
+                    document.querySelectorAll('.result-grid').forEach(container => initGrid(container));
+                });
+        `;
+    }
+}
@@ -0,0 +1,148 @@
+import { QueryResult, QueryType, StoredResult } from '../types';
+
+/**
+ * Contents of a `<document>.results.json` sidecar file
+ */
+export interface SidecarContent {
+    version: number;
+    results: StoredResult[];
+}
+
+/**
+ * Saves full query results next to their inline output, either embedded in the
+ * document as a collapsed `<details>` JSON block or in a sidecar file, and reads them back.
+ * Stored results are matched to query blocks by their query text.
+ */
+export class ResultStore {
+    public static readonly DETAILS_SUMMARY = '<summary>OpenSearch result data</summary>';
+    // RST has no collapsible blocks; a comment keeps the data out of the rendered document
+    public static readonly RST_COMMENT = '.. OpenSearch result data';
+    private static readonly SIDECAR_VERSION = 1;
+
+    /**
+     * Formats a collapsed block holding the result as JSON, placed inside the inline results
+     */
+    public static formatDetails(stored: StoredResult, syntax: 'markdown' | 'rst' = 'markdown'): string {
+        if (syntax === 'rst') {
+            return `${this.RST_COMMENT}\n   ${JSON.stringify(this.toSerializable(stored))}\n\n`;
+        }
+        return [
+            '<details>',
+            this.DETAILS_SUMMARY,
+            '',
+            '```json',
+            JSON.stringify(this.toSerializable(stored)),
+            '```',
+            '',
+            '</details>',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Finds every result embedded with `formatDetails` in a document
+     */
+    public static parseDetails(text: string): StoredResult[] {
+        const lines = text.split('\n');
+        const results: StoredResult[] = [];
+        for (let i = 0; i < lines.length; i++) {
+            if (lines[i].trim() === this.RST_COMMENT) {
+                const stored = this.fromSerialized(lines[i + 1]?.trim());
+                if (stored) {
+                    results.push(stored);
+                    i++;
+                }
+                continue;
+            }
+            if (lines[i].trim() !== this.DETAILS_SUMMARY) {
+                continue;
+            }
+            const fence = lines.findIndex((line, index) => index > i && line.trim() === '```json');
+            const stored = fence >= 0 ? this.fromSerialized(lines[fence + 1]) : undefined;
+            if (stored) {
+                results.push(stored);
+                i = fence + 1;
+            }
+        }
+        return results;
+    }
+
+    /**
+     * `docs/guide.md` is stored in `docs/guide.results.json`
+     */
+    public static getSidecarPath(documentPath: string): string {
+        return documentPath.replace(/(\.[^./\\]*)?$/, '.results.json');
+    }
+
+    public static parseSidecar(text: string): StoredResult[] {
+        try {
+            const content = JSON.parse(text) as SidecarContent;
+            if (!Array.isArray(content?.results)) {
+                return [];
+            }
+            return content.results
+                .map(entry => this.revive(entry))
+                .filter((entry): entry is StoredResult => entry !== undefined);
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Adds the result to a sidecar file, replacing the earlier result of the same query
+     */
+    public static updateSidecar(text: string | undefined, stored: StoredResult): string {
+        const results = (text ? this.parseSidecar(text) : [])
+            .filter(entry => entry.query !== stored.query || entry.queryType !== stored.queryType);
+        results.push(stored);
+
+        const content: SidecarContent = {
+            version: this.SIDECAR_VERSION,
+            results: results.map(entry => this.toSerializable(entry))
+        };
+        return JSON.stringify(content, null, 2) + '\n';
+    }
+
+    /**
+     * The most recent stored result of a query
+     */
+    public static findResult(results: StoredResult[], query: string, queryType: QueryType): StoredResult | undefined {
+        return results
+            .filter(entry => entry.query === query && entry.queryType === queryType)
+            .sort((a, b) => b.result.executedAt.getTime() - a.result.executedAt.getTime())[0];
+    }
+
+    public static isStale(stored: StoredResult, maxAgeHours: number, now: Date = new Date()): boolean {
+        return now.getTime() - stored.result.executedAt.getTime() > maxAgeHours * 60 * 60 * 1000;
+    }
+
+    /**
+     * Only what restoring the result needs. Request and response details are left out:
+     * their headers may hold credentials, and the raw response repeats the data.
+     * Cursors expire on the cluster, so they are never stored either.
+     */
+    private static toSerializable(stored: StoredResult): StoredResult {
+        const { success, error, data, columns, rowCount, executedAt, executionTime, connectionInfo } = stored.result;
+        const result: QueryResult = { success, error, data, columns, rowCount, executedAt, executionTime, connectionInfo };
+        return { query: stored.query, queryType: stored.queryType, result };
+    }
+
+    private static fromSerialized(line: string | undefined): StoredResult | undefined {
+        try {
+            return line ? this.revive(JSON.parse(line)) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static revive(entry: any): StoredResult | undefined {
+        if (!entry || typeof entry.query !== 'string' || !entry.result) {
+            return undefined;
+        }
+        const executedAt = new Date(entry.result.executedAt);
+        if (isNaN(executedAt.getTime())) {
+            return undefined;
+        }
+        return { query: entry.query, queryType: entry.queryType, result: { ...entry.result, executedAt } };
+    }
+}
@@ -0,0 +1,162 @@
+import { RequestAttempt, RetryOptions } from '../types';
+
+/**
+ * Retries requests that failed for transient reasons: throttling (429), unavailable
+ * gateways or nodes (502, 503, 504) and reset connections. Waits grow exponentially
+ * with jitter; a `Retry-After` header takes precedence.
+ */
+export class RetryPolicy {
+    public static readonly DEFAULTS: Required<RetryOptions> = {
+        maxRetries: 2,
+        initialDelay: 500,
+        maxDelay: 10000,
+        retryNonIdempotent: false
+    };
+
+    // Longer Retry-After waits are not worth blocking a query for
+    public static readonly MAX_RETRY_AFTER = 60 * 1000;
+
+    private static readonly RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+    private static readonly RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'EPIPE', 'ETIMEDOUT', 'EAI_AGAIN']);
+    private static readonly IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+    // POST endpoints that only read, so repeating them is safe
+    private static readonly READ_ONLY_POST_REGEX = /\/(_search|_msearch|_count|_mget|_field_caps|_validate\/query|_plugins\/_(sql|ppl)(\/_explain|\/close)?)(\/|$)/;
+
+    /**
+     * Whether repeating the request cannot change the cluster twice
+     */
+    public static isIdempotent(method: string, endpoint: string): boolean {
+        return this.IDEMPOTENT_METHODS.has(method.toUpperCase())
+            || (method.toUpperCase() === 'POST' && this.READ_ONLY_POST_REGEX.test(endpoint.split('?')[0]));
+    }
+
+    public static isRetryableError(error: any): boolean {
+        if (error?.code === 'ERR_CANCELED') {
+            return false;
+        }
+        return error?.response
+            ? this.RETRYABLE_STATUSES.has(error.response.status)
+            : this.RETRYABLE_ERROR_CODES.has(error?.code);
+    }
+
+    /**
+     * Milliseconds to wait before the given retry (1 for the first), or undefined
+     * when the server asks to wait longer than MAX_RETRY_AFTER
+     */
+    public static getDelay(
+        retry: number,
+        options: RetryOptions,
+        error?: any,
+        random: () => number = Math.random,
+        now: number = Date.now()
+    ): number | undefined {
+        const retryAfter = this.parseRetryAfter(this.getHeader(error?.response?.headers, 'retry-after'), now);
+        if (retryAfter !== undefined) {
+            return retryAfter <= this.MAX_RETRY_AFTER ? retryAfter : undefined;
+        }
+
+        const { initialDelay, maxDelay } = this.resolveOptions(options);
+        const backoff = Math.min(maxDelay, initialDelay * 2 ** (retry - 1));
+        // Half fixed, half random, so that clients throttled together do not retry together
+        return Math.round(backoff / 2 + random() * backoff / 2);
+    }
+
+    /**
+     * Sends the request until it succeeds, fails for a reason that is not transient,
+     * or runs out of retries. Every attempt is reported, including the last one.
+     * The last error is rethrown with an `attempts` property.
+     */
+    public static async execute<T extends { status: number; statusText: string; headers: any; data: any }>(
+        send: () => Promise<T>,
+        request: { method: string; endpoint: string; options?: RetryOptions; signal?: AbortSignal }
+    ): Promise<{ response: T; attempts: RequestAttempt[] }> {
+        const options = this.resolveOptions(request.options);
+        const canRetry = options.retryNonIdempotent || this.isIdempotent(request.method, request.endpoint);
+        const attempts: RequestAttempt[] = [];
+
+        for (let retry = 0; ; retry++) {
+            try {
+                const response = await send();
+                attempts.push(this.toAttempt(response));
+                return { response, attempts };
+            } catch (error: any) {
+                const attempt = this.toAttempt(error.response, error);
+                attempts.push(attempt);
+
+                const delay = canRetry && retry < options.maxRetries && this.isRetryableError(error) && !request.signal?.aborted
+                    ? this.getDelay(retry + 1, options, error)
+                    : undefined;
+                if (delay === undefined) {
+                    error.attempts = attempts;
+                    throw error;
+                }
+
+                attempt.retryDelay = delay;
+                await this.wait(delay, request.signal);
+            }
+        }
+    }
+
+    /**
+     * Options with defaults for everything not set
+     */
+    public static resolveOptions(options?: RetryOptions): Required<RetryOptions> {
+        return {
+            maxRetries: options?.maxRetries ?? this.DEFAULTS.maxRetries,
+            initialDelay: options?.initialDelay ?? this.DEFAULTS.initialDelay,
+            maxDelay: options?.maxDelay ?? this.DEFAULTS.maxDelay,
+            retryNonIdempotent: options?.retryNonIdempotent ?? this.DEFAULTS.retryNonIdempotent
+        };
+    }
+
+    private static toAttempt(response?: { status: number; statusText: string; headers: any; data: any }, error?: any): RequestAttempt {
+        const attempt: RequestAttempt = {};
+        if (response) {
+            attempt.responseInfo = { status: response.status, statusText: response.statusText, headers: response.headers };
+        }
+        if (error) {
+            // The body of a successful response is the result itself
+            attempt.rawResponse = response?.data;
+            attempt.error = error.code && !response ? `${error.code}: ${error.message}` : error.message;
+        }
+        return attempt;
+    }
+
+    /**
+     * Parses `Retry-After` given in seconds or as an HTTP date
+     */
+    private static parseRetryAfter(value: string | undefined, now: number): number | undefined {
+        if (!value) {
+            return undefined;
+        }
+        if (/^\d+$/.test(value.trim())) {
+            return Number(value.trim()) * 1000;
+        }
+        const date = Date.parse(value);
+        return isNaN(date) ? undefined : Math.max(0, date - now);
+    }
+
+    private static getHeader(headers: any, name: string): string | undefined {
+        if (!headers) {
+            return undefined;
+        }
+        const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+        return value === undefined || value === null ? undefined : String(value);
+    }
+
+    /**
+     * Resolves after the delay, or right away when the request is cancelled
+     */
+    private static wait(delay: number, signal?: AbortSignal): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(done, delay);
+            signal?.addEventListener('abort', done, { once: true });
+            function done() {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', done);
+                resolve();
+            }
+        });
+    }
+}
@@ -0,0 +1,116 @@
+import { BlockRunSummary, BlockRunStatus } from '../types';
+import { HtmlUtils } from './htmlUtils';
+import { WebviewStyles } from './webviewStyles';
+
+/**
+ * Formats the summary of a multi-block run
+ */
+export class RunSummaryFormatter {
+    private static readonly STATUS_LABELS: Record<BlockRunStatus, string> = {
+        success: '✅ Success',
+        failed: '❌ Failed',
+        skipped: '⏭️ Skipped',
+        cancelled: '⏹️ Cancelled'
+    };
+
+    /**
+     * Counts blocks per status
+     */
+    public static countByStatus(summaries: BlockRunSummary[]): Record<BlockRunStatus, number> {
+        const counts: Record<BlockRunStatus, number> = { success: 0, failed: 0, skipped: 0, cancelled: 0 };
+        for (const summary of summaries) {
+            counts[summary.status]++;
+        }
+        return counts;
+    }
+
+    /**
+     * One-line description for notifications, e.g. "3 succeeded, 1 failed, 2 skipped"
+     */
+    public static describe(summaries: BlockRunSummary[]): string {
+        const counts = this.countByStatus(summaries);
+        const parts = [`${counts.success} succeeded`];
+        if (counts.failed) {
+            parts.push(`${counts.failed} failed`);
+        }
+        if (counts.skipped) {
+            parts.push(`${counts.skipped} skipped`);
+        }
+        if (counts.cancelled) {
+            parts.push(`${counts.cancelled} cancelled`);
+        }
+        return parts.join(', ');
+    }
+
+    public static generateHtml(summaries: BlockRunSummary[], fileName: string): string {
+        const totalTime = summaries.reduce((sum, summary) => sum + (summary.executionTime || 0), 0);
+        const rows = summaries.map((summary, position) => {
+            const statusClass = summary.status === 'success' ? 'success' : summary.status === 'failed' ? 'error' : '';
+            const label = summary.name
+                ? `<strong>${HtmlUtils.escapeHtml(summary.name)}</strong><br>${HtmlUtils.escapeHtml(summary.preview)}`
+                : HtmlUtils.escapeHtml(summary.preview);
+            const details = summary.error
+                ? `<details><summary>Error</summary><pre>${HtmlUtils.escapeHtml(summary.error)}</pre></details>`
+                : summary.result?.data !== undefined
+                    ? `<details><summary>Result</summary><pre>${HtmlUtils.escapeHtml(JSON.stringify(summary.result.data, null, 2))}</pre></details>`
+                    : '';
+
+            return `<tr>
+                <td class="row-number">${position + 1}</td>
+                <td>${summary.type.toUpperCase()}</td>
+                <td>${label}</td>
+                <td>${summary.line + 1}</td>
+                <td class="${statusClass}">${this.STATUS_LABELS[summary.status]}</td>
+                <td>${summary.executionTime !== undefined ? `${summary.executionTime}ms` : ''}</td>
+                <td>${summary.rowCount !== undefined ? summary.rowCount : ''}</td>
+                <td>${details}</td>
+            </tr>`;
+        }).join('\n');
+
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>OpenSearch Run Summary</title>
+            <style>
+                ${WebviewStyles.getCommonCSS()}
+            </style>
+        </head>
+        <body>
+            <div class="header">
+                <div class="header-content">
+                    <div class="header-left">
+                        <h1>Run Summary: ${HtmlUtils.escapeHtml(fileName)}</h1>
+                    </div>
+                </div>
+            </div>
+
+            <div class="metadata">
+                <span class="metadata-item">${HtmlUtils.escapeHtml(this.describe(summaries))}</span>
+                <span class="metadata-item">⏱️ ${totalTime}ms</span>
+            </div>
+
+            <table>
+                <thead>
+                    <tr>
+                        <th class="row-number-header">#</th>
+                        <th>Type</th>
+                        <th>Block</th>
+                        <th>Line</th>
+                        <th>Status</th>
+                        <th>Time</th>
+                        <th>Rows</th>
+                        <th>Details</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${rows}
+                </tbody>
+            </table>
+        </body>
+        </html>
+        `;
+    }
+}
@@ -0,0 +1,176 @@
+import { OidcTokenProvider } from './oidcTokenProvider';
+
+export interface ClusterSchema {
+    indices: string[];
+    // Alias or data stream name → the indices behind it
+    aliases: Record<string, string[]>;
+    dataStreams: Record<string, string[]>;
+}
+
+export interface SchemaField {
+    name: string;
+    type: string;
+}
+
+/**
+ * Sends a GET request for the given path and returns the parsed response body.
+ * Rejects when the request fails.
+ */
+export type SchemaRequest = (path: string) => Promise<any>;
+
+interface CacheEntry<T> {
+    value: Promise<T>;
+    expiresAt: number;
+}
+
+/**
+ * Index, alias, data stream and field names of clusters, cached per connection
+ * for completion. Names are fetched together; fields are fetched per index
+ * pattern on first use. Entries expire after the TTL, failed lookups sooner;
+ * lookups that failed for a missing OIDC sign-in are retried after signing in.
+ */
+export class SchemaCache {
+    public static readonly FAILURE_TTL = 60 * 1000;
+
+    // Index patterns sent as a URL path segment
+    private static readonly INDEX_PATTERN_REGEX = /^[\w.*:,+-]+$/;
+
+    private schemas = new Map<string, CacheEntry<ClusterSchema>>();
+    private fields = new Map<string, CacheEntry<SchemaField[]>>();
+
+    constructor(private ttl: number, private now: () => number = Date.now) {}
+
+    public setTtl(ttl: number): void {
+        this.ttl = ttl;
+    }
+
+    public getSchema(connectionKey: string, request: SchemaRequest): Promise<ClusterSchema> {
+        return this.getCached(this.schemas, connectionKey, () => SchemaCache.fetchSchema(request));
+    }
+
+    /**
+     * Fields of the indices matching the pattern. Wildcards, aliases, data streams and
+     * comma-separated lists are resolved by the cluster.
+     */
+    public getFields(connectionKey: string, indexPattern: string, request: SchemaRequest): Promise<SchemaField[]> {
+        if (!SchemaCache.INDEX_PATTERN_REGEX.test(indexPattern)) {
+            return Promise.resolve([]);
+        }
+        return this.getCached(this.fields, `${connectionKey}\n${indexPattern}`,
+            async () => SchemaCache.parseMappings(await request(`/${indexPattern}/_mapping`)));
+    }
+
+    /**
+     * Drops the cached names of one connection, or of every connection
+     */
+    public clear(connectionKey?: string): void {
+        if (connectionKey === undefined) {
+            this.schemas.clear();
+            this.fields.clear();
+            return;
+        }
+        this.schemas.delete(connectionKey);
+        for (const key of [...this.fields.keys()]) {
+            if (key.startsWith(`${connectionKey}\n`)) {
+                this.fields.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Index names from `_cat/indices?format=json`
+     */
+    public static parseIndices(response: any): string[] {
+        return Array.isArray(response)
+            ? response.map(entry => entry?.index).filter((name): name is string => typeof name === 'string').sort()
+            : [];
+    }
+
+    /**
+     * Alias names with their indices from `_aliases`
+     */
+    public static parseAliases(response: any): Record<string, string[]> {
+        const aliases: Record<string, string[]> = {};
+        for (const [index, entry] of Object.entries<any>(this.asObject(response))) {
+            for (const alias of Object.keys(this.asObject(entry?.aliases))) {
+                (aliases[alias] = aliases[alias] || []).push(index);
+            }
+        }
+        return aliases;
+    }
+
+    /**
+     * Data stream names with their backing indices from `_data_stream`
+     */
+    public static parseDataStreams(response: any): Record<string, string[]> {
+        const dataStreams: Record<string, string[]> = {};
+        for (const stream of Array.isArray(response?.data_streams) ? response.data_streams : []) {
+            if (typeof stream?.name === 'string') {
+                dataStreams[stream.name] = (Array.isArray(stream.indices) ? stream.indices : [])
+                    .map((index: any) => index?.index_name)
+                    .filter((name: any) => typeof name === 'string');
+            }
+        }
+        return dataStreams;
+    }
+
+    /**
+     * Field paths of every index in a `_mapping` response, including object
+     * sub-fields (`user.name`) and multi-fields (`title.keyword`)
+     */
+    public static parseMappings(response: any): SchemaField[] {
+        const fields = new Map<string, string>();
+        const collect = (properties: any, prefix: string) => {
+            for (const [name, mapping] of Object.entries<any>(this.asObject(properties))) {
+                const path = `${prefix}${name}`;
+                if (!fields.has(path)) {
+                    fields.set(path, mapping?.type || (mapping?.properties ? 'object' : 'unknown'));
+                }
+                collect(mapping?.properties, `${path}.`);
+                collect(mapping?.fields, `${path}.`);
+            }
+        };
+        for (const index of Object.values<any>(this.asObject(response))) {
+            collect(index?.mappings?.properties, '');
+        }
+        return [...fields.entries()]
+            .map(([name, type]) => ({ name, type }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    private static async fetchSchema(request: SchemaRequest): Promise<ClusterSchema> {
+        // Data streams or aliases may be unavailable (older clusters, missing permissions)
+        // while index names still help
+        const optional = (path: string) => request(path).catch(() => undefined);
+        const [indices, aliases, dataStreams] = await Promise.all([
+            request('/_cat/indices?format=json&h=index'),
+            optional('/_aliases'),
+            optional('/_data_stream')
+        ]);
+        return {
+            indices: this.parseIndices(indices),
+            aliases: this.parseAliases(aliases),
+            dataStreams: this.parseDataStreams(dataStreams)
+        };
+    }
+
+    private getCached<T>(cache: Map<string, CacheEntry<T>>, key: string, load: () => Promise<T>): Promise<T> {
+        const cached = cache.get(key);
+        if (cached && cached.expiresAt > this.now()) {
+            return cached.value;
+        }
+
+        const entry: CacheEntry<T> = { value: load(), expiresAt: this.now() + this.ttl };
+        entry.value.catch(error => {
+            entry.expiresAt = OidcTokenProvider.isSignInRequired(error)
+                ? this.now()
+                : Math.min(entry.expiresAt, this.now() + SchemaCache.FAILURE_TTL);
+        });
+        cache.set(key, entry);
+        return entry.value;
+    }
+
+    private static asObject(value: any): Record<string, any> {
+        return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+    }
+}
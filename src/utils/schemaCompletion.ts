@@ -0,0 +1,113 @@
+import { QueryType } from '../types';
+
+export type SchemaCompletionContext =
+    // Index, alias or data stream name
+    | { kind: 'index'; prefix: string }
+    // Field of the indices matching `index`
+    | { kind: 'field'; index: string; prefix: string };
+
+/**
+ * Finds where a query expects an index or field name, so that names from the
+ * cluster schema can be completed
+ */
+export class SchemaCompletion {
+    private static readonly NAME = '[\\w.*:,@+-]';
+    private static readonly FIELD_PREFIX_REGEX = /[\w.@]*$/;
+
+    // PPL commands whose arguments are field names
+    private static readonly PPL_FIELD_COMMANDS = new Set([
+        'where', 'fields', 'stats', 'eval', 'dedup', 'rename', 'sort', 'top', 'rare', 'parse', 'grok', 'patterns', 'fillnull', 'trendline'
+    ]);
+
+    // SQL clauses followed by field names
+    private static readonly SQL_FIELD_CLAUSES = new Set(['select', 'where', 'by', 'having', 'on']);
+
+    /**
+     * @param textBeforeCursor query text up to the cursor
+     * @param query whole query text, used to find the index of SQL queries
+     * @param endpoint endpoint of OpenSearch API operations
+     */
+    public static getContext(
+        queryType: QueryType,
+        textBeforeCursor: string,
+        query: string,
+        endpoint?: string
+    ): SchemaCompletionContext | undefined {
+        switch (queryType) {
+            case QueryType.PPL:
+                return this.getPplContext(textBeforeCursor);
+            case QueryType.SQL:
+                return this.getSqlContext(textBeforeCursor, query);
+            case QueryType.OPENSEARCH_API:
+                return this.getApiContext(textBeforeCursor, endpoint);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * First path segment of an endpoint when it names indices rather than an API (`/_cat/...`)
+     */
+    public static getEndpointIndex(endpoint: string | undefined): string | undefined {
+        const segment = (endpoint || '').replace(/^\//, '').split(/[/?]/)[0];
+        return segment && !segment.startsWith('_') && !segment.includes('{{') ? decodeURIComponent(segment) : undefined;
+    }
+
+    private static getPplContext(textBeforeCursor: string): SchemaCompletionContext | undefined {
+        const indexMatch = textBeforeCursor.match(new RegExp(`\\b(?:source|index)\\s*=\\s*(${this.NAME}*)$`, 'i'));
+        if (indexMatch) {
+            return { kind: 'index', prefix: this.lastListItem(indexMatch[1]) };
+        }
+
+        const source = textBeforeCursor.match(new RegExp(`\\bsource\\s*=\\s*(${this.NAME}+)`, 'i'));
+        const segment = textBeforeCursor.split('|').pop() || '';
+        const command = segment.match(/^\s*(\w+)\s/)?.[1].toLowerCase();
+        if (!source || !command || !this.PPL_FIELD_COMMANDS.has(command) || this.isInsideString(segment)) {
+            return undefined;
+        }
+        return { kind: 'field', index: source[1], prefix: segment.match(this.FIELD_PREFIX_REGEX)![0] };
+    }
+
+    private static getSqlContext(textBeforeCursor: string, query: string): SchemaCompletionContext | undefined {
+        if (this.isInsideString(textBeforeCursor)) {
+            return undefined;
+        }
+
+        const indexMatch = textBeforeCursor.match(new RegExp(`\\b(?:from|join)\\s+\`?(${this.NAME}*)$`, 'i'));
+        if (indexMatch) {
+            return { kind: 'index', prefix: indexMatch[1] };
+        }
+
+        const clauses = [...textBeforeCursor.matchAll(/\b(select|from|join|where|by|having|on|limit)\b/gi)];
+        const clause = clauses.pop()?.[1].toLowerCase();
+        const from = query.match(new RegExp(`\\bfrom\\s+\`?(${this.NAME}+)`, 'i'));
+        if (!clause || !from || !this.SQL_FIELD_CLAUSES.has(clause)) {
+            return undefined;
+        }
+        return { kind: 'field', index: from[1], prefix: textBeforeCursor.match(this.FIELD_PREFIX_REGEX)![0] };
+    }
+
+    private static getApiContext(textBeforeCursor: string, endpoint?: string): SchemaCompletionContext | undefined {
+        const lines = textBeforeCursor.split('\n');
+        const requestLine = lines[lines.length - 1].match(new RegExp(`^\\s*(?:GET|POST|PUT|DELETE|HEAD|PATCH)\\s+\\/?(${this.NAME}*)$`, 'i'));
+        if (requestLine) {
+            return { kind: 'index', prefix: this.lastListItem(requestLine[1]) };
+        }
+
+        // Field names are only offered inside the query DSL of requests against indices
+        const index = this.getEndpointIndex(endpoint);
+        if (!index || !/"query"\s*:/.test(textBeforeCursor)) {
+            return undefined;
+        }
+        const fieldMatch = textBeforeCursor.match(/(?:[{,]\s*|"fields?"\s*:\s*(?:\[[^\]]*?)?)"([\w.@]*)$/);
+        return fieldMatch ? { kind: 'field', index, prefix: fieldMatch[1] } : undefined;
+    }
+
+    private static lastListItem(names: string): string {
+        return names.split(',').pop() || '';
+    }
+
+    private static isInsideString(text: string): boolean {
+        return ((text.match(/'/g) || []).length % 2) === 1;
+    }
+}
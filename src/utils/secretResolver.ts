@@ -0,0 +1,72 @@
+/**
+ * Storage the secrets are read from; `vscode.SecretStorage` satisfies it
+ */
+export interface SecretStore {
+    get(key: string): PromiseLike<string | undefined>;
+    store(key: string, value: string): PromiseLike<void>;
+    delete(key: string): PromiseLike<void>;
+}
+
+/**
+ * Resolves `${secret:key}` references against VS Code SecretStorage
+ */
+export class SecretResolver {
+    private static readonly SECRET_REFERENCE_REGEX = /\$\{secret:([\w.-]+)\}/g;
+    private static readonly STORAGE_KEY_PREFIX = 'opensearch.secret.';
+
+    private secrets: SecretStore;
+
+    constructor(secrets: SecretStore) {
+        this.secrets = secrets;
+    }
+
+    /**
+     * Checks whether a value contains at least one secret reference
+     */
+    public static containsReference(value?: string): boolean {
+        return !!value && new RegExp(this.SECRET_REFERENCE_REGEX.source).test(value);
+    }
+
+    /**
+     * Creates the reference string for a secret key
+     */
+    public static toReference(key: string): string {
+        return `\${secret:${key}}`;
+    }
+
+    /**
+     * Checks whether a secret key only uses supported characters
+     */
+    public static isValidKey(key: string): boolean {
+        return /^[\w.-]+$/.test(key);
+    }
+
+    /**
+     * Replaces all secret references in a value with the stored secrets
+     */
+    public async resolve(value?: string): Promise<string | undefined> {
+        if (!value || !SecretResolver.containsReference(value)) {
+            return value;
+        }
+
+        let resolved = value;
+        for (const match of value.matchAll(SecretResolver.SECRET_REFERENCE_REGEX)) {
+            const [reference, key] = match;
+            const secret = await this.secrets.get(SecretResolver.STORAGE_KEY_PREFIX + key);
+            if (secret === undefined) {
+                throw new Error(`Secret not found: ${key}. Use "OpenSearch: Store Secret" to save it.`);
+            }
+            resolved = resolved.replace(reference, () => secret);
+        }
+
+        return resolved;
+    }
+
+    public async store(key: string, value: string): Promise<void> {
+        await this.secrets.store(SecretResolver.STORAGE_KEY_PREFIX + key, value);
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.secrets.delete(SecretResolver.STORAGE_KEY_PREFIX + key);
+    }
+}
@@ -0,0 +1,202 @@
+import { QueryResult, QueryBlock, ExpectedBlock, Expectation, ExpectationFormat, TextRange } from '../types';
+import { ResultExporter } from './resultExporter';
+
+/**
+ * Outcome of comparing a result with its expectation. `expected` and `actual` are
+ * normalized texts for a diff view.
+ */
+export interface AssertionOutcome {
+    passed: boolean;
+    message: string;
+    expected: string;
+    actual: string;
+}
+
+interface MarkdownTable {
+    columns: string[];
+    rows: string[][];
+}
+
+/**
+ * Snapshot assertions for query blocks. An expectation is a row count (`3`, `3 rows`
+ * or `rows: 3`), a Markdown table of selected columns, or the JSON of the result data.
+ */
+export class SnapshotAssertion {
+    private static readonly ROW_COUNT_REGEX = /^(?:rows:\s*)?(\d+)(?:\s+rows?)?$/i;
+
+    public static getFormat(text: string): ExpectationFormat {
+        const trimmed = text.trim();
+        if (this.ROW_COUNT_REGEX.test(trimmed)) {
+            return 'rowCount';
+        }
+        return trimmed.startsWith('|') ? 'table' : 'json';
+    }
+
+    /**
+     * Finds the expected result of a query block: its `-- Expect:` metadata, or else the
+     * first `expected` block after it and before the next query block
+     */
+    public static findExpectation<R extends TextRange>(
+        queryBlock: QueryBlock<R>,
+        queryBlocks: QueryBlock<R>[],
+        expectedBlocks: ExpectedBlock<R>[]
+    ): Expectation<R> | undefined {
+        if (queryBlock.metadata?.expect) {
+            const text = queryBlock.metadata.expect;
+            return { format: this.getFormat(text), text };
+        }
+
+        const startLine = queryBlock.range.start.line;
+        const nextBlock = queryBlocks.find(block => block.range.start.line > startLine);
+        const expectedBlock = expectedBlocks.find(block =>
+            block.range.start.line > startLine && (!nextBlock || block.range.start.line < nextBlock.range.start.line));
+
+        return expectedBlock && {
+            format: this.getFormat(expectedBlock.content),
+            text: expectedBlock.content,
+            block: expectedBlock
+        };
+    }
+
+    public static check<R extends TextRange>(expectation: Expectation<R>, result: QueryResult): AssertionOutcome {
+        if (!result.success) {
+            return { passed: false, message: `Query failed: ${result.error}`, expected: expectation.text, actual: '' };
+        }
+
+        switch (expectation.format) {
+            case 'rowCount':
+                return this.checkRowCount(expectation.text, result);
+            case 'table':
+                return this.checkTable(expectation.text, result);
+            case 'json':
+                return this.checkJson(expectation.text, result);
+        }
+    }
+
+    /**
+     * Formats a result as the text of an expectation, used to update snapshots
+     */
+    public static formatSnapshot(result: QueryResult, format: ExpectationFormat): string {
+        switch (format) {
+            case 'rowCount':
+                return `${this.getRowCount(result)} rows`;
+            case 'table': {
+                const rows = ResultExporter.toRows(result);
+                const columns = ResultExporter.getColumns(result, rows);
+                return (ResultExporter.formatHeader(columns, 'markdown') + ResultExporter.formatRows(rows, columns, 'markdown')).trimEnd();
+            }
+            case 'json':
+                return JSON.stringify(result.data, null, 2) ?? 'null';
+        }
+    }
+
+    /**
+     * Formats an `expected` block for Markdown or RST
+     */
+    public static formatExpectedBlock(snapshot: string, isRst: boolean): string {
+        if (isRst) {
+            const indented = snapshot.split('\n').map(line => line ? `   ${line}` : line).join('\n');
+            return `.. code-block:: expected\n\n${indented}`;
+        }
+        return '```expected\n' + snapshot + '\n```';
+    }
+
+    private static checkRowCount(text: string, result: QueryResult): AssertionOutcome {
+        const expectedCount = parseInt(text.trim().match(this.ROW_COUNT_REGEX)![1], 10);
+        const actualCount = this.getRowCount(result);
+        return {
+            passed: expectedCount === actualCount,
+            message: `Expected ${expectedCount} rows, got ${actualCount}`,
+            expected: `${expectedCount} rows`,
+            actual: `${actualCount} rows`
+        };
+    }
+
+    private static checkJson(text: string, result: QueryResult): AssertionOutcome {
+        const actual = this.stringifySorted(result.data);
+        let expectedValue: any;
+        try {
+            expectedValue = JSON.parse(text);
+        } catch (error: any) {
+            return { passed: false, message: `Expected result is not valid JSON: ${error.message}`, expected: text, actual };
+        }
+
+        const expected = this.stringifySorted(expectedValue);
+        return {
+            passed: expected === actual,
+            message: 'Result does not match the expected JSON',
+            expected,
+            actual
+        };
+    }
+
+    /**
+     * Compares the columns of the expected table with the same columns of the result,
+     * as text and in order
+     */
+    private static checkTable(text: string, result: QueryResult): AssertionOutcome {
+        const expected = this.parseTable(text);
+        if (!ResultExporter.canExport(result)) {
+            return { passed: false, message: 'Result has no rows to compare with the expected table', expected: text, actual: '' };
+        }
+
+        const rows = ResultExporter.toRows(result);
+        const available = new Set(ResultExporter.getColumns(result, rows));
+        const missing = expected.columns.filter(column => !available.has(column));
+        const actual = this.parseTable(ResultExporter.formatHeader(expected.columns, 'markdown') + ResultExporter.formatRows(rows, expected.columns, 'markdown'));
+        const outcome = { expected: this.formatTable(expected), actual: this.formatTable(actual) };
+
+        if (missing.length > 0) {
+            return { passed: false, message: `Result has no column ${missing.join(', ')}`, ...outcome };
+        }
+        if (expected.rows.length !== actual.rows.length) {
+            return { passed: false, message: `Expected ${expected.rows.length} rows, got ${actual.rows.length}`, ...outcome };
+        }
+        const differentRow = expected.rows.findIndex((row, index) => row.join('\u0000') !== actual.rows[index].join('\u0000'));
+        if (differentRow >= 0) {
+            return { passed: false, message: `Row ${differentRow + 1} differs from the expected table`, ...outcome };
+        }
+        return { passed: true, message: '', ...outcome };
+    }
+
+    private static parseTable(text: string): MarkdownTable {
+        const lines = text.split('\n').map(line => line.trim()).filter(line => line.startsWith('|'));
+        const [header, ...body] = lines.map(line => this.splitTableRow(line));
+        // The second line separates the header from the rows
+        const rows = body.filter(cells => !cells.every(cell => /^:?-+:?$/.test(cell)));
+        return { columns: header || [], rows };
+    }
+
+    private static splitTableRow(line: string): string[] {
+        return line
+            .replace(/^\|/, '')
+            .replace(/(?<!\\)\|$/, '')
+            .split(/(?<!\\)\|/)
+            .map(cell => cell.trim().replace(/\\\|/g, '|').replace(/<br>/g, '\n'));
+    }
+
+    private static formatTable(table: MarkdownTable): string {
+        const format = (cells: string[]) => '| ' + cells.map(cell => cell.replace(/\|/g, '\\|').replace(/\n/g, '<br>')).join(' | ') + ' |';
+        return [format(table.columns), ...table.rows.map(format)].join('\n');
+    }
+
+    private static getRowCount(result: QueryResult): number {
+        return result.rowCount ?? (Array.isArray(result.data) ? result.data.length : 0);
+    }
+
+    /**
+     * JSON with object keys sorted, so key order does not count as a difference
+     */
+    private static stringifySorted(value: any): string {
+        const sortKeys = (item: any): any => {
+            if (Array.isArray(item)) {
+                return item.map(sortKeys);
+            }
+            if (item && typeof item === 'object') {
+                return Object.fromEntries(Object.keys(item).sort().map(key => [key, sortKeys(item[key])]));
+            }
+            return item;
+        };
+        return JSON.stringify(sortKeys(value), null, 2) ?? 'null';
+    }
+}
@@ -1,6 +1,8 @@
 import { QueryResult } from '../types';
 import { HttpFormatter } from './httpFormatter';
 import { YamlConverter } from './yamlConverter';
+import { ResultGrid } from './resultGrid';
+import { ResultChart } from './resultChart';
 
 export interface TabConfig {
     id: string;
@@ -9,11 +11,18 @@ export interface TabConfig {
     active?: boolean;
 }
 
+export interface TabOptions {
+    // Show a "Load more" button that asks the extension for the next cursor page
+    canLoadMore?: boolean;
+    // Show an "Export" button next to "Copy Table"
+    canExport?: boolean;
+}
+
 export class TabContentGenerator {
     /**
      * Generates tab configuration for query results
      */
-    public static generateResultTabs(result: QueryResult, explainResult?: QueryResult): TabConfig[] {
+    public static generateResultTabs(result: QueryResult, explainResult?: QueryResult, options: TabOptions = {}): TabConfig[] {
         const tabs: TabConfig[] = [];
 
         if (!result.success) {
@@ -32,7 +41,7 @@ export class TabContentGenerator {
                 tabs.push({
                     id: 'table',
                     label: 'Table View',
-                    content: this.generateTableContent(result),
+                    content: this.generateTableContent(result, options.canExport) + (options.canLoadMore ? this.generateLoadMoreContent(result) : ''),
                     active: true
                 });
 
@@ -42,6 +51,17 @@ export class TabContentGenerator {
                     label: 'Text View',
                     content: this.generateTextContent(result)
                 });
+
+                // Add chart tab when there is a numeric column to plot
+                const chartData = ResultChart.buildChartData(result);
+                if (chartData) {
+                    const chartId = `chart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+                    tabs.push({
+                        id: 'chart',
+                        label: 'Chart',
+                        content: ResultChart.generateHtml(chartId, chartData)
+                    });
+                }
             }
 
             // Always add JSON view
@@ -99,8 +119,21 @@ export class TabContentGenerator {
         `;
     }
 
-    private static generateTableContent(result: QueryResult): string {
-        return this.generateHtmlTable(result.data, result.columns, result.rawResponse?.schema);
+    private static generateTableContent(result: QueryResult, canExport?: boolean): string {
+        return this.generateHtmlTable(result.data, result.columns, result.rawResponse?.schema, canExport);
+    }
+
+    private static generateLoadMoreContent(result: QueryResult): string {
+        const total = result.rawResponse?.total;
+        const fetched = Array.isArray(result.data) ? result.data.length : 0;
+        const buttonId = `load-more-${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+        return `
+            <div class="load-more-container">
+                <span>${typeof total === 'number' && total >= fetched ? `${fetched} of ${total} rows loaded` : `${fetched} rows loaded`}</span>
+                <button id="${buttonId}" class="copy-btn" onclick="loadMore('${buttonId}')">Load more</button>
+            </div>
+        `;
     }
 
     private static generateTextContent(result: QueryResult): string {
@@ -212,6 +245,7 @@ export class TabContentGenerator {
             // Remove request/response metadata if present
             delete cleanData.requestInfo;
             delete cleanData.responseInfo;
+            delete cleanData.attempts;
             
             return cleanData;
         }
@@ -220,14 +254,14 @@ export class TabContentGenerator {
         return explainResult.data;
     }
 
-    private static generateHtmlTable(data: any[], columns?: string[], schema?: Array<{name: string, type: string}>): string {
+    private static generateHtmlTable(data: any[], columns?: string[], schema?: Array<{name: string, type: string}>, canExport?: boolean): string {
         if (!data || data.length === 0) {
             return '<p>No results found</p>';
         }
 
-        // Generate unique ID for this table
-        const tableId = `table_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const copyButtonId = `copy-table-${tableId}`;
+        // Generate unique ID for this grid
+        const gridId = `grid_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const copyButtonId = `copy-table-${gridId}`;
 
         // Determine columns to display
         let displayColumns: string[];
@@ -238,48 +272,16 @@ export class TabContentGenerator {
             displayColumns = Object.keys(firstRow);
         }
 
-        // Create a map of column names to types for quick lookup
-        const columnTypeMap = new Map<string, string>();
-        if (schema) {
-            schema.forEach(col => {
-                columnTypeMap.set(col.name, col.type);
-            });
-        }
-
-        // Create table container with copy button
+        // Create grid container with copy button
         let tableContainer = `<div class="table-container">`;
         tableContainer += `<div class="table-copy-header">`;
-        tableContainer += `<button id="${copyButtonId}" class="copy-btn" onclick="copyToClipboard('${tableId}', '${copyButtonId}')">Copy Table</button>`;
+        if (canExport) {
+            tableContainer += `<button class="copy-btn" onclick="exportResults()" title="Export to CSV, TSV, NDJSON or Markdown">Export...</button> `;
+        }
+        tableContainer += `<button id="${copyButtonId}" class="copy-btn" onclick="copyToClipboard('${gridId}', '${copyButtonId}')">Copy Table</button>`;
         tableContainer += `</div>`;
-
-        // Create table with row number column
-        let table = `<table id="${tableId}"><thead><tr>`;
-        table += '<th class="row-number-header">#</th>'; // Row number header
-        displayColumns.forEach(col => {
-            const columnType = columnTypeMap.get(col);
-            const tooltip = columnType ? ` title="Type: ${columnType}"` : '';
-            table += `<th${tooltip}>${col}</th>`;
-        });
-        table += '</tr></thead><tbody>';
-
-        // Add data rows with row numbers
-        data.forEach((row, index) => {
-            table += '<tr>';
-            table += `<td class="row-number">${index + 1}</td>`; // Row number (1-based)
-            displayColumns.forEach(col => {
-                let value = this.getNestedValue(row, col);
-                if (value === null || value === undefined) {
-                    value = '';
-                } else if (typeof value === 'object') {
-                    value = JSON.stringify(value);
-                }
-                table += `<td>${String(value)}</td>`;
-            });
-            table += '</tr>';
-        });
-
-        table += '</tbody></table>';
-        tableContainer += table + '</div>';
+        tableContainer += ResultGrid.generateHtml(gridId, ResultGrid.buildGridData(data, displayColumns, schema));
+        tableContainer += '</div>';
         return tableContainer;
     }
 
@@ -446,6 +448,10 @@ Check the Raw Request and Raw Response tabs for more information.</pre>
     }
 
     private static getNestedValue(obj: any, path: string): any {
+        // Exact keys first, e.g. the "stats.avg" columns of aggregation rows
+        if (obj && obj[path] !== undefined) {
+            return obj[path];
+        }
         return path.split('.').reduce((current, key) => {
             return current && current[key] !== undefined ? current[key] : undefined;
         }, obj);
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as https from 'https';
+import * as os from 'os';
+import { TlsOptions } from '../types';
+
+export class TlsAgentFactory {
+    /**
+     * Creates an https.Agent for the given TLS options, or undefined when Node defaults apply
+     */
+    public static createAgent(tls?: TlsOptions): https.Agent | undefined {
+        if (!tls || !this.hasTlsOptions(tls)) {
+            return undefined;
+        }
+
+        return new https.Agent(this.createAgentOptions(tls));
+    }
+
+    /**
+     * Agent options for the given TLS options, for agents that connect differently (see ProxyAgentFactory)
+     */
+    public static createAgentOptions(tls?: TlsOptions): https.AgentOptions {
+        return {
+            ca: tls?.caFile ? this.readFile(tls.caFile, 'CA file') : undefined,
+            cert: tls?.certFile ? this.readFile(tls.certFile, 'client certificate') : undefined,
+            key: tls?.keyFile ? this.readFile(tls.keyFile, 'client key') : undefined,
+            rejectUnauthorized: tls?.rejectUnauthorized !== false
+        };
+    }
+
+    /**
+     * Checks whether any TLS option differs from Node defaults
+     */
+    public static hasTlsOptions(tls: TlsOptions): boolean {
+        return !!(tls.caFile || tls.certFile || tls.keyFile || tls.rejectUnauthorized === false);
+    }
+
+    /**
+     * Reads a PEM file, expanding a leading `~` to the home directory
+     */
+    private static readFile(filePath: string, description: string): Buffer {
+        const resolvedPath = filePath.replace(/^~(?=$|[\\/])/, os.homedir());
+        try {
+            return fs.readFileSync(resolvedPath);
+        } catch (error: any) {
+            throw new Error(`Unable to read TLS ${description} "${filePath}": ${error.message}`);
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import { QueryResult, ConnectionOverrides, QueryType } from '../types';
-import { DocumentParser } from '../documentParser';
+import { BaseParser } from '../parsers/baseParser';
+import { PplLanguage } from './pplLanguage';
 
 export interface ValidationContext {
     query: string;
@@ -19,6 +20,17 @@ export interface ValidationResult {
     error?: string;
 }
 
+/**
+ * A problem found in a query, published as an editor diagnostic
+ */
+export interface ValidationIssue {
+    severity: 'error' | 'warning';
+    message: string;
+    // Position within the query; the issue covers the whole block when missing
+    offset?: number;
+    length?: number;
+}
+
 export class ValidationPipeline {
     private static readonly COMMON_RULES: ValidationRule[] = [
         {
@@ -87,6 +99,39 @@ export class ValidationPipeline {
         return this.validateQuery(context);
     }
 
+    /**
+     * Collects the problems of a query block without stopping at the first one. Failed
+     * validation rules are errors; suspicious content and unknown PPL commands are warnings.
+     */
+    public static collectIssues(
+        query: string,
+        queryType: QueryType,
+        metadata?: any,
+        connectionOverrides?: ConnectionOverrides
+    ): ValidationIssue[] {
+        const blockingError = this.validateQueryBlock(query, queryType, metadata, connectionOverrides);
+        if (blockingError) {
+            return [{ severity: 'error', message: blockingError.error! }];
+        }
+
+        const issues: ValidationIssue[] = [];
+        const content = this.validateQueryContent(query, queryType);
+        if (!content.valid) {
+            issues.push({ severity: 'warning', message: content.error! });
+        }
+        if (queryType === QueryType.PPL) {
+            for (const command of PplLanguage.findUnknownCommands(query)) {
+                issues.push({
+                    severity: 'warning',
+                    message: `Unknown PPL command: ${command.name}`,
+                    offset: command.offset,
+                    length: command.name.length
+                });
+            }
+        }
+        return issues;
+    }
+
     /**
      * Runs a set of validation rules against a context
      */
@@ -113,7 +158,7 @@ export class ValidationPipeline {
             return { valid: true };
         }
 
-        const validation = DocumentParser.validateConnectionOverrides(context.connectionOverrides);
+        const validation = BaseParser.validateConnectionOverrides(context.connectionOverrides);
         return {
             valid: validation.valid,
             error: validation.valid ? undefined : `Connection override error: ${validation.error}`
@@ -124,7 +169,7 @@ export class ValidationPipeline {
      * Validates query syntax and structure
      */
     private static validateQuerySyntax(context: ValidationContext): ValidationResult {
-        const validation = DocumentParser.validateQuery(context.query, context.queryType, context.metadata);
+        const validation = BaseParser.validateQuery(context.query, context.queryType, context.metadata);
         return {
             valid: validation.valid,
             error: validation.error
@@ -244,7 +289,7 @@ export class ValidationPipeline {
         const trimmedQuery = query.trim();
         
         // PPL queries typically start with 'source=' or 'search'
-        if (!trimmedQuery.startsWith('source=') && !trimmedQuery.toLowerCase().startsWith('search')) {
+        if (!/^source\s*=/i.test(trimmedQuery) && !trimmedQuery.toLowerCase().startsWith('search')) {
             return {
                 valid: false,
                 error: 'PPL query must start with "source=" or "search"'
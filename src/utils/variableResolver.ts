@@ -0,0 +1,92 @@
+import { ConnectionOverrides } from '../types';
+
+/**
+ * Substitutes REST Client style `{{name}}` references with document and environment variables
+ */
+export class VariableResolver {
+    private static readonly VARIABLE_REFERENCE_REGEX = /\{\{\s*([\w.$[\]'-]+)\s*\}\}/g;
+
+    /**
+     * Replaces every reference to a defined variable. References to undefined
+     * variables are left untouched so that search template placeholders survive.
+     */
+    public static substitute(text: string, variables: Record<string, string>): string;
+    public static substitute(text: string | undefined, variables: Record<string, string>): string | undefined;
+    public static substitute(text: string | undefined, variables: Record<string, string>): string | undefined {
+        if (!text) {
+            return text;
+        }
+
+        return text.replace(this.VARIABLE_REFERENCE_REGEX, (reference, name: string) =>
+            Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : reference
+        );
+    }
+
+    /**
+     * Lists the variable names referenced in a text, in order of appearance
+     */
+    public static findReferences(text: string): string[] {
+        const names: string[] = [];
+        for (const match of text.matchAll(this.VARIABLE_REFERENCE_REGEX)) {
+            if (!names.includes(match[1])) {
+                names.push(match[1]);
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Substitutes variables in the string settings of connection overrides
+     */
+    public static substituteOverrides(
+        overrides: ConnectionOverrides | undefined,
+        variables: Record<string, string>
+    ): ConnectionOverrides | undefined {
+        if (!overrides) {
+            return overrides;
+        }
+
+        const result: ConnectionOverrides = {
+            ...overrides,
+            endpoint: this.substitute(overrides.endpoint, variables)
+        };
+
+        if (overrides.auth) {
+            result.auth = { ...overrides.auth };
+            for (const key of [
+                'username', 'password', 'apiKey', 'region', 'awsProfile', 'accessKeyId', 'secretAccessKey', 'sessionToken',
+                'token', 'tokenEndpoint', 'deviceAuthorizationEndpoint', 'clientId', 'clientSecret', 'scope'
+            ] as const) {
+                result.auth[key] = this.substitute(overrides.auth[key], variables);
+            }
+        }
+
+        if (overrides.tls) {
+            result.tls = {
+                ...overrides.tls,
+                caFile: this.substitute(overrides.tls.caFile, variables),
+                certFile: this.substitute(overrides.tls.certFile, variables),
+                keyFile: this.substitute(overrides.tls.keyFile, variables)
+            };
+        }
+
+        if (overrides.proxy) {
+            result.proxy = {
+                ...overrides.proxy,
+                url: this.substitute(overrides.proxy.url, variables),
+                username: this.substitute(overrides.proxy.username, variables),
+                password: this.substitute(overrides.proxy.password, variables),
+                noProxy: this.substitute(overrides.proxy.noProxy, variables)
+            };
+        }
+
+        if (overrides.nodes?.urls) {
+            result.nodes = {
+                ...overrides.nodes,
+                urls: overrides.nodes.urls.map(url => this.substitute(url, variables))
+            };
+        }
+
+        return result;
+    }
+}
@@ -1,3 +1,6 @@
+import { ResultGrid } from './resultGrid';
+import { ResultChart } from './resultChart';
+
 /**
  * Shared CSS and JavaScript utilities for webview components
  */
@@ -88,6 +91,9 @@ export class WebviewStyles {
                     gap: 4px;
                     flex-wrap: wrap;
                 }
+                .history-compare-btn {
+                    margin-left: auto;
+                }
                 .history-square {
                     width: 21px;
                     height: 21px;
@@ -345,6 +351,15 @@ export class WebviewStyles {
                     right: 0;
                     z-index: 10;
                 }
+                .load-more-container {
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    gap: 10px;
+                    margin: 10px 0;
+                    color: var(--vscode-descriptionForeground);
+                    font-size: 0.9em;
+                }
                 .text-container {
                     position: relative;
                     margin-top: 10px;
@@ -374,6 +389,8 @@ export class WebviewStyles {
                     word-wrap: normal;
                     overflow-wrap: normal;
                 }
+                ${ResultGrid.getCSS()}
+                ${ResultChart.getCSS()}
         `;
     }
 
@@ -405,6 +422,12 @@ export class WebviewStyles {
                     });
                 }
 
+                function compareHistory() {
+                    vscode.postMessage({
+                        command: 'compareHistory'
+                    });
+                }
+
                 function deleteCurrentHistory() {
                     const selectedSquare = document.querySelector('.history-square.selected');
                     if (selectedSquare) {
@@ -416,6 +439,23 @@ export class WebviewStyles {
                     }
                 }
 
+                function loadMore(buttonId) {
+                    const button = document.getElementById(buttonId);
+                    if (button) {
+                        button.disabled = true;
+                        button.textContent = 'Loading...';
+                    }
+                    vscode.postMessage({
+                        command: 'loadMore'
+                    });
+                }
+
+                function exportResults() {
+                    vscode.postMessage({
+                        command: 'exportResults'
+                    });
+                }
+
                 function toggleFormat(containerId) {
                     const jsonContainer = document.getElementById('json-' + containerId);
                     const yamlContainer = document.getElementById('yaml-' + containerId);
@@ -451,7 +491,10 @@ export class WebviewStyles {
                     let textToCopy = '';
                     
                     // Handle different element types
-                    if (element.tagName === 'TABLE') {
+                    if (element.classList.contains('result-grid')) {
+                        // Copies the visible columns of the filtered and sorted rows
+                        textToCopy = gridToText(elementId);
+                    } else if (element.tagName === 'TABLE') {
                         textToCopy = tableToText(element);
                     } else if (element.tagName === 'PRE' || element.classList.contains('json-container') || element.classList.contains('yaml-container')) {
                         textToCopy = element.textContent || element.innerText;
@@ -555,6 +598,9 @@ export class WebviewStyles {
                     return text;
                 }
 
+                ${ResultGrid.getJavaScript()}
+                ${ResultChart.getJavaScript()}
+
                 // Initialize all conversion buttons on page load
                 document.addEventListener('DOMContentLoaded', function() {
                     // Find all conversion buttons and ensure they're properly initialized
@@ -1,5 +1,6 @@
 import * as yaml from 'js-yaml';
 import { JsonUtils } from './jsonUtils';
+import { HtmlUtils } from './htmlUtils';
 
 export class YamlConverter {
 
@@ -52,8 +53,8 @@ export class YamlConverter {
         const buttonClass = hasValidJson ? 'convert-btn' : 'convert-btn disabled';
 
         // For JSON content that's already safe (like JSON.stringify output), we can skip escaping
-        const jsonDisplay = skipEscaping ? jsonContent : this.escapeHtml(jsonContent);
-        const yamlDisplay = skipEscaping ? yamlContent : this.escapeHtml(yamlContent);
+        const jsonDisplay = skipEscaping ? jsonContent : HtmlUtils.escapeHtml(jsonContent);
+        const yamlDisplay = skipEscaping ? yamlContent : HtmlUtils.escapeHtml(yamlContent);
 
         return `
             <div class="content-with-conversion">
@@ -79,16 +80,4 @@ export class YamlConverter {
             </div>
         `;
     }
-
-    /**
-     * Escapes HTML characters to prevent XSS
-     */
-    private static escapeHtml(text: string): string {
-        return text
-            .replace(/&/g, '&amp;')
-            .replace(/</g, '&lt;')
-            .replace(/>/g, '&gt;')
-            .replace(/"/g, '&quot;')
-            .replace(/'/g, '&#39;');
-    }
 }